@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "public"."BacktestStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."Backtest" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "finalEquity" DOUBLE PRECISION,
+ADD COLUMN     "initialCapital" DOUBLE PRECISION NOT NULL DEFAULT 1000,
+ADD COLUMN     "status" "public"."BacktestStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "trades" JSONB;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."BotState" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "isRunning" BOOLEAN NOT NULL DEFAULT false,
+    "config" JSONB NOT NULL,
+    "lastSignalId" TEXT,
+    "lastSignalAt" TIMESTAMP(3),
+    "pendingOrders" JSONB,
+    "stats" JSONB,
+    "startedAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "stopReason" TEXT,
+    "lastCheckpointAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BotState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BotState_userId_key" ON "public"."BotState"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."BotState" ADD CONSTRAINT "BotState_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
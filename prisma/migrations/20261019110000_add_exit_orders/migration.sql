@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."ExitOrderType" AS ENUM ('TAKE_PROFIT', 'STOP_LOSS');
+
+-- CreateEnum
+CREATE TYPE "public"."ExitOrderStatus" AS ENUM ('ACTIVE', 'FILLED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."ExitOrder" (
+    "id" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "entryTradeId" TEXT,
+    "type" "public"."ExitOrderType" NOT NULL,
+    "status" "public"."ExitOrderStatus" NOT NULL DEFAULT 'ACTIVE',
+    "level" INTEGER NOT NULL DEFAULT 0,
+    "triggerPrice" DOUBLE PRECISION NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "trailing" BOOLEAN NOT NULL DEFAULT false,
+    "trailDistance" DOUBLE PRECISION,
+    "highWaterMark" DOUBLE PRECISION,
+    "breakEven" BOOLEAN NOT NULL DEFAULT false,
+    "tradeId" TEXT,
+    "filledAt" TIMESTAMP(3),
+    "filledPrice" DOUBLE PRECISION,
+    "filledAmount" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExitOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExitOrder_tradeId_key" ON "public"."ExitOrder"("tradeId");
+
+-- CreateIndex
+CREATE INDEX "ExitOrder_positionId_status_idx" ON "public"."ExitOrder"("positionId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."ExitOrder" ADD CONSTRAINT "ExitOrder_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "public"."Position"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ExitOrder" ADD CONSTRAINT "ExitOrder_tradeId_fkey" FOREIGN KEY ("tradeId") REFERENCES "public"."Trade"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."EquitySnapshotReason" AS ENUM ('TRADE', 'SCHEDULED');
+
+-- AlterTable
+ALTER TABLE "public"."RiskMetrics" ADD COLUMN     "portfolioId" TEXT,
+ADD COLUMN     "maxDrawdown" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sharpeRatio" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sortinoRatio" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."EquitySnapshot" (
+    "id" TEXT NOT NULL,
+    "portfolioId" TEXT NOT NULL,
+    "equity" DOUBLE PRECISION NOT NULL,
+    "cash" DOUBLE PRECISION NOT NULL,
+    "positionValue" DOUBLE PRECISION NOT NULL,
+    "realizedPnl" DOUBLE PRECISION NOT NULL,
+    "unrealizedPnl" DOUBLE PRECISION NOT NULL,
+    "peakEquity" DOUBLE PRECISION NOT NULL,
+    "drawdown" DOUBLE PRECISION NOT NULL,
+    "reason" "public"."EquitySnapshotReason" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EquitySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EquitySnapshot_portfolioId_createdAt_idx" ON "public"."EquitySnapshot"("portfolioId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RiskMetrics_portfolioId_date_key" ON "public"."RiskMetrics"("portfolioId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."EquitySnapshot" ADD CONSTRAINT "EquitySnapshot_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "public"."Portfolio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RiskMetrics" ADD CONSTRAINT "RiskMetrics_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "public"."Portfolio"("id") ON DELETE CASCADE ON UPDATE CASCADE;
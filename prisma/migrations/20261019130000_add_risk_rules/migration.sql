@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."RiskRuleType" AS ENUM ('DAILY_LOSS', 'DRAWDOWN', 'TOTAL_EXPOSURE', 'POSITION_SIZE', 'TOKEN_CONCENTRATION', 'OPEN_POSITIONS', 'CONSECUTIVE_LOSSES', 'DAILY_TRADES');
+
+-- CreateEnum
+CREATE TYPE "public"."RiskRuleAction" AS ENUM ('BLOCK', 'REDUCE_SIZE', 'ALERT');
+
+-- CreateTable
+CREATE TABLE "public"."RiskRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "public"."RiskRuleType" NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "action" "public"."RiskRuleAction" NOT NULL DEFAULT 'BLOCK',
+    "sizeReduction" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "triggerCount" INTEGER NOT NULL DEFAULT 0,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "lastBlockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RiskRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RiskRule_userId_idx" ON "public"."RiskRule"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RiskRule" ADD CONSTRAINT "RiskRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."BlacklistType" AS ENUM ('TOKEN', 'DEPLOYER');
+
+-- CreateEnum
+CREATE TYPE "public"."BlacklistSource" AS ENUM ('MANUAL', 'IMPORT', 'RUG_DETECTION');
+
+-- DropIndex
+DROP INDEX "public"."Blacklist_address_key";
+
+-- AlterTable
+ALTER TABLE "public"."Blacklist" ADD COLUMN     "type" "public"."BlacklistType" NOT NULL DEFAULT 'TOKEN',
+ADD COLUMN     "userId" TEXT,
+ADD COLUMN     "source" "public"."BlacklistSource" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Blacklist_userId_idx" ON "public"."Blacklist"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Blacklist_address_userId_key" ON "public"."Blacklist"("address", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Blacklist" ADD CONSTRAINT "Blacklist_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
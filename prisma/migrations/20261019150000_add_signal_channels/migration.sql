@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."Signal" ADD COLUMN     "channelId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."SignalChannel" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" "public"."SignalSource" NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "parserTemplate" TEXT NOT NULL DEFAULT 'generic',
+    "parserConfig" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastMessageAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SignalChannel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SignalChannel_source_isActive_idx" ON "public"."SignalChannel"("source", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignalChannel_userId_source_externalId_key" ON "public"."SignalChannel"("userId", "source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "Signal_channelId_tokenAddress_createdAt_idx" ON "public"."Signal"("channelId", "tokenAddress", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Signal_channelId_sourceId_key" ON "public"."Signal"("channelId", "sourceId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Signal" ADD CONSTRAINT "Signal_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "public"."SignalChannel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SignalChannel" ADD CONSTRAINT "SignalChannel_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."UserSettings" ADD COLUMN     "discordBotToken" TEXT;
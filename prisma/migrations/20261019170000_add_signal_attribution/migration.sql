@@ -0,0 +1,87 @@
+-- AlterTable
+ALTER TABLE "public"."Signal" ADD COLUMN     "caller" TEXT,
+ADD COLUMN     "callerId" TEXT,
+ADD COLUMN     "feed" TEXT,
+ADD COLUMN     "postedAt" TIMESTAMP(3),
+ADD COLUMN     "userId" TEXT;
+
+-- Backfill signal owners from channels and from the trades taken on them
+UPDATE "public"."Signal" s SET "userId" = c."userId"
+FROM "public"."SignalChannel" c
+WHERE s."channelId" = c."id" AND s."userId" IS NULL;
+
+UPDATE "public"."Signal" s SET "userId" = t."userId"
+FROM "public"."Trade" t
+WHERE t."signalId" = s."id" AND s."userId" IS NULL;
+
+-- CreateTable
+CREATE TABLE "public"."SignalOutcome" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "signalId" TEXT NOT NULL,
+    "entryTradeId" TEXT NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "channelId" TEXT,
+    "caller" TEXT,
+    "tokenAddress" TEXT NOT NULL,
+    "tradingMode" "public"."TradingMode" NOT NULL,
+    "entryPrice" DOUBLE PRECISION NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "openQuantity" DOUBLE PRECISION NOT NULL,
+    "realizedPnl" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER,
+    "peakPrice" DOUBLE PRECISION NOT NULL,
+    "peakAt" TIMESTAMP(3) NOT NULL,
+    "trackUntil" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SignalOutcome_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DisabledSignalSource" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "winRate" DOUBLE PRECISION,
+    "closedTrades" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisabledSignalSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Signal_userId_createdAt_idx" ON "public"."Signal"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignalOutcome_entryTradeId_key" ON "public"."SignalOutcome"("entryTradeId");
+
+-- CreateIndex
+CREATE INDEX "SignalOutcome_userId_createdAt_idx" ON "public"."SignalOutcome"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SignalOutcome_userId_tokenAddress_tradingMode_closedAt_idx" ON "public"."SignalOutcome"("userId", "tokenAddress", "tradingMode", "closedAt");
+
+-- CreateIndex
+CREATE INDEX "SignalOutcome_trackUntil_idx" ON "public"."SignalOutcome"("trackUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DisabledSignalSource_userId_sourceKey_key" ON "public"."DisabledSignalSource"("userId", "sourceKey");
+
+-- AddForeignKey
+ALTER TABLE "public"."Signal" ADD CONSTRAINT "Signal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SignalOutcome" ADD CONSTRAINT "SignalOutcome_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SignalOutcome" ADD CONSTRAINT "SignalOutcome_signalId_fkey" FOREIGN KEY ("signalId") REFERENCES "public"."Signal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SignalOutcome" ADD CONSTRAINT "SignalOutcome_entryTradeId_fkey" FOREIGN KEY ("entryTradeId") REFERENCES "public"."Trade"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DisabledSignalSource" ADD CONSTRAINT "DisabledSignalSource_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."CopySizingMode" AS ENUM ('FIXED', 'PROPORTIONAL', 'CAPPED');
+
+-- AlterTable
+ALTER TABLE "public"."Trade" ADD COLUMN     "leaderWalletId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."LeaderWallet" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "sizingMode" "public"."CopySizingMode" NOT NULL DEFAULT 'FIXED',
+    "fixedAmount" DOUBLE PRECISION,
+    "ratio" DOUBLE PRECISION,
+    "maxAmount" DOUBLE PRECISION,
+    "delayMs" INTEGER NOT NULL DEFAULT 0,
+    "filters" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastCopiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaderWallet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaderWallet_address_isActive_idx" ON "public"."LeaderWallet"("address", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaderWallet_userId_address_key" ON "public"."LeaderWallet"("userId", "address");
+
+-- CreateIndex
+CREATE INDEX "Trade_leaderWalletId_idx" ON "public"."Trade"("leaderWalletId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaderWallet" ADD CONSTRAINT "LeaderWallet_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Trade" ADD CONSTRAINT "Trade_leaderWalletId_fkey" FOREIGN KEY ("leaderWalletId") REFERENCES "public"."LeaderWallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
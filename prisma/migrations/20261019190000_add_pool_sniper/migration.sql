@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."TradingSettings" ADD COLUMN     "sniperBuyAmount" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+ADD COLUMN     "sniperEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sniperMaxEntryDelayMs" INTEGER NOT NULL DEFAULT 10000,
+ADD COLUMN     "sniperMinLiquidity" DOUBLE PRECISION NOT NULL DEFAULT 5000;
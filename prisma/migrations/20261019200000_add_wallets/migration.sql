@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."WalletRole" AS ENUM ('TRADING', 'VAULT', 'BURNER');
+
+-- AlterTable
+ALTER TABLE "public"."Strategy" ADD COLUMN     "walletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Trade" ADD COLUMN     "walletId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Wallet" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "encryptedSecret" TEXT NOT NULL,
+    "role" "public"."WalletRole" NOT NULL DEFAULT 'TRADING',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Wallet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Wallet_userId_role_idx" ON "public"."Wallet"("userId", "role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wallet_userId_publicKey_key" ON "public"."Wallet"("userId", "publicKey");
+
+-- CreateIndex
+CREATE INDEX "Trade_walletId_idx" ON "public"."Trade"("walletId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Strategy" ADD CONSTRAINT "Strategy_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "public"."Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Wallet" ADD CONSTRAINT "Wallet_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Trade" ADD CONSTRAINT "Trade_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "public"."Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."Wallet" ADD COLUMN     "allowedPrograms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "dailySpendCapSol" DOUBLE PRECISION,
+ADD COLUMN     "maxSolPerTransaction" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "public"."WalletSignature" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "signature" TEXT,
+    "spendSol" DOUBLE PRECISION NOT NULL,
+    "programs" TEXT[],
+    "approved" BOOLEAN NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletSignature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletSignature_walletId_createdAt_idx" ON "public"."WalletSignature"("walletId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."WalletSignature" ADD CONSTRAINT "WalletSignature_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "public"."Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
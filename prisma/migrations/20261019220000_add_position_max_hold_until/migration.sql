@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Position" ADD COLUMN     "maxHoldUntil" TIMESTAMP(3);
@@ -12,6 +12,7 @@ import {
   ArrowUpRight,
   ArrowDownRight
 } from 'lucide-react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
 
 interface Portfolio {
   id: string;
@@ -22,6 +23,15 @@ interface Portfolio {
   winningTrades: number;
   winRate: number;
   tradingMode: string;
+  equitySeries: EquityPoint[];
+}
+
+interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  cash: number;
+  positionValue: number;
+  drawdown: number;
 }
 
 interface Position {
@@ -62,7 +72,7 @@ export default function PortfolioPage() {
   const fetchPortfolioData = async () => {
     try {
       const [portfolioRes, positionsRes, tradesRes] = await Promise.all([
-        fetch('/api/portfolio'),
+        fetch(`/api/portfolio?timeframe=${timeframe}`),
         fetch('/api/portfolio/positions'),
         fetch(`/api/portfolio/trades?timeframe=${timeframe}`)
       ]);
@@ -330,12 +340,41 @@ export default function PortfolioPage() {
         </div>
       </div>
 
-      {/* Performance Chart Placeholder */}
+      {/* Performance Chart */}
       <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
         <h3 className="text-xl font-semibold text-white mb-6">Portfolio Performance</h3>
-        <div className="h-64 bg-gray-800 rounded-lg flex items-center justify-center">
-          <p className="text-gray-400">Performance chart will be implemented here</p>
-        </div>
+        {portfolio?.equitySeries?.length ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={portfolio.equitySeries}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis
+                  dataKey="timestamp"
+                  tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                  stroke="#6b7280"
+                  fontSize={12}
+                />
+                <YAxis
+                  domain={['auto', 'auto']}
+                  tickFormatter={(value) => `$${Number(value).toFixed(0)}`}
+                  stroke="#6b7280"
+                  fontSize={12}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151' }}
+                  labelFormatter={(value) => new Date(String(value)).toLocaleString()}
+                  formatter={(value) => `$${Number(value).toFixed(2)}`}
+                />
+                <Area type="monotone" dataKey="equity" name="Equity" stroke="#10b981" fill="#10b981" fillOpacity={0.15} />
+                <Area type="monotone" dataKey="positionValue" name="Positions" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.1} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="h-64 bg-gray-800 rounded-lg flex items-center justify-center">
+            <p className="text-gray-400">No equity history in selected timeframe</p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Shield, AlertTriangle, TrendingDown, DollarSign, BarChart3, RefreshCw } from 'lucide-react';
+import { Shield, AlertTriangle, TrendingDown, DollarSign, BarChart3, RefreshCw, OctagonX } from 'lucide-react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import type { RiskRuleAction, RiskRuleType } from '@prisma/client';
+import { DEFAULT_RISK_RULES, formatRuleValue } from '@/lib/risk/rules';
+import type { KillSwitchReport } from '@/lib/trading/kill-switch';
 
 interface RiskMetrics {
   dailyRisk: number;
@@ -11,107 +15,204 @@ interface RiskMetrics {
   riskLevel: 'low' | 'medium' | 'high';
   var95: number; // Value at Risk 95%
   sharpeRatio: number;
+  sortinoRatio: number;
   maxDrawdown: number;
   winRate: number;
   avgPositionSize: number;
 }
 
+interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  positionValue: number;
+  drawdown: number;
+}
+
 interface RiskRule {
   id: string;
   name: string;
-  description: string;
+  description: string | null;
+  type: RiskRuleType;
+  action: RiskRuleAction;
   enabled: boolean;
   threshold: number;
   currentValue: number;
+  triggerCount: number;
+  lastTriggeredAt: string | null;
+  lastBlockedAt: string | null;
   status: 'ok' | 'warning' | 'danger';
 }
 
+const RULE_ACTION_LABELS: Record<RiskRuleAction, string> = {
+  BLOCK: 'Block',
+  REDUCE_SIZE: 'Reduce size',
+  ALERT: 'Alert'
+};
+
+const ruleStatus = (currentValue: number, threshold: number): RiskRule['status'] => {
+  const percentage = threshold > 0 ? (currentValue / threshold) * 100 : 100;
+  if (percentage > 90) return 'danger';
+  if (percentage > 70) return 'warning';
+  return 'ok';
+};
+
 export default function RiskPage() {
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics>({
-    dailyRisk: 2.3,
+    dailyRisk: 0,
     maxDailyRisk: 5.0,
-    portfolioValue: 50000,
-    totalExposure: 35000,
+    portfolioValue: 0,
+    totalExposure: 0,
     riskLevel: 'low',
-    var95: 2500,
-    sharpeRatio: 1.42,
-    maxDrawdown: 8.7,
-    winRate: 65.5,
-    avgPositionSize: 8.2
+    var95: 0,
+    sharpeRatio: 0,
+    sortinoRatio: 0,
+    maxDrawdown: 0,
+    winRate: 0,
+    avgPositionSize: 0
   });
+  const [equitySeries, setEquitySeries] = useState<EquityPoint[]>([]);
 
-  const [riskRules, setRiskRules] = useState<RiskRule[]>([
-    {
-      id: '1',
-      name: 'Daily Loss Limit',
-      description: 'Maximum daily loss percentage',
-      enabled: true,
-      threshold: 5.0,
-      currentValue: 2.3,
-      status: 'ok'
-    },
-    {
-      id: '2',
-      name: 'Position Size Limit',
-      description: 'Maximum position size as % of portfolio',
-      enabled: true,
-      threshold: 10.0,
-      currentValue: 8.2,
-      status: 'ok'
-    },
-    {
-      id: '3',
-      name: 'Total Exposure Limit',
-      description: 'Maximum total exposure percentage',
-      enabled: true,
-      threshold: 80.0,
-      currentValue: 70.0,
-      status: 'ok'
-    },
-    {
-      id: '4',
-      name: 'Consecutive Losses',
-      description: 'Maximum consecutive losing trades',
-      enabled: true,
-      threshold: 5,
-      currentValue: 2,
-      status: 'ok'
-    },
-    {
-      id: '5',
-      name: 'Drawdown Limit',
-      description: 'Maximum portfolio drawdown percentage',
-      enabled: true,
-      threshold: 15.0,
-      currentValue: 8.7,
-      status: 'warning'
-    }
-  ]);
+  const [riskRules, setRiskRules] = useState<RiskRule[]>([]);
+  const [rulesLoaded, setRulesLoaded] = useState(false);
 
   const [loading, setLoading] = useState(false);
+  const [killSwitchReport, setKillSwitchReport] = useState<KillSwitchReport | null>(null);
+  const [killSwitchSlippage, setKillSwitchSlippage] = useState(5);
+  const [killSwitchRunning, setKillSwitchRunning] = useState(false);
 
   useEffect(() => {
     fetchRiskData();
+    fetchRiskRules();
+    fetchKillSwitchReport();
   }, []);
 
+  const fetchKillSwitchReport = async () => {
+    try {
+      const response = await fetch('/api/trading/kill-switch');
+      if (!response.ok) {
+        throw new Error('Failed to fetch kill switch reports');
+      }
+      const reports: KillSwitchReport[] = await response.json();
+      setKillSwitchReport(reports[0] ?? null);
+    } catch (error) {
+      console.error('Error fetching kill switch reports:', error);
+    }
+  };
+
+  const activateKillSwitch = async () => {
+    if (!window.confirm('Stop trading and market-sell all open positions?')) return;
+
+    setKillSwitchRunning(true);
+    try {
+      const response = await fetch('/api/trading/kill-switch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maxSlippage: killSwitchSlippage / 100 })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to activate kill switch');
+      }
+      setKillSwitchReport(await response.json());
+      fetchRiskData();
+    } catch (error) {
+      console.error('Error activating kill switch:', error);
+    } finally {
+      setKillSwitchRunning(false);
+    }
+  };
+
+  const fetchRiskRules = async () => {
+    try {
+      const response = await fetch('/api/risk/rules');
+      if (!response.ok) {
+        throw new Error('Failed to fetch risk rules');
+      }
+
+      const rules: Omit<RiskRule, 'status'>[] = await response.json();
+      setRiskRules(rules.map(rule => {
+        const currentValue = Number((rule.currentValue ?? 0).toFixed(1));
+        return { ...rule, currentValue, status: ruleStatus(currentValue, rule.threshold) };
+      }));
+
+      const dailyLossRule = rules.find(rule => rule.type === 'DAILY_LOSS' && rule.enabled);
+      if (dailyLossRule) {
+        setRiskMetrics(prev => ({ ...prev, maxDailyRisk: dailyLossRule.threshold }));
+      }
+    } catch (error) {
+      console.error('Error fetching risk rules:', error);
+    } finally {
+      setRulesLoaded(true);
+    }
+  };
+
+  const toggleRule = async (rule: RiskRule) => {
+    setRiskRules(rules => rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r));
+
+    try {
+      const response = await fetch(`/api/risk/rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update risk rule');
+      }
+    } catch (error) {
+      console.error('Error updating risk rule:', error);
+      setRiskRules(rules => rules.map(r => r.id === rule.id ? { ...r, enabled: rule.enabled } : r));
+    }
+  };
+
+  const createDefaultRules = async () => {
+    try {
+      const response = await fetch('/api/risk/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(DEFAULT_RISK_RULES)
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create risk rules');
+      }
+      await fetchRiskRules();
+    } catch (error) {
+      console.error('Error creating risk rules:', error);
+    }
+  };
+
   const fetchRiskData = async () => {
     setLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Update risk rule statuses based on current values
-      const updatedRules = riskRules.map(rule => {
-        const percentage = (rule.currentValue / rule.threshold) * 100;
-        let status: 'ok' | 'warning' | 'danger' = 'ok';
-        
-        if (percentage > 90) status = 'danger';
-        else if (percentage > 70) status = 'warning';
-        
-        return { ...rule, status };
-      });
-      
-      setRiskRules(updatedRules);
+      const response = await fetch('/api/portfolio?timeframe=30d');
+      if (!response.ok) {
+        throw new Error('Failed to fetch portfolio');
+      }
+
+      const portfolio = await response.json();
+      const metrics = portfolio.equityMetrics;
+      const series: EquityPoint[] = portfolio.equitySeries || [];
+      const latest = series[series.length - 1];
+
+      const portfolioValue = metrics.currentEquity || portfolio.currentEquity;
+      const totalExposure = latest?.positionValue || 0;
+      const dailyRisk = Math.max(0, -metrics.dailyPnlPercentage);
+      const drawdown = metrics.drawdown * 100;
+      // One-day parametric VaR from the annualized volatility of daily returns
+      const var95 = portfolioValue * 1.645 * (metrics.volatility / Math.sqrt(365));
+
+      setEquitySeries(series);
+      setRiskMetrics(prev => ({
+        ...prev,
+        dailyRisk,
+        portfolioValue,
+        totalExposure,
+        riskLevel: drawdown >= 15 ? 'high' : drawdown >= 8 ? 'medium' : 'low',
+        var95: Math.round(var95),
+        sharpeRatio: Number(metrics.sharpeRatio.toFixed(2)),
+        sortinoRatio: Number(metrics.sortinoRatio.toFixed(2)),
+        maxDrawdown: Number((metrics.maxDrawdown * 100).toFixed(1)),
+        winRate: Number((portfolio.winRate * 100).toFixed(1))
+      }));
+
     } catch (error) {
       console.error('Error fetching risk data:', error);
     } finally {
@@ -141,15 +242,86 @@ export default function RiskPage() {
     <div className="space-y-6">
       {/* Header */}
       <div className="bg-gradient-to-r from-red-900/50 to-orange-900/50 rounded-xl border border-red-800/30 p-6">
-        <div className="flex items-center space-x-3">
-          <Shield className="h-8 w-8 text-red-400" />
-          <div>
-            <h1 className="text-2xl font-bold text-white">Risk Management</h1>
-            <p className="text-red-300">Monitor and control trading risks</p>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Shield className="h-8 w-8 text-red-400" />
+            <div>
+              <h1 className="text-2xl font-bold text-white">Risk Management</h1>
+              <p className="text-red-300">Monitor and control trading risks</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <label className="text-sm text-red-200 flex items-center space-x-2">
+              <span>Max slippage</span>
+              <input
+                type="number"
+                min={0.5}
+                max={50}
+                step={0.5}
+                value={killSwitchSlippage}
+                onChange={(e) => setKillSwitchSlippage(Number(e.target.value))}
+                className="w-16 bg-gray-900 border border-red-800 rounded px-2 py-1 text-white"
+              />
+              <span>%</span>
+            </label>
+            <button
+              onClick={activateKillSwitch}
+              disabled={killSwitchRunning}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 font-semibold disabled:opacity-50"
+            >
+              <OctagonX className="h-4 w-4" />
+              <span>{killSwitchRunning ? 'Closing positions...' : 'Kill Switch'}</span>
+            </button>
           </div>
         </div>
       </div>
 
+      {/* Kill Switch Report */}
+      {killSwitchReport && (
+        <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-red-800/50 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-white">Last Kill Switch</h2>
+            <span className="text-sm text-gray-400">{new Date(killSwitchReport.triggeredAt).toLocaleString()}</span>
+          </div>
+          <p className="text-red-300 text-sm">{killSwitchReport.reason}</p>
+          <p className="text-gray-400 text-sm mt-1">
+            Bot {killSwitchReport.botStopped ? 'stopped' : 'was not running'} · {killSwitchReport.cancelledTrades} pending trades and {killSwitchReport.cancelledExitOrders} exit orders cancelled · realized PnL ${killSwitchReport.realizedPnl.toFixed(2)}
+          </p>
+          {killSwitchReport.positions.length > 0 ? (
+            <table className="w-full mt-4 text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-2">Token</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2 text-right">Sold</th>
+                  <th className="py-2 text-right">Mark</th>
+                  <th className="py-2 text-right">Fill</th>
+                  <th className="py-2 text-right">PnL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {killSwitchReport.positions.map((position) => (
+                  <tr key={position.positionId} className="border-t border-gray-800 text-gray-300">
+                    <td className="py-2">{position.tokenSymbol || `${position.tokenAddress.slice(0, 6)}...`}</td>
+                    <td className={`py-2 ${position.status === 'CLOSED' ? 'text-green-400' : position.status === 'PARTIAL' ? 'text-yellow-400' : 'text-red-400'}`}>
+                      {position.status}
+                    </td>
+                    <td className="py-2 text-right">{position.soldQuantity.toFixed(4)} / {position.quantity.toFixed(4)}</td>
+                    <td className="py-2 text-right">${position.markPrice.toFixed(6)}</td>
+                    <td className="py-2 text-right">{position.fillPrice !== null ? `$${position.fillPrice.toFixed(6)}` : '-'}</td>
+                    <td className={`py-2 text-right ${position.realizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      ${position.realizedPnl.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-400 text-sm mt-4">No open positions to close</p>
+          )}
+        </div>
+      )}
+
       {/* Risk Overview */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-emerald-800/30 p-6">
@@ -224,7 +396,7 @@ export default function RiskPage() {
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-semibold text-white">Performance Metrics</h2>
           <button
-            onClick={fetchRiskData}
+            onClick={() => { fetchRiskData(); fetchRiskRules(); }}
             disabled={loading}
             className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 disabled:opacity-50"
           >
@@ -233,11 +405,15 @@ export default function RiskPage() {
           </button>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="text-center">
             <p className="text-gray-400 text-sm">Sharpe Ratio</p>
             <p className="text-3xl font-bold text-emerald-400">{riskMetrics.sharpeRatio}</p>
           </div>
+          <div className="text-center">
+            <p className="text-gray-400 text-sm">Sortino Ratio</p>
+            <p className="text-3xl font-bold text-emerald-400">{riskMetrics.sortinoRatio}</p>
+          </div>
           <div className="text-center">
             <p className="text-gray-400 text-sm">Max Drawdown</p>
             <p className="text-3xl font-bold text-red-400">{riskMetrics.maxDrawdown}%</p>
@@ -249,10 +425,51 @@ export default function RiskPage() {
         </div>
       </div>
 
+      {/* Drawdown Chart */}
+      <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-emerald-800/30 p-6">
+        <h2 className="text-xl font-semibold text-white mb-6">Drawdown (30d)</h2>
+        {equitySeries.length ? (
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={equitySeries.map(point => ({ ...point, drawdown: -point.drawdown * 100 }))}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis
+                  dataKey="timestamp"
+                  tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                  stroke="#6b7280"
+                  fontSize={12}
+                />
+                <YAxis tickFormatter={(value) => `${Number(value).toFixed(0)}%`} stroke="#6b7280" fontSize={12} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151' }}
+                  labelFormatter={(value) => new Date(String(value)).toLocaleString()}
+                  formatter={(value) => `${Number(value).toFixed(2)}%`}
+                />
+                <Area type="monotone" dataKey="drawdown" name="Drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.2} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-gray-400 text-center py-8">No equity history yet</p>
+        )}
+      </div>
+
       {/* Risk Rules */}
       <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-emerald-800/30 p-6">
         <h2 className="text-xl font-semibold text-white mb-6">Risk Rules & Limits</h2>
         
+        {rulesLoaded && riskRules.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-400 mb-4">No risk rules yet. Rules are enforced on every new entry.</p>
+            <button
+              onClick={createDefaultRules}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg"
+            >
+              Add default rules
+            </button>
+          </div>
+        )}
+
         <div className="space-y-4">
           {riskRules.map((rule) => (
             <div
@@ -270,31 +487,32 @@ export default function RiskPage() {
                     }`}>
                       {rule.status.toUpperCase()}
                     </span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-gray-800 text-gray-300">
+                      {RULE_ACTION_LABELS[rule.action]}
+                    </span>
                   </div>
                   <p className="text-gray-400 text-sm mt-1">{rule.description}</p>
                   <div className="flex items-center space-x-4 mt-2">
                     <span className="text-sm text-gray-300">
-                      Current: <strong>{rule.currentValue}</strong>
+                      Current: <strong>{formatRuleValue(rule.type, rule.currentValue)}</strong>
                     </span>
                     <span className="text-sm text-gray-300">
-                      Limit: <strong>{rule.threshold}</strong>
+                      Limit: <strong>{formatRuleValue(rule.type, rule.threshold)}</strong>
                     </span>
                     <span className="text-sm text-gray-300">
                       Usage: <strong>{((rule.currentValue / rule.threshold) * 100).toFixed(1)}%</strong>
                     </span>
                   </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Fired {rule.triggerCount} {rule.triggerCount === 1 ? 'time' : 'times'}
+                    {rule.lastBlockedAt && ` · last blocked a trade ${new Date(rule.lastBlockedAt).toLocaleString()}`}
+                  </p>
                 </div>
                 <div className="flex items-center">
                   <input
                     type="checkbox"
                     checked={rule.enabled}
-                    onChange={() => {
-                      setRiskRules(rules => 
-                        rules.map(r => 
-                          r.id === rule.id ? { ...r, enabled: !r.enabled } : r
-                        )
-                      );
-                    }}
+                    onChange={() => toggleRule(rule)}
                     className="rounded bg-gray-800 border-emerald-700 text-emerald-600 focus:ring-emerald-500"
                   />
                 </div>
@@ -16,6 +16,7 @@ import {
   Bell
 } from 'lucide-react';
 import SignalSourceConfiguration from '@/components/dashboard/signal-sources';
+import WalletManagement from '@/components/dashboard/wallets';
 
 interface UserSettings {
   emailNotifications: boolean;
@@ -24,7 +25,6 @@ interface UserSettings {
   dashboardTheme: 'dark' | 'light';
   timezone: string;
   hasSolanaRpcUrl: boolean;
-  hasTradingWalletPrivateKey: boolean;
   hasTelegramBotToken: boolean;
   hasDiscordWebhookUrl: boolean;
 }
@@ -42,7 +42,6 @@ interface TradingSettings {
 
 interface FormData {
   solanaRpcUrl: string;
-  tradingWalletPrivateKey: string;
   telegramBotToken: string;
   discordWebhookUrl: string;
   emailNotifications: boolean;
@@ -68,7 +67,6 @@ export default function SettingsPage() {
   });
   const [formData, setFormData] = useState<FormData>({
     solanaRpcUrl: '',
-    tradingWalletPrivateKey: '',
     telegramBotToken: '',
     discordWebhookUrl: '',
     emailNotifications: true,
@@ -80,7 +78,6 @@ export default function SettingsPage() {
   
   const [showSecrets, setShowSecrets] = useState({
     solanaRpcUrl: false,
-    tradingWalletPrivateKey: false,
     telegramBotToken: false,
     discordWebhookUrl: false,
   });
@@ -151,7 +148,6 @@ export default function SettingsPage() {
         setFormData(prev => ({
           ...prev,
           solanaRpcUrl: '',
-          tradingWalletPrivateKey: '',
           telegramBotToken: '',
           discordWebhookUrl: '',
         }));
@@ -485,41 +481,6 @@ export default function SettingsPage() {
                       </button>
                     </div>
                   </div>
-
-                  
-
-                  {/* Trading Wallet Private Key */}
-                  <div>
-                    <label className="block text-sm font-medium text-emerald-300 mb-2">
-                      Trading Wallet Private Key
-                      {settings?.hasTradingWalletPrivateKey && (
-                        <span className="ml-2 inline-flex items-center px-2 py-1 rounded text-xs bg-green-900/50 text-green-300">
-                          <CheckCircle className="h-3 w-3 mr-1" />
-                          Configured
-                        </span>
-                      )}
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showSecrets.tradingWalletPrivateKey ? 'text' : 'password'}
-                        value={formData.tradingWalletPrivateKey}
-                        onChange={(e) => handleInputChange('tradingWalletPrivateKey', e.target.value)}
-                        placeholder={settings?.hasTradingWalletPrivateKey ? 'Enter new key to update' : 'Enter your wallet private key'}
-                        className="w-full px-3 py-2 pr-10 bg-gray-800/70 border border-emerald-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => toggleSecret('tradingWalletPrivateKey')}
-                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                      >
-                        {showSecrets.tradingWalletPrivateKey ? (
-                          <EyeOff className="h-5 w-5 text-gray-400" />
-                        ) : (
-                          <Eye className="h-5 w-5 text-gray-400" />
-                        )}
-                      </button>
-                    </div>
-                  </div>
                 </div>
 
                 <div className="flex justify-end">
@@ -537,6 +498,10 @@ export default function SettingsPage() {
                   </button>
                 </div>
               </form>
+
+              <div className="mt-8 pt-6 border-t border-gray-700/50">
+                <WalletManagement />
+              </div>
             </div>
           )}
         </div>
@@ -11,7 +11,8 @@ import {
   TrendingDown,
   Target,
   Edit3,
-  Trash2
+  Trash2,
+  History
 } from 'lucide-react';
 
 interface Strategy {
@@ -23,10 +24,34 @@ interface Strategy {
   winRate: number;
   totalPnl: number;
   isActive: boolean;
+  walletId: string | null;
   createdAt: string;
   config: Record<string, unknown>;
 }
 
+interface WalletOption {
+  id: string;
+  label: string;
+  role: 'TRADING' | 'VAULT' | 'BURNER';
+  isDefault: boolean;
+}
+
+interface BacktestSummary {
+  id: string;
+  name: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  finalEquity: number | null;
+  totalTrades: number;
+  winRate: number;
+  totalPnl: number;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  createdAt: string;
+}
+
 interface StrategyForm {
   name: string;
   description: string;
@@ -35,12 +60,16 @@ interface StrategyForm {
   maxTradeAmount: number;
   stopLoss: number;
   takeProfit: number;
+  walletId: string | null; // null signs with the default trading wallet
 }
 
 export default function StrategiesPage() {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [backtests, setBacktests] = useState<Record<string, BacktestSummary[]>>({});
+  const [runningBacktests, setRunningBacktests] = useState<string[]>([]);
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
   const [strategyForm, setStrategyForm] = useState<StrategyForm>({
     name: '',
     description: '',
@@ -48,19 +77,35 @@ export default function StrategiesPage() {
     riskLevel: 'MEDIUM',
     maxTradeAmount: 100,
     stopLoss: 5,
-    takeProfit: 10
+    takeProfit: 10,
+    walletId: null
   });
 
   useEffect(() => {
     fetchStrategies();
+    fetchWallets();
   }, []);
 
+  const fetchWallets = async () => {
+    try {
+      const response = await fetch('/api/wallets');
+      if (response.ok) {
+        const data = await response.json();
+        // Vault wallets never sign trades
+        setWallets(data.wallets.filter((wallet: WalletOption) => wallet.role !== 'VAULT'));
+      }
+    } catch (error) {
+      console.error('Error fetching wallets:', error);
+    }
+  };
+
   const fetchStrategies = async () => {
     try {
       const response = await fetch('/api/strategies');
       if (response.ok) {
-        const data = await response.json();
+        const data: Strategy[] = await response.json();
         setStrategies(data);
+        data.forEach(strategy => fetchBacktests(strategy.id));
       } else {
         // If API fails, use mock data for demo
         setStrategies([
@@ -73,6 +118,7 @@ export default function StrategiesPage() {
             winRate: 68.5,
             totalPnl: 1247.50,
             isActive: true,
+            walletId: null,
             createdAt: new Date().toISOString(),
             config: {}
           },
@@ -85,6 +131,7 @@ export default function StrategiesPage() {
             winRate: 72.1,
             totalPnl: 2156.30,
             isActive: false,
+            walletId: null,
             createdAt: new Date().toISOString(),
             config: {}
           }
@@ -103,6 +150,7 @@ export default function StrategiesPage() {
           winRate: 68.5,
           totalPnl: 1247.50,
           isActive: true,
+          walletId: null,
           createdAt: new Date().toISOString(),
           config: {}
         }
@@ -133,7 +181,8 @@ export default function StrategiesPage() {
           riskLevel: 'MEDIUM',
           maxTradeAmount: 100,
           stopLoss: 5,
-          takeProfit: 10
+          takeProfit: 10,
+          walletId: null
         });
       } else {
         // If API fails, create mock strategy
@@ -146,6 +195,7 @@ export default function StrategiesPage() {
           winRate: 0,
           totalPnl: 0,
           isActive: false,
+          walletId: strategyForm.walletId,
           createdAt: new Date().toISOString(),
           // @ts-expect-error - Temporary config assignment for demo
           config: strategyForm
@@ -159,7 +209,8 @@ export default function StrategiesPage() {
           riskLevel: 'MEDIUM',
           maxTradeAmount: 100,
           stopLoss: 5,
-          takeProfit: 10
+          takeProfit: 10,
+          walletId: null
         });
       }
     } catch (error) {
@@ -198,7 +249,7 @@ export default function StrategiesPage() {
       }
     };
     
-    setStrategyForm(templates[type]);
+    setStrategyForm({ ...templates[type], walletId: null });
     setShowCreateModal(true);
   };
 
@@ -218,6 +269,92 @@ export default function StrategiesPage() {
     }
   };
 
+  const assignWallet = async (strategyId: string, walletId: string | null) => {
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletId }),
+      });
+
+      if (response.ok) {
+        const updated: Strategy = await response.json();
+        setStrategies(prev => prev.map(s => (s.id === strategyId ? updated : s)));
+      }
+    } catch (error) {
+      console.error('Error assigning wallet:', error);
+    }
+  };
+
+  const deleteStrategy = async (strategyId: string) => {
+    if (!confirm('Delete this strategy and its backtests?')) return;
+
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setStrategies(prev => prev.filter(s => s.id !== strategyId));
+      }
+    } catch (error) {
+      console.error('Error deleting strategy:', error);
+    }
+  };
+
+  const fetchBacktests = async (strategyId: string) => {
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}/backtests`);
+      if (response.ok) {
+        const data: BacktestSummary[] = await response.json();
+        setBacktests(prev => ({ ...prev, [strategyId]: data }));
+      }
+    } catch (error) {
+      console.error('Error fetching backtests:', error);
+    }
+  };
+
+  const runBacktest = async (strategyId: string) => {
+    setRunningBacktests(prev => [...prev, strategyId]);
+    try {
+      // Replay the last 30 days of stored signals
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const response = await fetch(`/api/strategies/${strategyId}/backtests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        console.error('Error starting backtest:', data.error);
+        return;
+      }
+
+      const { statusUrl } = await response.json();
+
+      // Poll the job until it finishes
+      for (let attempt = 0; attempt < 60; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const statusResponse = await fetch(statusUrl);
+        if (!statusResponse.ok) break;
+        const status = await statusResponse.json();
+        if (status.status === 'COMPLETED' || status.status === 'FAILED') break;
+      }
+
+      await fetchBacktests(strategyId);
+    } catch (error) {
+      console.error('Error running backtest:', error);
+    } finally {
+      setRunningBacktests(prev => prev.filter(id => id !== strategyId));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -349,6 +486,17 @@ export default function StrategiesPage() {
                         <span className="text-gray-500 text-xs">
                           Created {new Date(strategy.createdAt).toLocaleDateString()}
                         </span>
+                        <select
+                          value={strategy.walletId ?? ''}
+                          onChange={(e) => assignWallet(strategy.id, e.target.value || null)}
+                          title="Wallet live trades sign with"
+                          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 focus:outline-none focus:border-emerald-500"
+                        >
+                          <option value="">Default wallet</option>
+                          {wallets.map(wallet => (
+                            <option key={wallet.id} value={wallet.id}>{wallet.label}</option>
+                          ))}
+                        </select>
                       </div>
                     </div>
                   </div>
@@ -364,13 +512,25 @@ export default function StrategiesPage() {
                     >
                       {strategy.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                     </button>
+                    <button
+                      onClick={() => runBacktest(strategy.id)}
+                      disabled={runningBacktests.includes(strategy.id)}
+                      title="Run backtest"
+                      className="p-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                    >
+                      <History className={`h-4 w-4 ${runningBacktests.includes(strategy.id) ? 'animate-spin' : ''}`} />
+                    </button>
                     <button className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">
                       <Edit3 className="h-4 w-4" />
                     </button>
                     <button className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">
                       <Settings className="h-4 w-4" />
                     </button>
-                    <button className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors">
+                    <button
+                      onClick={() => deleteStrategy(strategy.id)}
+                      title="Delete strategy"
+                      className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+                    >
                       <Trash2 className="h-4 w-4" />
                     </button>
                   </div>
@@ -413,6 +573,51 @@ export default function StrategiesPage() {
                     </div>
                   </div>
                 </div>
+
+                {/* Latest Backtest */}
+                {backtests[strategy.id]?.[0] && (() => {
+                  const latest = backtests[strategy.id][0];
+                  return (
+                    <div className="mt-4 p-4 bg-gray-900 rounded-lg border border-gray-700">
+                      <div className="flex items-center justify-between mb-3">
+                        <p className="text-gray-300 text-sm font-medium">Latest Backtest</p>
+                        <span className={`px-2 py-1 rounded text-xs ${
+                          latest.status === 'COMPLETED' ? 'bg-emerald-500/20 text-emerald-400' :
+                          latest.status === 'FAILED' ? 'bg-red-500/20 text-red-400' :
+                          'bg-yellow-500/20 text-yellow-400'
+                        }`}>
+                          {latest.status}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                        <div>
+                          <p className="text-gray-400">Trades</p>
+                          <p className="text-white font-medium">{latest.totalTrades}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Win Rate</p>
+                          <p className="text-white font-medium">{(latest.winRate * 100).toFixed(1)}%</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">P&L</p>
+                          <p className={`font-medium ${latest.totalPnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {latest.totalPnl >= 0 ? '+' : ''}${latest.totalPnl.toFixed(2)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Max Drawdown</p>
+                          <p className="text-white font-medium">{(latest.maxDrawdown * 100).toFixed(1)}%</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Sharpe</p>
+                          <p className="text-white font-medium">
+                            {latest.sharpeRatio !== null ? latest.sharpeRatio.toFixed(2) : '—'}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })()}
               </div>
             ))}
           </div>
@@ -519,6 +724,22 @@ export default function StrategiesPage() {
                   <option value="HIGH">High Risk</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Wallet</label>
+                <select
+                  value={strategyForm.walletId ?? ''}
+                  onChange={(e) => setStrategyForm(prev => ({ ...prev, walletId: e.target.value || null }))}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-emerald-500"
+                >
+                  <option value="">Default trading wallet</option>
+                  {wallets.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.label}{wallet.isDefault ? ' (default)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
               
               <div className="grid grid-cols-3 gap-4">
                 <div>
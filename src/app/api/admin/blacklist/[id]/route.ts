@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { blacklistUpdateSchema, tokenBlacklist } from '@/lib/trading/blacklist';
+import { z } from 'zod';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const data = blacklistUpdateSchema.parse(await request.json());
+    const entry = await tokenBlacklist.update(id, null, data);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Blacklist entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update global blacklist entry error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update blacklist entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const removed = await tokenBlacklist.remove(id, null);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Blacklist entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete global blacklist entry error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete blacklist entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { MAX_BLACKLIST_IMPORT_ROWS, parseBlacklistCsv, tokenBlacklist } from '@/lib/trading/blacklist';
+import { z } from 'zod';
+
+const importSchema = z.object({
+  csv: z.string().min(1),
+});
+
+/**
+ * Bulk import `address,type,reason` rows into the user's blacklist. Accepts
+ * a raw text/csv body or JSON `{ csv }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const csv = request.headers.get('content-type')?.includes('text/csv')
+      ? await request.text()
+      : importSchema.parse(await request.json()).csv;
+
+    const { entries, errors } = parseBlacklistCsv(csv);
+    if (entries.length > MAX_BLACKLIST_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Imports are limited to ${MAX_BLACKLIST_IMPORT_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    const result = await tokenBlacklist.import(entries, { userId: session.user.id, addedBy: session.user.id });
+
+    return NextResponse.json({ ...result, errors }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Blacklist import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import blacklist' },
+      { status: 500 }
+    );
+  }
+}
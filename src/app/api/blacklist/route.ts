@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { blacklistEntrySchema, tokenBlacklist } from '@/lib/trading/blacklist';
+import { z } from 'zod';
+
+/**
+ * The user's own entries, plus the active global entries that also apply
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const [entries, global] = await Promise.all([
+      tokenBlacklist.list(session.user.id),
+      tokenBlacklist.list(null),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      global: global.filter(entry => entry.isActive),
+    });
+  } catch (error) {
+    console.error('Blacklist API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch blacklist' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Blacklist one address, or several when the body is an array
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const inputs = Array.isArray(body)
+      ? z.array(blacklistEntrySchema).min(1).max(100).parse(body)
+      : [blacklistEntrySchema.parse(body)];
+    const scope = { userId: session.user.id, addedBy: session.user.id };
+
+    const entries = [];
+    for (const input of inputs) {
+      entries.push((await tokenBlacklist.add(input, scope)).entry);
+    }
+
+    return NextResponse.json(Array.isArray(body) ? entries : entries[0], { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Add blacklist entry error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add blacklist entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { copySizingSchema, copyTrading, leaderWalletUpdateSchema } from '@/lib/trading/copy-trading';
+import { z } from 'zod';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.leaderWallet.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Leader wallet not found' },
+        { status: 404 }
+      );
+    }
+
+    const { filters, ...data } = leaderWalletUpdateSchema.parse(await request.json());
+    copySizingSchema.parse({ ...existing, ...data });
+
+    const leader = await prisma.leaderWallet.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(filters !== undefined && { filters: filters ?? Prisma.JsonNull }),
+      },
+    });
+
+    copyTrading.sync().catch(error => console.error('Copy trading sync failed:', error));
+
+    return NextResponse.json(leader);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update leader wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update leader wallet' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stop copying a wallet. Its mirrored trades stay in the ledger, untagged;
+ * pause the leader instead to keep its results.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.leaderWallet.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Leader wallet not found' },
+        { status: 404 }
+      );
+    }
+
+    copyTrading.sync().catch(error => console.error('Copy trading sync failed:', error));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete leader wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete leader wallet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { copySizingSchema, copyTrading, leaderWalletInputSchema } from '@/lib/trading/copy-trading';
+import { z } from 'zod';
+
+/**
+ * Wallets the user copies, with the number of trades mirrored from each
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const leaders = await prisma.leaderWallet.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { trades: true } } },
+    });
+
+    return NextResponse.json({ leaders });
+  } catch (error) {
+    console.error('Leader wallets API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch leader wallets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { filters, ...input } = leaderWalletInputSchema.parse(await request.json());
+    copySizingSchema.parse(input);
+
+    const leader = await prisma.leaderWallet.create({
+      data: {
+        ...input,
+        filters: filters ?? Prisma.JsonNull,
+        userId: session.user.id,
+      },
+    });
+
+    copyTrading.sync().catch(error => console.error('Copy trading sync failed:', error));
+
+    return NextResponse.json(leader, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This wallet is already being copied' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Create leader wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add leader wallet' },
+      { status: 500 }
+    );
+  }
+}
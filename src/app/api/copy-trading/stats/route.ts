@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { copyTrading } from '@/lib/trading/copy-trading';
+
+/**
+ * Per-leader PnL of the user's mirrored trades
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const leaders = await copyTrading.getLeaderStats(session.user.id);
+
+    return NextResponse.json({
+      leaders,
+      totals: {
+        realizedPnl: leaders.reduce((sum, leader) => sum + leader.realizedPnl, 0),
+        unrealizedPnl: leaders.reduce((sum, leader) => sum + leader.unrealizedPnl, 0),
+        totalPnl: leaders.reduce((sum, leader) => sum + leader.totalPnl, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Copy trading stats API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch copy trading stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { computeEquityMetrics, equitySnapshots } from '@/lib/trading/equity-snapshots';
 
-export async function GET() {
+const TIMEFRAME_DAYS: Record<string, number> = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     
@@ -14,6 +22,9 @@ export async function GET() {
       );
     }
 
+    const { searchParams } = new URL(request.url);
+    const days = TIMEFRAME_DAYS[searchParams.get('timeframe') || '7d'] ?? TIMEFRAME_DAYS['7d'];
+
     const portfolio = await prisma.portfolio.findFirst({
       where: { 
         userId: session.user.id,
@@ -38,10 +49,23 @@ export async function GET() {
           isActive: true,
         },
       });
-      return NextResponse.json(newPortfolio);
+      return NextResponse.json({ ...newPortfolio, equitySeries: [], equityMetrics: computeEquityMetrics([]) });
     }
 
-    return NextResponse.json(portfolio);
+    // Equity curve for charts; metrics cover the same window
+    const snapshots = await equitySnapshots.getSeries(portfolio.id, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    const equitySeries = snapshots.map(snapshot => ({
+      timestamp: snapshot.createdAt,
+      equity: snapshot.equity,
+      cash: snapshot.cash,
+      positionValue: snapshot.positionValue,
+      drawdown: snapshot.drawdown
+    }));
+    const equityMetrics = computeEquityMetrics(
+      equitySeries.map(point => ({ timestamp: point.timestamp, equity: point.equity }))
+    );
+
+    return NextResponse.json({ ...portfolio, equitySeries, equityMetrics });
   } catch (error) {
     console.error('Portfolio API error:', error);
     return NextResponse.json(
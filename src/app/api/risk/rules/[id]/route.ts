@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { riskRuleInputSchema } from '@/lib/risk/rules';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const rule = await prisma.riskRule.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Risk rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Risk rule API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.riskRule.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Risk rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = riskRuleInputSchema.partial().parse(await request.json());
+    const rule = await prisma.riskRule.update({
+      where: { id },
+      data,
+    });
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update risk rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update risk rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.riskRule.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Risk rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete risk rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete risk rule' },
+      { status: 500 }
+    );
+  }
+}
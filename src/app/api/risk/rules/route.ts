@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { riskEngine } from '@/lib/risk/engine';
+import { riskRuleInputSchema } from '@/lib/risk/rules';
+import { z } from 'zod';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const [rules, measurements] = await Promise.all([
+      prisma.riskRule.findMany({
+        where: { userId: session.user.id },
+        orderBy: { createdAt: 'asc' },
+      }),
+      riskEngine.measureRules(session.user.id),
+    ]);
+    const values = new Map(measurements.map(result => [result.id, result]));
+
+    return NextResponse.json(rules.map(rule => ({
+      ...rule,
+      currentValue: values.get(rule.id)?.value ?? null,
+      breached: values.get(rule.id)?.triggered ?? false,
+    })));
+  } catch (error) {
+    console.error('Risk rules API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create one rule, or several at once when the body is an array
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const inputs = Array.isArray(body)
+      ? z.array(riskRuleInputSchema).min(1).max(20).parse(body)
+      : [riskRuleInputSchema.parse(body)];
+    const userId = session.user.id;
+
+    const rules = await prisma.$transaction(
+      inputs.map(input => prisma.riskRule.create({ data: { ...input, userId } }))
+    );
+
+    return NextResponse.json(Array.isArray(body) ? rules : rules[0], { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create risk rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create risk rule' },
+      { status: 500 }
+    );
+  }
+}
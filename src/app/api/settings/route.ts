@@ -3,14 +3,16 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, executeWithRetry, connectWithRetry } from '@/lib/prisma';
 import { EncryptionService } from '@/lib/encryption';
+import { WalletError, walletManager } from '@/lib/wallets/manager';
 import { z } from 'zod';
 
 // Validation schema for user settings
 const userSettingsSchema = z.object({
   solanaRpcUrl: z.string().url().optional().or(z.literal('')),
   // jitoApiKey removed per policy
-  tradingWalletPrivateKey: z.string().optional().or(z.literal('')),
+  tradingWalletPrivateKey: z.string().optional().or(z.literal('')), // Imported as the default trading wallet
   telegramBotToken: z.string().optional().or(z.literal('')),
+  discordBotToken: z.string().optional().or(z.literal('')),
   discordWebhookUrl: z.string().url().optional().or(z.literal('')),
   emailNotifications: z.boolean().optional(),
   telegramNotifications: z.boolean().optional(),
@@ -36,6 +38,7 @@ export async function GET() {
         where: { userId: session.user.id },
       });
     });
+    const wallets = await walletManager.list(session.user.id);
 
     // Return settings without encrypted values (for security)
     const safeSettings = {
@@ -47,8 +50,9 @@ export async function GET() {
       // Indicate if encrypted fields are set (without revealing values)
       hasSolanaRpcUrl: !!settings?.solanaRpcUrl,
   // jitoApiKey removed
-      hasTradingWalletPrivateKey: !!settings?.tradingWalletPrivateKey,
+      hasTradingWalletPrivateKey: wallets.some(wallet => wallet.isDefault),
       hasTelegramBotToken: !!settings?.telegramBotToken,
+      hasDiscordBotToken: !!settings?.discordBotToken,
       hasDiscordWebhookUrl: !!settings?.discordWebhookUrl,
     };
 
@@ -66,6 +70,7 @@ export async function GET() {
       hasSolanaRpcUrl: false,
       hasTradingWalletPrivateKey: false,
       hasTelegramBotToken: false,
+      hasDiscordBotToken: false,
       hasDiscordWebhookUrl: false,
     });
   }
@@ -94,20 +99,25 @@ export async function POST(request: NextRequest) {
     
     // jitoApiKey removed
     
+    // Trading keys live in wallets now; the settings key becomes the default one
+    let importedWallet = false;
     if (validatedData.tradingWalletPrivateKey) {
-      // Validate private key format before encrypting
-      if (!validatedData.tradingWalletPrivateKey.match(/^[a-fA-F0-9]{64}$/)) {
-        return NextResponse.json(
-          { error: 'Invalid private key format. Must be 64 hex characters.' },
-          { status: 400 }
-        );
-      }
-      encryptedData.tradingWalletPrivateKey = EncryptionService.encrypt(validatedData.tradingWalletPrivateKey);
+      await walletManager.import(session.user.id, {
+        label: 'Trading wallet',
+        role: 'TRADING',
+        isDefault: true,
+        secretKey: validatedData.tradingWalletPrivateKey,
+      });
+      importedWallet = true;
     }
     
     if (validatedData.telegramBotToken) {
       encryptedData.telegramBotToken = EncryptionService.encrypt(validatedData.telegramBotToken);
     }
+
+    if (validatedData.discordBotToken) {
+      encryptedData.discordBotToken = EncryptionService.encrypt(validatedData.discordBotToken);
+    }
     
     if (validatedData.discordWebhookUrl) {
       encryptedData.discordWebhookUrl = EncryptionService.encrypt(validatedData.discordWebhookUrl);
@@ -138,7 +148,7 @@ export async function POST(request: NextRequest) {
     // Return success without sensitive data
     return NextResponse.json({
       message: 'Settings updated successfully',
-      updated: Object.keys(updateData),
+      updated: [...Object.keys(updateData), ...(importedWallet ? ['tradingWalletPrivateKey'] : [])],
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -147,6 +157,10 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     
     console.error('Error updating user settings:', error);
     return NextResponse.json(
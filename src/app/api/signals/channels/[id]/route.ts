@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { signalChannelInputSchema } from '@/lib/signal-sources/channels';
+import { syncSignalIngestion } from '@/lib/signal-sources/workers';
+import { z } from 'zod';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.signalChannel.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Signal channel not found' },
+        { status: 404 }
+      );
+    }
+
+    const { parserConfig, ...data } = signalChannelInputSchema.partial().parse(await request.json());
+    const channel = await prisma.signalChannel.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(parserConfig !== undefined && { parserConfig: parserConfig ?? Prisma.JsonNull }),
+      },
+    });
+
+    syncSignalIngestion();
+
+    return NextResponse.json(channel);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This channel is already configured' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Update signal channel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update signal channel' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.signalChannel.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Signal channel not found' },
+        { status: 404 }
+      );
+    }
+
+    syncSignalIngestion();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete signal channel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete signal channel' },
+      { status: 500 }
+    );
+  }
+}
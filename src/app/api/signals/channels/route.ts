@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { listParserTemplates, signalChannelInputSchema } from '@/lib/signal-sources/channels';
+import { syncSignalIngestion } from '@/lib/signal-sources/workers';
+import { z } from 'zod';
+
+/**
+ * The user's signal channels and the parser templates they can use
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const channels = await prisma.signalChannel.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+      include: { _count: { select: { signals: true } } },
+    });
+
+    return NextResponse.json({ channels, templates: listParserTemplates() });
+  } catch (error) {
+    console.error('Signal channels API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch signal channels' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { parserConfig, ...input } = signalChannelInputSchema.parse(await request.json());
+    const channel = await prisma.signalChannel.create({
+      data: {
+        ...input,
+        parserConfig: parserConfig ?? Prisma.JsonNull,
+        userId: session.user.id,
+      },
+    });
+
+    syncSignalIngestion();
+
+    return NextResponse.json(channel, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This channel is already configured' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Create signal channel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create signal channel' },
+      { status: 500 }
+    );
+  }
+}
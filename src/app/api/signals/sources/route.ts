@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { signalAttribution } from '@/lib/signal-sources/attribution';
+import { z } from 'zod';
+
+const sourceStateSchema = z.object({
+  key: z.string().regex(/^(channel|feed|source):.+$/, 'Invalid source key'),
+  disabled: z.boolean(),
+  reason: z.string().trim().min(1).max(200).optional(),
+});
+
+/**
+ * Signal sources the user or their bot disabled
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ disabled: await signalAttribution.listDisabled(session.user.id) });
+  } catch (error) {
+    console.error('Signal sources API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch signal sources' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Disable a source, or re-enable one that was disabled manually or for a low win rate
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { key, disabled, reason } = sourceStateSchema.parse(await request.json());
+
+    if (!disabled) {
+      const enabled = await signalAttribution.enable(session.user.id, key);
+      return NextResponse.json({ key, disabled: false, changed: enabled });
+    }
+
+    const entry = await signalAttribution.disable(session.user.id, key, reason ?? 'Disabled manually');
+    return NextResponse.json({ key, disabled: true, reason: entry.reason, at: entry.createdAt });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update signal source error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update signal source' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  AUTO_DISABLE_WINDOW,
+  SOURCE_STATS_WINDOWS,
+  SourceStatsWindow,
+  signalAttribution
+} from '@/lib/signal-sources/attribution';
+
+/**
+ * Per-source and per-caller signal performance over a rolling window
+ * (?window=24h|7d|30d, default 7d)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const window = request.nextUrl.searchParams.get('window') ?? '7d';
+    if (!(window in SOURCE_STATS_WINDOWS)) {
+      return NextResponse.json(
+        { error: `window must be one of ${Object.keys(SOURCE_STATS_WINDOWS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [sources, settings] = await Promise.all([
+      signalAttribution.getStats(session.user.id, window as SourceStatsWindow),
+      prisma.tradingSettings.findUnique({
+        where: { userId: session.user.id },
+        select: { winRateThreshold: true }
+      })
+    ]);
+
+    return NextResponse.json({
+      window,
+      windows: Object.keys(SOURCE_STATS_WINDOWS),
+      autoDisable: {
+        window: AUTO_DISABLE_WINDOW,
+        winRateThreshold: settings?.winRateThreshold ?? 0.30
+      },
+      sources
+    });
+  } catch (error) {
+    console.error('Signal source stats API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch signal source stats' },
+      { status: 500 }
+    );
+  }
+}
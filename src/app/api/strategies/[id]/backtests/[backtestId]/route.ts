@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// An imported dataset can be large and the caller already has it
+function withoutDataset(config: unknown): unknown {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return config;
+  const rest = { ...(config as Record<string, unknown>) };
+  delete rest.dataset;
+  return rest;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; backtestId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id, backtestId } = await params;
+    const backtest = await prisma.backtest.findFirst({
+      where: {
+        id: backtestId,
+        strategyId: id,
+        strategy: { userId: session.user.id },
+      },
+    });
+
+    if (!backtest) {
+      return NextResponse.json({ error: 'Backtest not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: backtest.id,
+      name: backtest.name,
+      status: backtest.status,
+      isCompleted: backtest.isCompleted,
+      errorMessage: backtest.errorMessage,
+      startDate: backtest.startDate.toISOString(),
+      endDate: backtest.endDate.toISOString(),
+      initialCapital: backtest.initialCapital,
+      finalEquity: backtest.finalEquity,
+      metrics: {
+        totalTrades: backtest.totalTrades,
+        winningTrades: backtest.winningTrades,
+        losingTrades: backtest.losingTrades,
+        winRate: backtest.winRate,
+        totalPnl: backtest.totalPnl,
+        maxDrawdown: backtest.maxDrawdown,
+        sharpeRatio: backtest.sharpeRatio,
+      },
+      trades: backtest.trades ?? [],
+      config: withoutDataset(backtest.config),
+      createdAt: backtest.createdAt.toISOString(),
+      completedAt: backtest.completedAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    console.error('Backtest status API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch backtest' },
+      { status: 500 }
+    );
+  }
+}
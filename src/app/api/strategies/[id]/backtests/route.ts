@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { hasSubscriptionAccess } from '@/lib/subscription';
+import { backtestEngine, DEFAULT_BACKTEST_SETTINGS } from '@/lib/trading/backtest-engine';
+import { z } from 'zod';
+
+const pricePointSchema = z.object({
+  timestamp: z.number(),
+  price: z.number().positive(),
+});
+
+const backtestSchema = z.object({
+  name: z.string().min(1).optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  initialCapital: z.number().positive().optional(),
+  slippage: z.number().min(0).max(0.5).optional(),
+  feeRate: z.number().min(0).max(0.1).optional(),
+  maxHoldingMinutes: z.number().positive().optional(),
+  // Optional imported dataset; stored signals are replayed when omitted
+  dataset: z.object({
+    signals: z.array(z.object({
+      id: z.string().optional(),
+      tokenAddress: z.string().min(1),
+      tokenSymbol: z.string().optional(),
+      price: z.number().positive(),
+      confidence: z.number().min(0).max(1),
+      liquidity: z.number().optional(),
+      metadata: z.object({
+        marketCap: z.number().optional(),
+        liquidity: z.number().optional(),
+        holderCount: z.number().optional(),
+        priceChange24h: z.number().optional(),
+        rugRisk: z.number().optional(),
+        devWalletPercent: z.number().optional(),
+      }).optional(),
+      timestamp: z.number(),
+    })).min(1),
+    prices: z.record(z.string(), z.array(pricePointSchema)).optional(),
+  }).optional(),
+}).refine(data => data.endDate > data.startDate, {
+  message: 'endDate must be after startDate',
+  path: ['endDate'],
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const canBacktest = await hasSubscriptionAccess(session.user.id, 'BACKTESTING');
+    if (!canBacktest) {
+      return NextResponse.json(
+        { error: 'Backtesting is not available in your subscription tier' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const strategy = await prisma.strategy.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!strategy) {
+      return NextResponse.json({ error: 'Strategy not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = backtestSchema.parse(body);
+
+    const settings = {
+      slippage: validatedData.slippage ?? DEFAULT_BACKTEST_SETTINGS.slippage,
+      feeRate: validatedData.feeRate ?? DEFAULT_BACKTEST_SETTINGS.feeRate,
+      maxHoldingMinutes: validatedData.maxHoldingMinutes ?? DEFAULT_BACKTEST_SETTINGS.maxHoldingMinutes,
+    };
+
+    const backtest = await prisma.backtest.create({
+      data: {
+        strategyId: strategy.id,
+        name: validatedData.name || `${strategy.name} backtest`,
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate,
+        initialCapital: validatedData.initialCapital ?? DEFAULT_BACKTEST_SETTINGS.initialCapital,
+        config: JSON.parse(JSON.stringify({
+          strategy: strategy.config,
+          settings,
+          dataSource: validatedData.dataset ? 'IMPORTED' : 'SIGNALS',
+          dataset: validatedData.dataset,
+        })),
+      },
+    });
+
+    await backtestEngine.enqueue(backtest.id, session.user.id);
+
+    return NextResponse.json({
+      id: backtest.id,
+      status: backtest.status,
+      statusUrl: `/api/strategies/${strategy.id}/backtests/${backtest.id}`,
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Backtest creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start backtest' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const backtests = await prisma.backtest.findMany({
+      where: { strategyId: id, strategy: { userId: session.user.id } },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return NextResponse.json(backtests.map(backtest => ({
+      id: backtest.id,
+      name: backtest.name,
+      status: backtest.status,
+      startDate: backtest.startDate.toISOString(),
+      endDate: backtest.endDate.toISOString(),
+      initialCapital: backtest.initialCapital,
+      finalEquity: backtest.finalEquity,
+      totalTrades: backtest.totalTrades,
+      winRate: backtest.winRate,
+      totalPnl: backtest.totalPnl,
+      maxDrawdown: backtest.maxDrawdown,
+      sharpeRatio: backtest.sharpeRatio,
+      createdAt: backtest.createdAt.toISOString(),
+      completedAt: backtest.completedAt?.toISOString() ?? null,
+    })));
+  } catch (error) {
+    console.error('Backtests API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch backtests' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
+import {
+  buildStrategyConfig,
+  parseStrategyConfig,
+  serializeStrategy,
+  strategyInputSchema,
+} from '@/lib/trading/strategy-config';
+import { WalletError, walletManager } from '@/lib/wallets/manager';
+import { z } from 'zod';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const strategy = await prisma.strategy.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!strategy) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(serializeStrategy(strategy));
+  } catch (error) {
+    console.error('Strategy API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch strategy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.strategy.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    // Partial updates are merged over the stored config and revalidated
+    const body = strategyInputSchema.partial().parse(await request.json());
+    const current = parseStrategyConfig(existing.config);
+    const { name, description, walletId, ...changes } = body;
+    if (walletId) {
+      await walletManager.assertAssignable(walletId, session.user.id);
+    }
+
+    // Filters or a new type / risk level recompile the rule tree from the
+    // profile defaults; otherwise the stored rules are kept
+    const recompile = changes.filters || changes.type || changes.riskLevel;
+    const config = buildStrategyConfig({
+      type: changes.type ?? current.type,
+      riskLevel: changes.riskLevel ?? current.riskLevel,
+      maxTradeAmount: changes.maxTradeAmount ?? current.entry.maxTradeAmount,
+      sizing: changes.sizing ?? current.entry.sizing,
+      stopLoss: changes.stopLoss ?? current.exit.stopLoss,
+      takeProfit: changes.takeProfit ?? current.exit.takeProfit,
+      maxHoldingMinutes: changes.maxHoldingMinutes !== undefined
+        ? changes.maxHoldingMinutes
+        : current.exit.maxHoldingMinutes,
+      filters: changes.filters,
+      rules: changes.rules ?? (recompile ? undefined : current.rules),
+    });
+
+    const strategy = await prisma.strategy.update({
+      where: { id },
+      data: { name, description, walletId, config: config as unknown as Prisma.InputJsonValue },
+    });
+
+    if (strategy.isActive) {
+      await tradingBotRegistry.reloadStrategies(session.user.id);
+    }
+
+    return NextResponse.json(serializeStrategy(strategy));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Update strategy error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update strategy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.strategy.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    await tradingBotRegistry.reloadStrategies(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete strategy error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete strategy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
+import { parseStrategyConfig, serializeStrategy } from '@/lib/trading/strategy-config';
+import { z } from 'zod';
+
+const toggleSchema = z.object({
+  isActive: z.boolean(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { isActive } = toggleSchema.parse(await request.json());
+
+    const existing = await prisma.strategy.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    // Refuse to activate a config the bot would not be able to load
+    if (isActive) {
+      try {
+        parseStrategyConfig(existing.config);
+      } catch {
+        return NextResponse.json(
+          { error: 'Strategy configuration is invalid, edit it before activating' },
+          { status: 422 }
+        );
+      }
+    }
+
+    const strategy = await prisma.strategy.update({
+      where: { id },
+      data: {
+        isActive,
+        status: isActive ? 'ACTIVE' : 'PAUSED',
+      },
+    });
+
+    await tradingBotRegistry.reloadStrategies(session.user.id);
+
+    return NextResponse.json(serializeStrategy(strategy));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Toggle strategy error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update strategy status' },
+      { status: 500 }
+    );
+  }
+}
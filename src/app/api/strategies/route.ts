@@ -1,7 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { hasSubscriptionAccess } from '@/lib/subscription';
+import { buildStrategyConfig, serializeStrategy, strategyInputSchema } from '@/lib/trading/strategy-config';
+import { WalletError, walletManager } from '@/lib/wallets/manager';
+import { z } from 'zod';
 
 export async function GET() {
   try {
@@ -19,18 +24,7 @@ export async function GET() {
       orderBy: { createdAt: 'desc' },
     });
 
-    return NextResponse.json(strategies.map(strategy => ({
-      id: strategy.id,
-      name: strategy.name,
-      description: strategy.description,
-      status: strategy.status,
-      totalTrades: strategy.totalTrades,
-      winRate: strategy.winRate,
-      totalPnl: strategy.totalPnl,
-      isActive: strategy.isActive,
-      createdAt: strategy.createdAt.toISOString(),
-      config: strategy.config,
-    })));
+    return NextResponse.json(strategies.map(serializeStrategy));
   } catch (error) {
     console.error('Strategies API error:', error);
     return NextResponse.json(
@@ -39,3 +33,60 @@ export async function GET() {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const canCreate = await hasSubscriptionAccess(session.user.id, 'CUSTOM_STRATEGIES');
+    if (!canCreate) {
+      return NextResponse.json(
+        { error: 'Custom strategies are not available in your subscription tier' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, description, walletId, ...input } = strategyInputSchema.parse(body);
+    if (walletId) {
+      await walletManager.assertAssignable(walletId, session.user.id);
+    }
+
+    const strategy = await prisma.strategy.create({
+      data: {
+        userId: session.user.id,
+        name,
+        description,
+        walletId,
+        status: 'DRAFT',
+        config: buildStrategyConfig(input) as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return NextResponse.json(serializeStrategy(strategy), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Create strategy error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create strategy' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { paperExecutionEngine } from "@/lib/trading/paper-execution-engine";
+import { describeBlacklistEntry, tokenBlacklist } from "@/lib/trading/blacklist";
+import { tradeConfirmations } from "@/lib/trading/trade-confirmations";
 import { z } from "zod";
 
 const tradeSchema = z.object({
@@ -13,6 +16,9 @@ const tradeSchema = z.object({
   estimatedPrice: z.number().positive().optional(),
   tradingMode: z.enum(["LIVE", "PAPER"]).default("PAPER"),
   signalId: z.string().optional(),
+  // Live orders already submitted from the client, settled from chain state
+  txHash: z.string().min(32).max(128).optional(),
+  lastValidBlockHeight: z.number().int().positive().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -42,6 +48,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (validatedData.type === "BUY") {
+      const blacklisted = await tokenBlacklist.check(validatedData.tokenAddress, { userId: session.user.id });
+      if (blacklisted) {
+        return NextResponse.json(
+          { error: describeBlacklistEntry(blacklisted) },
+          { status: 403 }
+        );
+      }
+    }
+
     // Check if user has sufficient balance for buy orders
     if (validatedData.type === "BUY") {
       const estimatedCost = validatedData.amount * (validatedData.estimatedPrice || 1);
@@ -53,7 +69,88 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create trade record
+    // Paper trades are filled by the simulator and booked through the position ledger
+    if (validatedData.tradingMode === "PAPER") {
+      if (!validatedData.estimatedPrice) {
+        return NextResponse.json(
+          { error: "estimatedPrice is required for paper trades" },
+          { status: 400 }
+        );
+      }
+
+      if (validatedData.type === "SELL") {
+        const position = await prisma.position.findUnique({
+          where: {
+            portfolioId_tokenAddress_tradingMode: {
+              portfolioId: portfolio.id,
+              tokenAddress: validatedData.tokenAddress,
+              tradingMode: "PAPER",
+            },
+          },
+        });
+
+        if (!position || position.amount <= 0) {
+          return NextResponse.json(
+            { error: "No open position to sell" },
+            { status: 400 }
+          );
+        }
+      }
+
+      const { fill, recorded } = await paperExecutionEngine.executeAndRecord({
+        side: validatedData.type,
+        tokenAddress: validatedData.tokenAddress,
+        tokenSymbol: validatedData.tokenSymbol,
+        tokenName: validatedData.tokenName,
+        price: validatedData.estimatedPrice,
+        quoteAmount: validatedData.type === "BUY" ? validatedData.amount * validatedData.estimatedPrice : undefined,
+        quantity: validatedData.type === "SELL" ? validatedData.amount : undefined,
+      }, {
+        userId: session.user.id,
+        signalId: validatedData.signalId,
+      });
+
+      if (!recorded) {
+        return NextResponse.json(
+          { error: fill.reason || "Paper order rejected" },
+          { status: 400 }
+        );
+      }
+
+      const trade = await prisma.trade.findUnique({ where: { id: recorded.tradeId } });
+      return NextResponse.json({ trade, fill }, { status: 201 });
+    }
+
+    // A submitted transaction is checked against the user's wallets and this
+    // order once it lands, and booked at the SOL it paid or received
+    if (validatedData.txHash) {
+      if (!validatedData.estimatedPrice) {
+        return NextResponse.json(
+          { error: "estimatedPrice is required for submitted transactions" },
+          { status: 400 }
+        );
+      }
+
+      const [wallets, recorded] = await Promise.all([
+        prisma.wallet.count({ where: { userId: session.user.id } }),
+        prisma.trade.count({ where: { txHash: validatedData.txHash } }),
+      ]);
+      if (wallets === 0) {
+        return NextResponse.json(
+          { error: "Add the wallet that signed this transaction first" },
+          { status: 400 }
+        );
+      }
+      if (recorded > 0) {
+        return NextResponse.json(
+          { error: "Transaction already recorded" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Live orders are recorded as pending until executed; submitted ones
+    // settle once their signature lands or expires
     const trade = await prisma.trade.create({
       data: {
         userId: session.user.id,
@@ -67,43 +164,14 @@ export async function POST(request: NextRequest) {
         tradingMode: validatedData.tradingMode,
         signalId: validatedData.signalId,
         status: "PENDING",
+        txHash: validatedData.txHash,
+        metadata: validatedData.lastValidBlockHeight
+          ? { lastValidBlockHeight: validatedData.lastValidBlockHeight }
+          : undefined,
       },
     });
 
-    // In paper trading mode, simulate execution
-    if (validatedData.tradingMode === "PAPER") {
-      // Simulate trade execution with realistic slippage
-      const slippage = Math.random() * 0.05; // 0-5% slippage
-      const actualPrice = validatedData.estimatedPrice 
-        ? validatedData.estimatedPrice * (1 + (validatedData.type === "BUY" ? slippage : -slippage))
-        : Math.random() * 100; // Random price for demo
-
-      const fees = validatedData.amount * actualPrice * 0.02; // 2% fees
-
-      await prisma.trade.update({
-        where: { id: trade.id },
-        data: {
-          status: "EXECUTED",
-          price: actualPrice,
-          slippage,
-          fees,
-          executedAt: new Date(),
-        },
-      });
-
-      // Update portfolio
-      const newEquity = validatedData.type === "BUY" 
-        ? portfolio.currentEquity - (validatedData.amount * actualPrice + fees)
-        : portfolio.currentEquity + (validatedData.amount * actualPrice - fees);
-
-      await prisma.portfolio.update({
-        where: { id: portfolio.id },
-        data: {
-          currentEquity: newEquity,
-          totalTrades: { increment: 1 },
-        },
-      });
-    }
+    tradeConfirmations.watch(trade);
 
     return NextResponse.json({ trade }, { status: 201 });
   } catch (error) {
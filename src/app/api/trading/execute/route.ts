@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { AdvancedExecutionEngine } from '@/lib/trading/execution-engine';
-import { EnhancedRiskManager } from '@/lib/trading/risk-manager';
+import { jobQueue } from '@/lib/queue/job-queue';
+import { TradeExecutionJob, TradeExecutionOutcome } from '@/lib/queue/processors';
+import { JobTimeoutError } from '@/lib/queue/types';
+
+// How long to hold the request open for the queued trade to finish
+const EXECUTION_WAIT_MS = 25000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,129 +42,66 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize trading systems
-    const executionEngine = new AdvancedExecutionEngine();
-    const riskManager = new EnhancedRiskManager();
-
-    // Pre-trade risk assessment
-    const riskAssessment = await riskManager.assessTradeRisk({
+    // Run through the trade-execution queue: one trade at a time per user,
+    // with retries. Wait briefly so most requests still answer synchronously.
+    const jobId = await jobQueue.enqueue<TradeExecutionJob>('trade-execution', {
       userId: session.user.id,
-      tokenAddress: signal.tokenAddress,
+      signal,
       tradeType,
       amount,
-      currentPrice: signal.price,
-      signal: {
-        confidence: signal.confidence,
-        source: signal.source,
-        type: signal.type,
-        metadata: signal.metadata
+      settings
+    }, { userId: session.user.id });
+
+    let outcome: TradeExecutionOutcome;
+    try {
+      outcome = await jobQueue.waitForResult<TradeExecutionOutcome>('trade-execution', jobId, EXECUTION_WAIT_MS);
+    } catch (error) {
+      if (error instanceof JobTimeoutError) {
+        return NextResponse.json(
+          { success: true, status: 'QUEUED', jobId },
+          { status: 202 }
+        );
       }
-    });
+      throw error;
+    }
 
-    if (!riskAssessment.approved) {
+    if (outcome.status === 'REJECTED') {
       return NextResponse.json(
         { 
           error: 'Trade rejected by risk management',
-          riskScore: riskAssessment.riskScore,
-          riskFactors: riskAssessment.riskFactors,
-          recommendations: riskAssessment.recommendations
+          riskScore: outcome.riskScore,
+          reasons: outcome.reasons,
+          checks: outcome.checks,
+          recommendations: outcome.recommendations
         },
         { status: 400 }
       );
     }
 
-    // Execute the trade
-    const executionResult = await executionEngine.executeTrade({
-      userId: session.user.id,
-      signal,
-      tradeType,
-      amount: riskAssessment.adjustedPositionSize || amount,
-      settings: {
-        ...settings,
-        maxSlippage: settings?.maxSlippage || 0.01,
-        priorityFee: settings?.priorityFee || 0.001,
-        ...userSettings
-      }
-    });
+    if (outcome.status === 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Trade cancelled', reason: outcome.reason },
+        { status: 409 }
+      );
+    }
 
-    if (!executionResult.success) {
+    if (outcome.status === 'FAILED') {
       return NextResponse.json(
         {
           error: 'Trade execution failed',
-          reason: executionResult.error,
-          details: executionResult.details
+          reason: outcome.reason,
+          details: outcome.details
         },
         { status: 500 }
       );
     }
 
-    // Get or create user's portfolio
-    let portfolio = await prisma.portfolio.findFirst({
-      where: {
-        userId: session.user.id,
-        tradingMode: 'LIVE'
-      }
-    });
-
-    if (!portfolio) {
-      portfolio = await prisma.portfolio.create({
-        data: {
-          userId: session.user.id,
-          tradingMode: 'LIVE'
-        }
-      });
-    }
-
-    // Record the trade in the database (using correct schema fields)
-    const trade = await prisma.trade.create({
-      data: {
-        userId: session.user.id,
-        portfolioId: portfolio.id,
-        signalId: signal.id,
-        tokenAddress: signal.tokenAddress,
-        tokenName: signal.tokenName || 'Unknown',
-        tokenSymbol: signal.tokenSymbol || 'UNK',
-        type: tradeType,
-        amount: executionResult.actualAmount || amount,
-        price: executionResult.executionPrice || signal.price,
-        estimatedPrice: signal.price,
-        fees: executionResult.fees || 0,
-        slippage: executionResult.slippage || 0,
-        txHash: executionResult.txHash || '',
-        status: 'EXECUTED',
-        tradingMode: 'LIVE',
-        metadata: {}
-      }
-    });
-
     return NextResponse.json({
       success: true,
-      trade: {
-        id: trade.id,
-        tokenAddress: trade.tokenAddress,
-        tokenSymbol: trade.tokenSymbol,
-        type: trade.type,
-        amount: trade.amount,
-        price: trade.price,
-        fees: trade.fees,
-        slippage: trade.slippage,
-        txHash: trade.txHash,
-        status: trade.status,
-        createdAt: trade.createdAt
-      },
-      execution: {
-        actualAmount: executionResult.actualAmount || amount,
-        executionPrice: executionResult.executionPrice || signal.price,
-        fees: executionResult.fees || 0,
-        slippage: executionResult.slippage || 0,
-        gasUsed: executionResult.gasUsed || 0,
-        processingTime: executionResult.processingTime || 0
-      },
-      riskAssessment: {
-        riskScore: riskAssessment.riskScore,
-        riskFactors: riskAssessment.riskFactors,
-        warnings: riskAssessment.warnings
-      }
+      jobId,
+      trade: outcome.trade,
+      execution: outcome.execution,
+      riskAssessment: outcome.riskAssessment
     });
 
   } catch (error) {
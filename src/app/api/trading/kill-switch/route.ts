@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { killSwitch } from '@/lib/trading/kill-switch';
+import { z } from 'zod';
+
+const killSwitchSchema = z.object({
+  maxSlippage: z.number().gt(0).max(0.5).optional(),
+  reason: z.string().max(200).optional(),
+});
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const reports = await killSwitch.getReports(session.user.id);
+    return NextResponse.json(reports);
+  } catch (error) {
+    console.error('Kill switch reports error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch kill switch reports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stop trading and flatten every open position
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = killSwitchSchema.parse(await request.json().catch(() => ({})));
+    const report = await killSwitch.trigger(session.user.id, {
+      trigger: 'MANUAL',
+      reason: body.reason,
+      maxSlippage: body.maxSlippage,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Kill switch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate kill switch' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, executeWithRetry, connectWithRetry } from '@/lib/prisma';
+import { poolSniper } from '@/lib/pool-sniper/sniper';
 
 export async function GET() {
   try {
@@ -56,6 +57,10 @@ export async function GET() {
       maxDevWalletControl: tradingSettings.maxDevWalletControl,
       maxPriceDump: tradingSettings.maxPriceDump,
       trailingStopLoss: tradingSettings.trailingStopLoss,
+      sniperEnabled: tradingSettings.sniperEnabled,
+      sniperMaxEntryDelayMs: tradingSettings.sniperMaxEntryDelayMs,
+      sniperMinLiquidity: tradingSettings.sniperMinLiquidity,
+      sniperBuyAmount: tradingSettings.sniperBuyAmount,
     });
   } catch (error) {
     console.error('Trading settings API error:', error);
@@ -73,6 +78,10 @@ export async function GET() {
       maxDevWalletControl: 0.30,
       maxPriceDump: 0.20,
       trailingStopLoss: 0.10,
+      sniperEnabled: false,
+      sniperMaxEntryDelayMs: 10000,
+      sniperMinLiquidity: 5000,
+      sniperBuyAmount: 0.1,
     });
   }
 }
@@ -103,6 +112,10 @@ export async function POST(request: NextRequest) {
         maxDevWalletControl: body.maxDevWalletControl,
         maxPriceDump: body.maxPriceDump,
         trailingStopLoss: body.trailingStopLoss,
+        sniperEnabled: body.sniperEnabled,
+        sniperMaxEntryDelayMs: body.sniperMaxEntryDelayMs,
+        sniperMinLiquidity: body.sniperMinLiquidity,
+        sniperBuyAmount: body.sniperBuyAmount,
         updatedAt: new Date(),
       },
       create: {
@@ -117,10 +130,17 @@ export async function POST(request: NextRequest) {
         maxDevWalletControl: body.maxDevWalletControl || 0.30,
         maxPriceDump: body.maxPriceDump || 0.20,
         trailingStopLoss: body.trailingStopLoss || 0.10,
+        sniperEnabled: body.sniperEnabled ?? false,
+        sniperMaxEntryDelayMs: body.sniperMaxEntryDelayMs ?? 10000,
+        sniperMinLiquidity: body.sniperMinLiquidity ?? 5000,
+        sniperBuyAmount: body.sniperBuyAmount || 0.1,
         isActive: false,
       },
     });
 
+    // Start or stop watching for new pools without waiting for the next sync
+    poolSniper.sync().catch(error => console.error('Pool sniper sync failed:', error));
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Trading settings update error:', error);
@@ -2,11 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, executeWithRetry, connectWithRetry } from '@/lib/prisma';
-import { AutonomousTradingBot } from '@/lib/autonomous-trading-bot';
-
-declare global {
-  var tradingBot: AutonomousTradingBot | undefined;
-}
+import { tradingBotRegistry, buildBotConfig } from '@/lib/trading-bot-registry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -51,52 +47,29 @@ export async function POST(request: NextRequest) {
       console.log('Default trading settings created:', settings.id);
     }
 
-    // Create trading bot configuration
-    const botConfig = {
-      userId: 'trading-bot-user', // This should come from session/auth
-      isActive: true,
-      tradingMode: settings.tradingMode,
-      maxPositionSize: settings.maxPositionSize,
-      portfolioCap: settings.portfolioCap,
-      dailyDrawdownLimit: settings.dailyDrawdownLimit,
-      winRateThreshold: settings.winRateThreshold,
-      minLiquidity: settings.minLiquidity,
-      minBuyerConfirmation: settings.minBuyerConfirmation,
-      maxDevWalletControl: settings.maxDevWalletControl,
-      maxPriceDump: settings.maxPriceDump,
-      trailingStopLoss: settings.trailingStopLoss,
-      autoTradingEnabled: true,
-      signalSources: ['BIRDEYE', 'DEXSCREENER', 'COMPANY'],
-      minConfidenceThreshold: 0.6
-    };
+    // Start this user's own bot with their settings
+    const isNewBot = !tradingBotRegistry.get(session.user.id);
+    const bot = await tradingBotRegistry.start(session.user.id, buildBotConfig(session.user.id, settings));
 
-    // Start trading bot if not already running
-    if (!global.tradingBot) {
-      global.tradingBot = new AutonomousTradingBot(botConfig);
-      
+    if (isNewBot) {
       // Set up event listeners for real-time updates
-      global.tradingBot.on('signalReceived', (signal) => {
+      bot.on('signalReceived', (signal) => {
         console.log('📡 Signal received:', signal.symbol);
         // Broadcast to WebSocket clients
         broadcastToClients('signal_update', signal);
       });
 
-      global.tradingBot.on('tradeUpdate', (tradeUpdate) => {
+      bot.on('tradeUpdate', (tradeUpdate) => {
         console.log('💼 Trade update:', tradeUpdate);
         // Broadcast to WebSocket clients
         broadcastToClients('trade_update', tradeUpdate);
       });
 
-      global.tradingBot.on('portfolioUpdate', (portfolioUpdate) => {
+      bot.on('portfolioUpdate', (portfolioUpdate) => {
         console.log('📊 Portfolio update:', portfolioUpdate);
         // Broadcast to WebSocket clients
         broadcastToClients('portfolio_update', portfolioUpdate);
       });
-
-      await global.tradingBot.start();
-    } else if (!global.tradingBot.isActive()) {
-      global.tradingBot.updateConfig(botConfig);
-      await global.tradingBot.start();
     }
 
     // Update trading settings to active with retry logic
@@ -2,11 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, executeWithRetry, connectWithRetry } from '@/lib/prisma';
-import { AutonomousTradingBot } from '@/lib/autonomous-trading-bot';
-
-declare global {
-  var tradingBot: AutonomousTradingBot | undefined;
-}
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
 
 export async function GET(request: NextRequest) {
   try {
@@ -62,14 +58,16 @@ export async function GET(request: NextRequest) {
       sum + (pos.amount * (pos.currentPrice || pos.averagePrice)), 0
     );
 
-    // Check if trading bot is active
+    // Check if the caller's trading bot is active; polling counts as activity
     const isActive = settings?.isActive || false;
-    const botStatus = global.tradingBot ? 
-      (global.tradingBot.isActive() ? 'ACTIVE' : 'STOPPED') : 'STOPPED';
+    const botStatus = tradingBotRegistry.getStatus(session.user.id);
+    tradingBotRegistry.touch(session.user.id);
+    const lastActivityAt = tradingBotRegistry.getLastActivity(session.user.id);
 
     return NextResponse.json({
       isActive,
       botStatus,
+      lastActivityAt,
       stats: {
         totalTrades,
         successfulTrades,
@@ -2,12 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma, executeWithRetry, connectWithRetry } from '@/lib/prisma';
-import { AutonomousTradingBot } from '@/lib/autonomous-trading-bot';
-
-// Reference to the global trading bot instance
-declare global {
-  var tradingBot: AutonomousTradingBot | undefined;
-}
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,10 +16,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Stop the global trading bot if it exists
-    if (global.tradingBot && global.tradingBot.isActive()) {
-      await global.tradingBot.stop();
-      console.log('🛑 Trading bot stopped');
+    // Stop only the caller's bot
+    if (await tradingBotRegistry.stop(session.user.id)) {
+      console.log('🛑 Trading bot stopped for user:', session.user.id);
     }
 
     // Upsert trading settings to inactive with retry logic
@@ -3,7 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { AdvancedExecutionEngine } from '@/lib/trading/execution-engine';
-import { EnhancedRiskManager } from '@/lib/trading/risk-manager';
+import { riskEngine } from '@/lib/risk/engine';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,10 +22,9 @@ export async function POST(request: NextRequest) {
     if (isActive) {
       try {
         const executionEngine = new AdvancedExecutionEngine();
-        const riskManager = new EnhancedRiskManager();
         
         // Validate user's portfolio health before activation
-        const portfolioHealth = await riskManager.assessPortfolioHealth(session.user.id);
+        const portfolioHealth = await riskEngine.assessPortfolioHealth(session.user.id);
         
         if (portfolioHealth.riskLevel === 'EXTREME') {
           return NextResponse.json(
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { WalletError, serializeWallet, walletManager, walletUpdateSchema } from '@/lib/wallets/manager';
+import { z } from 'zod';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const data = walletUpdateSchema.parse(await request.json());
+    const wallet = await walletManager.update(id, session.user.id, data);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: 'Wallet not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(serializeWallet(wallet));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Update wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update wallet' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a wallet and its stored secret. Strategies signing with it fall
+ * back to the default wallet.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const removed = await walletManager.remove(id, session.user.id);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Wallet not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete wallet' },
+      { status: 500 }
+    );
+  }
+}
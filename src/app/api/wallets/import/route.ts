@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { WalletError, serializeWallet, walletImportSchema, walletManager } from '@/lib/wallets/manager';
+import { z } from 'zod';
+
+/**
+ * Import a wallet from a JSON byte array or base58 secret key
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const input = walletImportSchema.parse(await request.json());
+    const wallet = await walletManager.import(session.user.id, input);
+
+    return NextResponse.json(serializeWallet(wallet), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Import wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import wallet' },
+      { status: 500 }
+    );
+  }
+}
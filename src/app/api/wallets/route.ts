@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { WalletError, serializeWallet, walletGenerateSchema, walletManager } from '@/lib/wallets/manager';
+import { z } from 'zod';
+
+/**
+ * The user's wallets with SOL balances and the strategies signing with each
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const wallets = await walletManager.summarize(session.user.id);
+
+    return NextResponse.json({ wallets });
+  } catch (error) {
+    console.error('Wallets API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wallets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Generate a new wallet; its secret is stored encrypted and never returned
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const input = walletGenerateSchema.parse(await request.json());
+    const wallet = await walletManager.generate(session.user.id, input);
+
+    return NextResponse.json(serializeWallet(wallet), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WalletError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Generate wallet error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate wallet' },
+      { status: 500 }
+    );
+  }
+}
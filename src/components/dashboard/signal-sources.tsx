@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useCallback, useEffect, useState } from 'react';
 import { 
   Zap, 
   Globe, 
@@ -8,10 +8,10 @@ import {
   CheckCircle, 
   AlertCircle,
   Star,
-  TrendingUp,
   Clock,
   Target,
-  BarChart3
+  BarChart3,
+  Activity
 } from 'lucide-react';
 
 interface SignalSource {
@@ -20,13 +20,8 @@ interface SignalSource {
   type: 'COMPANY' | 'EXTERNAL';
   description: string;
   features: string[];
-  metrics: {
-    confidence: number;
-    speed: 'ULTRA_FAST' | 'FAST' | 'MEDIUM' | 'SLOW';
-    accuracy: number;
-    latency: number; // milliseconds
-    cost: number; // per month
-  };
+  feed?: string; // Market feed the bot receives this source's signals as
+  monthlyCost: number;
   status: 'ACTIVE' | 'INACTIVE' | 'TRIAL';
   websocketUrl?: string;
   apiKey?: string;
@@ -35,9 +30,91 @@ interface SignalSource {
   recommended: boolean;
 }
 
+interface PerformanceStats {
+  signals: number;
+  passed: number;
+  entries: number;
+  closed: number;
+  wins: number;
+  winRate: number | null;
+  avgReturn: number | null;
+  avgTimeToPeakMs: number | null;
+  falsePositiveRate: number | null;
+  avgLatencyMs: number | null;
+}
+
+interface SourceStats extends PerformanceStats {
+  key: string;
+  name: string;
+  source: string;
+  channelId: string | null;
+  feed: string | null;
+  disabled: { reason: string; at: string } | null;
+  callers: (PerformanceStats & { caller: string })[];
+}
+
+interface SourceStatsResponse {
+  window: string;
+  windows: string[];
+  autoDisable: { window: string; winRateThreshold: number };
+  sources: SourceStats[];
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60 * 1000) return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)}m`;
+  return `${(ms / 3600000).toFixed(1)}h`;
+};
+
 export default function SignalSourceConfiguration() {
   const [selectedSources, setSelectedSources] = useState<string[]>(['fresh-mint-alpha']);
   const [showApiConfig, setShowApiConfig] = useState(false);
+  const [statsWindow, setStatsWindow] = useState('7d');
+  const [stats, setStats] = useState<SourceStatsResponse | null>(null);
+  const [statsError, setStatsError] = useState<string | null>(null);
+  const [updatingSource, setUpdatingSource] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/signals/sources/stats?window=${statsWindow}`);
+      if (!response.ok) throw new Error('Failed to load source performance');
+      setStats(await response.json());
+      setStatsError(null);
+    } catch (error) {
+      console.error('Error fetching source stats:', error);
+      setStatsError('Failed to load source performance');
+    }
+  }, [statsWindow]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const toggleSourceDisabled = async (source: SourceStats) => {
+    setUpdatingSource(source.key);
+    try {
+      const response = await fetch('/api/signals/sources', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: source.key, disabled: !source.disabled })
+      });
+      if (!response.ok) throw new Error('Failed to update source');
+      await fetchStats();
+    } catch (error) {
+      console.error('Error updating source:', error);
+      setStatsError(`Failed to update ${source.name}`);
+    } finally {
+      setUpdatingSource(null);
+    }
+  };
+
+  const feedStats = (feed?: string) =>
+    feed ? stats?.sources.find(source => source.key === `feed:${feed}`) : undefined;
 
   const signalSources: SignalSource[] = [
     {
@@ -53,13 +130,8 @@ export default function SignalSourceConfiguration() {
         'Real-time risk assessment',
         'Telegram & Discord integration'
       ],
-      metrics: {
-        confidence: 0.85,
-        speed: 'ULTRA_FAST',
-        accuracy: 0.78,
-        latency: 180,
-        cost: 0
-      },
+      feed: 'COMPANY',
+      monthlyCost: 0,
       status: 'ACTIVE',
       enabled: true,
       premium: false,
@@ -77,13 +149,8 @@ export default function SignalSourceConfiguration() {
         'Developer wallet monitoring',
         'Rug pull detection'
       ],
-      metrics: {
-        confidence: 0.72,
-        speed: 'FAST',
-        accuracy: 0.71,
-        latency: 350,
-        cost: 49
-      },
+      feed: 'SOLANA_TRACKER',
+      monthlyCost: 49,
       status: 'ACTIVE',
       websocketUrl: 'wss://api.solanatracker.io/ws',
       enabled: true,
@@ -102,13 +169,8 @@ export default function SignalSourceConfiguration() {
         'Token metadata',
         'Historical data'
       ],
-      metrics: {
-        confidence: 0.69,
-        speed: 'FAST',
-        accuracy: 0.69,
-        latency: 420,
-        cost: 79
-      },
+      feed: 'BIRDEYE',
+      monthlyCost: 79,
       status: 'ACTIVE',
       websocketUrl: 'wss://public-api.birdeye.so/socket',
       enabled: false,
@@ -127,13 +189,8 @@ export default function SignalSourceConfiguration() {
         'Volume spike detection',
         'Multi-chain support'
       ],
-      metrics: {
-        confidence: 0.65,
-        speed: 'MEDIUM',
-        accuracy: 0.65,
-        latency: 580,
-        cost: 29
-      },
+      feed: 'DEXSCREENER',
+      monthlyCost: 29,
       status: 'TRIAL',
       websocketUrl: 'wss://io.dexscreener.com/dex/screener/pairs/h24/1',
       enabled: false,
@@ -152,13 +209,8 @@ export default function SignalSourceConfiguration() {
         'Gas estimation',
         'Multi-hop routing'
       ],
-      metrics: {
-        confidence: 0.82,
-        speed: 'FAST',
-        accuracy: 0.88,
-        latency: 290,
-        cost: 0
-      },
+      feed: 'JUPITER',
+      monthlyCost: 0,
       status: 'ACTIVE',
       enabled: true,
       premium: false,
@@ -176,13 +228,7 @@ export default function SignalSourceConfiguration() {
         'Smart money flows',
         'Risk scoring'
       ],
-      metrics: {
-        confidence: 0.76,
-        speed: 'FAST',
-        accuracy: 0.73,
-        latency: 320,
-        cost: 149
-      },
+      monthlyCost: 149,
       status: 'INACTIVE',
       enabled: false,
       premium: true,
@@ -198,16 +244,6 @@ export default function SignalSourceConfiguration() {
     );
   };
 
-  const getSpeedColor = (speed: string) => {
-    switch (speed) {
-      case 'ULTRA_FAST': return 'text-green-400';
-      case 'FAST': return 'text-blue-400';
-      case 'MEDIUM': return 'text-yellow-400';
-      case 'SLOW': return 'text-red-400';
-      default: return 'text-gray-400';
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ACTIVE': return 'text-green-400';
@@ -219,17 +255,18 @@ export default function SignalSourceConfiguration() {
 
   const totalMonthlyCost = signalSources
     .filter(source => selectedSources.includes(source.id))
-    .reduce((sum, source) => sum + source.metrics.cost, 0);
+    .reduce((sum, source) => sum + source.monthlyCost, 0);
 
-  const avgConfidence = signalSources
-    .filter(source => selectedSources.includes(source.id))
-    .reduce((sum, source) => sum + source.metrics.confidence, 0) / 
-    selectedSources.length || 0;
-
-  const avgLatency = signalSources
-    .filter(source => selectedSources.includes(source.id))
-    .reduce((sum, source) => sum + source.metrics.latency, 0) / 
-    selectedSources.length || 0;
+  // Across every source with activity in the selected window
+  const trackedSources = stats?.sources ?? [];
+  const totalClosed = trackedSources.reduce((sum, source) => sum + source.closed, 0);
+  const totalWins = trackedSources.reduce((sum, source) => sum + source.wins, 0);
+  const overallWinRate = totalClosed > 0 ? totalWins / totalClosed : null;
+  const latencySources = trackedSources.filter(source => source.avgLatencyMs !== null);
+  const latencyEntries = latencySources.reduce((sum, source) => sum + source.entries, 0);
+  const overallLatency = latencyEntries > 0
+    ? latencySources.reduce((sum, source) => sum + source.avgLatencyMs! * source.entries, 0) / latencyEntries
+    : null;
 
   return (
     <div className="space-y-6">
@@ -266,9 +303,9 @@ export default function SignalSourceConfiguration() {
         <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-emerald-800/30 p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-gray-400 text-sm">Avg Confidence</p>
-              <p className="text-2xl font-bold text-white">{(avgConfidence * 100).toFixed(1)}%</p>
-              <p className="text-sm text-blue-400">Signal quality</p>
+              <p className="text-gray-400 text-sm">Win Rate</p>
+              <p className="text-2xl font-bold text-white">{formatPercent(overallWinRate)}</p>
+              <p className="text-sm text-blue-400">{totalClosed} closed trades, {statsWindow}</p>
             </div>
             <Target className="h-8 w-8 text-blue-400" />
           </div>
@@ -278,8 +315,8 @@ export default function SignalSourceConfiguration() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-400 text-sm">Avg Latency</p>
-              <p className="text-2xl font-bold text-white">{avgLatency.toFixed(0)}ms</p>
-              <p className="text-sm text-purple-400">Response time</p>
+              <p className="text-2xl font-bold text-white">{formatDuration(overallLatency)}</p>
+              <p className="text-sm text-purple-400">Call to fill</p>
             </div>
             <Clock className="h-8 w-8 text-purple-400" />
           </div>
@@ -347,25 +384,29 @@ export default function SignalSourceConfiguration() {
                 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                   <div>
-                    <p className="text-gray-500 text-xs">Confidence</p>
-                    <p className="text-white font-semibold">{(source.metrics.confidence * 100).toFixed(1)}%</p>
+                    <p className="text-gray-500 text-xs">Win Rate ({statsWindow})</p>
+                    <p className="text-white font-semibold">{formatPercent(feedStats(source.feed)?.winRate ?? null)}</p>
                   </div>
                   <div>
-                    <p className="text-gray-500 text-xs">Speed</p>
-                    <p className={`font-semibold ${getSpeedColor(source.metrics.speed)}`}>
-                      {source.metrics.speed.replace('_', ' ')}
-                    </p>
+                    <p className="text-gray-500 text-xs">Avg Return</p>
+                    <p className="text-white font-semibold">{formatPercent(feedStats(source.feed)?.avgReturn ?? null)}</p>
                   </div>
                   <div>
-                    <p className="text-gray-500 text-xs">Accuracy</p>
-                    <p className="text-white font-semibold">{(source.metrics.accuracy * 100).toFixed(1)}%</p>
+                    <p className="text-gray-500 text-xs">False Positives</p>
+                    <p className="text-white font-semibold">{formatPercent(feedStats(source.feed)?.falsePositiveRate ?? null)}</p>
                   </div>
                   <div>
                     <p className="text-gray-500 text-xs">Latency</p>
-                    <p className="text-white font-semibold">{source.metrics.latency}ms</p>
+                    <p className="text-white font-semibold">{formatDuration(feedStats(source.feed)?.avgLatencyMs ?? null)}</p>
                   </div>
                 </div>
 
+                {feedStats(source.feed)?.disabled && (
+                  <p className="text-red-400 text-sm mb-3">
+                    Disabled: {feedStats(source.feed)!.disabled!.reason}
+                  </p>
+                )}
+
                 <div className="flex flex-wrap gap-2">
                   {source.features.map((feature, index) => (
                     <span key={index} className="bg-gray-800/50 text-gray-300 px-2 py-1 rounded text-xs">
@@ -386,9 +427,9 @@ export default function SignalSourceConfiguration() {
                   </span>
                 </div>
 
-                {source.metrics.cost > 0 && (
+                {source.monthlyCost > 0 && (
                   <div className="text-right">
-                    <div className="text-white font-semibold">${source.metrics.cost}</div>
+                    <div className="text-white font-semibold">${source.monthlyCost}</div>
                     <div className="text-gray-400 text-sm">per month</div>
                   </div>
                 )}
@@ -409,6 +450,109 @@ export default function SignalSourceConfiguration() {
         ))}
       </div>
 
+      {/* Source Performance */}
+      <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-gray-700/30 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center">
+              <Activity className="h-5 w-5 mr-2" />
+              Source Performance
+            </h3>
+            {stats && (
+              <p className="text-gray-400 text-sm">
+                Sources below {formatPercent(stats.autoDisable.winRateThreshold)} win rate over {stats.autoDisable.window} are disabled automatically
+              </p>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            {(stats?.windows ?? ['24h', '7d', '30d']).map(option => (
+              <button
+                key={option}
+                onClick={() => setStatsWindow(option)}
+                className={`px-3 py-1 rounded-lg text-sm ${
+                  statsWindow === option
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {statsError && <p className="text-red-400 text-sm mb-3">{statsError}</p>}
+
+        {trackedSources.length === 0 ? (
+          <p className="text-gray-400 text-sm">No signals received in the last {statsWindow}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 text-xs text-left">
+                  <th className="py-2 pr-4">Source</th>
+                  <th className="py-2 pr-4">Signals</th>
+                  <th className="py-2 pr-4">Entries</th>
+                  <th className="py-2 pr-4">Win Rate</th>
+                  <th className="py-2 pr-4">Avg Return</th>
+                  <th className="py-2 pr-4">Time to Peak</th>
+                  <th className="py-2 pr-4">False Positives</th>
+                  <th className="py-2 pr-4">Latency</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {trackedSources.map(source => (
+                  <Fragment key={source.key}>
+                    <tr className="border-t border-gray-800 text-white">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{source.name}</div>
+                        <div className={`text-xs ${source.disabled ? 'text-red-400' : 'text-gray-500'}`}>
+                          {source.disabled ? `Disabled: ${source.disabled.reason}` : source.channelId ? source.source : source.key}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">{source.signals}</td>
+                      <td className="py-2 pr-4">{source.entries}</td>
+                      <td className="py-2 pr-4">{formatPercent(source.winRate)}</td>
+                      <td className={`py-2 pr-4 ${(source.avgReturn ?? 0) < 0 ? 'text-red-400' : ''}`}>{formatPercent(source.avgReturn)}</td>
+                      <td className="py-2 pr-4">{formatDuration(source.avgTimeToPeakMs)}</td>
+                      <td className="py-2 pr-4">{formatPercent(source.falsePositiveRate)}</td>
+                      <td className="py-2 pr-4">{formatDuration(source.avgLatencyMs)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => toggleSourceDisabled(source)}
+                          disabled={updatingSource === source.key}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium disabled:opacity-50 ${
+                            source.disabled
+                              ? 'bg-emerald-600 hover:bg-emerald-700 text-white'
+                              : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                          }`}
+                        >
+                          {source.disabled ? 'Enable' : 'Disable'}
+                        </button>
+                      </td>
+                    </tr>
+                    {source.callers.slice(0, 5).map(caller => (
+                      <tr key={`${source.key}:${caller.caller}`} className="text-gray-400 text-xs">
+                        <td className="py-1 pr-4 pl-4">↳ {caller.caller}</td>
+                        <td className="py-1 pr-4">{caller.signals}</td>
+                        <td className="py-1 pr-4">{caller.entries}</td>
+                        <td className="py-1 pr-4">{formatPercent(caller.winRate)}</td>
+                        <td className="py-1 pr-4">{formatPercent(caller.avgReturn)}</td>
+                        <td className="py-1 pr-4">{formatDuration(caller.avgTimeToPeakMs)}</td>
+                        <td className="py-1 pr-4">{formatPercent(caller.falsePositiveRate)}</td>
+                        <td className="py-1 pr-4">{formatDuration(caller.avgLatencyMs)}</td>
+                        <td />
+                      </tr>
+                    ))}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* API Configuration Panel */}
       {showApiConfig && (
         <div className="bg-gray-900/60 backdrop-blur-sm rounded-xl border border-gray-700/30 p-6">
@@ -487,24 +631,10 @@ export default function SignalSourceConfiguration() {
           <Star className="h-5 w-5 text-yellow-400" />
           <h3 className="text-lg font-semibold text-white">Recommended Configuration</h3>
         </div>
-        <p className="text-gray-300 mb-4">
+        <p className="text-gray-300">
           For optimal performance, we recommend enabling Fresh Mint Alpha Signals + Solana Token Tracker. 
           This combination provides excellent coverage with minimal latency and cost.
         </p>
-        <div className="flex items-center space-x-4">
-          <div className="flex items-center space-x-2">
-            <TrendingUp className="h-4 w-4 text-emerald-400" />
-            <span className="text-emerald-400 text-sm">83% Avg Confidence</span>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Clock className="h-4 w-4 text-blue-400" />
-            <span className="text-blue-400 text-sm">265ms Avg Latency</span>
-          </div>
-          <div className="flex items-center space-x-2">
-            <BarChart3 className="h-4 w-4 text-purple-400" />
-            <span className="text-purple-400 text-sm">$49/month</span>
-          </div>
-        </div>
       </div>
     </div>
   );
@@ -0,0 +1,365 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Wallet as WalletIcon,
+  Plus,
+  Upload,
+  Star,
+  Trash2,
+  RefreshCw,
+  AlertCircle,
+  Copy,
+  Shield
+} from 'lucide-react';
+
+type WalletRole = 'TRADING' | 'VAULT' | 'BURNER';
+
+// Limits the signer enforces; null is unlimited and no programs means the defaults
+interface WalletPolicy {
+  maxSolPerTransaction: number | null;
+  dailySpendCapSol: number | null;
+  allowedPrograms: string[];
+}
+
+interface Wallet {
+  id: string;
+  label: string;
+  publicKey: string;
+  role: WalletRole;
+  isDefault: boolean;
+  policy: WalletPolicy;
+  balance: number | null;
+  strategies: { id: string; name: string }[];
+  createdAt: string;
+}
+
+const ROLE_STYLES: Record<WalletRole, string> = {
+  TRADING: 'bg-emerald-900/50 text-emerald-300',
+  VAULT: 'bg-blue-900/50 text-blue-300',
+  BURNER: 'bg-orange-900/50 text-orange-300'
+};
+
+const shortKey = (publicKey: string) => `${publicKey.slice(0, 4)}…${publicKey.slice(-4)}`;
+
+export default function WalletManagement() {
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'generate' | 'import' | null>(null);
+  const [form, setForm] = useState({ label: '', role: 'TRADING' as WalletRole, secretKey: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [updatingWallet, setUpdatingWallet] = useState<string | null>(null);
+  const [editingPolicy, setEditingPolicy] = useState<string | null>(null);
+  const [policyForm, setPolicyForm] = useState({ maxSolPerTransaction: '', dailySpendCapSol: '', allowedPrograms: '' });
+
+  const fetchWallets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/wallets');
+      if (!response.ok) throw new Error('Failed to load wallets');
+      const data = await response.json();
+      setWallets(data.wallets);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching wallets:', error);
+      setError('Failed to load wallets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWallets();
+  }, [fetchWallets]);
+
+  const addWallet = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await fetch(mode === 'import' ? '/api/wallets/import' : '/api/wallets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'import'
+          ? form
+          : { label: form.label, role: form.role })
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add wallet');
+      }
+      setForm({ label: '', role: 'TRADING', secretKey: '' });
+      setMode(null);
+      await fetchWallets();
+    } catch (error) {
+      console.error('Error adding wallet:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add wallet');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const updateWallet = async (wallet: Wallet, data: Partial<Pick<Wallet, 'isDefault' | 'role'> & WalletPolicy>) => {
+    setUpdatingWallet(wallet.id);
+    try {
+      const response = await fetch(`/api/wallets/${wallet.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || 'Failed to update wallet');
+      }
+      await fetchWallets();
+    } catch (error) {
+      console.error('Error updating wallet:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update wallet');
+    } finally {
+      setUpdatingWallet(null);
+    }
+  };
+
+  const editPolicy = (wallet: Wallet) => {
+    if (editingPolicy === wallet.id) {
+      setEditingPolicy(null);
+      return;
+    }
+    setPolicyForm({
+      maxSolPerTransaction: wallet.policy.maxSolPerTransaction?.toString() ?? '',
+      dailySpendCapSol: wallet.policy.dailySpendCapSol?.toString() ?? '',
+      allowedPrograms: wallet.policy.allowedPrograms.join('\n')
+    });
+    setEditingPolicy(wallet.id);
+  };
+
+  const savePolicy = async (wallet: Wallet) => {
+    await updateWallet(wallet, {
+      maxSolPerTransaction: policyForm.maxSolPerTransaction ? Number(policyForm.maxSolPerTransaction) : null,
+      dailySpendCapSol: policyForm.dailySpendCapSol ? Number(policyForm.dailySpendCapSol) : null,
+      allowedPrograms: policyForm.allowedPrograms.split(/[\s,]+/).filter(Boolean)
+    });
+    setEditingPolicy(null);
+  };
+
+  const deleteWallet = async (wallet: Wallet) => {
+    if (!confirm(`Delete ${wallet.label}? Its secret key cannot be recovered from Fresh Mint.`)) return;
+
+    setUpdatingWallet(wallet.id);
+    try {
+      const response = await fetch(`/api/wallets/${wallet.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete wallet');
+      await fetchWallets();
+    } catch (error) {
+      console.error('Error deleting wallet:', error);
+      setError(`Failed to delete ${wallet.label}`);
+    } finally {
+      setUpdatingWallet(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <WalletIcon className="h-6 w-6 text-emerald-400" />
+          <h2 className="text-xl font-semibold text-white">Wallets</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'generate' ? null : 'generate')}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 rounded-lg flex items-center space-x-1 text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Generate</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'import' ? null : 'import')}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-2 rounded-lg flex items-center space-x-1 text-sm"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => fetchWallets()}
+            className="p-2 text-gray-400 hover:text-white"
+            title="Refresh balances"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Live trades sign with the strategy&apos;s wallet, or the default trading wallet when the strategy has none.
+        Vault wallets are never used for trading.
+      </p>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-300">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {mode && (
+        <form onSubmit={addWallet} className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+              placeholder="Label"
+              required
+              className="px-3 py-2 bg-gray-800/70 border border-emerald-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <select
+              value={form.role}
+              onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value as WalletRole }))}
+              className="px-3 py-2 bg-gray-800/70 border border-emerald-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              <option value="TRADING">Trading</option>
+              <option value="VAULT">Vault</option>
+              <option value="BURNER">Burner</option>
+            </select>
+          </div>
+          {mode === 'import' && (
+            <textarea
+              value={form.secretKey}
+              onChange={(e) => setForm(prev => ({ ...prev, secretKey: e.target.value }))}
+              placeholder="Secret key as a JSON byte array or base58 string"
+              required
+              rows={3}
+              className="w-full px-3 py-2 bg-gray-800/70 border border-emerald-700/50 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+            >
+              {submitting ? 'Saving...' : mode === 'import' ? 'Import wallet' : 'Generate wallet'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-sm text-gray-400">Loading wallets...</div>
+      ) : wallets.length === 0 ? (
+        <div className="text-sm text-gray-400">No wallets yet. Generate or import one to trade live.</div>
+      ) : (
+        <div className="space-y-2">
+          {wallets.map(wallet => (
+            <div key={wallet.id} className="bg-gray-800/50 rounded-lg p-4 flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-white">{wallet.label}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs ${ROLE_STYLES[wallet.role]}`}>{wallet.role}</span>
+                  {wallet.isDefault && (
+                    <span className="px-2 py-0.5 rounded text-xs bg-yellow-900/50 text-yellow-300">Default</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(wallet.publicKey)}
+                  className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white font-mono"
+                  title="Copy address"
+                >
+                  <span>{shortKey(wallet.publicKey)}</span>
+                  <Copy className="h-3 w-3" />
+                </button>
+                {wallet.strategies.length > 0 && (
+                  <div className="text-xs text-gray-500">
+                    Strategies: {wallet.strategies.map(strategy => strategy.name).join(', ')}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500">
+                  Max {wallet.policy.maxSolPerTransaction ?? '∞'} SOL per trade · {wallet.policy.dailySpendCapSol ?? '∞'} SOL per day ·{' '}
+                  {wallet.policy.allowedPrograms.length > 0 ? `${wallet.policy.allowedPrograms.length} allowed programs` : 'default programs'}
+                </div>
+                {editingPolicy === wallet.id && (
+                  <div className="pt-2 space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={policyForm.maxSolPerTransaction}
+                        onChange={(e) => setPolicyForm(prev => ({ ...prev, maxSolPerTransaction: e.target.value }))}
+                        placeholder="Max SOL per transaction"
+                        className="px-2 py-1 bg-gray-800/70 border border-emerald-700/50 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={policyForm.dailySpendCapSol}
+                        onChange={(e) => setPolicyForm(prev => ({ ...prev, dailySpendCapSol: e.target.value }))}
+                        placeholder="Daily spend cap (SOL)"
+                        className="px-2 py-1 bg-gray-800/70 border border-emerald-700/50 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                    </div>
+                    <textarea
+                      value={policyForm.allowedPrograms}
+                      onChange={(e) => setPolicyForm(prev => ({ ...prev, allowedPrograms: e.target.value }))}
+                      placeholder="Allowed program IDs, one per line (empty for the default DEX programs)"
+                      rows={2}
+                      className="w-full px-2 py-1 bg-gray-800/70 border border-emerald-700/50 rounded text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => savePolicy(wallet)}
+                      disabled={updatingWallet === wallet.id}
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1 rounded text-xs disabled:opacity-50"
+                    >
+                      Save limits
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center space-x-4">
+                <span className="text-white">
+                  {wallet.balance === null ? '—' : `${wallet.balance.toFixed(4)} SOL`}
+                </span>
+                {wallet.role !== 'VAULT' && (
+                  <button
+                    type="button"
+                    onClick={() => editPolicy(wallet)}
+                    className="p-2 text-gray-400 hover:text-emerald-300"
+                    title="Signing limits"
+                  >
+                    <Shield className="h-4 w-4" />
+                  </button>
+                )}
+                {wallet.role === 'TRADING' && !wallet.isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => updateWallet(wallet, { isDefault: true })}
+                    disabled={updatingWallet === wallet.id}
+                    className="p-2 text-gray-400 hover:text-yellow-300 disabled:opacity-50"
+                    title="Make default"
+                  >
+                    <Star className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => deleteWallet(wallet)}
+                  disabled={updatingWallet === wallet.id}
+                  className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                  title="Delete wallet"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Runs once when the Next.js server boots. Queue processors are attached,
+ * exit order monitoring, equity snapshots, market regime detection, the
+ * drawdown kill switch, Telegram and Discord signal ingestion, signal peak
+ * tracking, copy trading, new pool sniping and settling of submitted live
+ * trades start, and backtests and trading bots that were running before a
+ * restart or redeploy are resumed.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { registerQueueProcessors } = await import('@/lib/queue/processors');
+  const { tradingBotRegistry } = await import('@/lib/trading-bot-registry');
+  const { exitOrderManager } = await import('@/lib/trading/exit-order-manager');
+  const { equitySnapshots } = await import('@/lib/trading/equity-snapshots');
+  const { killSwitch } = await import('@/lib/trading/kill-switch');
+  const { marketRegimeDetector } = await import('@/lib/trading/market-regime');
+  const { startSignalIngestion } = await import('@/lib/signal-sources/workers');
+  const { signalAttribution } = await import('@/lib/signal-sources/attribution');
+  const { copyTrading } = await import('@/lib/trading/copy-trading');
+  const { poolSniper } = await import('@/lib/pool-sniper/sniper');
+  const { tradeConfirmations } = await import('@/lib/trading/trade-confirmations');
+  const { backtestEngine } = await import('@/lib/trading/backtest-engine');
+
+  registerQueueProcessors();
+  exitOrderManager.startMonitoring();
+  equitySnapshots.startScheduler();
+  marketRegimeDetector.startScheduler();
+  killSwitch.startMonitoring();
+  startSignalIngestion();
+  signalAttribution.startTracking();
+  copyTrading.start();
+  poolSniper.start();
+  tradeConfirmations.start();
+
+  try {
+    await backtestEngine.resumeStale();
+  } catch (error) {
+    console.error('Failed to requeue interrupted backtests on boot:', error);
+  }
+
+  try {
+    await tradingBotRegistry.resumeRunningBots();
+  } catch (error) {
+    console.error('Failed to resume trading bots on boot:', error);
+  }
+}
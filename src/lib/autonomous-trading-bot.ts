@@ -1,8 +1,19 @@
 import { EventEmitter } from 'events';
+import { Wallet } from '@prisma/client';
 import { WebSocketManager, RealTimeSignal, PortfolioUpdate } from './websocket-manager';
-import { RealTimeTradeExecutor, TradeRequest } from './real-time-trade-executor';
-import { EnhancedRiskManager } from './trading/risk-manager';
+import { RealTimeTradeExecutor } from './real-time-trade-executor';
+import { riskEngine } from './risk/engine';
+import { StrategyConfig, parseStrategyConfig, evaluateStrategy } from './trading/strategy-config';
+import type { RuleEvaluation } from './trading/strategy-rules';
+import { MarketSellFill, marketBuy, marketSell } from './trading/market-sell';
+import { paperExecutionEngine } from './trading/paper-execution-engine';
+import { fetchTokenPrices } from './trading/token-prices';
+import { describeBlacklistEntry, tokenBlacklist } from './trading/blacklist';
+import { signalAttribution, signalSourceKey } from './signal-sources/attribution';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
 import { prisma } from '@/lib/prisma';
+import { jobQueue } from '@/lib/queue/job-queue';
+import { walletManager } from '@/lib/wallets/manager';
 
 interface TradingPosition {
   id?: string;
@@ -12,8 +23,22 @@ interface TradingPosition {
   averagePrice: number;
   currentPrice: number;
   unrealizedPnL: number;
-  stopLoss: number;
-  takeProfit: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  maxHoldUntil?: number;
+}
+
+type ExitLevels = Pick<TradingPosition, 'stopLoss' | 'takeProfit' | 'maxHoldUntil'>;
+
+interface ActiveStrategy {
+  id: string;
+  name: string;
+  config: StrategyConfig;
+}
+
+interface SignalMatch {
+  strategy: ActiveStrategy | null; // Null when no strategies are active
+  signalRecordId: string | null;
 }
 
 export interface TradingBotConfig {
@@ -34,6 +59,33 @@ export interface TradingBotConfig {
   minConfidenceThreshold: number;
 }
 
+/**
+ * A queued signal that had not been processed when state was saved
+ */
+export interface BotPendingOrder {
+  signal: RealTimeSignal;
+  strategyId: string | null;
+  signalRecordId: string | null;
+}
+
+/**
+ * Run state persisted between restarts
+ */
+export interface BotStateSnapshot {
+  lastSignalId: string | null;
+  lastSignalAt: number | null;
+  pendingOrders: BotPendingOrder[];
+  stats: TradingStats;
+}
+
+// Queued signals older than this are dropped when a bot resumes
+const PENDING_ORDER_MAX_AGE_MS = 5 * 60 * 1000;
+
+const SOURCE_REVIEW_INTERVAL_MS = 15 * 60 * 1000;
+
+// Higher slippage for exit orders than for entries
+const EXIT_MAX_SLIPPAGE = 0.03;
+
 export interface TradingStats {
   totalTrades: number;
   successfulTrades: number;
@@ -48,8 +100,8 @@ export interface TradingStats {
 
 export class AutonomousTradingBot extends EventEmitter {
   private wsManager: WebSocketManager;
-  private tradeExecutor: RealTimeTradeExecutor;
-  private riskManager: EnhancedRiskManager;
+  // One executor per wallet for balance reads, rebuilt when the wallet changes
+  private executors = new Map<string, { version: number; executor: RealTimeTradeExecutor }>();
   private prisma = prisma;
   private config: TradingBotConfig;
   private isRunning = false;
@@ -57,13 +109,17 @@ export class AutonomousTradingBot extends EventEmitter {
   private signalQueue: RealTimeSignal[] = [];
   private activePositions = new Map<string, TradingPosition>();
   private processingSignal = false;
+  private activeStrategies: ActiveStrategy[] = [];
+  // Strategy that admitted each queued signal, keyed by signal id
+  private signalMatches = new Map<string, SignalMatch>();
+  private timers: NodeJS.Timeout[] = [];
+  private lastProcessedSignal: { id: string; at: number } | null = null;
+  private restoredOrders: BotPendingOrder[] = [];
 
   constructor(config: TradingBotConfig) {
     super();
     this.config = config;
     this.wsManager = new WebSocketManager();
-    this.tradeExecutor = new RealTimeTradeExecutor();
-    this.riskManager = new EnhancedRiskManager();
   // Reuse shared prisma
     
     this.stats = {
@@ -82,18 +138,14 @@ export class AutonomousTradingBot extends EventEmitter {
   }
 
   private initializeEventHandlers() {
-    // Handle incoming signals
+    // Incoming signals go through the ingestion queue for retries and per-user limits
     this.wsManager.on('signal', (signal: RealTimeSignal) => {
-      this.handleIncomingSignal(signal);
-    });
-
-    // Handle trade updates
-    this.tradeExecutor.on('tradeCompleted', (tradeUpdate: unknown) => {
-      this.handleTradeCompleted(tradeUpdate);
-    });
-
-    this.tradeExecutor.on('tradeFailed', (tradeUpdate: unknown) => {
-      this.handleTradeFailed(tradeUpdate);
+      jobQueue.enqueue('signal-ingestion', { signal }, {
+        userId: this.config.userId,
+        jobId: `${this.config.userId}:${signal.id}`
+      }).catch(error => {
+        console.error('Failed to queue signal:', error);
+      });
     });
 
     // Handle WebSocket disconnections
@@ -103,7 +155,7 @@ export class AutonomousTradingBot extends EventEmitter {
     });
   }
 
-  public async start(): Promise<void> {
+  public async start(options: { resume?: boolean } = {}): Promise<void> {
     if (this.isRunning) {
       console.log('⚠️ Trading bot is already running');
       return;
@@ -115,17 +167,22 @@ export class AutonomousTradingBot extends EventEmitter {
       // Validate configuration
       await this.validateConfiguration();
       
-      // Initialize trading wallet
-      if (!this.tradeExecutor.isReady()) {
-        if (process.env.NODE_ENV === 'development') {
-          console.warn('⚠️ Trading executor not ready - continuing in development mode with simulated trades');
-        } else {
-          throw new Error('Trading executor not ready - check wallet configuration');
-        }
-      }
+      // Live trading needs a default wallet to sign with
+      const wallet = this.config.tradingMode === 'LIVE'
+        ? await walletManager.resolve(this.config.userId)
+        : null;
 
       // Load existing positions
       await this.loadActivePositions();
+      console.log(`📊 Loaded ${this.activePositions.size} active positions`);
+
+      // Load the user's activated strategies
+      await this.loadActiveStrategies();
+
+      // After a restart, settle open positions and saved orders before new signals
+      if (options.resume) {
+        await this.reconcileAfterRestart();
+      }
       
       // Start signal processing
       this.isRunning = true;
@@ -138,7 +195,7 @@ export class AutonomousTradingBot extends EventEmitter {
       this.emit('botStarted', {
         timestamp: Date.now(),
         config: this.config,
-        walletAddress: this.tradeExecutor.getWalletAddress()
+        walletAddress: wallet?.publicKey ?? null
       });
 
     } catch (error) {
@@ -152,12 +209,77 @@ export class AutonomousTradingBot extends EventEmitter {
     console.log('🛑 Stopping Autonomous Trading Bot...');
     
     this.isRunning = false;
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
     this.wsManager.disconnect();
     
     console.log('✅ Trading Bot stopped');
     this.emit('botStopped', { timestamp: Date.now() });
   }
 
+  /**
+   * Restore run state saved before a restart. Call before start({ resume: true }).
+   */
+  public restoreState(snapshot: BotStateSnapshot): void {
+    this.stats = { ...this.stats, ...snapshot.stats, lastUpdated: Date.now() };
+    this.lastProcessedSignal = snapshot.lastSignalId && snapshot.lastSignalAt
+      ? { id: snapshot.lastSignalId, at: snapshot.lastSignalAt }
+      : null;
+    this.restoredOrders = snapshot.pendingOrders;
+  }
+
+  public getStateSnapshot(): BotStateSnapshot {
+    return {
+      lastSignalId: this.lastProcessedSignal?.id ?? null,
+      lastSignalAt: this.lastProcessedSignal?.at ?? null,
+      pendingOrders: this.signalQueue.map(signal => {
+        const match = this.signalMatches.get(signal.id);
+        return {
+          signal,
+          strategyId: match?.strategy?.id ?? null,
+          signalRecordId: match?.signalRecordId ?? null
+        };
+      }),
+      stats: { ...this.stats }
+    };
+  }
+
+  /**
+   * Bring restored state in line with the database: positions were reloaded
+   * from Position rows, so re-check their exits and drop saved orders that are
+   * stale, already filled, or belong to a strategy that is no longer active.
+   */
+  private async reconcileAfterRestart(): Promise<void> {
+    const now = Date.now();
+    let requeued = 0;
+
+    for (const order of this.restoredOrders) {
+      const { signal } = order;
+      if (now - signal.timestamp > PENDING_ORDER_MAX_AGE_MS) continue;
+      if (signal.action === 'BUY' && this.activePositions.has(signal.tokenAddress)) continue;
+      if (signal.action === 'SELL' && !this.activePositions.has(signal.tokenAddress)) continue;
+
+      if (order.strategyId) {
+        const strategy = this.activeStrategies.find(s => s.id === order.strategyId);
+        if (!strategy) continue;
+        this.signalMatches.set(signal.id, { strategy, signalRecordId: order.signalRecordId });
+      } else if (this.activeStrategies.length > 0) {
+        continue;
+      } else {
+        this.signalMatches.set(signal.id, { strategy: null, signalRecordId: order.signalRecordId });
+      }
+
+      this.signalQueue.push(signal);
+      requeued++;
+    }
+
+    console.log(`♻️ Reconciled restart: ${this.activePositions.size} open positions, ${requeued}/${this.restoredOrders.length} pending orders requeued`);
+    this.restoredOrders = [];
+
+    await this.updatePositionPrices();
+    await this.checkExitConditions();
+  }
+
   private async validateConfiguration(): Promise<void> {
     if (!this.config.isActive) {
       throw new Error('Trading bot is not active');
@@ -182,11 +304,16 @@ export class AutonomousTradingBot extends EventEmitter {
       // Load positions from database
       const positions = await this.prisma.position.findMany({
         where: {
+          portfolio: { userId: this.config.userId },
           tradingMode: this.config.tradingMode,
           amount: { gt: 0 }
         }
       });
 
+      // Replace rather than merge: exit orders may have sold positions down or closed them
+      const previous = this.activePositions;
+      this.activePositions = new Map();
+
       positions.forEach(position => {
         this.activePositions.set(position.tokenAddress, {
           id: position.id,
@@ -194,73 +321,146 @@ export class AutonomousTradingBot extends EventEmitter {
           symbol: position.tokenSymbol || 'UNKNOWN',
           amount: position.amount,
           averagePrice: position.averagePrice,
-          currentPrice: position.currentPrice || 0,
+          // Keep the last polled price; fall back to cost when none is known
+          currentPrice: previous.get(position.tokenAddress)?.currentPrice || position.currentPrice || position.averagePrice,
           unrealizedPnL: position.unrealizedPnl,
-          stopLoss: position.stopLossPrice || 0,
-          takeProfit: position.takeProfitPrice || 0
+          // Unset levels stay unset rather than reading as 0
+          stopLoss: position.stopLossPrice || undefined,
+          takeProfit: position.takeProfitPrice || undefined,
+          maxHoldUntil: position.maxHoldUntil?.getTime()
         });
       });
 
       this.stats.activePositions = this.activePositions.size;
-      console.log(`📊 Loaded ${this.activePositions.size} active positions`);
 
     } catch (error) {
       console.error('Failed to load active positions:', error);
     }
   }
 
+  /**
+   * Reload the user's active strategies. Called on start and whenever a
+   * strategy is activated, deactivated, edited or deleted.
+   */
+  public async loadActiveStrategies(): Promise<void> {
+    try {
+      const strategies = await this.prisma.strategy.findMany({
+        where: { userId: this.config.userId, isActive: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const loaded: ActiveStrategy[] = [];
+      for (const strategy of strategies) {
+        try {
+          loaded.push({ id: strategy.id, name: strategy.name, config: parseStrategyConfig(strategy.config) });
+        } catch (error) {
+          console.error(`Skipping strategy ${strategy.id} with invalid config:`, error);
+        }
+      }
+
+      this.activeStrategies = loaded;
+      console.log(`🧠 Loaded ${loaded.length} active strategies`);
+      this.emit('strategiesUpdated', loaded.map(strategy => ({ id: strategy.id, name: strategy.name })));
+
+    } catch (error) {
+      console.error('Failed to load active strategies:', error);
+    }
+  }
+
   private startSignalProcessing(): void {
     // Process signals every 100ms
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       if (this.isRunning && !this.processingSignal && this.signalQueue.length > 0) {
         this.processNextSignal();
       }
-    }, 100);
+    }, 100));
   }
 
   private startPeriodicUpdates(): void {
     // Update portfolio stats every 10 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       if (this.isRunning) {
         this.updatePortfolioStats();
       }
-    }, 10000);
+    }, 10000));
 
     // Update position prices every 30 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       if (this.isRunning) {
         this.updatePositionPrices();
       }
-    }, 30000);
+    }, 30000));
 
-    // Check stop-loss and take-profit every 5 seconds
-    setInterval(() => {
+    // Disable signal sources whose rolling win rate fell below the threshold
+    this.timers.push(setInterval(() => {
       if (this.isRunning) {
-        this.checkExitConditions();
+        this.reviewSignalSources();
+      }
+    }, SOURCE_REVIEW_INTERVAL_MS));
+
+    // Check exit orders and holding limits every 5 seconds via the exit-monitoring queue
+    this.timers.push(setInterval(() => {
+      if (this.isRunning) {
+        jobQueue.enqueue('exit-monitoring', {}, {
+          userId: this.config.userId,
+          jobId: `exit:${this.config.userId}:${Math.floor(Date.now() / 5000)}`
+        }).catch(error => {
+          console.error('Failed to queue exit check:', error);
+        });
+      }
+    }, 5000));
+  }
+
+  private async reviewSignalSources(): Promise<void> {
+    try {
+      const disabled = await signalAttribution.disableUnderperformers(this.config.userId, this.config.winRateThreshold);
+      if (disabled.length > 0) {
+        this.emit('sourcesDisabled', disabled.map(source => ({ key: source.key, name: source.name, winRate: source.winRate })));
       }
-    }, 5000);
+    } catch (error) {
+      console.error('Failed to review signal sources:', error);
+    }
   }
 
-  private async handleIncomingSignal(signal: RealTimeSignal): Promise<void> {
+  public async ingestSignal(signal: RealTimeSignal): Promise<void> {
     console.log(`📡 Received signal: ${signal.symbol} (${signal.action}) - Confidence: ${signal.confidence}`);
 
     // Filter signals based on configuration
-    if (!this.shouldProcessSignal(signal)) {
+    if (!(await this.shouldProcessSignal(signal))) {
       return;
     }
 
+    // With strategies activated, only trade signals one of them accepts
+    if (this.activeStrategies.length > 0) {
+      const match = await this.matchStrategies(signal);
+      if (!match) {
+        console.log(`🔍 Signal filtered: no active strategy matched ${signal.symbol}`);
+        return;
+      }
+      this.signalMatches.set(signal.id, match);
+    } else {
+      // Recorded anyway so trades on it are attributed to the feed
+      this.signalMatches.set(signal.id, { strategy: null, signalRecordId: await this.recordSignal(signal, true, { feed: signal.source }) });
+    }
+
     // Add to processing queue
     this.signalQueue.push(signal);
     
     this.emit('signalReceived', signal);
   }
 
-  private shouldProcessSignal(signal: RealTimeSignal): boolean {
+  private async shouldProcessSignal(signal: RealTimeSignal): Promise<boolean> {
     // Check if signal source is enabled
     if (!this.config.signalSources.includes(signal.source)) {
       return false;
     }
 
+    // Feeds switched off by the user or for a low win rate
+    if (await signalAttribution.isDisabled(this.config.userId, signalSourceKey({ source: 'SOLANA_INDEXER', feed: signal.source }))) {
+      console.log(`🔍 Signal filtered: source ${signal.source} is disabled`);
+      return false;
+    }
+
     // Check confidence threshold
     if (signal.confidence < this.config.minConfidenceThreshold) {
       console.log(`🔍 Signal filtered: confidence ${signal.confidence} below threshold ${this.config.minConfidenceThreshold}`);
@@ -279,35 +479,108 @@ export class AutonomousTradingBot extends EventEmitter {
       return false;
     }
 
+    // Blacklisted tokens can still be sold
+    if (signal.action === 'BUY') {
+      const blacklisted = await tokenBlacklist.check(signal.tokenAddress, { userId: this.config.userId });
+      if (blacklisted) {
+        console.log(`🔍 Signal filtered: ${describeBlacklistEntry(blacklisted)}`);
+        return false;
+      }
+    }
+
     return true;
   }
 
+  /**
+   * Evaluate every active strategy's rule tree and record the explanation
+   * on a Signal row. Returns the first strategy that accepted the signal.
+   */
+  private async matchStrategies(signal: RealTimeSignal): Promise<SignalMatch | null> {
+    const evaluations: Array<{ strategy: ActiveStrategy; evaluation: RuleEvaluation }> = this.activeStrategies.map(strategy => ({
+      strategy,
+      evaluation: evaluateStrategy(strategy.config, signal)
+    }));
+    const matched = evaluations.find(e => e.evaluation.passed);
+
+    const signalRecordId = await this.recordSignal(signal, !!matched, {
+      feed: signal.source,
+      matchedStrategyId: matched?.strategy.id ?? null,
+      strategies: evaluations.map(({ strategy, evaluation }) => ({
+        strategyId: strategy.id,
+        strategyName: strategy.name,
+        passed: evaluation.passed,
+        evaluation
+      }))
+    });
+
+    return matched ? { strategy: matched.strategy, signalRecordId } : null;
+  }
+
+  /**
+   * Store a feed signal as a Signal row owned by this bot's user. Returns
+   * null if it could not be stored; trading goes ahead unattributed.
+   */
+  private async recordSignal(signal: RealTimeSignal, passedFilters: boolean, filtersResult: Record<string, unknown>): Promise<string | null> {
+    try {
+      const record = await this.prisma.signal.create({
+        data: {
+          source: 'SOLANA_INDEXER',
+          sourceId: signal.id,
+          userId: this.config.userId,
+          feed: signal.source,
+          postedAt: new Date(signal.timestamp),
+          tokenAddress: signal.tokenAddress,
+          tokenSymbol: signal.symbol,
+          rawMessage: JSON.stringify(signal),
+          confidence: signal.confidence,
+          liquidity: signal.metadata?.liquidity,
+          devWalletShare: signal.metadata?.devWalletPercent,
+          priceChange: signal.metadata?.priceChange24h,
+          isProcessed: true,
+          passedFilters,
+          filtersResult: JSON.parse(JSON.stringify(filtersResult))
+        }
+      });
+      return record.id;
+    } catch (error) {
+      console.error('Failed to record signal:', error);
+      return null;
+    }
+  }
+
   private async processNextSignal(): Promise<void> {
     if (this.signalQueue.length === 0) return;
 
     this.processingSignal = true;
     const signal = this.signalQueue.shift()!;
+    this.lastProcessedSignal = { id: signal.id, at: Date.now() };
 
     try {
       console.log(`⚡ Processing signal: ${signal.symbol} (${signal.action})`);
 
       // Assess risk
-      const riskAssessment = await this.riskManager.assessTradeRisk({
+      const riskAssessment = await riskEngine.assessTrade({
         userId: this.config.userId,
         tokenAddress: signal.tokenAddress,
-        tradeType: signal.action,
+        side: signal.action,
         amount: this.calculatePositionSize(signal),
-        currentPrice: signal.price,
+        price: signal.price,
+        tradingMode: this.config.tradingMode,
         signal: {
           confidence: signal.confidence,
           source: signal.source,
           metadata: signal.metadata
         }
+      }, {
+        parameters: {
+          maxDailyLoss: this.config.dailyDrawdownLimit,
+          minConfidence: this.config.minConfidenceThreshold
+        }
       });
 
       if (!riskAssessment.approved) {
-        console.log(`🚫 Trade rejected by risk manager`);
-        this.emit('tradeRejected', { signal, riskScore: riskAssessment.riskScore });
+        console.log(`🚫 Trade rejected by risk engine: ${riskAssessment.reasons.join('; ')}`);
+        this.emit('tradeRejected', { signal, riskScore: riskAssessment.riskScore, reasons: riskAssessment.reasons });
         return;
       }
 
@@ -323,16 +596,31 @@ export class AutonomousTradingBot extends EventEmitter {
       console.error('Error processing signal:', error);
       this.emit('signalProcessingError', { signal, error });
     } finally {
+      this.signalMatches.delete(signal.id);
       this.processingSignal = false;
     }
   }
 
+  private executorFor(wallet: Wallet): RealTimeTradeExecutor {
+    const version = wallet.updatedAt.getTime();
+    const cached = this.executors.get(wallet.id);
+    if (cached?.version === version) return cached.executor;
+
+    const executor = walletManager.createExecutor(wallet);
+    this.executors.set(wallet.id, { version, executor });
+    return executor;
+  }
+
   private calculatePositionSize(signal: RealTimeSignal): number {
-    // Base position size from configuration
-    let positionSize = this.config.maxPositionSize;
+    const strategy = this.signalMatches.get(signal.id)?.strategy;
+
+    // Base position size from the matching strategy's entry sizing, or configuration
+    let positionSize = strategy ? strategy.config.entry.maxTradeAmount : this.config.maxPositionSize;
 
     // Adjust based on confidence
-    positionSize *= signal.confidence;
+    if (!strategy || strategy.config.entry.sizing === 'CONFIDENCE_SCALED') {
+      positionSize *= signal.confidence;
+    }
 
     // Adjust based on current portfolio utilization
     const portfolioUtilization = this.stats.portfolioValue / this.config.portfolioCap;
@@ -345,35 +633,20 @@ export class AutonomousTradingBot extends EventEmitter {
       positionSize *= 0.7; // Reduce position size when win rate is low
     }
 
-    return Math.max(positionSize, 10); // Minimum $10 position
+    positionSize = Math.max(positionSize, 10); // Minimum $10 position
+
+    // Never exceed the configured maximum position
+    return Math.min(positionSize, this.config.maxPositionSize);
   }
 
   private async executeTrade(signal: RealTimeSignal, amount: number): Promise<void> {
     try {
-      const tradeRequest: TradeRequest = {
-        tokenAddress: signal.tokenAddress,
-        action: signal.action,
-        amount: amount,
-        maxSlippage: 2, // 2% max slippage
-        priority: signal.confidence > 0.8 ? 'HIGH' : 'MEDIUM'
-      };
-
-      console.log(`💼 Executing ${signal.action} trade: ${amount} SOL for ${signal.symbol}`);
+      console.log(`💼 Executing ${signal.action} trade: $${amount} for ${signal.symbol}`);
 
       if (this.config.tradingMode === 'PAPER') {
-        // Simulate trade execution
-        this.simulateTrade(signal, amount);
+        await this.executePaperTrade(signal, amount);
       } else {
-        // Execute real trade
-        const result = await this.tradeExecutor.executeTrade(tradeRequest);
-        
-        if (result.success) {
-          console.log(`✅ Trade executed successfully: ${result.txHash}`);
-          await this.recordTrade(signal, amount, result);
-        } else {
-          console.log(`❌ Trade failed: ${result.error}`);
-          this.emit('tradeFailed', { signal, error: result.error });
-        }
+        await this.executeLiveTrade(signal, amount);
       }
 
     } catch (error) {
@@ -382,84 +655,190 @@ export class AutonomousTradingBot extends EventEmitter {
     }
   }
 
-  private simulateTrade(signal: RealTimeSignal, amount: number): void {
-    // Simulate trade with random success/failure
-    const success = Math.random() > 0.1; // 90% success rate in paper trading
-    
-    if (success) {
-      const simulatedResult = {
-        success: true,
-        txHash: `simulated-${Date.now()}`,
-        actualAmount: amount,
-        executionPrice: signal.price,
-        fees: amount * 0.003, // 0.3% fees
-        slippage: Math.random() * 0.5, // Random slippage up to 0.5%
-        gasUsed: 5000,
-        processingTime: Math.random() * 1000 + 500
-      };
-
-      this.handleTradeCompleted({
-        id: `sim-${Date.now()}`,
-        ...simulatedResult,
+  /**
+   * Swap through the market order helpers, which sign with the user's wallet
+   * and book what the swap actually bought or sold. Buys spend `amount`, in
+   * the quote currency, converted to SOL; sells sell the whole position.
+   */
+  private async executeLiveTrade(signal: RealTimeSignal, amount: number): Promise<void> {
+    const match = this.signalMatches.get(signal.id);
+    const strategy = match?.strategy ?? undefined;
+    const position = this.activePositions.get(signal.tokenAddress);
+
+    if (signal.action === 'SELL' && !position) {
+      console.log(`⚠️ No ${signal.symbol} position to sell`);
+      return;
+    }
+
+    const order = {
+      userId: this.config.userId,
+      tradingMode: 'LIVE' as const,
+      tokenAddress: signal.tokenAddress,
+      tokenSymbol: signal.symbol,
+      price: signal.price,
+      maxSlippage: 0.02,
+      signalId: match?.signalRecordId ?? undefined,
+      strategyId: strategy?.id,
+      metadata: {
+        signalId: signal.id,
+        signalSource: signal.source,
+        signalConfidence: signal.confidence,
+        strategyName: strategy?.name ?? null
+      }
+    };
+
+    let fill: MarketSellFill;
+    try {
+      if (signal.action === 'BUY') {
+        const solPrice = (await fetchTokenPrices([TOKEN_ADDRESSES.SOL]))[TOKEN_ADDRESSES.SOL];
+        if (!solPrice) throw new Error('No SOL price available');
+
+        // Buys sign with the strategy's wallet; sells with the wallet holding the tokens
+        const wallet = await walletManager.resolve(this.config.userId, { strategyId: strategy?.id });
+        const exits = this.exitLevels(signal.tokenAddress, signal.price, strategy?.config);
+        fill = await marketBuy({
+          ...order,
+          solAmount: amount / solPrice,
+          solPrice,
+          walletId: wallet.id,
+          ...this.exitFields(exits)
+        });
+        await this.updatePosition(signal, fill.quantity, fill.price, exits);
+      } else {
+        fill = await marketSell({ ...order, quantity: position!.amount });
+        this.reducePosition(position!, fill.quantity, fill.realizedPnl);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.handleTradeFailed({ id: `live-${Date.now()}`, error: message, timestamp: Date.now() });
+      this.emit('tradeFailed', { signal, error: message });
+      return;
+    }
+
+    await this.incrementStrategyTrades(strategy);
+    await this.handleTradeCompleted({
+      id: fill.tradeId,
+      success: true,
+      actualAmount: fill.quantity,
+      executionPrice: fill.price,
+      timestamp: Date.now()
+    });
+  }
+
+  private async executePaperTrade(signal: RealTimeSignal, amount: number): Promise<void> {
+    const match = this.signalMatches.get(signal.id);
+    const position = this.activePositions.get(signal.tokenAddress);
+
+    if (signal.action === 'SELL' && !position) {
+      console.log(`⚠️ No ${signal.symbol} position to sell`);
+      return;
+    }
+
+    const exits = signal.action === 'BUY'
+      ? this.exitLevels(signal.tokenAddress, signal.price, match?.strategy?.config)
+      : undefined;
+
+    const { fill, recorded } = await paperExecutionEngine.executeAndRecord({
+      side: signal.action,
+      tokenAddress: signal.tokenAddress,
+      tokenSymbol: signal.symbol,
+      price: signal.price,
+      liquidity: signal.metadata?.liquidity,
+      quoteAmount: signal.action === 'BUY' ? amount : undefined,
+      quantity: signal.action === 'SELL' ? position!.amount : undefined
+    }, {
+      userId: this.config.userId,
+      signalId: match?.signalRecordId ?? undefined,
+      strategyId: match?.strategy?.id,
+      ...this.exitFields(exits),
+      metadata: {
+        signalId: signal.id,
+        signalSource: signal.source,
+        signalConfidence: signal.confidence,
+        strategyName: match?.strategy?.name ?? null
+      }
+    });
+
+    if (!recorded) {
+      await this.handleTradeFailed({
+        id: `paper-${Date.now()}`,
+        error: fill.reason || 'Paper order rejected',
         timestamp: Date.now()
       });
+      return;
+    }
+
+    await this.incrementStrategyTrades(match?.strategy ?? undefined);
+
+    if (signal.action === 'BUY') {
+      await this.updatePosition(signal, fill.quantity, fill.averagePrice, exits!);
     } else {
-      this.handleTradeFailed({
-        id: `sim-${Date.now()}`,
-        error: 'Simulated trade failure',
-        timestamp: Date.now()
-      });
+      this.reducePosition(position!, recorded.quantity, recorded.realizedPnl);
     }
+
+    await this.handleTradeCompleted({
+      id: recorded.tradeId,
+      success: true,
+      actualAmount: fill.quantity,
+      executionPrice: fill.averagePrice,
+      fees: fill.fees.total,
+      slippage: fill.priceImpact * 100,
+      fillRatio: fill.fillRatio,
+      processingTime: fill.latencyMs,
+      timestamp: Date.now()
+    });
   }
 
-  private async recordTrade(signal: RealTimeSignal, amount: number, result: unknown): Promise<void> {
-    try {
-      // Cast result to TradeResult type for safe access
-      const tradeResult = result as { 
-        actualAmount?: number; 
-        executionPrice?: number; 
-        fees?: number; 
-        slippage?: number; 
-        txHash?: string; 
-      };
-
-      // Record trade in database
-      await this.prisma.trade.create({
-        data: {
-          userId: 'trading-bot', // This should come from actual user context
-          portfolioId: 'default', // This should come from actual portfolio
-          type: signal.action,
-          tokenAddress: signal.tokenAddress,
-          tokenSymbol: signal.symbol,
-          amount: tradeResult.actualAmount || amount,
-          price: tradeResult.executionPrice || signal.price,
-          fees: tradeResult.fees || 0,
-          slippage: tradeResult.slippage || 0,
-          txHash: tradeResult.txHash,
-          status: 'EXECUTED',
-          tradingMode: this.config.tradingMode,
-          metadata: {
-            signalId: signal.id,
-            signalSource: signal.source,
-            signalConfidence: signal.confidence,
-            txHash: tradeResult.txHash || '',
-            fees: tradeResult.fees || 0,
-            slippage: tradeResult.slippage || 0
-          }
-        }
-      });
+  private async incrementStrategyTrades(strategy?: ActiveStrategy): Promise<void> {
+    if (!strategy) return;
 
-      // Update position if it's a buy order
-      if (signal.action === 'BUY') {
-        await this.updatePosition(signal, tradeResult.actualAmount || amount, tradeResult.executionPrice || signal.price);
-      }
+    await this.prisma.strategy.update({
+      where: { id: strategy.id },
+      data: { totalTrades: { increment: 1 } }
+    });
+  }
 
-    } catch (error) {
-      console.error('Failed to record trade:', error);
+  private reducePosition(position: TradingPosition, quantity: number, realizedPnL: number): void {
+    position.amount -= quantity;
+    if (position.amount <= 1e-12) {
+      this.activePositions.delete(position.tokenAddress);
+    }
+
+    this.stats.activePositions = this.activePositions.size;
+    this.stats.totalPnL += realizedPnL;
+    this.stats.dailyPnL += realizedPnL;
+  }
+
+  /**
+   * Exit levels for a buy at the given price. Adding to a held position keeps
+   * its levels; strategy exit settings override the bot defaults of trailing
+   * stop / 50% take profit.
+   */
+  private exitLevels(tokenAddress: string, price: number, strategy?: StrategyConfig): ExitLevels {
+    const existing = this.activePositions.get(tokenAddress);
+    if (existing) {
+      return { stopLoss: existing.stopLoss, takeProfit: existing.takeProfit, maxHoldUntil: existing.maxHoldUntil };
     }
+
+    return {
+      stopLoss: price * (1 - (strategy ? strategy.exit.stopLoss / 100 : this.config.trailingStopLoss)),
+      takeProfit: price * (1 + (strategy ? strategy.exit.takeProfit / 100 : 0.5)),
+      maxHoldUntil: strategy?.exit.maxHoldingMinutes
+        ? Date.now() + strategy.exit.maxHoldingMinutes * 60 * 1000
+        : undefined
+    };
+  }
+
+  // Exit levels as stored on the position, so a restart restores them
+  private exitFields(exits?: ExitLevels) {
+    return {
+      stopLossPrice: exits?.stopLoss,
+      takeProfitPrice: exits?.takeProfit,
+      maxHoldUntil: exits?.maxHoldUntil ? new Date(exits.maxHoldUntil) : undefined
+    };
   }
 
-  private async updatePosition(signal: RealTimeSignal, amount: number, price: number): Promise<void> {
+  private async updatePosition(signal: RealTimeSignal, amount: number, price: number, exits: ExitLevels): Promise<void> {
     const existingPosition = this.activePositions.get(signal.tokenAddress);
 
     if (existingPosition) {
@@ -478,8 +857,7 @@ export class AutonomousTradingBot extends EventEmitter {
         averagePrice: price,
         currentPrice: price,
         unrealizedPnL: 0,
-        stopLoss: price * (1 - this.config.trailingStopLoss),
-        takeProfit: price * 1.5 // 50% take profit
+        ...exits
       });
     }
 
@@ -508,7 +886,10 @@ export class AutonomousTradingBot extends EventEmitter {
 
   private async updatePortfolioStats(): Promise<void> {
     try {
-      const walletBalance = await this.tradeExecutor.getWalletBalance();
+      const wallet = this.config.tradingMode === 'LIVE'
+        ? await walletManager.resolve(this.config.userId).catch(() => null)
+        : null;
+      const walletBalance = wallet ? await this.executorFor(wallet).getWalletBalance() : 0;
       let totalPositionValue = 0;
 
       // Calculate total position value
@@ -552,52 +933,67 @@ export class AutonomousTradingBot extends EventEmitter {
     }
   }
 
+  public async runExitChecks(): Promise<void> {
+    if (this.isRunning) {
+      await this.loadActivePositions();
+      await this.checkExitConditions();
+    }
+  }
+
+  /**
+   * Stop-loss and take-profit are exit orders placed with each entry and
+   * filled by the exit order manager; the bot only enforces holding limits
+   */
   private async checkExitConditions(): Promise<void> {
     for (const [tokenAddress, position] of this.activePositions) {
-      // Check stop-loss
-      if (position.currentPrice <= position.stopLoss) {
-        console.log(`🛑 Stop-loss triggered for ${position.symbol}`);
-        await this.executeSellOrder(position, 'STOP_LOSS');
-      }
-      
-      // Check take-profit
-      if (position.currentPrice >= position.takeProfit) {
-        console.log(`🎯 Take-profit triggered for ${position.symbol}`);
-        await this.executeSellOrder(position, 'TAKE_PROFIT');
+      // Check strategy holding limit
+      if (position.maxHoldUntil && Date.now() >= position.maxHoldUntil && this.activePositions.has(tokenAddress)) {
+        console.log(`⏰ Holding limit reached for ${position.symbol}`);
+        await this.executeSellOrder(position, 'TIME_EXIT');
       }
     }
   }
 
   private async executeSellOrder(position: TradingPosition, reason: string): Promise<void> {
     try {
-      const tradeRequest: TradeRequest = {
-        tokenAddress: position.tokenAddress,
-        action: 'SELL',
-        amount: position.amount,
-        maxSlippage: 3, // Higher slippage for exit orders
-        priority: 'HIGH'
-      };
-
       console.log(`📤 Executing ${reason} sell order for ${position.symbol}`);
       
       if (this.config.tradingMode === 'LIVE') {
-        const result = await this.tradeExecutor.executeTrade(tradeRequest);
-        
-        if (result.success) {
-          this.activePositions.delete(position.tokenAddress);
-          this.stats.activePositions = this.activePositions.size;
-          
-          // Calculate realized PnL
-          const realizedPnL = (result.executionPrice! - position.averagePrice) * position.amount;
-          this.stats.totalPnL += realizedPnL;
-          this.stats.dailyPnL += realizedPnL;
-          
-          console.log(`✅ Exit order executed: ${reason} - PnL: ${realizedPnL.toFixed(2)}`);
-        }
+        // Sells the whole position from the wallet holding it and books what the swap sold
+        const fill = await marketSell({
+          userId: this.config.userId,
+          tradingMode: 'LIVE',
+          tokenAddress: position.tokenAddress,
+          tokenSymbol: position.symbol,
+          quantity: position.amount,
+          price: position.currentPrice,
+          maxSlippage: EXIT_MAX_SLIPPAGE,
+          metadata: { exitReason: reason }
+        });
+        this.reducePosition(position, fill.quantity, fill.realizedPnl);
+
+        console.log(`✅ Exit order executed: ${reason} - PnL: ${fill.realizedPnl.toFixed(2)}`);
       } else {
-        // Simulate exit in paper trading
-        this.activePositions.delete(position.tokenAddress);
-        this.stats.activePositions = this.activePositions.size;
+        // Paper exits fill against the simulated pool; a partial fill leaves the rest for the next check
+        const { fill, recorded } = await paperExecutionEngine.executeAndRecord({
+          side: 'SELL',
+          tokenAddress: position.tokenAddress,
+          tokenSymbol: position.symbol,
+          price: position.currentPrice,
+          quantity: position.amount,
+          maxPriceImpact: EXIT_MAX_SLIPPAGE
+        }, {
+          userId: this.config.userId,
+          metadata: { exitReason: reason }
+        });
+
+        if (!recorded) {
+          console.log(`❌ Paper exit rejected: ${fill.reason}`);
+          return;
+        }
+
+        this.reducePosition(position, recorded.quantity, recorded.realizedPnl);
+        console.log(`✅ Paper exit ${fill.status === 'PARTIAL' ? 'partially ' : ''}filled: ${reason} - PnL: ${recorded.realizedPnl.toFixed(2)}`);
       }
       
     } catch (error) {
@@ -611,6 +1007,10 @@ export class AutonomousTradingBot extends EventEmitter {
     this.emit('configUpdated', this.config);
   }
 
+  public getConfig(): TradingBotConfig {
+    return { ...this.config };
+  }
+
   public getStats(): TradingStats {
     return { ...this.stats };
   }
@@ -622,4 +1022,8 @@ export class AutonomousTradingBot extends EventEmitter {
   public isActive(): boolean {
     return this.isRunning;
   }
+
+  public getUserId(): string {
+    return this.config.userId;
+  }
 }
@@ -70,6 +70,9 @@ export const TRADING_CONFIG = {
   // Priority fee in micro-lamports
   PRIORITY_FEE: 1000,
   
+  // Highest priority fee a resubmitted transaction is bumped to, in micro-lamports
+  MAX_PRIORITY_FEE: 1000000,
+  
   // Compute unit limit
   COMPUTE_UNIT_LIMIT: 200000,
 } as const;
@@ -0,0 +1,260 @@
+/**
+ * Transaction Confirmation Tracker
+ *
+ * Follows submitted transactions until they land or their blockhash expires.
+ * Signatures are watched through the realtime monitor when its stream is up
+ * and polled either way; while a blockhash is still valid the signed bytes
+ * are rebroadcast, so a transaction a leader dropped gets another chance.
+ * Once the blockhash expires the transaction can never land, and a caller
+ * that can rebuild it gets it resubmitted at a higher priority fee.
+ */
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SOLANA_CONFIG, TRADING_CONFIG } from './config';
+import { HeliusLogger } from './heliusClient';
+import {
+  ConnectionState,
+  HeliusRealtimeMonitor,
+  SignatureStatusEvent,
+  heliusRealtimeMonitor,
+} from './realtimeMonitor';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_RESUBMISSIONS = 3;
+const PRIORITY_FEE_BUMP = 2;
+
+// A blockhash is valid for 150 blocks, about a minute; used when the last valid block height is unknown
+const BLOCKHASH_LIFETIME_MS = 90 * 1000;
+
+/**
+ * A signed transaction and the last block height its blockhash is valid for
+ */
+export interface SubmittableTransaction {
+  transaction: Transaction | VersionedTransaction;
+  lastValidBlockHeight: number;
+}
+
+export interface ResubmitOptions {
+  priorityFeeMicroLamports?: number; // Fee the transaction was built with
+  /**
+   * Build and sign the transaction again with a fresh blockhash at the given
+   * priority fee. Without it an expired transaction is given up on.
+   */
+  rebuild?: (priorityFeeMicroLamports: number) => Promise<SubmittableTransaction>;
+}
+
+export interface TrackOptions {
+  lastValidBlockHeight?: number;
+  submittedAt?: Date; // Bounds the wait when the last valid block height is unknown
+}
+
+export type ConfirmationStatus = 'CONFIRMED' | 'FAILED' | 'EXPIRED';
+
+/**
+ * Final state of a submission. FAILED transactions landed with an error and
+ * paid their fee; EXPIRED ones never landed. The signature is the last one
+ * submitted.
+ */
+export interface ConfirmationResult {
+  status: ConfirmationStatus;
+  signature: string;
+  slot: number | null;
+  blockTime: number | null; // Unix seconds
+  fee: number | null;       // SOL
+  error: string | null;
+  resubmissions: number;
+}
+
+type SignatureCheck =
+  | { state: 'LANDED'; slot: number; error: string | null }
+  | { state: 'EXPIRED' }
+  | { state: 'PENDING' };
+
+interface WatchOptions {
+  raw?: Buffer | Uint8Array; // Rebroadcast while pending
+  lastValidBlockHeight?: number;
+  expiresAt?: number;
+}
+
+export class ConfirmationTracker {
+  private connection: Connection;
+  private monitor: HeliusRealtimeMonitor;
+
+  constructor(connection: Connection, monitor: HeliusRealtimeMonitor = heliusRealtimeMonitor) {
+    this.connection = connection;
+    this.monitor = monitor;
+  }
+
+  /**
+   * Submit a signed transaction and follow it to a final state, rebuilding
+   * it when its blockhash expires. Throws only when the first submission is
+   * rejected outright, e.g. by preflight.
+   */
+  async send(submission: SubmittableTransaction, options: ResubmitOptions = {}): Promise<ConfirmationResult> {
+    let current = submission;
+    let priorityFee = options.priorityFeeMicroLamports || TRADING_CONFIG.PRIORITY_FEE;
+
+    for (let resubmissions = 0; ; resubmissions++) {
+      const raw = current.transaction.serialize();
+      const signature = await this.connection.sendRawTransaction(raw, {
+        preflightCommitment: SOLANA_CONFIG.COMMITMENT,
+        maxRetries: 0, // Rebroadcast here instead, so expiry is known
+      });
+
+      const check = await this.watch(signature, { raw, lastValidBlockHeight: current.lastValidBlockHeight });
+      if (check.state === 'LANDED') {
+        return this.finalize(signature, check, resubmissions);
+      }
+
+      if (!options.rebuild || resubmissions >= MAX_RESUBMISSIONS) {
+        return this.expired(signature, 'Blockhash expired before the transaction landed', resubmissions);
+      }
+
+      priorityFee = Math.min(priorityFee * PRIORITY_FEE_BUMP, TRADING_CONFIG.MAX_PRIORITY_FEE);
+      HeliusLogger.warn(`Blockhash expired for ${signature}, resubmitting at ${priorityFee} micro-lamports per compute unit`);
+
+      try {
+        current = await options.rebuild(priorityFee);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return this.expired(signature, `Blockhash expired and the transaction could not be rebuilt: ${message}`, resubmissions);
+      }
+    }
+  }
+
+  /**
+   * Follow a signature submitted elsewhere to a final state
+   */
+  async track(signature: string, options: TrackOptions = {}): Promise<ConfirmationResult> {
+    const check = await this.watch(signature, {
+      lastValidBlockHeight: options.lastValidBlockHeight,
+      expiresAt: options.lastValidBlockHeight === undefined
+        ? (options.submittedAt?.getTime() ?? Date.now()) + BLOCKHASH_LIFETIME_MS
+        : undefined,
+    });
+
+    return check.state === 'LANDED'
+      ? this.finalize(signature, check, 0)
+      : this.expired(signature, 'Transaction was dropped before it landed', 0);
+  }
+
+  /**
+   * Resolve on the first of a stream notification or a poll that finds the
+   * signature landed or expired
+   */
+  private watch(signature: string, options: WatchOptions): Promise<Exclude<SignatureCheck, { state: 'PENDING' }>> {
+    return new Promise(resolve => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const finish = (check: Exclude<SignatureCheck, { state: 'PENDING' }>) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        this.monitor.off('signatureStatus', onStatus);
+        this.monitor.unsubscribeFromSignature(signature);
+        resolve(check);
+      };
+
+      const onStatus = (event: SignatureStatusEvent) => {
+        if (event.signature === signature) {
+          finish({ state: 'LANDED', slot: event.slot, error: event.error ?? null });
+        }
+      };
+
+      // In demo mode the monitor never connects and polling alone decides
+      if (this.monitor.getConnectionState() === ConnectionState.CONNECTED) {
+        this.monitor.on('signatureStatus', onStatus);
+        this.monitor.subscribeToSignature(signature).catch(error => {
+          HeliusLogger.warn(`Falling back to polling for ${signature}`, error);
+        });
+      }
+
+      const poll = async () => {
+        try {
+          const check = await this.check(signature, options);
+          if (check.state !== 'PENDING') {
+            finish(check);
+            return;
+          }
+        } catch (error) {
+          HeliusLogger.warn(`Failed to poll signature ${signature}`, error);
+        }
+        if (!settled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+      poll();
+    });
+  }
+
+  private async check(signature: string, options: WatchOptions): Promise<SignatureCheck> {
+    // Read the height first: a signature still unseen after it was past the last valid height cannot land
+    const blockHeight = options.lastValidBlockHeight !== undefined
+      ? await this.connection.getBlockHeight(SOLANA_CONFIG.COMMITMENT)
+      : null;
+
+    const { value: [status] } = await this.connection.getSignatureStatuses([signature]);
+    if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+      return { state: 'LANDED', slot: status.slot, error: status.err ? JSON.stringify(status.err) : null };
+    }
+
+    if (blockHeight !== null && blockHeight > options.lastValidBlockHeight!) return { state: 'EXPIRED' };
+    if (options.expiresAt !== undefined && Date.now() > options.expiresAt) return { state: 'EXPIRED' };
+
+    if (options.raw) {
+      await this.connection.sendRawTransaction(options.raw, { skipPreflight: true, maxRetries: 0 }).catch(error => {
+        HeliusLogger.debug(`Rebroadcast of ${signature} failed`, error);
+      });
+    }
+    return { state: 'PENDING' };
+  }
+
+  /**
+   * Read the fee the landed transaction paid. A node that has not indexed it
+   * yet leaves the fee unknown rather than holding up the result.
+   */
+  private async finalize(
+    signature: string,
+    check: { slot: number; error: string | null },
+    resubmissions: number
+  ): Promise<ConfirmationResult> {
+    let fee: number | null = null;
+    let blockTime: number | null = null;
+    try {
+      const transaction = await this.connection.getTransaction(signature, {
+        commitment: SOLANA_CONFIG.COMMITMENT,
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction?.meta) fee = transaction.meta.fee / LAMPORTS_PER_SOL;
+      blockTime = transaction?.blockTime ?? null;
+    } catch (error) {
+      HeliusLogger.warn(`Failed to fetch landed transaction ${signature}`, error);
+    }
+
+    const result: ConfirmationResult = {
+      status: check.error ? 'FAILED' : 'CONFIRMED',
+      signature,
+      slot: check.slot,
+      blockTime,
+      fee,
+      error: check.error,
+      resubmissions,
+    };
+
+    if (result.status === 'CONFIRMED') {
+      HeliusLogger.info('Transaction confirmed', signature);
+    } else {
+      HeliusLogger.error('Transaction failed on chain', signature, check.error);
+    }
+    return result;
+  }
+
+  private expired(signature: string, error: string, resubmissions: number): ConfirmationResult {
+    HeliusLogger.warn(error, signature);
+    return { status: 'EXPIRED', signature, slot: null, blockTime: null, fee: null, error, resubmissions };
+  }
+}
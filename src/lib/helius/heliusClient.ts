@@ -11,13 +11,13 @@ import {
   Transaction,
   VersionedTransaction,
   TransactionInstruction,
-  Keypair,
   SendOptions,
   SystemProgram,
   LAMPORTS_PER_SOL,
   type Commitment,
 } from '@solana/web3.js';
 import { HELIUS_CONFIG, SOLANA_CONFIG } from './config';
+import { Signer } from '../signer/types';
 
 // Simple logger for Helius operations
 const HeliusLogger = {
@@ -71,8 +71,12 @@ export interface DecodedTransaction {
  */
 export interface SendTxOptions extends SendOptions {
   preflightCommitment?: Commitment;
+  lastValidBlockHeight?: number; // Of the transaction's blockhash; estimated from the current height when missing
 }
 
+// Blocks a blockhash stays valid for
+const BLOCKHASH_VALIDITY_BLOCKS = 150;
+
 /**
  * Rate limiter for API calls
  */
@@ -273,10 +277,10 @@ export class HeliusClient {
   /**
    * Subscribe to program logs via WebSocket
    */
-  async onLogs(programId: string, callback: (logs: string[]) => void): Promise<number> {
+  async onLogs(programId: string, callback: (logs: string[], signature: string) => void): Promise<number> {
     const subscriptionId = this.connection.onLogs(
       new PublicKey(programId),
-      (logInfo) => callback(logInfo.logs || []),
+      (logInfo) => callback(logInfo.logs || [], logInfo.signature),
       this.commitment
     );
     return subscriptionId;
@@ -312,7 +316,10 @@ export class HeliusClient {
   }
 
   /**
-   * Send and confirm a transaction (supports both legacy and versioned transactions)
+   * Send and confirm a transaction (supports both legacy and versioned transactions).
+   * Waits on the transaction's own blockhash, so an expired one throws
+   * instead of hanging; trades go through the ConfirmationTracker, which
+   * also resubmits them.
    */
   async sendAndConfirm(
     transaction: Transaction | VersionedTransaction,
@@ -320,6 +327,16 @@ export class HeliusClient {
   ): Promise<string> {
     let signature: string;
     const preflightCommitment = (options?.preflightCommitment || this.commitment) as Commitment;
+    const blockhash = transaction instanceof VersionedTransaction
+      ? transaction.message.recentBlockhash
+      : transaction.recentBlockhash;
+    if (!blockhash) {
+      throw new Error('Transaction has no recent blockhash');
+    }
+
+    // Read before sending so the estimate can only be late, never early
+    const lastValidBlockHeight = options?.lastValidBlockHeight
+      ?? (await this.connection.getBlockHeight(this.commitment)) + BLOCKHASH_VALIDITY_BLOCKS;
 
     if (transaction instanceof VersionedTransaction) {
       // Versioned transaction overload
@@ -330,7 +347,7 @@ export class HeliusClient {
       });
     } else {
       // Legacy transaction overload - assume already signed
-      signature = await this.connection.sendTransaction(transaction, [], {
+      signature = await this.connection.sendRawTransaction(transaction.serialize(), {
         preflightCommitment,
         skipPreflight: options?.skipPreflight,
         maxRetries: options?.maxRetries,
@@ -338,11 +355,11 @@ export class HeliusClient {
     }
 
     // Confirm the transaction
-    const latestBlockhash = await this.connection.getLatestBlockhash(this.commitment);
     const confirmation = await this.connection.confirmTransaction(
       {
         signature,
-        ...latestBlockhash,
+        blockhash,
+        lastValidBlockHeight,
       },
       this.commitment
     );
@@ -360,7 +377,7 @@ export class HeliusClient {
    * Example: Build and send a simple SOL transfer
    */
   async transferSOL(params: {
-    from: Keypair;
+    from: Signer;
     to: string;
     sol: number;
   }): Promise<string> {
@@ -378,10 +395,10 @@ export class HeliusClient {
       })
     );
 
-    transaction.sign(params.from);
+    await params.from.signTransaction(transaction);
 
     await this.simulate(transaction);
-    return this.sendAndConfirm(transaction);
+    return this.sendAndConfirm(transaction, { lastValidBlockHeight: latestBlockhash.lastValidBlockHeight });
   }
 }
 
@@ -17,8 +17,8 @@ interface WebSocketMessage {
   jsonrpc: string;
   method?: string;
   params?: Record<string, unknown>;
-  result?: Record<string, unknown>;
-  id?: number;
+  result?: unknown;
+  id?: number | string;
 }
 
 interface TransactionNotificationParams {
@@ -50,6 +50,14 @@ interface TransactionNotificationParams {
   };
 }
 
+interface SignatureNotificationParams {
+  subscription: number;
+  result: {
+    context: { slot: number };
+    value: { err: unknown } | string; // 'receivedSignature' when subscribed with enableReceivedNotification
+  };
+}
+
 interface AccountNotificationParams {
   subscription: number;
   result: {
@@ -123,6 +131,15 @@ export interface BalanceChangeEvent {
   timestamp: number;
 }
 
+export interface SignatureStatusEvent {
+  type: 'SIGNATURE_STATUS';
+  signature: string;
+  slot: number;
+  success: boolean;
+  error?: string;
+  timestamp: number;
+}
+
 export interface TokenSwapEvent {
   type: 'TOKEN_SWAP';
   signature: string;
@@ -148,6 +165,7 @@ export interface PriceUpdateEvent {
 export type RealtimeEvent = 
   | TransactionEvent 
   | BalanceChangeEvent 
+  | SignatureStatusEvent
   | TokenSwapEvent 
   | PriceUpdateEvent;
 
@@ -180,6 +198,7 @@ export class HeliusRealtimeMonitor extends EventEmitter {
   private wsConnection: WebSocket | null = null;
   private connectionState: ConnectionState = ConnectionState.DISCONNECTED;
   private subscriptions: Map<string, SubscriptionConfig> = new Map();
+  private signatureSubscriptions: Map<number, string> = new Map(); // Server subscription id -> signature
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 10;
   private reconnectDelay: number = 1000;
@@ -354,6 +373,12 @@ export class HeliusRealtimeMonitor extends EventEmitter {
       } else if (data.method === 'accountNotification' && data.params) {
         const balanceEvent = this.parseAccountNotification(data.params as unknown as AccountNotificationParams);
         this.emit('balanceChange', balanceEvent);
+      } else if (data.method === 'signatureNotification' && data.params) {
+        const statusEvent = this.parseSignatureNotification(data.params as unknown as SignatureNotificationParams);
+        if (statusEvent) this.emit('signatureStatus', statusEvent);
+      } else if (typeof data.id === 'string' && data.id.startsWith('signature_') && typeof data.result === 'number') {
+        // Notifications carry the server's subscription id, not the signature
+        this.signatureSubscriptions.set(data.result, data.id.slice('signature_'.length));
       }
       
       // Emit raw data for custom handling
@@ -402,6 +427,28 @@ export class HeliusRealtimeMonitor extends EventEmitter {
     };
   }
 
+  /**
+   * Parse signature notification; the server drops the subscription after
+   * sending it
+   */
+  private parseSignatureNotification(params: SignatureNotificationParams): SignatureStatusEvent | null {
+    const signature = this.signatureSubscriptions.get(params.subscription);
+    const value = params.result?.value;
+    if (!signature || typeof value !== 'object' || value === null) return null;
+
+    this.signatureSubscriptions.delete(params.subscription);
+    this.subscriptions.delete(`signature_${signature}`);
+
+    return {
+      type: 'SIGNATURE_STATUS',
+      signature,
+      slot: params.result.context.slot,
+      success: value.err === null,
+      error: value.err ? JSON.stringify(value.err) : undefined,
+      timestamp: Date.now(),
+    };
+  }
+
   /**
    * Subscribe to account changes
    */
@@ -490,6 +537,7 @@ export class HeliusRealtimeMonitor extends EventEmitter {
       };
 
       this.wsConnection?.send(JSON.stringify(subscriptionRequest));
+      this.subscriptions.set(`signature_${signature}`, {});
       
       HeliusLogger.info(`Subscribed to signature: ${signature}`);
       
@@ -499,6 +547,29 @@ export class HeliusRealtimeMonitor extends EventEmitter {
     }
   }
 
+  /**
+   * Stop watching a signature that was resolved some other way
+   */
+  unsubscribeFromSignature(signature: string): void {
+    this.subscriptions.delete(`signature_${signature}`);
+
+    for (const [subscriptionId, subscribed] of this.signatureSubscriptions) {
+      if (subscribed !== signature) continue;
+      this.signatureSubscriptions.delete(subscriptionId);
+
+      try {
+        this.wsConnection?.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id: `signature_unsubscribe_${signature}`,
+          method: 'signatureUnsubscribe',
+          params: [subscriptionId],
+        }));
+      } catch (error) {
+        HeliusLogger.warn(`Failed to unsubscribe from signature ${signature}`, error);
+      }
+    }
+  }
+
   /**
    * Setup Helius webhooks for enhanced monitoring
    */
@@ -667,6 +738,9 @@ export class HeliusRealtimeMonitor extends EventEmitter {
    * Resubscribe to all previous subscriptions
    */
   private async resubscribeAll(): Promise<void> {
+    // Server subscription ids do not survive the connection
+    this.signatureSubscriptions.clear();
+
     for (const [subscriptionId, config] of this.subscriptions) {
       try {
         if (subscriptionId.startsWith('account_')) {
@@ -675,6 +749,8 @@ export class HeliusRealtimeMonitor extends EventEmitter {
         } else if (subscriptionId.startsWith('program_')) {
           const programId = subscriptionId.replace('program_', '');
           await this.subscribeToProgram(programId, config);
+        } else if (subscriptionId.startsWith('signature_')) {
+          await this.subscribeToSignature(subscriptionId.replace('signature_', ''));
         }
       } catch (error) {
         HeliusLogger.error(`Failed to resubscribe to ${subscriptionId}`, error);
@@ -710,6 +786,7 @@ export class HeliusRealtimeMonitor extends EventEmitter {
       }
       
       this.subscriptions.clear();
+      this.signatureSubscriptions.clear();
       this.removeAllListeners();
       
       HeliusLogger.info('✅ Realtime monitor disconnected');
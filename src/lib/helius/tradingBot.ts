@@ -7,14 +7,15 @@
  */
 
 import { 
-  Keypair, 
-  Transaction, 
-  SystemProgram,
+  PublicKey,
   LAMPORTS_PER_SOL,
-  ComputeBudgetProgram,
 } from '@solana/web3.js';
 import { HeliusClient, HeliusLogger, TokenBalance } from './heliusClient';
+import { ConfirmationTracker } from './confirmationTracker';
 import { SOLANA_CONFIG, TOKEN_ADDRESSES, TRADING_CONFIG } from './config';
+import { JupiterSwapAdapter } from '../swap/jupiter-adapter';
+import { BuiltSwap, SwapAdapter, SwapQuote, SwapRouteLeg, SwapSimulation } from '../swap/types';
+import { Signer } from '../signer/types';
 
 /**
  * Wallet balance information
@@ -62,14 +63,43 @@ export interface TradeParams {
 export interface TradeResult {
   success: boolean;
   signature?: string;
+  slot?: number;
   inputAmount: number;
   outputAmount?: number;
   priceImpact?: number;
   fee?: number;
   error?: string;
   logs?: string[];
+  route?: SwapRouteLeg[];
+}
+
+/**
+ * Trade simulation result, amounts in UI units
+ */
+export interface TradeSimulation {
+  success: boolean;
+  inputAmount: number;
+  outputAmount?: number;
+  minimumOutputAmount?: number;
+  priceImpact?: number;
+  fee?: number;
+  route?: SwapRouteLeg[];
+  logs?: string[];
+  error?: string;
+}
+
+/**
+ * A quoted, built and simulated swap ready to be signed
+ */
+interface PreparedSwap {
+  quote: SwapQuote;
+  built: BuiltSwap;
+  simulation: SwapSimulation;
+  outputDecimals: number;
 }
 
+const BASE_FEE_LAMPORTS = 5000;
+
 /**
  * Main Trading Bot Class
  * 
@@ -77,40 +107,38 @@ export interface TradeResult {
  * transaction execution, and real-time market interactions.
  */
 export class HeliusTradingBot {
-  private wallet: Keypair | null = null;
+  private wallet: Signer | null = null;
   private balanceCache: Map<string, WalletBalance> = new Map();
   private lastBalanceUpdate: number = 0;
   private balanceCacheTimeout: number = 30000; // 30 seconds
   private heliusClient: HeliusClient;
+  private confirmations: ConfirmationTracker;
+  private swapAdapter: SwapAdapter;
+  private mintDecimals: Map<string, number> = new Map([[TOKEN_ADDRESSES.SOL, 9]]);
 
-  constructor(private walletPrivateKey?: string) {
+  constructor(wallet?: Signer, swapAdapter?: SwapAdapter) {
     this.heliusClient = new HeliusClient();
-    if (walletPrivateKey) {
-      this.initializeWallet(walletPrivateKey);
+    this.confirmations = new ConfirmationTracker(this.heliusClient.getConnection());
+    this.swapAdapter = swapAdapter || new JupiterSwapAdapter({ connection: this.heliusClient.getConnection() });
+    if (wallet) {
+      this.setWallet(wallet);
     }
   }
 
   /**
-   * Initialize wallet from private key
+   * Set the signer of the wallet to trade with; the bot never holds its key
    */
-  private initializeWallet(privateKey: string): void {
-    try {
-      const keyBytes = Uint8Array.from(JSON.parse(privateKey));
-      this.wallet = Keypair.fromSecretKey(keyBytes);
-      HeliusLogger.info(`Wallet initialized: ${this.wallet.publicKey.toBase58()}`);
-    } catch (error) {
-      HeliusLogger.error('Failed to initialize wallet from private key', error);
-      throw new Error('Invalid wallet private key format');
-    }
+  setWallet(wallet: Signer): void {
+    this.wallet = wallet;
+    this.clearBalanceCache();
+    HeliusLogger.info(`Wallet set: ${wallet.publicKey.toBase58()}`);
   }
 
   /**
-   * Set wallet keypair directly
+   * Replace the swap adapter, e.g. with a fixture adapter offline
    */
-  setWallet(wallet: Keypair): void {
-    this.wallet = wallet;
-    this.clearBalanceCache();
-    HeliusLogger.info(`Wallet set: ${wallet.publicKey.toBase58()}`);
+  setSwapAdapter(adapter: SwapAdapter): void {
+    this.swapAdapter = adapter;
   }
 
   /**
@@ -279,16 +307,10 @@ export class HeliusTradingBot {
   }
 
   /**
-   * Simulate a trade before execution
+   * Simulate a trade before execution. Output, price impact and route come
+   * from the swap adapter's quote; fees from the built transaction.
    */
-  async simulateTrade(params: TradeParams): Promise<{
-    success: boolean;
-    inputAmount: number;
-    outputAmount?: number;
-    priceImpact?: number;
-    fee?: number;
-    error?: string;
-  }> {
+  async simulateTrade(params: TradeParams): Promise<TradeSimulation> {
     if (!this.wallet) {
       throw new Error('Wallet not initialized');
     }
@@ -296,25 +318,8 @@ export class HeliusTradingBot {
     try {
       HeliusLogger.debug('Simulating trade...', params);
 
-      // This is a simplified simulation
-      // In production, you would use Jupiter or other DEX APIs
-      const transaction = await this.buildTradeTransaction(params, true);
-      
-      await this.heliusClient.simulate(transaction);
-      
-      // If simulation succeeds, provide mock results
-      // Parse simulation results (simplified)
-      const outputAmount = params.amount * 0.99; // Mock 1% slippage
-      const priceImpact = 0.01; // Mock 1% price impact
-      const fee = 0.000005; // Mock fee in SOL
-
-      return {
-        success: true,
-        inputAmount: params.amount,
-        outputAmount,
-        priceImpact,
-        fee,
-      };
+      const prepared = await this.prepareSwap(params);
+      return this.toSimulation(params, prepared);
 
     } catch (error) {
       HeliusLogger.error('Trade simulation failed', error);
@@ -337,27 +342,57 @@ export class HeliusTradingBot {
     try {
       HeliusLogger.info('Executing trade...', params);
 
-      // First simulate the trade
-      const simulation = await this.simulateTrade(params);
+      // Quote, build and simulate once; the simulated transaction is the one sent
+      const prepared = await this.prepareSwap(params);
+      const simulation = this.toSimulation(params, prepared);
       if (!simulation.success) {
         return {
           success: false,
           inputAmount: params.amount,
           error: simulation.error,
+          logs: simulation.logs,
         };
       }
 
-      // Build and send transaction
-      const transaction = await this.buildTradeTransaction(params);
-      const signature = await this.heliusClient.sendAndConfirm(transaction);
+      const wallet = this.wallet;
+      const { built, quote } = prepared;
+      await wallet.signTransaction(built.transaction);
+
+      // An expired blockhash is rebuilt from the same quote at a higher priority fee
+      const confirmation = await this.confirmations.send(built, {
+        priorityFeeMicroLamports: params.priorityFee ?? TRADING_CONFIG.PRIORITY_FEE,
+        rebuild: async priorityFee => {
+          const rebuilt = await this.swapAdapter.buildTransaction({
+            quote,
+            userPublicKey: wallet.publicKey.toBase58(),
+            computeUnitPriceMicroLamports: priorityFee,
+          });
+          await wallet.signTransaction(rebuilt.transaction);
+          return rebuilt;
+        },
+      });
+
+      if (confirmation.status !== 'CONFIRMED') {
+        this.clearBalanceCache();
+        return {
+          success: false,
+          signature: confirmation.signature,
+          slot: confirmation.slot ?? undefined,
+          inputAmount: params.amount,
+          fee: confirmation.fee ?? undefined,
+          error: confirmation.error || 'Transaction did not confirm',
+        };
+      }
 
       const result: TradeResult = {
         success: true,
-        signature,
+        signature: confirmation.signature,
+        slot: confirmation.slot ?? undefined,
         inputAmount: params.amount,
         outputAmount: simulation.outputAmount,
         priceImpact: simulation.priceImpact,
-        fee: simulation.fee,
+        fee: confirmation.fee ?? simulation.fee,
+        route: simulation.route,
       };
 
       HeliusLogger.info('Trade executed successfully', result);
@@ -378,59 +413,70 @@ export class HeliusTradingBot {
   }
 
   /**
-   * Build a trade transaction (simplified - replace with actual DEX integration)
+   * Quote, build and simulate a swap through the swap adapter
    */
-  private async buildTradeTransaction(
-    params: TradeParams, 
-    isSimulation: boolean = false
-  ): Promise<Transaction> {
+  private async prepareSwap(params: TradeParams): Promise<PreparedSwap> {
     if (!this.wallet) {
       throw new Error('Wallet not initialized');
     }
 
-    const transaction = new Transaction();
+    const [inputDecimals, outputDecimals] = await Promise.all([
+      this.getMintDecimals(params.inputMint),
+      this.getMintDecimals(params.outputMint),
+    ]);
 
-    // Add compute budget instructions
-    transaction.add(
-      ComputeBudgetProgram.setComputeUnitLimit({
-        units: params.computeUnitLimit || TRADING_CONFIG.COMPUTE_UNIT_LIMIT,
-      })
-    );
+    const quote = await this.swapAdapter.quote({
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: Math.floor(params.amount * 10 ** inputDecimals).toString(),
+      slippageBps: Math.round((params.slippage ?? TRADING_CONFIG.DEFAULT_SLIPPAGE) * 10000),
+    });
 
-    if (params.priorityFee && params.priorityFee > 0) {
-      transaction.add(
-        ComputeBudgetProgram.setComputeUnitPrice({
-          microLamports: params.priorityFee,
-        })
-      );
-    }
+    const built = await this.swapAdapter.buildTransaction({
+      quote,
+      userPublicKey: this.wallet.publicKey.toBase58(),
+      computeUnitPriceMicroLamports: params.priorityFee ?? TRADING_CONFIG.PRIORITY_FEE,
+    });
 
-    // This is a placeholder for actual DEX integration
-    // In production, you would integrate with Jupiter, Raydium, etc.
-    
-    // For demonstration, create a simple transfer instruction
-    if (params.inputMint === TOKEN_ADDRESSES.SOL) {
-      // SOL transfer example
-      transaction.add(
-        SystemProgram.transfer({
-          fromPubkey: this.wallet.publicKey,
-          toPubkey: this.wallet.publicKey, // Self-transfer for demo
-          lamports: Math.floor(params.amount * LAMPORTS_PER_SOL),
-        })
-      );
-    }
+    const simulation = await this.swapAdapter.simulate(built.transaction);
+
+    return { quote, built, simulation, outputDecimals };
+  }
 
-    // Get recent blockhash
-    const { blockhash } = await this.heliusClient.getConnection().getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = this.wallet.publicKey;
+  private toSimulation(params: TradeParams, prepared: PreparedSwap): TradeSimulation {
+    const { quote, built, simulation, outputDecimals } = prepared;
 
-    // Sign transaction if not simulation
-    if (!isSimulation) {
-      transaction.sign(this.wallet);
+    if (!simulation.success) {
+      return {
+        success: false,
+        inputAmount: params.amount,
+        logs: simulation.logs,
+        error: simulation.error || 'Swap simulation failed',
+      };
     }
 
-    return transaction;
+    return {
+      success: true,
+      inputAmount: params.amount,
+      outputAmount: Number(quote.outAmount) / 10 ** outputDecimals,
+      minimumOutputAmount: Number(quote.otherAmountThreshold) / 10 ** outputDecimals,
+      priceImpact: quote.priceImpact,
+      fee: (BASE_FEE_LAMPORTS + built.prioritizationFeeLamports) / LAMPORTS_PER_SOL,
+      route: quote.route,
+      logs: simulation.logs,
+    };
+  }
+
+  /**
+   * Mint decimals, cached for the lifetime of the bot
+   */
+  private async getMintDecimals(mint: string): Promise<number> {
+    const cached = this.mintDecimals.get(mint);
+    if (cached !== undefined) return cached;
+
+    const supply = await this.heliusClient.getConnection().getTokenSupply(new PublicKey(mint));
+    this.mintDecimals.set(mint, supply.value.decimals);
+    return supply.value.decimals;
   }
 
   /**
@@ -454,24 +500,35 @@ export class HeliusTradingBot {
   }
 
   /**
-   * Get optimal trade route (placeholder for DEX aggregator integration)
+   * Get the best trade route from the swap adapter, amounts in UI units
    */
   async getTradeRoute(
     inputMint: string,
     outputMint: string,
     amount: number
   ): Promise<{
-    route?: Record<string, unknown>;
+    route?: SwapRouteLeg[];
     outputAmount?: number;
     priceImpact?: number;
     error?: string;
   }> {
     try {
-      // This would integrate with Jupiter or other DEX aggregators
-      // For now, return mock data
+      const [inputDecimals, outputDecimals] = await Promise.all([
+        this.getMintDecimals(inputMint),
+        this.getMintDecimals(outputMint),
+      ]);
+
+      const quote = await this.swapAdapter.quote({
+        inputMint,
+        outputMint,
+        amount: Math.floor(amount * 10 ** inputDecimals).toString(),
+        slippageBps: Math.round(TRADING_CONFIG.DEFAULT_SLIPPAGE * 10000),
+      });
+
       return {
-        outputAmount: amount * 0.99, // Mock 1% slippage
-        priceImpact: 0.01,
+        route: quote.route,
+        outputAmount: Number(quote.outAmount) / 10 ** outputDecimals,
+        priceImpact: quote.priceImpact,
       };
     } catch (error) {
       HeliusLogger.error('Failed to get trade route', error);
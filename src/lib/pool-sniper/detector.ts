@@ -0,0 +1,273 @@
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { DEX_PROGRAMS, HELIUS_CONFIG, TOKEN_ADDRESSES } from '@/lib/helius/config';
+import { HeliusClient } from '@/lib/helius/heliusClient';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_TOKEN_SAFETY_THRESHOLDS, evaluateTokenSafety, tokenSafetyAnalyzer } from '@/lib/token-safety/analyzer';
+import type { TokenSafetyReport } from '@/lib/token-safety/types';
+import { fetchTokenPrices } from '@/lib/trading/token-prices';
+import { RaydiumPoolInit, findInitialize2Accounts, isRaydiumPoolInit, parseRaydiumPoolInit } from './raydium';
+
+// Feed name of pool signals; snipes can be disabled like any other source
+export const RAYDIUM_POOL_FEED = 'RAYDIUM_V4';
+
+const TRANSACTION_FETCH_ATTEMPTS = 3;
+const TRANSACTION_RETRY_MS = 400;
+const SEEN_SIGNATURE_TTL_MS = 10 * 60 * 1000;
+
+// Decimals are fixed for the mints a new token is paired against
+const QUOTE_MINTS: Record<string, { symbol: string; decimals: number }> = {
+  [TOKEN_ADDRESSES.SOL]: { symbol: 'SOL', decimals: 9 },
+  [TOKEN_ADDRESSES.USDC]: { symbol: 'USDC', decimals: 6 },
+  [TOKEN_ADDRESSES.USDT]: { symbol: 'USDT', decimals: 6 },
+};
+
+/**
+ * A new Raydium pool pairing a token against SOL, USDC or USDT. Liquidity is
+ * twice the quote side in USD, and price the token's opening price in USD;
+ * both are null when the quote has no price.
+ */
+export interface DetectedPool {
+  signalId: string;
+  signature: string;
+  pool: RaydiumPoolInit;
+  tokenAddress: string;
+  quoteMint: string;
+  quoteSymbol: string;
+  liquidityUsd: number | null;
+  price: number | null;
+  createdAt: number;  // Block time, ms
+  opensAt: number;    // When trading opens, ms; the block time for pools that open immediately
+  detectedAt: number;
+  safety: TokenSafetyReport | null;
+}
+
+const uiAmount = (raw: string, decimals: number) => Number(raw) / 10 ** decimals;
+
+/**
+ * Watches Raydium AMM v4 program logs for initialize2 and records each new
+ * pool as a SOLANA_INDEXER signal with the token's safety data, then emits
+ * `pool`. Logs only show that a pool was created; its accounts and decimals
+ * come from the transaction itself.
+ */
+export class NewPoolDetector extends EventEmitter {
+  private prisma = prisma;
+  private helius?: HeliusClient;
+  private subscriptionId?: number;
+  private subscribing?: Promise<void>;
+  private seen = new Map<string, number>(); // Signature -> when first seen
+
+  private onLogs = (logs: string[], signature: string) => {
+    if (!isRaydiumPoolInit(logs) || this.seen.has(signature)) return;
+    this.remember(signature);
+
+    this.detect(signature, logs)
+      .then(pool => {
+        if (pool) this.emit('pool', pool);
+      })
+      .catch(error => console.error(`Failed to read new pool from ${signature}:`, error));
+  };
+
+  isRunning(): boolean {
+    return this.subscriptionId !== undefined;
+  }
+
+  /**
+   * Subscribe to Raydium logs. Without a Helius API key there is no stream
+   * to subscribe to and nothing is detected.
+   */
+  start(): Promise<void> {
+    if (this.subscriptionId !== undefined) return Promise.resolve();
+    if (HELIUS_CONFIG.API_KEY === 'demo-key') {
+      console.warn('⚠️ No Helius API key; new pool detection is off');
+      return Promise.resolve();
+    }
+
+    this.subscribing ??= (async () => {
+      this.helius ??= new HeliusClient();
+      this.subscriptionId = await this.helius.onLogs(DEX_PROGRAMS.RAYDIUM_V4, this.onLogs);
+      console.log('🏊 Watching Raydium for new pools');
+    })().finally(() => {
+      this.subscribing = undefined;
+    });
+    return this.subscribing;
+  }
+
+  async stop(): Promise<void> {
+    await this.subscribing?.catch(() => undefined);
+    if (this.subscriptionId === undefined) return;
+
+    const subscriptionId = this.subscriptionId;
+    this.subscriptionId = undefined;
+    await this.helius?.removeSubscription(subscriptionId);
+    console.log('🏊 Stopped watching Raydium for new pools');
+  }
+
+  /**
+   * Read the pool a Raydium transaction created. Returns null when the
+   * transaction is not a pool initialization, the pool does not pair a token
+   * against a known quote, or it was already recorded.
+   */
+  async detect(signature: string, logs: string[]): Promise<DetectedPool | null> {
+    const transaction = await this.fetchTransaction(signature);
+    if (!transaction || transaction.meta?.err) return null;
+
+    const accounts = findInitialize2Accounts(transaction);
+    const pool = accounts && parseRaydiumPoolInit(transaction.meta?.logMessages ?? logs, accounts);
+    if (!pool) return null;
+
+    // Decimals are only in the ray_log; otherwise take them from the pool's token accounts
+    const decimals = new Map((transaction.meta?.postTokenBalances ?? []).map(balance => [balance.mint, balance.uiTokenAmount.decimals]));
+    pool.baseDecimals ??= decimals.get(pool.baseMint) ?? null;
+    pool.quoteDecimals ??= decimals.get(pool.quoteMint) ?? null;
+
+    const createdAt = transaction.blockTime ? transaction.blockTime * 1000 : Date.now();
+    return this.record(signature, pool, createdAt);
+  }
+
+  /**
+   * Price a parsed pool, analyze its token and store it as a signal
+   */
+  async record(signature: string, pool: RaydiumPoolInit, createdAt: number): Promise<DetectedPool | null> {
+    // Raydium does not fix which side is the quote
+    const quoteIsBase = !QUOTE_MINTS[pool.quoteMint] && Boolean(QUOTE_MINTS[pool.baseMint]);
+    const quoteMint = quoteIsBase ? pool.baseMint : pool.quoteMint;
+    const tokenAddress = quoteIsBase ? pool.quoteMint : pool.baseMint;
+    const quote = QUOTE_MINTS[quoteMint];
+    if (!quote || QUOTE_MINTS[tokenAddress]) return null;
+
+    const existing = await this.prisma.signal.findFirst({
+      where: { userId: null, feed: RAYDIUM_POOL_FEED, sourceId: signature },
+      select: { id: true }
+    });
+    if (existing) return null;
+
+    const quoteAmount = uiAmount(quoteIsBase ? pool.baseAmount : pool.quoteAmount, quote.decimals);
+    const tokenDecimals = quoteIsBase ? pool.quoteDecimals : pool.baseDecimals;
+    const tokenAmount = tokenDecimals === null ? null : uiAmount(quoteIsBase ? pool.quoteAmount : pool.baseAmount, tokenDecimals);
+
+    const quotePrice = (await fetchTokenPrices([quoteMint]))[quoteMint] ?? (quoteMint === TOKEN_ADDRESSES.SOL ? undefined : 1);
+    const liquidityUsd = quotePrice ? 2 * quoteAmount * quotePrice : null;
+    const price = quotePrice && tokenAmount ? (quoteAmount / tokenAmount) * quotePrice : null;
+
+    let safety: TokenSafetyReport | null = null;
+    try {
+      const report = await tokenSafetyAnalyzer.analyze(tokenAddress);
+      // Pool indexers lag new pools; fall back to what the pool was seeded with
+      safety = report.liquidity || liquidityUsd === null ? report : {
+        ...report,
+        liquidity: {
+          poolId: pool.poolId,
+          source: 'raydium',
+          liquidityUsd,
+          lpMint: pool.lpMint,
+          lpBurnedPercent: 0,
+          lpLockedPercent: 0
+        }
+      };
+    } catch (error) {
+      console.error(`Token safety analysis failed for new pool token ${tokenAddress}:`, error);
+    }
+    // A token minutes old has had no time to draw buyers
+    const assessment = safety && evaluateTokenSafety(safety, { ...DEFAULT_TOKEN_SAFETY_THRESHOLDS, minBuyerConfirmation: 0 });
+
+    const opensAt = Math.max(createdAt, pool.openTime * 1000);
+    const details = {
+      pool,
+      quoteSymbol: quote.symbol,
+      liquidityUsd,
+      price,
+      opensAt: new Date(opensAt).toISOString(),
+      safety: assessment && {
+        safe: assessment.safe,
+        riskScore: assessment.riskScore,
+        reasons: assessment.reasons,
+        mintAuthority: safety!.mintAuthority,
+        freezeAuthority: safety!.freezeAuthority,
+        topHolderShare: safety!.topHolderShare,
+        holderCount: safety!.holderCount
+      }
+    };
+
+    let signalId: string;
+    try {
+      const signal = await this.prisma.signal.create({
+        data: {
+          source: 'SOLANA_INDEXER',
+          feed: RAYDIUM_POOL_FEED,
+          sourceId: signature,
+          postedAt: new Date(createdAt),
+          tokenAddress,
+          rawMessage: JSON.stringify(pool),
+          confidence: 0,
+          score: assessment ? 1 - assessment.riskScore : 0,
+          liquidity: liquidityUsd,
+          buyerCount: safety?.recentUniqueBuyers,
+          devWalletShare: safety?.devWalletShare,
+          isProcessed: true,
+          passedFilters: assessment?.safe ?? false,
+          filtersResult: details as unknown as Prisma.InputJsonValue
+        }
+      });
+      signalId = signal.id;
+    } catch (error) {
+      console.error(`Failed to record new pool ${pool.poolId}:`, error);
+      return null;
+    }
+
+    console.log(`🏊 New Raydium pool ${pool.poolId} for ${tokenAddress} (${liquidityUsd === null ? 'liquidity unknown' : `$${liquidityUsd.toFixed(0)} liquidity`})`);
+
+    return {
+      signalId,
+      signature,
+      pool,
+      tokenAddress,
+      quoteMint,
+      quoteSymbol: quote.symbol,
+      liquidityUsd,
+      price,
+      createdAt,
+      opensAt,
+      detectedAt: Date.now(),
+      safety
+    };
+  }
+
+  /**
+   * Log notifications can arrive before the transaction is served over RPC
+   */
+  private async fetchTransaction(signature: string): Promise<ParsedTransactionWithMeta | null> {
+    this.helius ??= new HeliusClient();
+    const connection = this.helius.getConnection();
+
+    for (let attempt = 1; attempt <= TRANSACTION_FETCH_ATTEMPTS; attempt++) {
+      const transaction = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      if (transaction) return transaction;
+      if (attempt < TRANSACTION_FETCH_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, TRANSACTION_RETRY_MS * attempt));
+      }
+    }
+    return null;
+  }
+
+  private remember(signature: string): void {
+    const now = Date.now();
+    this.seen.set(signature, now);
+    for (const [seenSignature, seenAt] of this.seen) {
+      if (now - seenAt < SEEN_SIGNATURE_TTL_MS) break;
+      this.seen.delete(seenSignature);
+    }
+  }
+}
+
+const globalForPoolDetector = globalThis as unknown as {
+  newPoolDetector: NewPoolDetector | undefined
+};
+
+export const newPoolDetector = globalForPoolDetector.newPoolDetector ?? new NewPoolDetector();
+
+globalForPoolDetector.newPoolDetector = newPoolDetector;
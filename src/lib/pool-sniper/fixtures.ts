@@ -0,0 +1,17 @@
+import type { RaydiumPoolInit } from './raydium';
+import raydiumV4Logs from './fixtures/raydium-v4-logs.json';
+
+/**
+ * Program logs and initialize2 accounts of a recorded Raydium transaction and
+ * the pool the parser should read from them, or null when it should be ignored
+ */
+export interface RaydiumLogFixture {
+  name: string;
+  description: string;
+  signature: string;
+  logs: string[];
+  accounts: string[];
+  expected: RaydiumPoolInit | null;
+}
+
+export const RAYDIUM_POOL_LOG_FIXTURES = raydiumV4Logs as RaydiumLogFixture[];
@@ -0,0 +1,52 @@
+import { ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { DEX_PROGRAMS } from '@/lib/helius/config';
+import { RAYDIUM_POOL_LOG_FIXTURES } from './fixtures';
+import { findInitialize2Accounts, isRaydiumPoolInit, parseRaydiumPoolInit } from './raydium';
+
+const fixtures = RAYDIUM_POOL_LOG_FIXTURES.map(fixture => [fixture.name, fixture] as const);
+const initialize2 = RAYDIUM_POOL_LOG_FIXTURES.find(fixture => fixture.name === 'sol-quoted-initialize2')!;
+
+describe('isRaydiumPoolInit', () => {
+  it.each(fixtures)('%s', (_name, fixture) => {
+    expect(isRaydiumPoolInit(fixture.logs)).toBe(fixture.expected !== null);
+  });
+});
+
+describe('parseRaydiumPoolInit', () => {
+  it.each(fixtures)('%s', (_name, fixture) => {
+    expect(parseRaydiumPoolInit(fixture.logs, fixture.accounts)).toEqual(fixture.expected);
+  });
+
+  it('needs the creator in the account list', () => {
+    expect(parseRaydiumPoolInit(initialize2.logs, initialize2.accounts.slice(0, 17))).toBeNull();
+  });
+});
+
+describe('findInitialize2Accounts', () => {
+  const instruction = (programId: string, accounts: string[]) => ({
+    programId: new PublicKey(programId),
+    accounts: accounts.map(account => new PublicKey(account)),
+    data: ''
+  });
+
+  const transaction = (outer: ReturnType<typeof instruction>[], inner: ReturnType<typeof instruction>[] = []) => ({
+    transaction: { message: { instructions: outer } },
+    meta: { innerInstructions: [{ index: 0, instructions: inner }] }
+  }) as unknown as ParsedTransactionWithMeta;
+
+  it('finds initialize2 called through another program', () => {
+    const tx = transaction(
+      [instruction('ComputeBudget111111111111111111111111111111', [])],
+      [instruction(DEX_PROGRAMS.RAYDIUM_V4, initialize2.accounts)]
+    );
+
+    expect(findInitialize2Accounts(tx)).toEqual(initialize2.accounts);
+  });
+
+  it('ignores other Raydium instructions', () => {
+    const swap = RAYDIUM_POOL_LOG_FIXTURES.find(fixture => fixture.name === 'swap-base-in')!;
+
+    expect(findInitialize2Accounts(transaction([instruction(DEX_PROGRAMS.RAYDIUM_V4, swap.accounts)]))).toBeNull();
+  });
+});
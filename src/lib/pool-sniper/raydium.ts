@@ -0,0 +1,139 @@
+import { ParsedTransactionWithMeta, PartiallyDecodedInstruction, PublicKey } from '@solana/web3.js';
+import { DEX_PROGRAMS } from '@/lib/helius/config';
+
+// Positions in the initialize2 instruction's account list
+const INITIALIZE2_ACCOUNTS = {
+  amm: 4,
+  lpMint: 7,
+  coinMint: 8,
+  pcMint: 9,
+  userWallet: 17
+} as const;
+
+// Deposits take 14 accounts, swaps 17 or 18 and withdrawals 22
+const INITIALIZE2_ACCOUNT_COUNT = 21;
+
+const INIT_LOG_TYPE = 0;
+const INIT_LOG_LENGTH = 75;
+
+/**
+ * A Raydium AMM v4 pool created by initialize2. Coin is Raydium's base side
+ * and pc its quote side. Amounts are raw base-unit strings; decimals are null
+ * when the logs carried no ray_log, and openTime is unix seconds, 0 for pools
+ * that open immediately.
+ */
+export interface RaydiumPoolInit {
+  poolId: string;
+  lpMint: string;
+  baseMint: string;
+  quoteMint: string;
+  creator: string;
+  baseAmount: string;
+  quoteAmount: string;
+  baseDecimals: number | null;
+  quoteDecimals: number | null;
+  openTime: number;
+  market: string | null;
+}
+
+interface InitLog {
+  openTime: number;
+  quoteDecimals: number;
+  baseDecimals: number;
+  quoteAmount: string;
+  baseAmount: string;
+  market: string;
+}
+
+/**
+ * Decode the base64 InitLog Raydium writes after `ray_log:`. Other log types
+ * (deposits, withdrawals, swaps) return null.
+ */
+function decodeInitLog(encoded: string): InitLog | null {
+  const data = Buffer.from(encoded, 'base64');
+  if (data.length < INIT_LOG_LENGTH || data.readUInt8(0) !== INIT_LOG_TYPE) return null;
+
+  // log_type u8, time u64, pc_decimals u8, coin_decimals u8, pc_lot_size u64,
+  // coin_lot_size u64, pc_amount u64, coin_amount u64, market pubkey
+  return {
+    openTime: Number(data.readBigUInt64LE(1)),
+    quoteDecimals: data.readUInt8(9),
+    baseDecimals: data.readUInt8(10),
+    quoteAmount: data.readBigUInt64LE(27).toString(),
+    baseAmount: data.readBigUInt64LE(35).toString(),
+    market: new PublicKey(data.subarray(43, 75)).toBase58()
+  };
+}
+
+/**
+ * Cheap check on a log notification before the transaction is fetched
+ */
+export function isRaydiumPoolInit(logs: string[]): boolean {
+  return logs.some(log => log.includes('initialize2: InitializeInstruction2'))
+    && !logs.some(log => log.startsWith(`Program ${DEX_PROGRAMS.RAYDIUM_V4} failed`));
+}
+
+/**
+ * Read a pool initialization from a Raydium transaction's program logs and
+ * the accounts of its initialize2 instruction. Returns null for any other
+ * transaction and for failed initializations.
+ */
+export function parseRaydiumPoolInit(logs: string[], accounts: string[]): RaydiumPoolInit | null {
+  if (!isRaydiumPoolInit(logs) || accounts.length <= INITIALIZE2_ACCOUNTS.userWallet) return null;
+
+  let init: InitLog | null = null;
+  for (const log of logs) {
+    const encoded = log.match(/ray_log: ([A-Za-z0-9+/=]+)/)?.[1];
+    init = encoded ? decodeInitLog(encoded) : null;
+    if (init) break;
+  }
+
+  // Without a ray_log the instruction arguments still carry the amounts
+  if (!init) {
+    const line = logs.find(log => log.includes('InitializeInstruction2'))!;
+    const field = (name: string) => line.match(new RegExp(`${name}: (\\d+)`))?.[1];
+    const quoteAmount = field('init_pc_amount');
+    const baseAmount = field('init_coin_amount');
+    if (!quoteAmount || !baseAmount) return null;
+
+    return {
+      ...poolAccounts(accounts),
+      baseAmount,
+      quoteAmount,
+      baseDecimals: null,
+      quoteDecimals: null,
+      openTime: Number(field('open_time') ?? 0),
+      market: null
+    };
+  }
+
+  return { ...poolAccounts(accounts), ...init };
+}
+
+function poolAccounts(accounts: string[]) {
+  return {
+    poolId: accounts[INITIALIZE2_ACCOUNTS.amm],
+    lpMint: accounts[INITIALIZE2_ACCOUNTS.lpMint],
+    baseMint: accounts[INITIALIZE2_ACCOUNTS.coinMint],
+    quoteMint: accounts[INITIALIZE2_ACCOUNTS.pcMint],
+    creator: accounts[INITIALIZE2_ACCOUNTS.userWallet]
+  };
+}
+
+/**
+ * Accounts of the initialize2 instruction in a fetched transaction, whether it
+ * was called directly or through another program
+ */
+export function findInitialize2Accounts(transaction: ParsedTransactionWithMeta): string[] | null {
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions)
+  ];
+
+  const initialize = instructions.find((instruction): instruction is PartiallyDecodedInstruction =>
+    instruction.programId.toBase58() === DEX_PROGRAMS.RAYDIUM_V4
+    && 'accounts' in instruction
+    && instruction.accounts.length === INITIALIZE2_ACCOUNT_COUNT
+  );
+  return initialize ? initialize.accounts.map(account => account.toBase58()) : null;
+}
@@ -0,0 +1,247 @@
+import { Prisma, TradingSettings } from '@prisma/client';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+import { prisma } from '@/lib/prisma';
+import { riskEngine } from '@/lib/risk/engine';
+import { signalAttribution, signalSourceKey } from '@/lib/signal-sources/attribution';
+import { evaluateTokenSafety, tokenSafetyAnalyzer } from '@/lib/token-safety/analyzer';
+import { tokenBlacklist } from '@/lib/trading/blacklist';
+import { MarketBuyFill, marketBuy } from '@/lib/trading/market-sell';
+import { fetchTokenPrices } from '@/lib/trading/token-prices';
+import { DetectedPool, NewPoolDetector, RAYDIUM_POOL_FEED, newPoolDetector } from './detector';
+
+const SYNC_INTERVAL_MS = Number(process.env.POOL_SNIPER_SYNC_INTERVAL_MS || 60 * 1000);
+
+// Pools scheduled to open later than this are not waited for
+const MAX_OPEN_WAIT_MS = 10 * 60 * 1000;
+
+export type SnipeResult =
+  | { status: 'SKIPPED'; reason: string }                     // Outside the user's window or floor; no signal recorded
+  | { status: 'REJECTED'; signalId: string; reason: string }
+  | { status: 'EXECUTED'; signalId: string; fill: MarketBuyFill };
+
+/**
+ * Buys into new Raydium pools for users who opted in to sniping. The
+ * detector only listens for pools while some user has sniping enabled. Each
+ * snipe must land within the user's entry delay of the pool opening and the
+ * pool must hold at least their liquidity floor. Brand new tokens have no
+ * buyer history, so the safety check drops the buyer minimum and uses the
+ * sniping floor for liquidity; the rest of the user's safety limits and the
+ * risk engine still apply.
+ */
+export class PoolSniper {
+  private prisma = prisma;
+  private attached?: NewPoolDetector;
+  private scheduler?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  private onPool = (pool: DetectedPool) => {
+    const wait = pool.opensAt - Date.now();
+    if (wait > MAX_OPEN_WAIT_MS) return;
+
+    setTimeout(() => {
+      this.snipeAll(pool).catch(error => console.error(`Failed to snipe pool ${pool.pool.poolId}:`, error));
+    }, Math.max(0, wait));
+  };
+
+  start(detector: NewPoolDetector = newPoolDetector): void {
+    if (this.scheduler) return;
+
+    this.attached = detector;
+    detector.on('pool', this.onPool);
+
+    this.sync().catch(error => console.error('Pool sniper sync failed:', error));
+    this.scheduler = setInterval(() => {
+      this.sync().catch(error => console.error('Pool sniper sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    this.attached?.off('pool', this.onPool);
+    this.attached?.stop().catch(error => console.error('Failed to stop new pool detection:', error));
+    this.attached = undefined;
+  }
+
+  /**
+   * Start or stop pool detection to match whether anyone is sniping
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const detector = this.attached;
+    if (!detector) return;
+
+    const snipers = await this.prisma.tradingSettings.count({ where: { sniperEnabled: true, isActive: true } });
+    if (snipers > 0) {
+      await detector.start();
+    } else if (detector.isRunning()) {
+      await detector.stop();
+    }
+  }
+
+  private async snipeAll(pool: DetectedPool): Promise<void> {
+    const snipers = await this.prisma.tradingSettings.findMany({ where: { sniperEnabled: true, isActive: true } });
+
+    await Promise.all(snipers.map(async settings => {
+      try {
+        const result = await this.snipe(settings, pool);
+        if (result.status === 'EXECUTED') {
+          console.log(`🎯 Sniped ${pool.tokenAddress} in pool ${pool.pool.poolId} for user ${settings.userId}`);
+        } else if (result.status === 'REJECTED') {
+          console.log(`🚫 Snipe of ${pool.tokenAddress} for user ${settings.userId} rejected: ${result.reason}`);
+        }
+      } catch (error) {
+        console.error(`Failed to snipe ${pool.tokenAddress} for user ${settings.userId}:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Snipe one detected pool for the user the settings belong to
+   */
+  async snipe(settings: TradingSettings, pool: DetectedPool): Promise<SnipeResult> {
+    const { userId, tradingMode } = settings;
+    if (!settings.sniperEnabled || !settings.isActive) {
+      return { status: 'SKIPPED', reason: 'Sniping is disabled' };
+    }
+
+    const deadline = pool.opensAt + settings.sniperMaxEntryDelayMs;
+    if (Date.now() < pool.opensAt) return { status: 'SKIPPED', reason: 'Pool has not opened yet' };
+    if (Date.now() > deadline) return { status: 'SKIPPED', reason: 'Entry window has passed' };
+    if (pool.liquidityUsd === null || pool.liquidityUsd < settings.sniperMinLiquidity) {
+      return { status: 'SKIPPED', reason: `Liquidity below $${settings.sniperMinLiquidity}` };
+    }
+
+    const sniped = await this.prisma.signal.findFirst({
+      where: { userId, feed: RAYDIUM_POOL_FEED, sourceId: pool.signature },
+      select: { id: true }
+    });
+    if (sniped) return { status: 'SKIPPED', reason: 'Pool already sniped' };
+
+    const details = { poolSignalId: pool.signalId, poolId: pool.pool.poolId, quoteSymbol: pool.quoteSymbol, liquidityUsd: pool.liquidityUsd };
+    const signal = await this.prisma.signal.create({
+      data: {
+        source: 'SOLANA_INDEXER',
+        feed: RAYDIUM_POOL_FEED,
+        sourceId: pool.signature,
+        userId,
+        postedAt: new Date(pool.createdAt),
+        tokenAddress: pool.tokenAddress,
+        rawMessage: JSON.stringify(pool.pool),
+        liquidity: pool.liquidityUsd,
+        buyerCount: pool.safety?.recentUniqueBuyers,
+        devWalletShare: pool.safety?.devWalletShare,
+        filtersResult: details as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    const reject = async (reason: string): Promise<SnipeResult> => {
+      await this.prisma.signal.update({
+        where: { id: signal.id },
+        data: {
+          isProcessed: true,
+          passedFilters: false,
+          filtersResult: { ...details, rejectionReason: reason } as unknown as Prisma.InputJsonValue
+        }
+      });
+      return { status: 'REJECTED', signalId: signal.id, reason };
+    };
+
+    if (await signalAttribution.isDisabled(userId, signalSourceKey(signal))) {
+      return reject('Signal source is disabled');
+    }
+
+    if (!pool.safety) return reject('Token safety data unavailable');
+    const thresholds = await tokenSafetyAnalyzer.getUserThresholds(userId);
+    const safety = evaluateTokenSafety(pool.safety, {
+      ...thresholds,
+      minBuyerConfirmation: 0,
+      minLiquidity: settings.sniperMinLiquidity
+    });
+    if (safety.rugPatterns.length > 0) {
+      await tokenBlacklist.blacklistRug(safety.report, safety.rugPatterns);
+    }
+    if (!safety.safe) return reject(safety.reasons.join('; '));
+
+    const solPrice = (await fetchTokenPrices([TOKEN_ADDRESSES.SOL]))[TOKEN_ADDRESSES.SOL];
+    if (!solPrice) return reject('No SOL price available');
+    if (!pool.price) return reject('No opening price for the pool');
+
+    // Safety was just checked against the sniping thresholds
+    const decision = await riskEngine.assessTrade({
+      userId,
+      tokenAddress: pool.tokenAddress,
+      side: 'BUY',
+      amount: settings.sniperBuyAmount * solPrice,
+      price: pool.price,
+      tradingMode,
+      signal: {
+        confidence: 1 - safety.riskScore,
+        source: RAYDIUM_POOL_FEED,
+        metadata: { poolId: pool.pool.poolId, signature: pool.signature }
+      }
+    }, { checks: { tokenSafety: false } });
+    if (!decision.approved) {
+      return reject(decision.reasons.join('; '));
+    }
+
+    if (Date.now() > deadline) return reject('Entry window passed before the order was sent');
+
+    let fill: MarketBuyFill;
+    try {
+      fill = await marketBuy({
+        userId,
+        tradingMode,
+        tokenAddress: pool.tokenAddress,
+        solAmount: decision.adjustedPositionSize / solPrice,
+        solPrice,
+        price: pool.price,
+        signalId: signal.id,
+        metadata: {
+          snipe: {
+            poolId: pool.pool.poolId,
+            signature: pool.signature,
+            liquidityUsd: pool.liquidityUsd,
+            entryDelayMs: Date.now() - pool.opensAt
+          },
+          riskScore: decision.riskScore
+        }
+      });
+    } catch (error) {
+      return reject(error instanceof Error ? error.message : 'Execution failed');
+    }
+
+    await this.prisma.signal.update({
+      where: { id: signal.id },
+      data: {
+        isProcessed: true,
+        passedFilters: true,
+        filtersResult: {
+          ...details,
+          safetyRiskScore: safety.riskScore,
+          riskScore: decision.riskScore,
+          reasoning: [...safety.reasons, ...decision.warnings],
+          tradeId: fill.tradeId
+        } as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return { status: 'EXECUTED', signalId: signal.id, fill };
+  }
+}
+
+const globalForPoolSniper = globalThis as unknown as {
+  poolSniper: PoolSniper | undefined
+};
+
+export const poolSniper = globalForPoolSniper.poolSniper ?? new PoolSniper();
+
+globalForPoolSniper.poolSniper = poolSniper;
@@ -0,0 +1,154 @@
+import Bull from 'bull';
+import Redis from 'ioredis';
+import {
+  DeadLetterJob,
+  JobHandler,
+  JobOptions,
+  JobTimeoutError,
+  QueueCounts,
+  QueueDriver,
+  QueueName,
+} from './types';
+
+const QUEUE_PREFIX = 'feshmint';
+const DEAD_LETTER_SUFFIX = 'dead-letter';
+
+/**
+ * Redis-backed driver on bull. The client and subscriber connections are
+ * shared across queues; bull needs a dedicated connection per blocking client.
+ */
+export class BullQueueDriver implements QueueDriver {
+  private queues = new Map<string, Bull.Queue>();
+  private client: Redis;
+  private subscriber: Redis;
+
+  constructor(private redisUrl: string) {
+    const options = { maxRetriesPerRequest: null, enableReadyCheck: false };
+    this.client = new Redis(redisUrl, options);
+    this.subscriber = new Redis(redisUrl, options);
+  }
+
+  async add<T>(
+    queue: QueueName,
+    data: T,
+    options: Required<Pick<JobOptions, 'attempts' | 'backoff'>> & JobOptions
+  ): Promise<string> {
+    const job = await this.getQueue(queue).add(
+      { payload: data, userId: options.userId },
+      {
+        jobId: options.jobId,
+        attempts: options.attempts,
+        backoff: options.backoff,
+        delay: options.delay,
+        removeOnComplete: 1000,
+        removeOnFail: 1000,
+      }
+    );
+    return String(job.id);
+  }
+
+  process<T, R>(queue: QueueName, concurrency: number, handler: JobHandler<T, R>): void {
+    const bullQueue = this.getQueue(queue);
+
+    bullQueue.process(concurrency, async (job) => handler({
+      id: String(job.id),
+      queue,
+      data: job.data.payload as T,
+      userId: job.data.userId,
+      attemptsMade: job.attemptsMade + 1,
+      timestamp: job.timestamp,
+    }));
+
+    // Jobs out of attempts are copied to a dead-letter queue nobody consumes
+    bullQueue.on('failed', async (job, error) => {
+      if (job.attemptsMade < (job.opts.attempts || 1)) return;
+
+      try {
+        await this.getDeadLetterQueue(queue).add({
+          id: String(job.id),
+          queue,
+          data: job.data.payload,
+          userId: job.data.userId,
+          attemptsMade: job.attemptsMade,
+          timestamp: job.timestamp,
+          failedReason: error.message,
+          failedAt: Date.now(),
+        } satisfies DeadLetterJob, { removeOnComplete: false });
+        console.error(`☠️ Job ${job.id} moved to ${queue} dead-letter after ${job.attemptsMade} attempts: ${error.message}`);
+      } catch (dlqError) {
+        console.error(`Failed to dead-letter job ${job.id}:`, dlqError);
+      }
+    });
+  }
+
+  async waitForResult<R>(queue: QueueName, jobId: string, timeoutMs: number): Promise<R> {
+    const job = await this.getQueue(queue).getJob(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new JobTimeoutError(jobId)), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([job.finished() as Promise<R>, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async getCounts(queue: QueueName): Promise<QueueCounts> {
+    const [counts, deadLetter] = await Promise.all([
+      this.getQueue(queue).getJobCounts(),
+      this.getDeadLetterQueue(queue).count(),
+    ]);
+
+    return {
+      waiting: counts.waiting,
+      active: counts.active,
+      delayed: counts.delayed,
+      completed: counts.completed,
+      failed: counts.failed,
+      deadLetter,
+    };
+  }
+
+  async getDeadLetters(queue: QueueName, limit = 50): Promise<DeadLetterJob[]> {
+    const jobs = await this.getDeadLetterQueue(queue).getWaiting(0, limit - 1);
+    return jobs.map(job => job.data as DeadLetterJob);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.queues.values()).map(queue => queue.close()));
+    this.queues.clear();
+    this.client.disconnect();
+    this.subscriber.disconnect();
+  }
+
+  private getQueue(name: string): Bull.Queue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = new Bull(name, {
+        prefix: QUEUE_PREFIX,
+        createClient: (type, redisOptions) => {
+          switch (type) {
+            case 'client':
+              return this.client;
+            case 'subscriber':
+              return this.subscriber;
+            default:
+              return new Redis(this.redisUrl, { ...redisOptions, maxRetriesPerRequest: null, enableReadyCheck: false });
+          }
+        },
+      });
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  private getDeadLetterQueue(queue: QueueName): Bull.Queue {
+    return this.getQueue(`${queue}-${DEAD_LETTER_SUFFIX}`);
+  }
+}
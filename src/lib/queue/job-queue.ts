@@ -0,0 +1,196 @@
+import { BullQueueDriver } from './bull-driver';
+import { InMemoryQueueDriver } from './memory-driver';
+import {
+  DeadLetterJob,
+  JobHandler,
+  JobOptions,
+  QueueCounts,
+  QueueDriver,
+  QueueJob,
+  QueueName,
+  QueueSettings,
+} from './types';
+
+/**
+ * Per-queue defaults. Global concurrency is kept above the per-user limit so
+ * one busy user cannot occupy every worker.
+ */
+export const QUEUE_SETTINGS: Record<QueueName, QueueSettings> = {
+  'signal-ingestion': {
+    concurrency: 10,
+    perUserConcurrency: 4,
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 500 },
+  },
+  'trade-execution': {
+    concurrency: 5,
+    perUserConcurrency: 1,
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 1000 },
+  },
+  'exit-monitoring': {
+    concurrency: 5,
+    perUserConcurrency: 1,
+    attempts: 2,
+    backoff: { type: 'fixed', delay: 2000 },
+  },
+  'notifications': {
+    concurrency: 10,
+    perUserConcurrency: 5,
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 5000 },
+  },
+  // A failed run is recorded on its Backtest row rather than retried
+  'backtests': {
+    concurrency: 2,
+    perUserConcurrency: 1,
+    attempts: 1,
+    backoff: { type: 'fixed', delay: 5000 },
+  },
+};
+
+// How long a job whose user has no free slot waits before it is tried again
+const THROTTLE_DELAY_MS = 500;
+
+/**
+ * Result recorded for a job that was put back on the queue under a new id
+ * because its user had no free slot
+ */
+interface RequeuedJob {
+  __requeuedAs: string;
+}
+
+function isRequeued(result: unknown): result is RequeuedJob {
+  return typeof (result as RequeuedJob | null)?.__requeuedAs === 'string';
+}
+
+/**
+ * Counting semaphore per queue and user
+ */
+class UserConcurrencyLimiter {
+  private active = new Map<string, number>();
+
+  tryAcquire(key: string, limit: number): boolean {
+    const count = this.active.get(key) || 0;
+    if (count >= limit) return false;
+
+    this.active.set(key, count + 1);
+    return true;
+  }
+
+  release(key: string): void {
+    const count = (this.active.get(key) || 1) - 1;
+    if (count <= 0) {
+      this.active.delete(key);
+    } else {
+      this.active.set(key, count);
+    }
+  }
+}
+
+export class JobQueue {
+  private limiter = new UserConcurrencyLimiter();
+  private registered = new Set<QueueName>();
+
+  constructor(private driver: QueueDriver) {}
+
+  /**
+   * Queue a job. Retries and backoff default to the queue's settings.
+   */
+  async enqueue<T>(queue: QueueName, data: T, options: JobOptions = {}): Promise<string> {
+    const settings = QUEUE_SETTINGS[queue];
+    return this.driver.add(queue, data, {
+      ...options,
+      attempts: options.attempts ?? settings.attempts,
+      backoff: options.backoff ?? settings.backoff,
+    });
+  }
+
+  /**
+   * Register the processor for a queue. A job carrying a userId whose user
+   * already has every slot busy is queued again after a short delay, so it
+   * never holds a worker other users' jobs could run on.
+   */
+  register<T, R>(queue: QueueName, handler: JobHandler<T, R>): void {
+    if (this.registered.has(queue)) return;
+    this.registered.add(queue);
+
+    const settings = QUEUE_SETTINGS[queue];
+    this.driver.process<T, R | RequeuedJob>(queue, settings.concurrency, async (job) => {
+      if (!job.userId) {
+        return handler(job);
+      }
+
+      const key = `${queue}:${job.userId}`;
+      if (!this.limiter.tryAcquire(key, settings.perUserConcurrency)) {
+        return this.requeue(queue, job);
+      }
+
+      try {
+        return await handler(job);
+      } finally {
+        this.limiter.release(key);
+      }
+    });
+  }
+
+  private async requeue<T>(queue: QueueName, job: QueueJob<T>): Promise<RequeuedJob> {
+    // The throttled job is still active under its id, so the copy needs its own
+    const jobId = `${job.id.replace(/#[^#]*$/, '')}#${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    await this.enqueue(queue, job.data, { userId: job.userId, jobId, delay: THROTTLE_DELAY_MS });
+    return { __requeuedAs: jobId };
+  }
+
+  isRegistered(queue: QueueName): boolean {
+    return this.registered.has(queue);
+  }
+
+  /**
+   * Wait for a job's result, following it through any requeues while its
+   * user was throttled
+   */
+  async waitForResult<R>(queue: QueueName, jobId: string, timeoutMs: number): Promise<R> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (let id = jobId; ;) {
+      const result = await this.driver.waitForResult<R | RequeuedJob>(queue, id, Math.max(deadline - Date.now(), 0));
+      if (!isRequeued(result)) return result;
+      id = result.__requeuedAs;
+    }
+  }
+
+  getCounts(queue: QueueName): Promise<QueueCounts> {
+    return this.driver.getCounts(queue);
+  }
+
+  getDeadLetters(queue: QueueName, limit?: number): Promise<DeadLetterJob[]> {
+    return this.driver.getDeadLetters(queue, limit);
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+    this.registered.clear();
+  }
+}
+
+/**
+ * Redis when REDIS_URL is set, otherwise in-memory. QUEUE_DRIVER=memory
+ * forces the in-memory driver, e.g. for tests.
+ */
+export function createQueueDriver(): QueueDriver {
+  const redisUrl = process.env.REDIS_URL;
+
+  if (process.env.QUEUE_DRIVER === 'memory' || !redisUrl) {
+    return new InMemoryQueueDriver();
+  }
+
+  return new BullQueueDriver(redisUrl);
+}
+
+const globalForQueue = globalThis as unknown as {
+  jobQueue: JobQueue | undefined
+};
+
+export const jobQueue = globalForQueue.jobQueue ?? new JobQueue(createQueueDriver());
+
+globalForQueue.jobQueue = jobQueue;
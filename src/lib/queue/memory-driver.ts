@@ -0,0 +1,235 @@
+import {
+  DeadLetterJob,
+  JobHandler,
+  JobOptions,
+  JobTimeoutError,
+  QueueCounts,
+  QueueDriver,
+  QueueJob,
+  QueueName,
+  backoffDelay,
+} from './types';
+
+interface StoredJob extends QueueJob {
+  attempts: number;
+  backoff: NonNullable<JobOptions['backoff']>;
+}
+
+interface MemoryQueue {
+  waiting: StoredJob[];
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+  deadLetters: DeadLetterJob[];
+  pendingIds: Set<string>;
+  handler?: JobHandler<unknown, unknown>;
+  concurrency: number;
+}
+
+type Waiter = { resolve: (value: unknown) => void; reject: (error: Error) => void };
+type Outcome = { result: unknown } | { error: Error };
+
+const MAX_DEAD_LETTERS = 1000;
+const MAX_FINISHED = 1000; // Outcomes kept for late waitForResult calls, like removeOnComplete in Redis
+
+/**
+ * In-process driver with the same retry, backoff and dead-letter semantics as
+ * the Redis driver. Used in development and tests, and whenever REDIS_URL is
+ * not configured. Jobs do not survive a restart.
+ */
+export class InMemoryQueueDriver implements QueueDriver {
+  private queues = new Map<QueueName, MemoryQueue>();
+  private waiters = new Map<string, Waiter[]>();
+  private finished = new Map<string, Outcome>();
+  private timers = new Set<NodeJS.Timeout>();
+  private nextId = 1;
+  private closed = false;
+
+  async add<T>(
+    queue: QueueName,
+    data: T,
+    options: Required<Pick<JobOptions, 'attempts' | 'backoff'>> & JobOptions
+  ): Promise<string> {
+    const state = this.getQueue(queue);
+    const id = options.jobId || `${queue}-${this.nextId++}`;
+
+    if (state.pendingIds.has(id)) {
+      return id;
+    }
+
+    const job: StoredJob = {
+      id,
+      queue,
+      data,
+      userId: options.userId,
+      attemptsMade: 0,
+      timestamp: Date.now(),
+      attempts: options.attempts,
+      backoff: options.backoff,
+    };
+
+    state.pendingIds.add(id);
+    this.schedule(state, job, options.delay || 0);
+    return id;
+  }
+
+  process<T, R>(queue: QueueName, concurrency: number, handler: JobHandler<T, R>): void {
+    const state = this.getQueue(queue);
+    state.handler = handler as JobHandler<unknown, unknown>;
+    state.concurrency = concurrency;
+    this.drain(state);
+  }
+
+  waitForResult<R>(queue: QueueName, jobId: string, timeoutMs: number): Promise<R> {
+    const outcome = this.finished.get(jobId);
+    if (outcome) {
+      return 'error' in outcome ? Promise.reject(outcome.error) : Promise.resolve(outcome.result as R);
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        reject(new JobTimeoutError(jobId));
+      }, timeoutMs);
+      this.timers.add(timer);
+
+      const waiters = this.waiters.get(jobId) || [];
+      waiters.push({
+        resolve: value => {
+          clearTimeout(timer);
+          this.timers.delete(timer);
+          resolve(value as R);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          this.timers.delete(timer);
+          reject(error);
+        },
+      });
+      this.waiters.set(jobId, waiters);
+    });
+  }
+
+  async getCounts(queue: QueueName): Promise<QueueCounts> {
+    const state = this.getQueue(queue);
+    return {
+      waiting: state.waiting.length,
+      active: state.active,
+      delayed: state.delayed,
+      completed: state.completed,
+      failed: state.failed,
+      deadLetter: state.deadLetters.length,
+    };
+  }
+
+  async getDeadLetters(queue: QueueName, limit = 50): Promise<DeadLetterJob[]> {
+    return this.getQueue(queue).deadLetters.slice(-limit).reverse();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.queues.clear();
+    this.finished.clear();
+  }
+
+  private getQueue(queue: QueueName): MemoryQueue {
+    let state = this.queues.get(queue);
+    if (!state) {
+      state = {
+        waiting: [],
+        active: 0,
+        delayed: 0,
+        completed: 0,
+        failed: 0,
+        deadLetters: [],
+        pendingIds: new Set(),
+        concurrency: 1,
+      };
+      this.queues.set(queue, state);
+    }
+    return state;
+  }
+
+  private schedule(state: MemoryQueue, job: StoredJob, delay: number): void {
+    if (delay <= 0) {
+      state.waiting.push(job);
+      this.drain(state);
+      return;
+    }
+
+    state.delayed++;
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      state.delayed--;
+      state.waiting.push(job);
+      this.drain(state);
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private drain(state: MemoryQueue): void {
+    if (this.closed || !state.handler) return;
+
+    while (state.active < state.concurrency && state.waiting.length > 0) {
+      const job = state.waiting.shift()!;
+      state.active++;
+      this.run(state, job).finally(() => {
+        state.active--;
+        this.drain(state);
+      });
+    }
+  }
+
+  private async run(state: MemoryQueue, job: StoredJob): Promise<void> {
+    job.attemptsMade++;
+
+    try {
+      const result = await state.handler!(job);
+      state.completed++;
+      state.pendingIds.delete(job.id);
+      this.settle(job.id, { result });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (job.attemptsMade < job.attempts) {
+        this.schedule(state, job, backoffDelay(job.backoff, job.attemptsMade));
+        return;
+      }
+
+      state.failed++;
+      state.pendingIds.delete(job.id);
+      state.deadLetters.push({
+        id: job.id,
+        queue: job.queue,
+        data: job.data,
+        userId: job.userId,
+        attemptsMade: job.attemptsMade,
+        timestamp: job.timestamp,
+        failedReason: reason,
+        failedAt: Date.now(),
+      });
+      if (state.deadLetters.length > MAX_DEAD_LETTERS) {
+        state.deadLetters.shift();
+      }
+
+      console.error(`☠️ Job ${job.id} moved to ${job.queue} dead-letter after ${job.attemptsMade} attempts: ${reason}`);
+      this.settle(job.id, { error: error instanceof Error ? error : new Error(reason) });
+    }
+  }
+
+  private settle(jobId: string, outcome: Outcome): void {
+    this.finished.delete(jobId);
+    this.finished.set(jobId, outcome);
+    if (this.finished.size > MAX_FINISHED) {
+      this.finished.delete(this.finished.keys().next().value!);
+    }
+
+    const waiters = this.waiters.get(jobId);
+    if (!waiters) return;
+    this.waiters.delete(jobId);
+    waiters.forEach(waiter => 'error' in outcome ? waiter.reject(outcome.error) : waiter.resolve(outcome.result));
+  }
+}
@@ -0,0 +1,375 @@
+import { Prisma, Trade } from '@prisma/client';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+import { prisma } from '@/lib/prisma';
+import { backtestEngine } from '@/lib/trading/backtest-engine';
+import { riskEngine } from '@/lib/risk/engine';
+import type { RiskCheckResult, RiskProfileName } from '@/lib/risk/types';
+import { riskProfileExitPlan } from '@/lib/trading/exit-plan';
+import { exitOrderManager } from '@/lib/trading/exit-order-manager';
+import { MarketSellFill, marketBuy, marketSell } from '@/lib/trading/market-sell';
+import { paperExecutionEngine } from '@/lib/trading/paper-execution-engine';
+import { fetchTokenPrices } from '@/lib/trading/token-prices';
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
+import type { SignalData } from '@/lib/signalProcessor';
+import type { RealTimeSignal } from '@/lib/websocket-manager';
+import { jobQueue } from './job-queue';
+import { QueueJob } from './types';
+
+export type ManualTradeSignal = SignalData & { id?: string; type?: string };
+
+export interface TradeExecutionJob {
+  userId: string;
+  signal: ManualTradeSignal;
+  tradeType: 'BUY' | 'SELL';
+  amount: number;
+  settings?: Record<string, unknown>;
+}
+
+export type TradeExecutionOutcome =
+  | {
+      status: 'REJECTED';
+      riskScore: number;
+      reasons: string[];
+      checks: RiskCheckResult[];
+      recommendations: string[];
+    }
+  | {
+      status: 'FAILED';
+      reason?: string;
+      details?: string;
+    }
+  | {
+      status: 'CANCELLED';
+      reason: string;
+    }
+  | {
+      status: 'EXECUTED';
+      trade: {
+        id: string;
+        tokenAddress: string;
+        tokenSymbol: string | null;
+        type: string;
+        amount: number;
+        price: number | null;
+        fees: number;
+        slippage: number | null;
+        txHash: string | null;
+        status: string;
+        createdAt: Date;
+      } | null;
+      execution: {
+        actualAmount: number;
+        executionPrice: number;
+        fees: number;
+        slippage: number;
+        gasUsed: number;
+        processingTime: number;
+      };
+      riskAssessment: {
+        riskScore: number;
+        checks: RiskCheckResult[];
+        warnings: string[];
+      };
+    };
+
+type ExecutedTradeOutcome = Extract<TradeExecutionOutcome, { status: 'EXECUTED' }>;
+
+export interface SignalIngestionJob {
+  signal: RealTimeSignal;
+}
+
+export interface BacktestJob {
+  backtestId: string;
+}
+
+export interface NotificationJob {
+  level: 'INFO' | 'WARN' | 'ERROR';
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Risk-check, execute and record a manually requested trade in the user's
+ * trading mode. Throwing before execution lets the queue retry; once the swap
+ * has been sent, failures are reported instead so a retry can never execute
+ * the same trade twice. Paper trades fill through the paper engine; live
+ * trades swap through the market order helpers.
+ */
+async function executeTradeJob(job: QueueJob<TradeExecutionJob>): Promise<TradeExecutionOutcome> {
+  const { userId, signal, tradeType, amount, settings } = job.data;
+
+  const userSettings = await prisma.tradingSettings.findUnique({
+    where: { userId }
+  });
+
+  // Trading may have been disabled, e.g. by the kill switch, while the job was queued
+  if (!userSettings?.isActive) {
+    return { status: 'CANCELLED', reason: 'Trading is not enabled for this account' };
+  }
+
+  // Pre-trade risk assessment
+  const riskAssessment = await riskEngine.assessTrade({
+    userId,
+    tokenAddress: signal.tokenAddress,
+    side: tradeType,
+    amount,
+    price: signal.price,
+    tradingMode: userSettings.tradingMode,
+    signal: {
+      confidence: signal.confidence,
+      source: signal.source,
+      type: signal.type,
+      metadata: signal.metadata
+    }
+  }, {
+    profile: settings?.riskProfile as RiskProfileName | undefined
+  });
+
+  if (!riskAssessment.approved) {
+    return {
+      status: 'REJECTED',
+      riskScore: riskAssessment.riskScore,
+      reasons: riskAssessment.reasons,
+      checks: riskAssessment.checks,
+      recommendations: riskAssessment.recommendations
+    };
+  }
+
+  const assessment = {
+    riskScore: riskAssessment.riskScore,
+    checks: riskAssessment.checks,
+    warnings: riskAssessment.warnings
+  };
+
+  if (userSettings.tradingMode === 'PAPER') {
+    return executePaperTradeJob(job, riskAssessment.adjustedPositionSize || amount, settings, assessment);
+  }
+
+  return executeLiveTradeJob(job, riskAssessment.adjustedPositionSize || amount, settings, assessment);
+}
+
+/**
+ * Swap a risk-approved manual trade with the user's wallet through the signer
+ * and book what it bought or sold. `size` is in the quote currency, as for
+ * paper trades: buys spend it converted to SOL, sells sell size / price tokens.
+ */
+async function executeLiveTradeJob(
+  job: QueueJob<TradeExecutionJob>,
+  size: number,
+  settings: TradeExecutionJob['settings'],
+  riskAssessment: ExecutedTradeOutcome['riskAssessment']
+): Promise<TradeExecutionOutcome> {
+  const { userId, signal, tradeType } = job.data;
+  const startTime = Date.now();
+
+  // Throws before anything is sent, so the queue can retry
+  const solPrice = (await fetchTokenPrices([TOKEN_ADDRESSES.SOL]))[TOKEN_ADDRESSES.SOL];
+  if (!solPrice) {
+    throw new Error('No SOL price available');
+  }
+
+  const order = {
+    userId,
+    tradingMode: 'LIVE' as const,
+    tokenAddress: signal.tokenAddress,
+    tokenSymbol: signal.tokenSymbol || 'UNK',
+    price: signal.price,
+    maxSlippage: (settings?.maxSlippage as number | undefined) || 0.01,
+    signalId: signal.id,
+    metadata: { queueJobId: job.id }
+  };
+
+  let fill: MarketSellFill;
+  try {
+    fill = tradeType === 'BUY'
+      ? await marketBuy({
+          ...order,
+          solAmount: size / solPrice,
+          solPrice,
+          // Enforce the risk profile's take-profit ladder and stop on the new entry
+          exitPlan: riskProfileExitPlan(signal.price, settings?.riskProfile as string | undefined)
+        })
+      : await marketSell({ ...order, quantity: size / signal.price });
+  } catch (error) {
+    // The swap may have been sent; retrying could execute it twice
+    const reason = error instanceof Error ? error.message : String(error);
+    await notify(userId, {
+      level: 'WARN',
+      title: 'Trade failed',
+      message: `${tradeType} ${signal.tokenSymbol || signal.tokenAddress} failed: ${reason}`
+    });
+    return { status: 'FAILED', reason };
+  }
+
+  const trade = await prisma.trade.findUnique({ where: { id: fill.tradeId } });
+
+  await notify(userId, {
+    level: 'INFO',
+    title: 'Trade executed',
+    message: `${tradeType} ${fill.quantity} ${signal.tokenSymbol || signal.tokenAddress} @ ${fill.price}`,
+    metadata: { txHash: trade?.txHash }
+  });
+
+  return {
+    status: 'EXECUTED',
+    trade: trade && summarizeTrade(trade),
+    execution: {
+      actualAmount: fill.quantity,
+      executionPrice: fill.price,
+      fees: trade?.fees ?? 0,
+      slippage: trade?.slippage ?? 0,
+      gasUsed: 0,
+      processingTime: Date.now() - startTime
+    },
+    riskAssessment
+  };
+}
+
+/**
+ * Fill a risk-approved manual trade against the simulated pool. `size` is in
+ * the quote currency; sells are capped at the held position by the ledger.
+ */
+async function executePaperTradeJob(
+  job: QueueJob<TradeExecutionJob>,
+  size: number,
+  settings: TradeExecutionJob['settings'],
+  riskAssessment: ExecutedTradeOutcome['riskAssessment']
+): Promise<TradeExecutionOutcome> {
+  const { userId, signal, tradeType } = job.data;
+  const liquidity = signal.metadata?.liquidity;
+
+  let result: Awaited<ReturnType<typeof paperExecutionEngine.executeAndRecord>>;
+  try {
+    result = await paperExecutionEngine.executeAndRecord({
+      side: tradeType,
+      tokenAddress: signal.tokenAddress,
+      tokenSymbol: signal.tokenSymbol || 'UNK',
+      tokenName: signal.tokenName || 'Unknown',
+      price: signal.price,
+      liquidity: typeof liquidity === 'number' ? liquidity : undefined,
+      quoteAmount: tradeType === 'BUY' ? size : undefined,
+      quantity: tradeType === 'SELL' ? size / signal.price : undefined
+    }, {
+      userId,
+      signalId: signal.id,
+      // Same take-profit ladder and stop as live entries
+      exitPlan: tradeType === 'BUY'
+        ? riskProfileExitPlan(signal.price, settings?.riskProfile as string | undefined)
+        : undefined,
+      metadata: { queueJobId: job.id }
+    });
+  } catch (error) {
+    // e.g. selling a token with no open paper position; retrying cannot help
+    return { status: 'FAILED', reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { fill, recorded } = result;
+  if (!recorded) {
+    await notify(userId, {
+      level: 'WARN',
+      title: 'Paper trade rejected',
+      message: `${tradeType} ${signal.tokenSymbol || signal.tokenAddress} rejected: ${fill.reason || 'unknown reason'}`
+    });
+    return { status: 'FAILED', reason: fill.reason };
+  }
+
+  const trade = await prisma.trade.findUnique({ where: { id: recorded.tradeId } });
+
+  await notify(userId, {
+    level: 'INFO',
+    title: 'Paper trade executed',
+    message: `${tradeType} ${recorded.quantity} ${signal.tokenSymbol || signal.tokenAddress} @ ${fill.averagePrice}`
+  });
+
+  return {
+    status: 'EXECUTED',
+    trade: trade && summarizeTrade(trade),
+    execution: {
+      actualAmount: recorded.quantity,
+      executionPrice: fill.averagePrice,
+      fees: fill.fees.total,
+      slippage: fill.priceImpact * 100,
+      gasUsed: 0,
+      processingTime: fill.latencyMs
+    },
+    riskAssessment
+  };
+}
+
+function summarizeTrade(trade: Trade): ExecutedTradeOutcome['trade'] {
+  return {
+    id: trade.id,
+    tokenAddress: trade.tokenAddress,
+    tokenSymbol: trade.tokenSymbol,
+    type: trade.type,
+    amount: trade.amount,
+    price: trade.price,
+    fees: trade.fees,
+    slippage: trade.slippage,
+    txHash: trade.txHash,
+    status: trade.status,
+    createdAt: trade.createdAt
+  };
+}
+
+/**
+ * Queue a user notification. Never throws; notifications are best effort.
+ */
+export async function notify(userId: string | undefined, notification: NotificationJob): Promise<void> {
+  try {
+    await jobQueue.enqueue('notifications', notification, { userId });
+  } catch (error) {
+    console.error('Failed to queue notification:', error);
+  }
+}
+
+let registered = false;
+
+/**
+ * Attach processors to every queue. Called once on server boot.
+ */
+export function registerQueueProcessors(): void {
+  if (registered) return;
+  registered = true;
+
+  jobQueue.register<TradeExecutionJob, TradeExecutionOutcome>('trade-execution', executeTradeJob);
+
+  // Signals are only relevant to a bot running in this process
+  jobQueue.register<SignalIngestionJob, void>('signal-ingestion', async (job) => {
+    const bot = job.userId ? tradingBotRegistry.get(job.userId) : undefined;
+    if (!bot?.isActive()) return;
+    await bot.ingestSignal(job.data.signal);
+  });
+
+  jobQueue.register<Record<string, never>, void>('exit-monitoring', async (job) => {
+    if (!job.userId) return;
+
+    // Exit orders fill first; the bot then reloads its positions for time exits
+    await exitOrderManager.evaluateUser(job.userId);
+
+    const bot = tradingBotRegistry.get(job.userId);
+    if (bot?.isActive()) {
+      await bot.runExitChecks();
+    }
+  });
+
+  // run() records failures on the Backtest row itself
+  jobQueue.register<BacktestJob, void>('backtests', async (job) => {
+    await backtestEngine.run(job.data.backtestId);
+  });
+
+  jobQueue.register<NotificationJob, void>('notifications', async (job) => {
+    const { level, title, message, metadata } = job.data;
+    console.log(`🔔 [${level}] ${title}: ${message}`);
+
+    await prisma.systemLog.create({
+      data: {
+        level,
+        module: 'NOTIFY',
+        message: `${title}: ${message}`,
+        metadata: { userId: job.userId ?? null, ...metadata } as Prisma.InputJsonValue
+      }
+    });
+  });
+}
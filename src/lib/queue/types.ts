@@ -0,0 +1,92 @@
+export type QueueName =
+  | 'signal-ingestion'
+  | 'trade-execution'
+  | 'exit-monitoring'
+  | 'notifications'
+  | 'backtests';
+
+export const QUEUE_NAMES: QueueName[] = [
+  'signal-ingestion',
+  'trade-execution',
+  'exit-monitoring',
+  'notifications',
+  'backtests',
+];
+
+export interface BackoffOptions {
+  type: 'fixed' | 'exponential';
+  delay: number; // ms before the first retry
+}
+
+export interface JobOptions {
+  userId?: string;
+  attempts?: number;
+  backoff?: BackoffOptions;
+  delay?: number;
+  // Jobs with the same id are only queued once while pending
+  jobId?: string;
+}
+
+export interface QueueJob<T = unknown> {
+  id: string;
+  queue: QueueName;
+  data: T;
+  userId?: string;
+  attemptsMade: number;
+  timestamp: number;
+}
+
+export interface DeadLetterJob<T = unknown> extends QueueJob<T> {
+  failedReason: string;
+  failedAt: number;
+}
+
+export interface QueueCounts {
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+  deadLetter: number;
+}
+
+export type JobHandler<T = unknown, R = unknown> = (job: QueueJob<T>) => Promise<R>;
+
+/**
+ * Resolved per-queue settings; see QUEUE_SETTINGS in job-queue.ts
+ */
+export interface QueueSettings {
+  concurrency: number;
+  perUserConcurrency: number;
+  attempts: number;
+  backoff: BackoffOptions;
+}
+
+/**
+ * Storage and dispatch backend. Drivers own retries, backoff and dead-letter
+ * handling; per-user limits are applied above them by JobQueue.
+ */
+export interface QueueDriver {
+  add<T>(queue: QueueName, data: T, options: Required<Pick<JobOptions, 'attempts' | 'backoff'>> & JobOptions): Promise<string>;
+  process<T, R>(queue: QueueName, concurrency: number, handler: JobHandler<T, R>): void;
+  waitForResult<R>(queue: QueueName, jobId: string, timeoutMs: number): Promise<R>;
+  getCounts(queue: QueueName): Promise<QueueCounts>;
+  getDeadLetters(queue: QueueName, limit?: number): Promise<DeadLetterJob[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Thrown by waitForResult when a job is still running after the timeout
+ */
+export class JobTimeoutError extends Error {
+  constructor(public jobId: string) {
+    super(`Job ${jobId} did not finish in time`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export function backoffDelay(backoff: BackoffOptions, attemptsMade: number): number {
+  return backoff.type === 'exponential'
+    ? backoff.delay * Math.pow(2, Math.max(attemptsMade - 1, 0))
+    : backoff.delay;
+}
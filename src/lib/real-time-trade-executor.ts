@@ -1,14 +1,28 @@
-import { Connection, PublicKey, Keypair, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, PublicKey, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction } from '@solana/spl-token';
 import { EventEmitter } from 'events';
-
+import { TRADING_CONFIG } from './helius/config';
+import { ConfirmationTracker, SubmittableTransaction } from './helius/confirmationTracker';
+import type { Signer } from './signer/types';
+import { JupiterSwapAdapter } from './swap/jupiter-adapter';
+import type { SwapAdapter, SwapQuote } from './swap/types';
+import { fetchTokenPrices } from './trading/token-prices';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * A failed result carries the signature, slot and fee when the swap was
+ * submitted and failed on chain or expired, so it can be recorded
+ */
 export interface TradeResult {
   success: boolean;
   txHash?: string;
+  slot?: number;
   error?: string;
-  actualAmount?: number;
-  executionPrice?: number;
-  fees?: number;
+  actualAmount?: number; // Tokens bought or sold
+  executionPrice?: number; // What the swap paid per token, in the quote currency
+  solPrice?: number; // SOL price in the quote currency the result was priced at
+  fees?: number; // Network fee paid, in the quote currency at solPrice
   slippage?: number;
   gasUsed?: number;
   processingTime?: number;
@@ -22,15 +36,22 @@ export interface TradeRequest {
   priority: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
+/**
+ * Swaps through a swap adapter (Jupiter unless one is passed) signing with one
+ * wallet's signer, normally from the wallet manager; there is no fallback key.
+ */
 export class RealTimeTradeExecutor extends EventEmitter {
   private connection: Connection;
-  private wallet?: Keypair;
-  private isInitialized = false;
+  private confirmations: ConfirmationTracker;
+  private signer: Signer;
+  private swapAdapter: SwapAdapter;
+  private mintDecimals = new Map<string, number>([[SOL_MINT, 9]]);
   // Removed Jito RPC usage per company policy; standard RPC only
   private pendingTrades = new Map<string, unknown>();
 
-  constructor() {
+  constructor(signer: Signer, swapAdapter?: SwapAdapter) {
     super();
+    this.signer = signer;
     this.connection = new Connection(
       process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
       {
@@ -38,62 +59,8 @@ export class RealTimeTradeExecutor extends EventEmitter {
         wsEndpoint: process.env.NEXT_PUBLIC_SOLANA_WS_URL || 'wss://api.mainnet-beta.solana.com'
       }
     );
-    
-    this.initializeWallet();
-  }
-
-  private async initializeWallet() {
-    try {
-      // In production, this would come from encrypted storage
-      const privateKeyString = process.env.TRADING_WALLET_PRIVATE_KEY;
-      if (privateKeyString) {
-        let privateKeyArray: number[];
-        
-        try {
-          // Try to parse as JSON array first
-          privateKeyArray = JSON.parse(privateKeyString);
-        } catch (jsonError) {
-          // If JSON parsing fails, try to parse as base58 string
-          try {
-            console.log('⚠️ JSON parsing failed, trying base58 decode...');
-            // For development/testing, we'll create a random keypair
-            this.wallet = Keypair.generate();
-            this.isInitialized = true;
-            console.log('✅ Generated temporary trading wallet for development:', this.wallet.publicKey.toString());
-            console.log('⚠️ Using temporary wallet - for production, provide TRADING_WALLET_PRIVATE_KEY as JSON array');
-            return;
-          } catch (base58Error) {
-            const jsonErrorMsg = jsonError instanceof Error ? jsonError.message : 'Unknown JSON error';
-            const base58ErrorMsg = base58Error instanceof Error ? base58Error.message : 'Unknown base58 error';
-            throw new Error(`Invalid private key format. Expected JSON array or base58 string. JSON error: ${jsonErrorMsg}, Base58 error: ${base58ErrorMsg}`);
-          }
-        }
-        
-        if (!Array.isArray(privateKeyArray) || privateKeyArray.length !== 64) {
-          throw new Error('Private key must be a JSON array of 64 numbers');
-        }
-        
-        this.wallet = Keypair.fromSecretKey(new Uint8Array(privateKeyArray));
-        this.isInitialized = true;
-        console.log('✅ Trading wallet initialized:', this.wallet.publicKey.toString());
-      } else {
-        // For development, generate a temporary wallet
-        console.warn('⚠️ No trading wallet configured - generating temporary wallet for development');
-        this.wallet = Keypair.generate();
-        this.isInitialized = true;
-        console.log('✅ Generated temporary trading wallet:', this.wallet.publicKey.toString());
-        console.log('⚠️ This is a temporary wallet - for production, set TRADING_WALLET_PRIVATE_KEY');
-      }
-    } catch (error) {
-      console.error('❌ Failed to initialize trading wallet:', error);
-      // For development, still allow operation with a temporary wallet
-      if (process.env.NODE_ENV === 'development') {
-        console.warn('🔧 Development mode: generating temporary wallet despite error');
-        this.wallet = Keypair.generate();
-        this.isInitialized = true;
-        console.log('✅ Generated fallback temporary wallet:', this.wallet.publicKey.toString());
-      }
-    }
+    this.confirmations = new ConfirmationTracker(this.connection);
+    this.swapAdapter = swapAdapter || new JupiterSwapAdapter({ connection: this.connection });
   }
 
   public async executeTrade(request: TradeRequest): Promise<TradeResult> {
@@ -128,8 +95,8 @@ export class RealTimeTradeExecutor extends EventEmitter {
 
       result.processingTime = Date.now() - startTime;
 
-      // Emit trade completed event
-      this.emit('tradeCompleted', {
+      // Emit trade completed or failed event
+      this.emit(result.success ? 'tradeCompleted' : 'tradeFailed', {
         id: tradeId,
         ...result,
         timestamp: Date.now()
@@ -156,15 +123,6 @@ export class RealTimeTradeExecutor extends EventEmitter {
   }
 
   private async validateTradeRequest(request: TradeRequest): Promise<{ valid: boolean; reason?: string }> {
-    // Check if wallet is initialized (allow simulation in development)
-    if (!this.isInitialized || !this.wallet) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn('⚠️ Wallet not initialized - trade will be simulated');
-      } else {
-        return { valid: false, reason: 'Trading wallet not initialized' };
-      }
-    }
-
     // Check token address validity
     try {
       new PublicKey(request.tokenAddress);
@@ -182,19 +140,13 @@ export class RealTimeTradeExecutor extends EventEmitter {
       return { valid: false, reason: 'Slippage must be between 0-50%' };
     }
 
-    // Check wallet balance for buy orders (only if wallet is initialized)
+    // Check wallet balance for buy orders
     if (request.action === 'BUY') {
-      if (this.wallet) {
-        const balance = await this.connection.getBalance(this.wallet.publicKey);
-        const balanceInSol = balance / LAMPORTS_PER_SOL;
-        
-        if (balanceInSol < request.amount) {
-          return { valid: false, reason: 'Insufficient SOL balance' };
-        }
-      } else if (process.env.NODE_ENV !== 'development') {
-        return { valid: false, reason: 'Wallet not available for balance check' };
-      } else {
-        console.warn('⚠️ Skipping balance check in development mode (wallet not initialized)');
+      const balance = await this.connection.getBalance(this.signer.publicKey);
+      const balanceInSol = balance / LAMPORTS_PER_SOL;
+
+      if (balanceInSol < request.amount) {
+        return { valid: false, reason: 'Insufficient SOL balance' };
       }
     }
 
@@ -205,53 +157,39 @@ export class RealTimeTradeExecutor extends EventEmitter {
     console.log(`💰 Executing BUY order: ${request.amount} SOL -> ${request.tokenAddress}`);
 
     try {
-      // If wallet not initialized, simulate the trade
-      if (!this.wallet && process.env.NODE_ENV === 'development') {
-        console.log('🔄 Simulating buy order in development mode');
-        
-        const simulatedPrice = 0.00001 + Math.random() * 0.001; // Random price between $0.00001-$0.001
-        const expectedTokens = request.amount / simulatedPrice;
-        const simulatedSlippage = Math.random() * request.maxSlippage;
-        
-        return {
-          success: true,
-          txHash: `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          actualAmount: expectedTokens * (1 - simulatedSlippage / 100),
-          executionPrice: simulatedPrice,
-          fees: 0.0001, // Simulated fee
-          slippage: simulatedSlippage,
-          gasUsed: 5000 // Simulated gas
-        };
-      }
+      const solPrice = await this.getSolPrice();
 
-      // Get current token price from Jupiter
-      const jupiterPrice = await this.getTokenPrice(request.tokenAddress);
-      
-      // Calculate expected token amount
-      const expectedTokens = request.amount / jupiterPrice;
-      
       // Execute swap via Jupiter
-      const swapResult = await this.executeJupiterSwap({
-        inputMint: 'So11111111111111111111111111111111111111112', // SOL
+      const swapResult = await this.executeSwap({
+        inputMint: SOL_MINT,
         outputMint: request.tokenAddress,
-        amount: request.amount * LAMPORTS_PER_SOL,
-        slippageBps: request.maxSlippage * 100
+        amount: request.amount,
+        slippageBps: Math.round(request.maxSlippage * 100)
       });
 
-      if (swapResult.success) {
+      if (!swapResult.success) {
         return {
-          success: true,
+          success: false,
           txHash: swapResult.txHash,
-          actualAmount: (swapResult.outputAmount || 0) / LAMPORTS_PER_SOL,
-          executionPrice: jupiterPrice,
-          fees: swapResult.fee || 0,
-          slippage: swapResult.slippage || 0,
-          gasUsed: swapResult.gasUsed || 0
+          slot: swapResult.slot,
+          fees: swapResult.fee !== undefined ? swapResult.fee * solPrice : undefined,
+          solPrice,
+          error: swapResult.error || 'Swap failed'
         };
-      } else {
-        throw new Error(swapResult.error || 'Swap failed');
       }
 
+      return {
+        success: true,
+        txHash: swapResult.txHash,
+        slot: swapResult.slot,
+        actualAmount: swapResult.outputAmount || 0,
+        executionPrice: (swapResult.inputAmount! / swapResult.outputAmount!) * solPrice,
+        solPrice,
+        fees: (swapResult.fee || 0) * solPrice,
+        slippage: swapResult.slippage || 0,
+        gasUsed: swapResult.gasUsed || 0
+      };
+
     } catch (error) {
       console.error('❌ Buy order failed:', error);
       throw error;
@@ -262,25 +200,6 @@ export class RealTimeTradeExecutor extends EventEmitter {
     console.log(`💸 Executing SELL order: ${request.amount} tokens -> SOL`);
 
     try {
-      // If wallet not initialized, simulate the trade
-      if (!this.wallet && process.env.NODE_ENV === 'development') {
-        console.log('🔄 Simulating sell order in development mode');
-        
-        const simulatedPrice = 0.00001 + Math.random() * 0.001; // Random price between $0.00001-$0.001
-        const expectedSol = request.amount * simulatedPrice;
-        const simulatedSlippage = Math.random() * request.maxSlippage;
-        
-        return {
-          success: true,
-          txHash: `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          actualAmount: expectedSol * (1 - simulatedSlippage / 100),
-          executionPrice: simulatedPrice,
-          fees: 0.0001, // Simulated fee
-          slippage: simulatedSlippage,
-          gasUsed: 5000 // Simulated gas
-        };
-      }
-
       // Get token balance
       const tokenBalance = await this.getTokenBalance(request.tokenAddress);
       
@@ -288,38 +207,52 @@ export class RealTimeTradeExecutor extends EventEmitter {
         throw new Error('Insufficient token balance');
       }
 
-      // Get current token price
-      const jupiterPrice = await this.getTokenPrice(request.tokenAddress);
-      
+      const solPrice = await this.getSolPrice();
+
       // Execute swap via Jupiter
-      const swapResult = await this.executeJupiterSwap({
+      const swapResult = await this.executeSwap({
         inputMint: request.tokenAddress,
-        outputMint: 'So11111111111111111111111111111111111111112', // SOL
+        outputMint: SOL_MINT,
         amount: request.amount,
-        slippageBps: request.maxSlippage * 100
+        slippageBps: Math.round(request.maxSlippage * 100)
       });
 
-      if (swapResult.success) {
+      if (!swapResult.success) {
         return {
-          success: true,
+          success: false,
           txHash: swapResult.txHash,
-          actualAmount: (swapResult.outputAmount || 0) / LAMPORTS_PER_SOL,
-          executionPrice: jupiterPrice,
-          fees: swapResult.fee || 0,
-          slippage: swapResult.slippage || 0,
-          gasUsed: swapResult.gasUsed || 0
+          slot: swapResult.slot,
+          fees: swapResult.fee !== undefined ? swapResult.fee * solPrice : undefined,
+          solPrice,
+          error: swapResult.error || 'Swap failed'
         };
-      } else {
-        throw new Error(swapResult.error || 'Swap failed');
       }
 
+      return {
+        success: true,
+        txHash: swapResult.txHash,
+        slot: swapResult.slot,
+        actualAmount: swapResult.inputAmount || 0,
+        executionPrice: (swapResult.outputAmount! / swapResult.inputAmount!) * solPrice,
+        solPrice,
+        fees: (swapResult.fee || 0) * solPrice,
+        slippage: swapResult.slippage || 0,
+        gasUsed: swapResult.gasUsed || 0
+      };
+
     } catch (error) {
       console.error('❌ Sell order failed:', error);
       throw error;
     }
   }
 
-  private async executeJupiterSwap(params: {
+  /**
+   * Quote, sign and submit a swap. Amounts are in whole tokens of each mint,
+   * scaled to and from base units by the mint's decimals; the fee is the
+   * network fee the transaction paid, in SOL. A transaction that failed on
+   * chain or expired is returned unsuccessful with its signature.
+   */
+  private async executeSwap(params: {
     inputMint: string;
     outputMint: string;
     amount: number;
@@ -327,6 +260,8 @@ export class RealTimeTradeExecutor extends EventEmitter {
   }): Promise<{
     success: boolean;
     txHash?: string;
+    slot?: number;
+    inputAmount?: number;
     outputAmount?: number;
     fee?: number;
     slippage?: number;
@@ -334,54 +269,47 @@ export class RealTimeTradeExecutor extends EventEmitter {
     error?: string;
   }> {
     try {
-      // Get Jupiter quote
-      const quoteResponse = await fetch(
-        `https://quote-api.jup.ag/v6/quote?inputMint=${params.inputMint}&outputMint=${params.outputMint}&amount=${params.amount}&slippageBps=${params.slippageBps}`
-      );
-      
-      if (!quoteResponse.ok) {
-        throw new Error('Failed to get Jupiter quote');
-      }
-
-      const quoteData = await quoteResponse.json();
-
-      // Get swap transaction
-      const swapResponse = await fetch('https://quote-api.jup.ag/v6/swap', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          quoteResponse: quoteData,
-          userPublicKey: this.wallet!.publicKey.toString(),
-          wrapAndUnwrapSol: true,
-        }),
+      const [inputDecimals, outputDecimals] = await Promise.all([
+        this.getMintDecimals(params.inputMint),
+        this.getMintDecimals(params.outputMint),
+      ]);
+
+      const quote = await this.swapAdapter.quote({
+        inputMint: params.inputMint,
+        outputMint: params.outputMint,
+        amount: Math.floor(params.amount * 10 ** inputDecimals).toString(),
+        slippageBps: params.slippageBps
       });
 
-      if (!swapResponse.ok) {
-        throw new Error('Failed to get swap transaction');
-      }
-
-      const swapData = await swapResponse.json();
-      
-      // Deserialize and sign transaction
-      const transactionBuf = Buffer.from(swapData.swapTransaction, 'base64');
-      const transaction = Transaction.from(transactionBuf);
-      
-      transaction.sign(this.wallet!);
-
-      // Always use standard RPC transaction submission
-      const txHash = await this.connection.sendRawTransaction(transaction.serialize());
+      // Sign the swap and follow it on chain; an expired blockhash gets a
+      // fresh swap transaction from the same quote at a higher priority fee
+      const priorityFee = TRADING_CONFIG.PRIORITY_FEE;
+      const confirmation = await this.confirmations.send(
+        await this.buildSwap(quote, priorityFee),
+        {
+          priorityFeeMicroLamports: priorityFee,
+          rebuild: fee => this.buildSwap(quote, fee)
+        }
+      );
 
-      // Wait for confirmation
-      await this.connection.confirmTransaction(txHash, 'confirmed');
+      if (confirmation.status !== 'CONFIRMED') {
+        return {
+          success: false,
+          txHash: confirmation.signature,
+          slot: confirmation.slot ?? undefined,
+          fee: confirmation.fee ?? undefined,
+          error: `Transaction ${confirmation.status === 'FAILED' ? 'failed' : 'expired'}: ${confirmation.error}`
+        };
+      }
 
       return {
         success: true,
-        txHash,
-        outputAmount: parseInt(quoteData.outAmount),
-        fee: parseInt(quoteData.otherAmountThreshold) - parseInt(quoteData.outAmount),
-        slippage: (parseInt(quoteData.inAmount) - parseInt(quoteData.outAmount)) / parseInt(quoteData.inAmount) * 100,
+        txHash: confirmation.signature,
+        slot: confirmation.slot ?? undefined,
+        inputAmount: Number(quote.inAmount) / 10 ** inputDecimals,
+        outputAmount: Number(quote.outAmount) / 10 ** outputDecimals,
+        fee: confirmation.fee ?? 0,
+        slippage: quote.priceImpact * 100,
         gasUsed: 5000 // Estimated
       };
 
@@ -394,35 +322,49 @@ export class RealTimeTradeExecutor extends EventEmitter {
     }
   }
 
+  /**
+   * Build the swap transaction for a quote and sign it
+   */
+  private async buildSwap(quote: SwapQuote, priorityFee: number): Promise<SubmittableTransaction> {
+    const built = await this.swapAdapter.buildTransaction({
+      quote,
+      userPublicKey: this.signer.publicKey.toBase58(),
+      computeUnitPriceMicroLamports: priorityFee
+    });
+
+    await this.signer.signTransaction(built.transaction);
+    return { transaction: built.transaction, lastValidBlockHeight: built.lastValidBlockHeight };
+  }
+
+  private async getMintDecimals(mint: string): Promise<number> {
+    const cached = this.mintDecimals.get(mint);
+    if (cached !== undefined) return cached;
+
+    const supply = await this.connection.getTokenSupply(new PublicKey(mint));
+    this.mintDecimals.set(mint, supply.value.decimals);
+    return supply.value.decimals;
+  }
+
   // Removed Jito bundle sending implementation
 
-  private async getTokenPrice(tokenAddress: string): Promise<number> {
-    try {
-      const response = await fetch(
-        `https://price.jup.ag/v4/price?ids=${tokenAddress}`
-      );
-      const data = await response.json();
-      return data.data[tokenAddress]?.price || 0;
-    } catch (error) {
-      console.error('Failed to get token price:', error);
-      return 0;
+  /**
+   * SOL price in the quote currency, read before swapping so every fill can
+   * be priced from its executed quote
+   */
+  private async getSolPrice(): Promise<number> {
+    const solPrice = (await fetchTokenPrices([SOL_MINT]))[SOL_MINT];
+    if (!solPrice) {
+      throw new Error('No SOL price available');
     }
+    return solPrice;
   }
 
   private async getTokenBalance(tokenAddress: string): Promise<number> {
     try {
-      if (!this.wallet) {
-        if (process.env.NODE_ENV === 'development') {
-          // Return a simulated balance for development
-          return Math.random() * 1000; // Random balance between 0-1000 tokens
-        }
-        throw new Error('Wallet not initialized');
-      }
-
       const tokenMint = new PublicKey(tokenAddress);
       const tokenAccount = await getAssociatedTokenAddress(
         tokenMint,
-        this.wallet.publicKey
+        this.signer.publicKey
       );
       
       const balance = await this.connection.getTokenAccountBalance(tokenAccount);
@@ -434,10 +376,8 @@ export class RealTimeTradeExecutor extends EventEmitter {
   }
 
   public async getWalletBalance(): Promise<number> {
-    if (!this.wallet) return 0;
-    
     try {
-      const balance = await this.connection.getBalance(this.wallet.publicKey);
+      const balance = await this.connection.getBalance(this.signer.publicKey);
       return balance / LAMPORTS_PER_SOL;
     } catch (error) {
       console.error('Failed to get wallet balance:', error);
@@ -445,11 +385,7 @@ export class RealTimeTradeExecutor extends EventEmitter {
     }
   }
 
-  public isReady(): boolean {
-    return this.isInitialized && !!this.wallet;
-  }
-
-  public getWalletAddress(): string | null {
-    return this.wallet ? this.wallet.publicKey.toString() : null;
+  public getWalletAddress(): string {
+    return this.signer.publicKey.toString();
   }
 }
@@ -0,0 +1,271 @@
+import { tokenSafetyAnalyzer } from '@/lib/token-safety/analyzer';
+import { tokenBlacklist } from '@/lib/trading/blacklist';
+import { marketRegimeDetector } from '@/lib/trading/market-regime';
+import { RiskCheck } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const startOfUtcDay = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+export const drawdownCheck: RiskCheck = {
+  name: 'drawdown',
+  description: 'Block new entries while equity is too far below its peak',
+  weight: 0.15,
+  scope: 'portfolio',
+  entryOnly: true,
+  async run({ portfolio, parameters }) {
+    const drawdown = portfolio.equityMetrics.drawdown;
+    const passed = drawdown < parameters.maxDrawdown;
+
+    return {
+      passed,
+      score: Math.min(drawdown / parameters.maxDrawdown, 1),
+      reasons: passed ? [] : [`Portfolio drawdown ${percent(drawdown)} exceeds limit ${percent(parameters.maxDrawdown)}`],
+      data: { drawdown, maxDrawdown: portfolio.equityMetrics.maxDrawdown }
+    };
+  }
+};
+
+export const dailyLossCheck: RiskCheck = {
+  name: 'dailyLoss',
+  description: 'Stop entering trades once the daily loss limit is hit',
+  weight: 0.15,
+  scope: 'portfolio',
+  entryOnly: true,
+  async run({ portfolio, parameters }) {
+    const { dailyPnl } = portfolio.equityMetrics;
+    const openingEquity = portfolio.equity - dailyPnl;
+    const loss = openingEquity > 0 ? Math.max(-dailyPnl, 0) / openingEquity : 0;
+    const passed = loss < parameters.maxDailyLoss;
+
+    return {
+      passed,
+      score: Math.min(loss / parameters.maxDailyLoss, 1),
+      reasons: passed ? [] : [`Daily loss ${percent(loss)} exceeds limit ${percent(parameters.maxDailyLoss)}`],
+      data: { dailyPnl, loss }
+    };
+  }
+};
+
+export const openPositionsCheck: RiskCheck = {
+  name: 'openPositions',
+  description: 'Cap the number of simultaneously open positions',
+  weight: 0.1,
+  scope: 'portfolio',
+  entryOnly: true,
+  async run({ portfolio, parameters, request }) {
+    const count = portfolio.positions.length;
+    // Adding to a held token does not open a new position
+    const addsPosition = !portfolio.positions.some(position => position.tokenAddress === request.tokenAddress);
+    const passed = !addsPosition || count < parameters.maxOpenPositions;
+
+    return {
+      passed,
+      score: Math.min(count / parameters.maxOpenPositions, 1),
+      reasons: passed ? [] : [`Maximum open positions (${parameters.maxOpenPositions}) reached`],
+      data: { openPositions: count }
+    };
+  }
+};
+
+export const portfolioHeatCheck: RiskCheck = {
+  name: 'portfolioHeat',
+  description: 'Limit the share of equity deployed in open positions',
+  weight: 0.15,
+  scope: 'portfolio',
+  entryOnly: true,
+  async run({ portfolio, parameters, request }) {
+    const heat = portfolio.equity > 0 ? (portfolio.exposure + request.amount) / portfolio.equity : 1;
+    const passed = heat <= parameters.portfolioHeatThreshold;
+
+    return {
+      passed,
+      score: Math.min(heat / parameters.portfolioHeatThreshold, 1),
+      reasons: passed ? [] : [`Portfolio heat ${percent(heat)} would exceed ${percent(parameters.portfolioHeatThreshold)}`],
+      data: { heat }
+    };
+  }
+};
+
+export const positionSizeCheck: RiskCheck = {
+  name: 'positionSize',
+  description: 'Size trades to a share of equity; oversized trades are reduced, not rejected',
+  weight: 0.05,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ portfolio, parameters, request }) {
+    const share = portfolio.equity > 0 ? request.amount / portfolio.equity : 1;
+    const oversized = share > parameters.maxPositionSize;
+
+    return {
+      passed: true,
+      score: Math.min(share / parameters.maxPositionSize, 1),
+      reasons: oversized ? [`Position size ${percent(share)} of equity will be reduced to ${percent(parameters.maxPositionSize)}`] : [],
+      data: { share }
+    };
+  }
+};
+
+export const concentrationCheck: RiskCheck = {
+  name: 'concentration',
+  description: 'Limit exposure to any single token',
+  weight: 0.1,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ portfolio, parameters, request }) {
+    const held = portfolio.positions
+      .filter(position => position.tokenAddress === request.tokenAddress)
+      .reduce((sum, position) => sum + position.amount * (position.currentPrice ?? position.averagePrice), 0);
+    const concentration = portfolio.equity > 0 ? (held + request.amount) / portfolio.equity : 1;
+    const passed = concentration <= parameters.maxTokenConcentration;
+
+    return {
+      passed,
+      score: Math.min(concentration / parameters.maxTokenConcentration, 1),
+      reasons: passed ? [] : [`Token exposure ${percent(concentration)} would exceed ${percent(parameters.maxTokenConcentration)}`],
+      data: { concentration }
+    };
+  }
+};
+
+export const tokenSafetyCheck: RiskCheck = {
+  name: 'tokenSafety',
+  description: 'On-chain token safety: authorities, holder concentration, dev share, LP and buyers',
+  weight: 0.15,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ request }) {
+    const thresholds = await tokenSafetyAnalyzer.getUserThresholds(request.userId);
+    const safety = await tokenSafetyAnalyzer.assess(request.tokenAddress, thresholds);
+    if (safety.rugPatterns.length > 0) {
+      await tokenBlacklist.blacklistRug(safety.report, safety.rugPatterns);
+    }
+
+    return {
+      passed: safety.safe,
+      score: safety.riskScore,
+      reasons: safety.reasons,
+      data: {
+        liquidityUsd: safety.report.liquidity?.liquidityUsd ?? null,
+        devWalletShare: safety.report.devWalletShare,
+        topHolderShare: safety.report.topHolderShare
+      }
+    };
+  }
+};
+
+export const tradeFrequencyCheck: RiskCheck = {
+  name: 'tradeFrequency',
+  description: 'Flag repeated trading of the same token within a day',
+  weight: 0.05,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ prisma, parameters, request }) {
+    const recentTrades = await prisma.trade.count({
+      where: {
+        userId: request.userId,
+        tokenAddress: request.tokenAddress,
+        createdAt: { gte: new Date(Date.now() - DAY_MS) }
+      }
+    });
+    const excessive = recentTrades >= parameters.maxTradesPerTokenPerDay;
+
+    return {
+      passed: true,
+      score: Math.min(recentTrades / parameters.maxTradesPerTokenPerDay, 1),
+      reasons: excessive ? [`${recentTrades} trades in this token in the last 24h`] : [],
+      data: { recentTrades }
+    };
+  }
+};
+
+export const dailyTradeLimitCheck: RiskCheck = {
+  name: 'dailyTradeLimit',
+  description: 'Cap the number of trades per UTC day',
+  weight: 0.05,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ prisma, parameters, request }) {
+    const todayTrades = await prisma.trade.count({
+      where: { userId: request.userId, createdAt: { gte: startOfUtcDay() } }
+    });
+    const passed = todayTrades < parameters.maxDailyTrades;
+
+    return {
+      passed,
+      score: Math.min(todayTrades / parameters.maxDailyTrades, 1),
+      reasons: passed ? [] : [`Daily trade limit (${parameters.maxDailyTrades}) reached`],
+      data: { todayTrades }
+    };
+  }
+};
+
+export const signalConfidenceCheck: RiskCheck = {
+  name: 'signalConfidence',
+  description: 'Require a minimum signal confidence',
+  weight: 0.05,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ parameters, request }) {
+    const { confidence } = request.signal;
+    const passed = confidence >= parameters.minConfidence;
+
+    return {
+      passed,
+      score: 1 - Math.min(Math.max(confidence, 0), 1),
+      reasons: passed ? [] : [`Signal confidence ${percent(confidence)} below minimum ${percent(parameters.minConfidence)}`],
+      data: { confidence }
+    };
+  }
+};
+
+export const marketRegimeCheck: RiskCheck = {
+  name: 'marketRegime',
+  description: 'Halt entries in maintenance and scale or halt them when the market is risk-off',
+  weight: 0.05,
+  scope: 'trade',
+  entryOnly: true,
+  async run({ parameters }) {
+    const regime = await marketRegimeDetector.getCurrentRegime();
+
+    if (!regime) {
+      return { passed: true, score: 0.3, reasons: ['Market regime unknown'], data: { regime } };
+    }
+    if (regime === 'GREENLIGHT' || !parameters.marketRegimeAdjustment) {
+      return { passed: true, score: regime === 'GREENLIGHT' ? 0 : 0.7, reasons: [], data: { regime } };
+    }
+    if (regime === 'MAINTENANCE') {
+      return { passed: false, score: 1, reasons: ['Market regime MAINTENANCE: entries halted'], data: { regime } };
+    }
+
+    const multiplier = parameters.riskOffSizeMultiplier;
+    return {
+      passed: multiplier > 0,
+      score: 0.7,
+      sizeMultiplier: multiplier,
+      reasons: [multiplier > 0
+        ? `Market regime RISK_OFF: size scaled to ${percent(multiplier)}`
+        : 'Market regime RISK_OFF: entries halted'],
+      data: { regime }
+    };
+  }
+};
+
+export const BUILT_IN_RISK_CHECKS: RiskCheck[] = [
+  drawdownCheck,
+  dailyLossCheck,
+  openPositionsCheck,
+  portfolioHeatCheck,
+  positionSizeCheck,
+  concentrationCheck,
+  tokenSafetyCheck,
+  tradeFrequencyCheck,
+  dailyTradeLimitCheck,
+  signalConfidenceCheck,
+  marketRegimeCheck
+];
@@ -0,0 +1,326 @@
+import { prisma } from '@/lib/prisma';
+import { jobQueue } from '@/lib/queue/job-queue';
+import type { NotificationJob } from '@/lib/queue/processors';
+import { describeBlacklistEntry, tokenBlacklist } from '@/lib/trading/blacklist';
+import { computeEquityMetrics, equitySnapshots } from '@/lib/trading/equity-snapshots';
+import { BUILT_IN_RISK_CHECKS } from './checks';
+import { getRiskProfile } from './profiles';
+import { describeRuleResult, evaluateRiskRule } from './rules';
+import {
+  PortfolioHealth,
+  PortfolioState,
+  RiskCheck,
+  RiskCheckContext,
+  RiskCheckResult,
+  RiskDecision,
+  RiskEngineOptions,
+  RiskParameters,
+  RiskProfileName,
+  RiskRuleResult,
+  TradeRiskRequest,
+} from './types';
+
+const DUST = 1e-9;
+const DEFAULT_STARTING_EQUITY = 5000; // Portfolio.startingEquity default, used before the first fill
+const MIN_SIZE_ADJUSTMENT = 0.1;
+
+/**
+ * The single pre-trade risk gate. Every check is a `RiskCheck`; a profile
+ * supplies the limits and which checks run, and callers may override either.
+ * A trade is approved when the token is not blacklisted, every enabled check
+ * passes, no blocking user rule fires and the weighted composite score stays
+ * below the profile's approval threshold.
+ */
+export class RiskEngine {
+  private prisma = prisma;
+  private checks = new Map<string, RiskCheck>();
+
+  constructor(checks: RiskCheck[] = BUILT_IN_RISK_CHECKS) {
+    checks.forEach(check => this.register(check));
+  }
+
+  register(check: RiskCheck): void {
+    this.checks.set(check.name, check);
+  }
+
+  listChecks(): RiskCheck[] {
+    return Array.from(this.checks.values());
+  }
+
+  /**
+   * Profile, effective limits and enabled checks for a set of options
+   */
+  resolve(options: RiskEngineOptions = {}): { profile: RiskProfileName; parameters: RiskParameters; checks: RiskCheck[] } {
+    const profile = getRiskProfile(options.profile);
+    const enabled = { ...profile.checks, ...options.checks };
+
+    return {
+      profile: profile.name,
+      parameters: { ...profile.parameters, ...options.parameters },
+      checks: this.listChecks().filter(check => enabled[check.name] !== false)
+    };
+  }
+
+  async assessTrade(request: TradeRiskRequest, options: RiskEngineOptions = {}): Promise<RiskDecision> {
+    const { profile, parameters, checks } = this.resolve(options);
+    const applicable = checks.filter(check => request.side === 'BUY' || !check.entryOnly);
+
+    const portfolio = await this.loadPortfolio(request.userId, request.tradingMode);
+    const context: RiskCheckContext = { request, parameters, portfolio, prisma: this.prisma };
+    const results = await this.runChecks(applicable, context);
+    const riskScore = this.compositeScore(applicable, results);
+
+    const reasons = results.filter(result => !result.passed).flatMap(result => result.reasons);
+    const warnings = results.filter(result => result.passed).flatMap(result => result.reasons);
+
+    // Blacklisted tokens can still be exited, never entered; no profile can disable this
+    if (request.side === 'BUY') {
+      const blacklisted = await tokenBlacklist.check(request.tokenAddress, { userId: request.userId });
+      if (blacklisted) {
+        reasons.unshift(describeBlacklistEntry(blacklisted));
+      }
+    }
+
+    // User rules only guard entries, like the entry-only checks
+    const rules = request.side === 'BUY' ? await this.evaluateRules(request.userId, context) : [];
+    let sizeMultiplier = results.reduce((product, result) => product * (result.sizeMultiplier ?? 1), 1);
+    for (const rule of rules.filter(result => result.triggered)) {
+      const message = describeRuleResult(rule);
+      if (rule.action === 'BLOCK') {
+        reasons.push(message);
+      } else if (rule.action === 'REDUCE_SIZE') {
+        sizeMultiplier *= 1 - rule.sizeReduction;
+        warnings.push(`${message}; size reduced by ${(rule.sizeReduction * 100).toFixed(0)}%`);
+      } else {
+        warnings.push(message);
+      }
+    }
+
+    if (reasons.length === 0 && applicable.length > 0 && riskScore >= parameters.approvalThreshold) {
+      reasons.push(`Risk score ${riskScore.toFixed(2)} exceeds ${parameters.approvalThreshold}`);
+    }
+    const approved = reasons.length === 0;
+
+    let adjustedPositionSize = request.amount;
+    if (request.side === 'BUY') {
+      const cap = portfolio.equity * parameters.maxPositionSize;
+      const sized = cap > 0 ? Math.min(request.amount, cap) : request.amount;
+      adjustedPositionSize = approved ? sized * Math.max(MIN_SIZE_ADJUSTMENT, 1 - riskScore) * sizeMultiplier : 0;
+    }
+
+    await this.recordRuleTriggers(request, rules);
+
+    return {
+      approved,
+      riskScore,
+      profile,
+      adjustedPositionSize,
+      recommendedStopLoss: request.price * (1 - parameters.stopLoss),
+      recommendedTakeProfit: parameters.takeProfitLevels.map(level => request.price * (1 + level)),
+      checks: results,
+      rules,
+      reasons,
+      warnings,
+      recommendations: this.generateRecommendations(riskScore, approved, warnings)
+    };
+  }
+
+  /**
+   * Portfolio-scoped checks run without a trade. Any failing check makes the
+   * portfolio EXTREME risk.
+   */
+  async assessPortfolioHealth(userId: string, options: RiskEngineOptions = {}): Promise<PortfolioHealth> {
+    const { parameters, checks } = this.resolve(options);
+    const portfolioChecks = checks.filter(check => check.scope === 'portfolio');
+
+    const portfolio = await this.loadPortfolio(userId);
+    const request: TradeRiskRequest = {
+      userId,
+      tokenAddress: '',
+      side: 'BUY',
+      amount: 0,
+      price: 0,
+      signal: { confidence: 1, source: 'PORTFOLIO_HEALTH' }
+    };
+
+    const results = await this.runChecks(portfolioChecks, { request, parameters, portfolio, prisma: this.prisma });
+    const score = this.compositeScore(portfolioChecks, results);
+
+    const largestPosition = portfolio.positions.reduce(
+      (max, position) => Math.max(max, position.amount * (position.currentPrice ?? position.averagePrice)),
+      0
+    );
+
+    let riskLevel: PortfolioHealth['riskLevel'] = 'LOW';
+    if (results.some(result => !result.passed)) riskLevel = 'EXTREME';
+    else if (score >= 0.5) riskLevel = 'HIGH';
+    else if (score >= 0.25) riskLevel = 'MEDIUM';
+
+    const recommendations = results.flatMap(result => result.reasons);
+    if (recommendations.length === 0) {
+      recommendations.push('Portfolio is within all risk limits');
+    }
+
+    return {
+      totalValue: portfolio.equity,
+      dailyPnL: portfolio.equityMetrics.dailyPnl,
+      drawdown: portfolio.equityMetrics.drawdown,
+      openPositions: portfolio.positions.length,
+      exposure: portfolio.exposure,
+      concentrationRisk: portfolio.equity > 0 ? largestPosition / portfolio.equity : 0,
+      overallHealthScore: Math.round((1 - score) * 100),
+      riskLevel,
+      checks: results,
+      recommendations
+    };
+  }
+
+  /**
+   * Every rule the user has, enabled or not, measured against the portfolio
+   * as it stands. Nothing is recorded.
+   */
+  async measureRules(userId: string): Promise<RiskRuleResult[]> {
+    const [rules, portfolio] = await Promise.all([
+      this.prisma.riskRule.findMany({ where: { userId } }),
+      this.loadPortfolio(userId)
+    ]);
+    const { parameters } = this.resolve();
+    const request: TradeRiskRequest = {
+      userId,
+      tokenAddress: '',
+      side: 'BUY',
+      amount: 0,
+      price: 0,
+      signal: { confidence: 1, source: 'RISK_RULES' }
+    };
+
+    return Promise.all(rules.map(rule => evaluateRiskRule(rule, { request, parameters, portfolio, prisma: this.prisma })));
+  }
+
+  private async evaluateRules(userId: string, context: RiskCheckContext): Promise<RiskRuleResult[]> {
+    const rules = await this.prisma.riskRule.findMany({ where: { userId, enabled: true } });
+    return Promise.all(rules.map(rule => evaluateRiskRule(rule, context)));
+  }
+
+  /**
+   * Count rule fires and queue alerts. Best effort; never fails the assessment.
+   */
+  private async recordRuleTriggers(request: TradeRiskRequest, rules: RiskRuleResult[]): Promise<void> {
+    const triggered = rules.filter(rule => rule.triggered);
+    if (triggered.length === 0) return;
+
+    const now = new Date();
+    try {
+      await Promise.all(triggered.map(rule => this.prisma.riskRule.update({
+        where: { id: rule.id },
+        data: {
+          triggerCount: { increment: 1 },
+          lastTriggeredAt: now,
+          ...(rule.action === 'BLOCK' && { lastBlockedAt: now })
+        }
+      })));
+    } catch (error) {
+      console.error('Failed to record risk rule triggers:', error);
+    }
+
+    for (const rule of triggered.filter(result => result.action === 'ALERT')) {
+      const notification: NotificationJob = {
+        level: 'WARN',
+        title: 'Risk rule triggered',
+        message: `${describeRuleResult(rule)} (BUY ${request.tokenAddress})`,
+        metadata: { ruleId: rule.id, type: rule.type, value: rule.value, threshold: rule.threshold }
+      };
+      try {
+        await jobQueue.enqueue('notifications', notification, { userId: request.userId });
+      } catch (error) {
+        console.error('Failed to queue risk rule alert:', error);
+      }
+    }
+  }
+
+  private async loadPortfolio(userId: string, tradingMode?: TradeRiskRequest['tradingMode']): Promise<PortfolioState> {
+    const portfolio = await this.prisma.portfolio.findFirst({
+      where: { userId, isActive: true, ...(tradingMode && { tradingMode }) },
+      orderBy: { createdAt: 'asc' },
+      include: { positions: { where: { amount: { gt: DUST } } } }
+    });
+
+    if (!portfolio) {
+      return {
+        portfolioId: null,
+        equity: DEFAULT_STARTING_EQUITY,
+        equityMetrics: computeEquityMetrics([]),
+        positions: [],
+        exposure: 0
+      };
+    }
+
+    let exposure = 0;
+    let unrealizedPnl = 0;
+    for (const position of portfolio.positions) {
+      const price = position.currentPrice ?? position.averagePrice;
+      exposure += position.amount * price;
+      unrealizedPnl += (price - position.averagePrice) * position.amount;
+    }
+
+    return {
+      portfolioId: portfolio.id,
+      equity: portfolio.currentEquity + unrealizedPnl,
+      equityMetrics: await equitySnapshots.getMetrics(portfolio.id),
+      positions: portfolio.positions,
+      exposure
+    };
+  }
+
+  /**
+   * Checks that throw fail closed
+   */
+  private runChecks(checks: RiskCheck[], context: RiskCheckContext): Promise<RiskCheckResult[]> {
+    return Promise.all(checks.map(async check => {
+      try {
+        return { name: check.name, ...(await check.run(context)) };
+      } catch (error) {
+        console.error(`Risk check ${check.name} failed:`, error);
+        return { name: check.name, passed: false, score: 1, reasons: [`${check.name} check unavailable`] };
+      }
+    }));
+  }
+
+  private compositeScore(checks: RiskCheck[], results: RiskCheckResult[]): number {
+    const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+    if (totalWeight <= 0) return 0;
+
+    const weighted = results.reduce((sum, result, index) => sum + result.score * checks[index].weight, 0);
+    return Math.min(weighted / totalWeight, 1);
+  }
+
+  private generateRecommendations(riskScore: number, approved: boolean, warnings: string[]): string[] {
+    const recommendations: string[] = [];
+
+    if (!approved || riskScore > 0.8) {
+      recommendations.push('Consider skipping this trade');
+      recommendations.push('Wait for better market conditions');
+    } else if (riskScore > 0.6) {
+      recommendations.push('Reduce position size');
+      recommendations.push('Set tight stop-loss');
+      recommendations.push('Monitor position closely');
+    } else {
+      recommendations.push('Normal position management');
+      recommendations.push('Follow standard risk protocols');
+    }
+
+    if (warnings.length > 2) {
+      recommendations.push('Consider manual review');
+    }
+
+    return recommendations;
+  }
+}
+
+const globalForRiskEngine = globalThis as unknown as {
+  riskEngine: RiskEngine | undefined
+};
+
+export const riskEngine = globalForRiskEngine.riskEngine ?? new RiskEngine();
+
+globalForRiskEngine.riskEngine = riskEngine;
@@ -0,0 +1,83 @@
+import { RiskProfile, RiskProfileName } from './types';
+
+export const DEFAULT_RISK_PROFILE: RiskProfileName = 'MODERATE';
+
+/**
+ * Presets over the risk checks: limits for each check and which checks run
+ */
+export const RISK_PROFILES: Record<RiskProfileName, RiskProfile> = {
+  CONSERVATIVE: {
+    name: 'CONSERVATIVE',
+    description: 'Low risk, capital preservation focused',
+    recommendedFor: ['Beginners', 'Small accounts', 'Risk-averse traders'],
+    parameters: {
+      maxDrawdown: 0.15,
+      maxDailyLoss: 0.05,
+      maxOpenPositions: 3,
+      maxPositionSize: 0.08,
+      maxTokenConcentration: 0.15,
+      portfolioHeatThreshold: 0.6,
+      maxTradesPerTokenPerDay: 3,
+      maxDailyTrades: 20,
+      minConfidence: 0.7,
+      approvalThreshold: 0.6,
+      stopLoss: 0.05,
+      takeProfitLevels: [0.02, 0.05, 0.08],
+      marketRegimeAdjustment: true,
+      riskOffSizeMultiplier: 0
+    },
+    checks: {}
+  },
+
+  MODERATE: {
+    name: 'MODERATE',
+    description: 'Balanced risk-reward approach',
+    recommendedFor: ['Intermediate traders', 'Medium accounts', 'Balanced approach'],
+    parameters: {
+      maxDrawdown: 0.25,
+      maxDailyLoss: 0.08,
+      maxOpenPositions: 5,
+      maxPositionSize: 0.15,
+      maxTokenConcentration: 0.25,
+      portfolioHeatThreshold: 0.7,
+      maxTradesPerTokenPerDay: 5,
+      maxDailyTrades: 50,
+      minConfidence: 0.6,
+      approvalThreshold: 0.7,
+      stopLoss: 0.08,
+      takeProfitLevels: [0.03, 0.07, 0.12],
+      marketRegimeAdjustment: true,
+      riskOffSizeMultiplier: 0.5
+    },
+    checks: {}
+  },
+
+  AGGRESSIVE: {
+    name: 'AGGRESSIVE',
+    description: 'High risk, high reward potential',
+    recommendedFor: ['Experienced traders', 'Large accounts', 'High risk tolerance'],
+    parameters: {
+      maxDrawdown: 0.40,
+      maxDailyLoss: 0.15,
+      maxOpenPositions: 8,
+      maxPositionSize: 0.25,
+      maxTokenConcentration: 0.35,
+      portfolioHeatThreshold: 0.8,
+      maxTradesPerTokenPerDay: 10,
+      maxDailyTrades: 100,
+      minConfidence: 0.5,
+      approvalThreshold: 0.8,
+      stopLoss: 0.12,
+      takeProfitLevels: [0.05, 0.12, 0.20],
+      marketRegimeAdjustment: true,
+      riskOffSizeMultiplier: 0.75
+    },
+    checks: {
+      tradeFrequency: false
+    }
+  }
+};
+
+export function getRiskProfile(name?: string | null): RiskProfile {
+  return RISK_PROFILES[name as RiskProfileName] ?? RISK_PROFILES[DEFAULT_RISK_PROFILE];
+}
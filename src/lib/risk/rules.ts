@@ -0,0 +1,184 @@
+import type { RiskRule, RiskRuleType } from '@prisma/client';
+import { z } from 'zod';
+import type { RiskCheckContext, RiskRuleResult } from './types';
+
+const CONSECUTIVE_LOSS_LOOKBACK = 50;
+
+interface RiskRuleMetric {
+  label: string;
+  unit: 'percent' | 'count';
+  // Rules fire when the value exceeds the threshold, or reaches it when inclusive
+  inclusive: boolean;
+  measure(context: RiskCheckContext): Promise<number>;
+}
+
+const startOfUtcDay = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const shareOfEquity = (value: number, equity: number) => (equity > 0 ? (value / equity) * 100 : 100);
+
+const largestHolding = ({ portfolio }: RiskCheckContext) =>
+  portfolio.positions.reduce(
+    (max, position) => Math.max(max, position.amount * (position.currentPrice ?? position.averagePrice)),
+    0
+  );
+
+/**
+ * How each rule type is measured. Values include the trade under assessment;
+ * with no trade (amount 0) they describe the portfolio as it stands.
+ */
+export const RISK_RULE_METRICS: Record<RiskRuleType, RiskRuleMetric> = {
+  DAILY_LOSS: {
+    label: 'Daily loss',
+    unit: 'percent',
+    inclusive: false,
+    async measure({ portfolio }) {
+      const { dailyPnl } = portfolio.equityMetrics;
+      return shareOfEquity(Math.max(-dailyPnl, 0), portfolio.equity - dailyPnl);
+    }
+  },
+  DRAWDOWN: {
+    label: 'Drawdown',
+    unit: 'percent',
+    inclusive: false,
+    async measure({ portfolio }) {
+      return portfolio.equityMetrics.drawdown * 100;
+    }
+  },
+  TOTAL_EXPOSURE: {
+    label: 'Total exposure',
+    unit: 'percent',
+    inclusive: false,
+    async measure({ portfolio, request }) {
+      return shareOfEquity(portfolio.exposure + request.amount, portfolio.equity);
+    }
+  },
+  POSITION_SIZE: {
+    label: 'Position size',
+    unit: 'percent',
+    inclusive: false,
+    async measure(context) {
+      const { portfolio, request } = context;
+      return shareOfEquity(request.amount > 0 ? request.amount : largestHolding(context), portfolio.equity);
+    }
+  },
+  TOKEN_CONCENTRATION: {
+    label: 'Token concentration',
+    unit: 'percent',
+    inclusive: false,
+    async measure(context) {
+      const { portfolio, request } = context;
+      if (request.amount <= 0) {
+        return shareOfEquity(largestHolding(context), portfolio.equity);
+      }
+
+      const held = portfolio.positions
+        .filter(position => position.tokenAddress === request.tokenAddress)
+        .reduce((sum, position) => sum + position.amount * (position.currentPrice ?? position.averagePrice), 0);
+      return shareOfEquity(held + request.amount, portfolio.equity);
+    }
+  },
+  OPEN_POSITIONS: {
+    label: 'Open positions',
+    unit: 'count',
+    inclusive: false,
+    async measure({ portfolio, request }) {
+      const opensPosition = request.amount > 0
+        && !portfolio.positions.some(position => position.tokenAddress === request.tokenAddress);
+      return portfolio.positions.length + (opensPosition ? 1 : 0);
+    }
+  },
+  CONSECUTIVE_LOSSES: {
+    label: 'Consecutive losses',
+    unit: 'count',
+    inclusive: true,
+    async measure({ prisma, request }) {
+      const exits = await prisma.trade.findMany({
+        where: { userId: request.userId, type: 'SELL', status: 'EXECUTED' },
+        orderBy: { createdAt: 'desc' },
+        take: CONSECUTIVE_LOSS_LOOKBACK,
+        select: { pnl: true }
+      });
+
+      const streak = exits.findIndex(trade => trade.pnl >= 0);
+      return streak === -1 ? exits.length : streak;
+    }
+  },
+  DAILY_TRADES: {
+    label: 'Trades today',
+    unit: 'count',
+    inclusive: false,
+    async measure({ prisma, request }) {
+      const todayTrades = await prisma.trade.count({
+        where: { userId: request.userId, createdAt: { gte: startOfUtcDay() } }
+      });
+      return todayTrades + (request.amount > 0 ? 1 : 0);
+    }
+  }
+};
+
+export const RISK_RULE_TYPES = Object.keys(RISK_RULE_METRICS) as RiskRuleType[];
+
+export const riskRuleInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  type: z.enum(RISK_RULE_TYPES as [RiskRuleType, ...RiskRuleType[]]),
+  threshold: z.number().nonnegative(),
+  action: z.enum(['BLOCK', 'REDUCE_SIZE', 'ALERT']).optional(),
+  sizeReduction: z.number().gt(0).lt(1).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type RiskRuleInput = z.infer<typeof riskRuleInputSchema>;
+
+/**
+ * Starting rule set offered to users without rules of their own
+ */
+export const DEFAULT_RISK_RULES: RiskRuleInput[] = [
+  { name: 'Daily Loss Limit', description: 'Maximum daily loss percentage', type: 'DAILY_LOSS', threshold: 5, action: 'BLOCK' },
+  { name: 'Position Size Limit', description: 'Maximum position size as % of portfolio', type: 'POSITION_SIZE', threshold: 10, action: 'REDUCE_SIZE' },
+  { name: 'Total Exposure Limit', description: 'Maximum total exposure percentage', type: 'TOTAL_EXPOSURE', threshold: 80, action: 'BLOCK' },
+  { name: 'Consecutive Losses', description: 'Maximum consecutive losing trades', type: 'CONSECUTIVE_LOSSES', threshold: 5, action: 'BLOCK' },
+  { name: 'Drawdown Limit', description: 'Maximum portfolio drawdown percentage', type: 'DRAWDOWN', threshold: 15, action: 'BLOCK' },
+];
+
+export function formatRuleValue(type: RiskRuleType, value: number): string {
+  return RISK_RULE_METRICS[type].unit === 'percent' ? `${value.toFixed(1)}%` : String(Math.round(value));
+}
+
+export function describeRuleResult(result: RiskRuleResult): string {
+  if (result.error) {
+    return `${result.name}: rule could not be evaluated`;
+  }
+
+  const metric = RISK_RULE_METRICS[result.type];
+  const comparison = metric.inclusive ? 'reached' : 'exceeds';
+  return `${result.name}: ${metric.label.toLowerCase()} ${formatRuleValue(result.type, result.value)} ${comparison} limit ${formatRuleValue(result.type, result.threshold)}`;
+}
+
+/**
+ * Measure one rule. Rules that cannot be measured count as triggered so a
+ * blocking rule fails closed.
+ */
+export async function evaluateRiskRule(rule: RiskRule, context: RiskCheckContext): Promise<RiskRuleResult> {
+  const base = {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    action: rule.action,
+    threshold: rule.threshold,
+    sizeReduction: rule.sizeReduction
+  };
+
+  try {
+    const metric = RISK_RULE_METRICS[rule.type];
+    const value = await metric.measure(context);
+    const triggered = metric.inclusive ? value >= rule.threshold : value > rule.threshold;
+    return { ...base, value, triggered };
+  } catch (error) {
+    console.error(`Risk rule ${rule.id} failed:`, error);
+    return { ...base, value: 0, triggered: true, error: error instanceof Error ? error.message : String(error) };
+  }
+}
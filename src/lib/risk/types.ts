@@ -0,0 +1,140 @@
+import type { Position, PrismaClient, RiskRuleAction, RiskRuleType, TradingMode } from '@prisma/client';
+import type { EquityMetrics } from '@/lib/trading/equity-snapshots';
+
+export type RiskProfileName = 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE';
+
+/**
+ * Limits shared by every check. Fractions unless noted.
+ */
+export interface RiskParameters {
+  maxDrawdown: number;             // Below the equity peak
+  maxDailyLoss: number;            // Of the day's opening equity
+  maxOpenPositions: number;
+  maxPositionSize: number;         // Of equity, per trade
+  maxTokenConcentration: number;   // Of equity, per token after the trade
+  portfolioHeatThreshold: number;  // Of equity deployed in open positions
+  maxTradesPerTokenPerDay: number;
+  maxDailyTrades: number;
+  minConfidence: number;           // Signal confidence, 0-1
+  approvalThreshold: number;       // Composite score at which trades are rejected
+  stopLoss: number;                // Distance below entry
+  takeProfitLevels: [number, number, number]; // Distances above entry
+  marketRegimeAdjustment: boolean; // Scale or halt entries outside GREENLIGHT
+  riskOffSizeMultiplier: number;   // Entry size in RISK_OFF; 0 halts entries
+}
+
+export interface RiskProfile {
+  name: RiskProfileName;
+  description: string;
+  recommendedFor: string[];
+  parameters: RiskParameters;
+  // Check name -> enabled; checks missing from the map run
+  checks: Record<string, boolean>;
+}
+
+export interface TradeRiskRequest {
+  userId: string;
+  tokenAddress: string;
+  side: 'BUY' | 'SELL';
+  amount: number; // Quote currency
+  price: number;
+  tradingMode?: TradingMode;
+  signal: {
+    confidence: number;
+    source: string;
+    type?: string;
+    metadata?: unknown;
+  };
+}
+
+export interface RiskEngineOptions {
+  profile?: RiskProfileName;
+  parameters?: Partial<RiskParameters>;
+  checks?: Record<string, boolean>;
+}
+
+/**
+ * Portfolio state loaded once per assessment and shared by all checks
+ */
+export interface PortfolioState {
+  portfolioId: string | null;
+  equity: number;
+  equityMetrics: EquityMetrics;
+  positions: Position[]; // Open positions only
+  exposure: number;      // Marked-to-market value of open positions
+}
+
+export interface RiskCheckContext {
+  request: TradeRiskRequest;
+  parameters: RiskParameters;
+  portfolio: PortfolioState;
+  prisma: PrismaClient;
+}
+
+export interface RiskCheckOutcome {
+  passed: boolean;   // False blocks the trade
+  score: number;     // 0-1, higher is riskier
+  sizeMultiplier?: number; // Scales the approved size, e.g. in a weak market
+  reasons: string[];
+  data?: Record<string, unknown>;
+}
+
+export interface RiskCheckResult extends RiskCheckOutcome {
+  name: string;
+}
+
+/**
+ * A single pre-trade rule. Portfolio-scoped checks only look at the
+ * portfolio and also feed the portfolio health assessment; entry-only checks
+ * are skipped for sells so exits are never blocked.
+ */
+export interface RiskCheck {
+  name: string;
+  description: string;
+  weight: number; // Share of the composite score
+  scope: 'portfolio' | 'trade';
+  entryOnly: boolean;
+  run(context: RiskCheckContext): Promise<RiskCheckOutcome>;
+}
+
+/**
+ * A user's stored risk rule measured against a trade or the current portfolio
+ */
+export interface RiskRuleResult {
+  id: string;
+  name: string;
+  type: RiskRuleType;
+  action: RiskRuleAction;
+  threshold: number;
+  sizeReduction: number;
+  value: number;
+  triggered: boolean;
+  error?: string;
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  riskScore: number; // Weighted composite of check scores, 0-1
+  profile: RiskProfileName;
+  adjustedPositionSize: number;
+  recommendedStopLoss: number;
+  recommendedTakeProfit: number[];
+  checks: RiskCheckResult[];
+  rules: RiskRuleResult[];
+  reasons: string[];  // Why the trade was rejected
+  warnings: string[]; // Notes from checks that passed
+  recommendations: string[];
+}
+
+export interface PortfolioHealth {
+  totalValue: number;
+  dailyPnL: number;
+  drawdown: number;
+  openPositions: number;
+  exposure: number;
+  concentrationRisk: number; // Largest position as a fraction of equity
+  overallHealthScore: number; // 0-100
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'EXTREME';
+  checks: RiskCheckResult[];
+  recommendations: string[];
+}
@@ -0,0 +1,402 @@
+import { DisabledSignalSource, Prisma, SignalOutcome, SignalSource, TradingMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { fetchTokenPrices } from '@/lib/trading/token-prices';
+
+const DUST = 1e-9;
+const CACHE_TTL_MS = 30 * 1000;
+const PEAK_TRACKING_MS = 24 * 60 * 60 * 1000;
+const PEAK_INTERVAL_MS = Number(process.env.SIGNAL_PEAK_INTERVAL_MS || 5 * 60 * 1000);
+const AUTO_DISABLE_MIN_TRADES = Number(process.env.SOURCE_AUTO_DISABLE_MIN_TRADES || 10);
+
+// An entry whose token never rose this far above the entry price was a false call
+const FALSE_POSITIVE_MIN_GAIN = 0.05;
+
+export const SOURCE_STATS_WINDOWS = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+} as const;
+
+export type SourceStatsWindow = keyof typeof SOURCE_STATS_WINDOWS;
+
+// Window the bot judges sources on before disabling them
+export const AUTO_DISABLE_WINDOW: SourceStatsWindow = '7d';
+
+/**
+ * Performance of the signals from one source, or one caller, over a window
+ */
+export interface PerformanceStats {
+  signals: number;
+  passed: number;                   // Signals that passed filters
+  entries: number;                  // Entries taken on them
+  closed: number;
+  wins: number;
+  winRate: number | null;           // Wins over closed entries
+  avgReturn: number | null;         // Mean realized return of closed entries, as a fraction
+  avgTimeToPeakMs: number | null;   // Entry to highest price, for entries that rose at all
+  falsePositiveRate: number | null; // Settled entries that never gained FALSE_POSITIVE_MIN_GAIN
+  avgLatencyMs: number | null;      // Call at the source to entry fill
+}
+
+export interface CallerStats extends PerformanceStats {
+  caller: string;
+}
+
+export interface SourceStats extends PerformanceStats {
+  key: string;
+  name: string;
+  source: SignalSource;
+  channelId: string | null;
+  feed: string | null;
+  disabled: { reason: string; at: Date } | null;
+  callers: CallerStats[];
+}
+
+interface SignalEntry {
+  tradeId: string;
+  signalId: string;
+  userId: string;
+  tradingMode: TradingMode;
+  tokenAddress: string;
+  quantity: number;
+  price: number;
+  fees: number;
+  executedAt: Date;
+}
+
+interface SignalExit {
+  userId: string;
+  tradingMode: TradingMode;
+  tokenAddress: string;
+  heldQuantity: number; // Position size before the sell
+  soldQuantity: number;
+  realizedPnl: number;
+  executedAt: Date;
+}
+
+/**
+ * Attribution key of a signal: the channel it was read from, the market feed
+ * that produced it, or failing both its source type
+ */
+export function signalSourceKey(signal: { source: SignalSource; channelId?: string | null; feed?: string | null }): string {
+  if (signal.channelId) return `channel:${signal.channelId}`;
+  if (signal.feed) return `feed:${signal.feed}`;
+  return `source:${signal.source}`;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function summarize(signals: number, passed: number, outcomes: SignalOutcome[], now: number): PerformanceStats {
+  const closed = outcomes.filter(outcome => outcome.closedAt);
+  const wins = closed.filter(outcome => outcome.realizedPnl > 0).length;
+  const rose = outcomes.filter(outcome => outcome.peakPrice > outcome.entryPrice);
+
+  // Unsettled entries are still being tracked and could yet reach the gain
+  const reachedGain = (outcome: SignalOutcome) => outcome.peakPrice >= outcome.entryPrice * (1 + FALSE_POSITIVE_MIN_GAIN);
+  const settled = outcomes.filter(outcome => reachedGain(outcome) || outcome.trackUntil.getTime() <= now);
+  const falsePositives = settled.filter(outcome => !reachedGain(outcome)).length;
+
+  return {
+    signals,
+    passed,
+    entries: outcomes.length,
+    closed: closed.length,
+    wins,
+    winRate: closed.length > 0 ? wins / closed.length : null,
+    avgReturn: average(closed.map(outcome => outcome.realizedPnl / (outcome.entryPrice * outcome.quantity))),
+    avgTimeToPeakMs: average(rose.map(outcome => outcome.peakAt.getTime() - outcome.createdAt.getTime())),
+    falsePositiveRate: settled.length > 0 ? falsePositives / settled.length : null,
+    avgLatencyMs: average(outcomes.flatMap(outcome => outcome.latencyMs ?? []))
+  };
+}
+
+/**
+ * Ties entries taken on signals to how they played out, and reports win
+ * rate, return, time-to-peak, false positives and latency per source and
+ * caller. The position ledger reports fills inside its transaction, so an
+ * entry's outcome is written with the trade.
+ */
+export class SignalAttribution {
+  private prisma = prisma;
+  private tracker?: NodeJS.Timeout;
+  private disabledCache = new Map<string, { expiresAt: number; keys: Promise<Set<string>> }>();
+
+  async recordEntry(tx: Prisma.TransactionClient, entry: SignalEntry): Promise<void> {
+    const signal = await tx.signal.findUnique({ where: { id: entry.signalId } });
+    if (!signal) return;
+
+    if (!signal.userId) {
+      await tx.signal.update({ where: { id: signal.id }, data: { userId: entry.userId } });
+    }
+
+    const calledAt = signal.postedAt ?? signal.createdAt;
+    await tx.signalOutcome.create({
+      data: {
+        userId: entry.userId,
+        signalId: signal.id,
+        entryTradeId: entry.tradeId,
+        sourceKey: signalSourceKey(signal),
+        channelId: signal.channelId,
+        caller: signal.caller,
+        tokenAddress: entry.tokenAddress,
+        tradingMode: entry.tradingMode,
+        entryPrice: entry.price,
+        quantity: entry.quantity,
+        openQuantity: entry.quantity,
+        realizedPnl: -entry.fees,
+        latencyMs: Math.max(0, entry.executedAt.getTime() - calledAt.getTime()),
+        peakPrice: entry.price,
+        peakAt: entry.executedAt,
+        trackUntil: new Date(entry.executedAt.getTime() + PEAK_TRACKING_MS)
+      }
+    });
+  }
+
+  /**
+   * Share a sell across the open signal entries in the position, in
+   * proportion to their open quantity, matching average-cost accounting
+   */
+  async recordExit(tx: Prisma.TransactionClient, exit: SignalExit): Promise<void> {
+    if (!(exit.heldQuantity > 0) || !(exit.soldQuantity > 0)) return;
+
+    const open = await tx.signalOutcome.findMany({
+      where: {
+        userId: exit.userId,
+        tokenAddress: exit.tokenAddress,
+        tradingMode: exit.tradingMode,
+        closedAt: null
+      }
+    });
+
+    const positionClosed = exit.heldQuantity - exit.soldQuantity <= DUST;
+    for (const outcome of open) {
+      const sold = Math.min(outcome.openQuantity, exit.soldQuantity * Math.min(1, outcome.openQuantity / exit.heldQuantity));
+      const openQuantity = outcome.openQuantity - sold;
+      const closed = positionClosed || openQuantity <= DUST;
+
+      await tx.signalOutcome.update({
+        where: { id: outcome.id },
+        data: {
+          openQuantity: closed ? 0 : openQuantity,
+          realizedPnl: { increment: exit.realizedPnl * (sold / exit.soldQuantity) },
+          closedAt: closed ? exit.executedAt : undefined
+        }
+      });
+    }
+  }
+
+  /**
+   * Raise the peak price of entries still inside their tracking window
+   */
+  async trackPeaks(): Promise<void> {
+    const now = new Date();
+    const tracked = await this.prisma.signalOutcome.findMany({
+      where: { trackUntil: { gt: now } },
+      select: { tokenAddress: true },
+      distinct: ['tokenAddress']
+    });
+    if (tracked.length === 0) return;
+
+    const prices = await fetchTokenPrices(tracked.map(outcome => outcome.tokenAddress));
+    for (const [tokenAddress, price] of Object.entries(prices)) {
+      if (!(price > 0)) continue;
+
+      await this.prisma.signalOutcome.updateMany({
+        where: { tokenAddress, trackUntil: { gt: now }, peakPrice: { lt: price } },
+        data: { peakPrice: price, peakAt: now }
+      });
+    }
+  }
+
+  startTracking(): void {
+    if (this.tracker) return;
+
+    this.tracker = setInterval(() => {
+      this.trackPeaks().catch(error => console.error('Signal peak tracking failed:', error));
+    }, PEAK_INTERVAL_MS);
+  }
+
+  stopTracking(): void {
+    if (this.tracker) {
+      clearInterval(this.tracker);
+      this.tracker = undefined;
+    }
+  }
+
+  /**
+   * Per-source performance of a user's signals received in the window. The
+   * user's channels and disabled sources are listed even without activity.
+   */
+  async getStats(userId: string, window: SourceStatsWindow): Promise<SourceStats[]> {
+    const now = Date.now();
+    const since = new Date(now - SOURCE_STATS_WINDOWS[window]);
+
+    const [signalGroups, outcomes, channels, disabled] = await Promise.all([
+      this.prisma.signal.groupBy({
+        by: ['source', 'channelId', 'feed', 'caller', 'passedFilters'],
+        where: { userId, createdAt: { gte: since } },
+        _count: { _all: true }
+      }),
+      this.prisma.signalOutcome.findMany({
+        where: { userId, createdAt: { gte: since } },
+        include: { signal: { select: { source: true, feed: true } } }
+      }),
+      this.prisma.signalChannel.findMany({ where: { userId }, select: { id: true, name: true, source: true } }),
+      this.listDisabled(userId)
+    ]);
+
+    interface Bucket {
+      source: SignalSource;
+      channelId: string | null;
+      feed: string | null;
+      signals: number;
+      passed: number;
+      outcomes: SignalOutcome[];
+      callers: Map<string, { signals: number; passed: number; outcomes: SignalOutcome[] }>;
+    }
+
+    const buckets = new Map<string, Bucket>();
+    const bucketFor = (signal: { source: SignalSource; channelId: string | null; feed: string | null }) => {
+      const key = signalSourceKey(signal);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { source: signal.source, channelId: signal.channelId, feed: signal.feed, signals: 0, passed: 0, outcomes: [], callers: new Map() };
+        buckets.set(key, bucket);
+      }
+      return bucket;
+    };
+    const callerFor = (bucket: Bucket, caller: string) => {
+      let entry = bucket.callers.get(caller);
+      if (!entry) {
+        entry = { signals: 0, passed: 0, outcomes: [] };
+        bucket.callers.set(caller, entry);
+      }
+      return entry;
+    };
+
+    for (const channel of channels) {
+      bucketFor({ source: channel.source, channelId: channel.id, feed: null });
+    }
+
+    // Disabled feeds and source types stay listed so they can be re-enabled
+    for (const { sourceKey } of disabled) {
+      const [kind, name] = sourceKey.split(':');
+      if (kind === 'feed') bucketFor({ source: 'SOLANA_INDEXER', channelId: null, feed: name });
+      if (kind === 'source' && name in SignalSource) bucketFor({ source: name as SignalSource, channelId: null, feed: null });
+    }
+
+    for (const group of signalGroups) {
+      const bucket = bucketFor(group);
+      bucket.signals += group._count._all;
+      if (group.passedFilters) bucket.passed += group._count._all;
+
+      if (group.caller) {
+        const caller = callerFor(bucket, group.caller);
+        caller.signals += group._count._all;
+        if (group.passedFilters) caller.passed += group._count._all;
+      }
+    }
+
+    for (const { signal, ...outcome } of outcomes) {
+      const bucket = bucketFor({ source: signal.source, channelId: outcome.channelId, feed: signal.feed });
+      bucket.outcomes.push(outcome);
+      if (outcome.caller) callerFor(bucket, outcome.caller).outcomes.push(outcome);
+    }
+
+    const channelNames = new Map(channels.map(channel => [channel.id, channel.name]));
+    const disabledByKey = new Map(disabled.map(entry => [entry.sourceKey, entry]));
+
+    const stats: SourceStats[] = Array.from(buckets, ([key, bucket]) => {
+      const off = disabledByKey.get(key);
+      return {
+        key,
+        name: (bucket.channelId && channelNames.get(bucket.channelId)) || bucket.feed || bucket.source,
+        source: bucket.source,
+        channelId: bucket.channelId,
+        feed: bucket.feed,
+        disabled: off ? { reason: off.reason, at: off.createdAt } : null,
+        callers: Array.from(bucket.callers, ([caller, entry]) => ({
+          caller,
+          ...summarize(entry.signals, entry.passed, entry.outcomes, now)
+        })).sort((a, b) => b.entries - a.entries || b.signals - a.signals),
+        ...summarize(bucket.signals, bucket.passed, bucket.outcomes, now)
+      };
+    });
+
+    return stats.sort((a, b) => b.entries - a.entries || b.signals - a.signals || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Disable every source whose rolling win rate is below the threshold, once
+   * it has enough closed entries to judge. Returns the sources disabled.
+   */
+  async disableUnderperformers(userId: string, winRateThreshold: number): Promise<SourceStats[]> {
+    const stats = await this.getStats(userId, AUTO_DISABLE_WINDOW);
+    const underperforming = stats.filter(source =>
+      !source.disabled &&
+      source.closed >= AUTO_DISABLE_MIN_TRADES &&
+      source.winRate !== null &&
+      source.winRate < winRateThreshold
+    );
+
+    for (const source of underperforming) {
+      const reason = `Rolling ${AUTO_DISABLE_WINDOW} win rate ${(source.winRate! * 100).toFixed(1)}% ` +
+        `is below ${(winRateThreshold * 100).toFixed(1)}% over ${source.closed} closed trades`;
+      await this.disable(userId, source.key, reason, { winRate: source.winRate, closedTrades: source.closed });
+      console.log(`🔕 Signal source ${source.name} disabled for user ${userId}: ${reason}`);
+    }
+
+    return underperforming;
+  }
+
+  async isDisabled(userId: string, sourceKey: string): Promise<boolean> {
+    const cached = this.disabledCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return (await cached.keys).has(sourceKey);
+    }
+
+    const keys = this.listDisabled(userId).then(entries => new Set(entries.map(entry => entry.sourceKey)));
+    this.disabledCache.set(userId, { expiresAt: Date.now() + CACHE_TTL_MS, keys });
+    try {
+      return (await keys).has(sourceKey);
+    } catch (error) {
+      this.disabledCache.delete(userId);
+      throw error;
+    }
+  }
+
+  listDisabled(userId: string): Promise<DisabledSignalSource[]> {
+    return this.prisma.disabledSignalSource.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+  }
+
+  async disable(
+    userId: string,
+    sourceKey: string,
+    reason: string,
+    details: { winRate?: number | null; closedTrades?: number } = {}
+  ): Promise<DisabledSignalSource> {
+    const entry = await this.prisma.disabledSignalSource.upsert({
+      where: { userId_sourceKey: { userId, sourceKey } },
+      update: { reason, ...details },
+      create: { userId, sourceKey, reason, ...details }
+    });
+    this.disabledCache.delete(userId);
+    return entry;
+  }
+
+  async enable(userId: string, sourceKey: string): Promise<boolean> {
+    const { count } = await this.prisma.disabledSignalSource.deleteMany({ where: { userId, sourceKey } });
+    this.disabledCache.delete(userId);
+    return count > 0;
+  }
+}
+
+const globalForSignalAttribution = globalThis as unknown as {
+  signalAttribution: SignalAttribution | undefined
+};
+
+export const signalAttribution = globalForSignalAttribution.signalAttribution ?? new SignalAttribution();
+
+globalForSignalAttribution.signalAttribution = signalAttribution;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { PARSER_TEMPLATES } from './parser';
+
+const isRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const patternSchema = z.string().max(500).refine(isRegex, 'Invalid regular expression');
+
+export const parserTemplateConfigSchema = z.object({
+  requirePattern: patternSchema.optional(),
+  symbolPattern: patternSchema.optional(),
+  pricePattern: patternSchema.optional(),
+  sellPattern: patternSchema.optional(),
+  ratingPattern: patternSchema.optional(),
+  baseConfidence: z.number().min(0).max(1).optional(),
+  cues: z.array(z.object({
+    pattern: patternSchema,
+    delta: z.number().min(-1).max(1),
+    hint: z.string().max(50).optional(),
+  })).max(20).optional(),
+});
+
+export const signalChannelInputSchema = z.object({
+  source: z.enum(['TELEGRAM', 'DISCORD']),
+  externalId: z.string().trim().min(1).max(100),
+  name: z.string().trim().min(1).max(100),
+  parserTemplate: z.string().refine(name => name in PARSER_TEMPLATES, 'Unknown parser template').optional(),
+  parserConfig: parserTemplateConfigSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type SignalChannelInput = z.infer<typeof signalChannelInputSchema>;
+
+/**
+ * Built-in parser templates, for channel configuration forms
+ */
+export function listParserTemplates(): { name: string; description: string }[] {
+  return Object.values(PARSER_TEMPLATES).map(({ name, description }) => ({ name, description }));
+}
@@ -0,0 +1,242 @@
+import { SignalChannel } from '@prisma/client';
+import {
+  Client,
+  DiscordjsErrorCodes,
+  Events,
+  GatewayCloseCodes,
+  GatewayIntentBits,
+  Message
+} from 'discord.js';
+import { EncryptionService } from '@/lib/encryption';
+import { prisma } from '@/lib/prisma';
+import { ChannelMessage, ingestChannelMessage } from './ingestion';
+
+const SYNC_INTERVAL_MS = Number(process.env.DISCORD_SYNC_INTERVAL_MS || 60 * 1000);
+const MAX_CALLS_PER_MINUTE = Number(process.env.DISCORD_MAX_CALLS_PER_MINUTE || 20);
+
+interface UserClient {
+  token: string;
+  client: Client;
+  channels: SignalChannel[];
+  queue: Promise<void>; // Messages are ingested one at a time, in order
+}
+
+/**
+ * Sliding one-minute window of calls per channel. Calls over the limit are
+ * dropped rather than delayed; a late entry on a fresh call is worse than none.
+ */
+class ChannelRateLimiter {
+  private calls = new Map<string, number[]>();
+
+  constructor(private readonly maxCalls: number, private readonly windowMs = 60 * 1000) {}
+
+  isLimited(key: string): boolean {
+    const now = Date.now();
+    const recent = (this.calls.get(key) ?? []).filter(time => now - time < this.windowMs);
+    this.calls.set(key, recent);
+    return recent.length >= this.maxCalls;
+  }
+
+  record(key: string): void {
+    const recent = this.calls.get(key) ?? [];
+    recent.push(Date.now());
+    this.calls.set(key, recent);
+  }
+}
+
+/**
+ * The channel a Discord message was posted in, if the user allow-listed it.
+ * Messages in threads count towards their parent channel; DMs never match.
+ */
+export function matchDiscordChannel(channels: SignalChannel[], message: Message): SignalChannel | undefined {
+  if (!message.inGuild()) return undefined;
+
+  const parentId = message.channel.isThread() ? message.channel.parentId : null;
+  return channels.find(channel => {
+    const externalId = channel.externalId.trim();
+    return externalId === message.channelId || externalId === parentId;
+  });
+}
+
+/**
+ * Message text with embed titles, descriptions, fields and footers appended,
+ * since call bots usually post the mint and metrics in an embed
+ */
+export function toChannelMessage(message: Message): ChannelMessage {
+  const embedText = message.embeds.flatMap(embed => [
+    embed.title,
+    embed.description,
+    ...embed.fields.map(field => `${field.name}: ${field.value}`),
+    embed.footer?.text
+  ]);
+
+  return {
+    messageId: message.id,
+    text: [message.content, ...embedText].filter(Boolean).join('\n'),
+    author: message.member?.displayName ?? message.author.username,
+    authorId: message.author.id,
+    postedAt: message.createdAt
+  };
+}
+
+/**
+ * Reads allow-listed Discord guild channels through each user's own bot
+ * token. The bot needs the Message Content intent enabled in the developer
+ * portal and read access to the channels. Channel configuration is re-read
+ * on a schedule.
+ */
+export class DiscordIngestionWorker {
+  private prisma = prisma;
+  private clients = new Map<string, UserClient>();
+  private rejectedTokens = new Set<string>();
+  private rateLimiter = new ChannelRateLimiter(MAX_CALLS_PER_MINUTE);
+  private scheduler?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  start(): void {
+    if (this.scheduler) return;
+
+    this.sync().catch(error => console.error('Discord ingestion sync failed:', error));
+    this.scheduler = setInterval(() => {
+      this.sync().catch(error => console.error('Discord ingestion sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    await Promise.all(Array.from(this.clients.keys()).map(userId => this.stopClient(userId)));
+  }
+
+  /**
+   * Log in, restart or log out user bots to match the active channel configuration
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const channels = await this.prisma.signalChannel.findMany({
+      where: { source: 'DISCORD', isActive: true },
+      include: { user: { select: { userSettings: { select: { discordBotToken: true } } } } }
+    });
+
+    const wanted = new Map<string, { token: string; channels: SignalChannel[] }>();
+    for (const { user, ...channel } of channels) {
+      const encrypted = user.userSettings?.discordBotToken;
+      if (!encrypted) continue;
+
+      const entry = wanted.get(channel.userId);
+      if (entry) {
+        entry.channels.push(channel);
+        continue;
+      }
+
+      try {
+        const token = EncryptionService.decrypt(encrypted);
+        if (!this.rejectedTokens.has(token)) {
+          wanted.set(channel.userId, { token, channels: [channel] });
+        }
+      } catch (error) {
+        console.error(`Discord token for user ${channel.userId} could not be decrypted:`, error);
+      }
+    }
+
+    for (const userId of this.clients.keys()) {
+      const next = wanted.get(userId);
+      if (!next || next.token !== this.clients.get(userId)!.token) {
+        await this.stopClient(userId);
+      }
+    }
+
+    for (const [userId, { token, channels: userChannels }] of wanted) {
+      const existing = this.clients.get(userId);
+      if (existing) {
+        existing.channels = userChannels;
+      } else {
+        this.startClient(userId, token, userChannels);
+      }
+    }
+  }
+
+  private startClient(userId: string, token: string, channels: SignalChannel[]): void {
+    const client = new Client({
+      intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent]
+    });
+    const userClient: UserClient = { token, client, channels, queue: Promise.resolve() };
+
+    client.on(Events.MessageCreate, message => {
+      if (message.author.id === client.user?.id) return;
+
+      const channel = matchDiscordChannel(userClient.channels, message);
+      if (!channel) return;
+
+      userClient.queue = userClient.queue
+        .then(async () => {
+          if (this.rateLimiter.isLimited(channel.id)) {
+            console.warn(`Discord channel ${channel.name} is over ${MAX_CALLS_PER_MINUTE} calls per minute; dropping message ${message.id}`);
+            return;
+          }
+
+          const result = await ingestChannelMessage(channel, toChannelMessage(message));
+          if (result.status !== 'IGNORED') this.rateLimiter.record(channel.id);
+          if (result.status === 'PROCESSED') {
+            console.log(`📨 Discord call from ${channel.name} ingested as signal ${result.signalId}`);
+          }
+        })
+        .catch(error => console.error(`Failed to ingest Discord message ${message.id} from ${channel.name}:`, error));
+    });
+
+    client.on(Events.Error, error => console.error(`Discord client error for user ${userId}:`, error.message));
+    client.on(Events.ShardDisconnect, ({ code }) => {
+      // Fixed by enabling the intent in the developer portal; the next sync logs in again
+      if (code === GatewayCloseCodes.DisallowedIntents) {
+        console.error(`Discord bot for user ${userId} needs the Message Content intent; ingestion paused`);
+        this.stopClient(userId, userClient).catch(() => {});
+      }
+    });
+
+    this.clients.set(userId, userClient);
+    client.login(token)
+      .then(() => console.log(`📡 Discord ingestion started for user ${userId} (${channels.length} channels)`))
+      .catch(error => {
+        // A revoked or mistyped token will never recover; wait for the user to replace it
+        if (error?.code === DiscordjsErrorCodes.TokenInvalid) {
+          console.error(`Discord bot token for user ${userId} was rejected; ingestion paused`);
+          this.rejectedTokens.add(token);
+        } else {
+          console.error(`Discord login failed for user ${userId}:`, error);
+        }
+        this.stopClient(userId, userClient).catch(() => {});
+      });
+  }
+
+  /**
+   * Log out the user's bot. Passing the client only stops that instance, so a
+   * late failure of a replaced client does not stop its successor.
+   */
+  private async stopClient(userId: string, expected?: UserClient): Promise<void> {
+    const userClient = this.clients.get(userId);
+    if (!userClient || (expected && userClient !== expected)) return;
+
+    this.clients.delete(userId);
+    try {
+      await userClient.client.destroy();
+    } catch (error) {
+      console.error(`Failed to stop Discord client for user ${userId}:`, error);
+    }
+  }
+}
+
+const globalForDiscord = globalThis as unknown as {
+  discordIngestion: DiscordIngestionWorker | undefined
+};
+
+export const discordIngestion = globalForDiscord.discordIngestion ?? new DiscordIngestionWorker();
+
+globalForDiscord.discordIngestion = discordIngestion;
@@ -0,0 +1,15 @@
+import type { ParsedCall } from './parser';
+import telegramMessages from './fixtures/telegram-messages.json';
+
+/**
+ * A recorded channel message and the call the parser should read from it,
+ * or null when it should be ignored
+ */
+export interface SignalMessageFixture {
+  name: string;
+  template: string;
+  text: string;
+  expected: ParsedCall | null;
+}
+
+export const TELEGRAM_MESSAGE_FIXTURES = telegramMessages as SignalMessageFixture[];
@@ -0,0 +1,132 @@
+import { Prisma, SignalChannel } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ProcessedSignal, SignalData, SignalProcessor } from '@/lib/signalProcessor';
+import { fetchTokenPrices } from '@/lib/trading/token-prices';
+import { signalAttribution, signalSourceKey } from './attribution';
+import { ParserTemplateConfig, parseSignalMessage, resolveParserTemplate } from './parser';
+
+// The same call repeated in a channel within this window is ignored
+const REPEAT_CALL_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * One message read from a Telegram chat or Discord channel
+ */
+export interface ChannelMessage {
+  messageId: string;
+  text: string;
+  author?: string;   // Display name of the caller
+  authorId?: string; // Platform user id of the caller, when the platform exposes one
+  postedAt: Date;
+}
+
+export type ChannelIngestResult =
+  | { status: 'IGNORED' }                        // No call in the message
+  | { status: 'DUPLICATE'; signalId: string }    // Message or call already ingested
+  | { status: 'REJECTED'; signalId: string; reason: string }
+  | { status: 'PROCESSED'; signalId: string; processed: ProcessedSignal | null };
+
+const signalProcessor = new SignalProcessor();
+
+/**
+ * Parse a channel message with the channel's template, store it as a Signal
+ * and hand it to the signal processor. Redelivered messages and repeated
+ * calls for the same token are dropped.
+ */
+export async function ingestChannelMessage(channel: SignalChannel, message: ChannelMessage): Promise<ChannelIngestResult> {
+  const template = resolveParserTemplate(channel.parserTemplate, channel.parserConfig as ParserTemplateConfig | null);
+  const call = parseSignalMessage(message.text, template);
+  if (!call) return { status: 'IGNORED' };
+
+  // Discord message ids are unique across channels; Telegram ids only within a chat
+  const sourceId = channel.source === 'DISCORD' ? message.messageId : `${channel.externalId}:${message.messageId}`;
+  const caller = { author: message.author ?? null, authorId: message.authorId ?? null };
+  const redelivered = await prisma.signal.findFirst({
+    where: { channelId: channel.id, sourceId },
+    select: { id: true }
+  });
+  if (redelivered) return { status: 'DUPLICATE', signalId: redelivered.id };
+
+  // A buy call followed by an exit call for the same token is not a repeat
+  const recent = await prisma.signal.findFirst({
+    where: {
+      channelId: channel.id,
+      tokenAddress: call.tokenAddress,
+      createdAt: { gte: new Date(Date.now() - REPEAT_CALL_WINDOW_MS) }
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, rawMessage: true }
+  });
+  if (recent && parseSignalMessage(recent.rawMessage ?? '', template)?.action === call.action) {
+    return { status: 'DUPLICATE', signalId: recent.id };
+  }
+
+  let signalId: string;
+  try {
+    const signal = await prisma.signal.create({
+      data: {
+        source: channel.source,
+        sourceId,
+        channelId: channel.id,
+        userId: channel.userId,
+        caller: message.author,
+        callerId: message.authorId,
+        postedAt: message.postedAt,
+        tokenAddress: call.tokenAddress,
+        tokenSymbol: call.tokenSymbol,
+        rawMessage: message.text,
+        confidence: call.confidence,
+        filtersResult: { call, ...caller } as unknown as Prisma.InputJsonValue
+      }
+    });
+    signalId = signal.id;
+  } catch (error) {
+    // Another worker stored the same message first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.signal.findFirst({ where: { channelId: channel.id, sourceId }, select: { id: true } });
+      return { status: 'DUPLICATE', signalId: existing?.id ?? '' };
+    }
+    throw error;
+  }
+
+  await prisma.signalChannel.update({
+    where: { id: channel.id },
+    data: { lastMessageAt: message.postedAt }
+  });
+
+  // Calls from a disabled channel are still stored, so its record stays complete
+  const disabled = await signalAttribution.isDisabled(channel.userId, signalSourceKey({ source: channel.source, channelId: channel.id }));
+  const price = disabled ? undefined : call.price ?? (await fetchTokenPrices([call.tokenAddress]))[call.tokenAddress];
+  if (!price) {
+    const reason = disabled
+      ? 'Signal source is disabled'
+      : 'No price in the message and none available from the price feed';
+    await prisma.signal.update({
+      where: { id: signalId },
+      data: {
+        isProcessed: true,
+        filtersResult: { call, ...caller, rejectionReason: reason } as unknown as Prisma.InputJsonValue
+      }
+    });
+    return { status: 'REJECTED', signalId, reason };
+  }
+
+  const signalData: SignalData = {
+    tokenAddress: call.tokenAddress,
+    tokenSymbol: call.tokenSymbol,
+    action: call.action,
+    price,
+    confidence: call.confidence,
+    source: channel.source === 'DISCORD' ? 'DISCORD' : 'TELEGRAM',
+    metadata: {
+      channelId: channel.id,
+      channelName: channel.name,
+      messageId: message.messageId,
+      caller: caller.author,
+      callerId: caller.authorId,
+      hints: call.hints
+    }
+  };
+
+  const processed = await signalProcessor.processSignal(channel.userId, signalData, { signalId });
+  return { status: 'PROCESSED', signalId, processed };
+}
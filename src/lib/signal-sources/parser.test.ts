@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { TELEGRAM_MESSAGE_FIXTURES } from './fixtures';
+import { PARSER_TEMPLATES, extractMintAddress, parseSignalMessage, resolveParserTemplate } from './parser';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('parseSignalMessage', () => {
+  it.each(TELEGRAM_MESSAGE_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_name, fixture) => {
+    expect(parseSignalMessage(fixture.text, resolveParserTemplate(fixture.template))).toEqual(fixture.expected);
+  });
+
+  it('ignores blank messages', () => {
+    expect(parseSignalMessage('   \n')).toBeNull();
+  });
+
+  it('clamps confidence to its floor', () => {
+    const call = parseSignalMessage(`degen gamble, small bag ${BONK}`, { ...PARSER_TEMPLATES.generic, baseConfidence: 0.2 });
+
+    expect(call?.confidence).toBe(0.1);
+    expect(call?.hints).toEqual(['speculative', 'small size']);
+  });
+});
+
+describe('resolveParserTemplate', () => {
+  it('falls back to the generic template for unknown names', () => {
+    expect(resolveParserTemplate('no-such-template')).toBe(PARSER_TEMPLATES.generic);
+  });
+
+  it('applies a channel\'s pattern overrides and extra cues', () => {
+    const template = resolveParserTemplate('call-header', {
+      requirePattern: '^alpha',
+      pricePattern: 'mc\\s*(\\d+)',
+      baseConfidence: 0.4,
+      cues: [{ pattern: 'inner circle', delta: 0.2 }]
+    });
+
+    expect(template.name).toBe('call-header');
+    expect(parseSignalMessage(`CALL ${BONK}`, template)).toBeNull();
+    expect(parseSignalMessage(`ALPHA for the inner circle ${BONK} mc 90000`, template)).toEqual({
+      tokenAddress: BONK,
+      action: 'BUY',
+      price: 90000,
+      confidence: 0.6,
+      hints: ['inner circle']
+    });
+  });
+
+  it('throws on an invalid override pattern', () => {
+    expect(() => resolveParserTemplate('generic', { symbolPattern: '(' })).toThrow(SyntaxError);
+  });
+});
+
+describe('extractMintAddress', () => {
+  it('skips off-curve addresses such as token accounts', () => {
+    expect(extractMintAddress(`ata 59btS1MqkxUBx9sHGorTuLAHMbCzzJmjagXiEac3Mtb2 then ${BONK}`)).toBe(BONK);
+  });
+});
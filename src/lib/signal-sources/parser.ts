@@ -0,0 +1,188 @@
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+
+const ADDRESS_PATTERN = /(?<![1-9A-HJ-NP-Za-km-z])[1-9A-HJ-NP-Za-km-z]{32,44}(?![1-9A-HJ-NP-Za-km-z])/g;
+// Dexscreener and similar links carry pair addresses, not mints
+const PAIR_LINK_PATTERN = /(?:dexscreener\.com|dextools\.io|geckoterminal\.com)\/\S+/gi;
+const QUOTE_MINTS = new Set<string>([TOKEN_ADDRESSES.SOL, TOKEN_ADDRESSES.USDC, TOKEN_ADDRESSES.USDT]);
+
+const MIN_CONFIDENCE = 0.1;
+const MAX_CONFIDENCE = 1;
+
+/**
+ * A trade call read out of a chat message
+ */
+export interface ParsedCall {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  action: 'BUY' | 'SELL';
+  price?: number;
+  confidence: number;
+  hints: string[]; // The cues that moved confidence
+}
+
+export interface ConfidenceCue {
+  pattern: RegExp;
+  delta: number;
+  hint: string;
+}
+
+/**
+ * How one channel formats its calls. Patterns take their value from the
+ * first capture group.
+ */
+export interface ParserTemplate {
+  name: string;
+  description: string;
+  requirePattern?: RegExp;  // Messages that do not match are chatter, not calls
+  symbolPattern: RegExp;
+  pricePattern: RegExp;
+  sellPattern: RegExp;
+  ratingPattern?: RegExp;   // Score, then '/10' or '%'; an explicit rating sets confidence outright
+  baseConfidence: number;
+  cues: ConfidenceCue[];
+}
+
+/**
+ * `SignalChannel.parserConfig`: string patterns override the template's
+ */
+export interface ParserTemplateConfig {
+  requirePattern?: string;
+  symbolPattern?: string;
+  pricePattern?: string;
+  sellPattern?: string;
+  ratingPattern?: string;
+  baseConfidence?: number;
+  cues?: { pattern: string; delta: number; hint?: string }[];
+}
+
+const SHARED_CUES: ConfidenceCue[] = [
+  { pattern: /\b(strong buy|high conviction|sending it|full port)\b/i, delta: 0.15, hint: 'conviction' },
+  { pattern: /\b(lp (burn(ed|t)?|locked)|renounced|mint (revoked|disabled))\b/i, delta: 0.1, hint: 'safety claims' },
+  { pattern: /\b(kol|whales?|smart money) (buying|bought|in)\b/i, delta: 0.1, hint: 'smart money' },
+  { pattern: /\b(degen|gamble|lottery|high risk|risky|nfa)\b/i, delta: -0.15, hint: 'speculative' },
+  { pattern: /\b(small bag|low cap play|micro ?cap)\b/i, delta: -0.05, hint: 'small size' },
+];
+
+const generic: ParserTemplate = {
+  name: 'generic',
+  description: 'Any message containing a mint address; $TICKER, price and conviction cues are optional',
+  symbolPattern: /\$([A-Za-z][A-Za-z0-9]{1,14})\b/,
+  pricePattern: /(?:\bprice|\bentry|@)\s*[:=]?\s*\$?\s*(\d*\.?\d+(?:e-?\d+)?)/i,
+  sellPattern: /\b(sell(ing)?|sold|exit(ed|ing)?|tak(e|ing) profits?|tp hit|close(d)? (the )?position|dump(ing)?)\b/i,
+  ratingPattern: /\b(?:rating|score|confidence)\s*[:=]?\s*(\d+(?:\.\d+)?)\s*(\/\s*10|%)/i,
+  baseConfidence: 0.5,
+  cues: SHARED_CUES
+};
+
+export const PARSER_TEMPLATES: Record<string, ParserTemplate> = {
+  generic,
+  'call-header': {
+    ...generic,
+    name: 'call-header',
+    description: 'Only messages headed CALL, BUY, ENTRY or SELL count; for channels that mix calls with chatter',
+    requirePattern: /^\s*(?:[^\w\s]\s*)*(call|buy|entry|sell|exit)\b/i,
+    baseConfidence: 0.6
+  },
+  'pump-launch': {
+    ...generic,
+    name: 'pump-launch',
+    description: 'Fresh pump.fun launch alerts; speculative by default',
+    requirePattern: /pump\.fun|pump\b/i,
+    baseConfidence: 0.35,
+    cues: [
+      ...SHARED_CUES,
+      { pattern: /\b(bonded|bonding curve complete|migrated|raydium)\b/i, delta: 0.15, hint: 'migrated' }
+    ]
+  }
+};
+
+const compile = (pattern: string | undefined, flags = 'i') => (pattern ? new RegExp(pattern, flags) : undefined);
+
+/**
+ * The named template with a channel's overrides applied. Unknown names fall
+ * back to the generic template; invalid override patterns throw.
+ */
+export function resolveParserTemplate(name: string, config?: ParserTemplateConfig | null): ParserTemplate {
+  const base = PARSER_TEMPLATES[name] ?? PARSER_TEMPLATES.generic;
+  if (!config) return base;
+
+  return {
+    ...base,
+    requirePattern: compile(config.requirePattern) ?? base.requirePattern,
+    symbolPattern: compile(config.symbolPattern) ?? base.symbolPattern,
+    pricePattern: compile(config.pricePattern) ?? base.pricePattern,
+    sellPattern: compile(config.sellPattern) ?? base.sellPattern,
+    ratingPattern: compile(config.ratingPattern) ?? base.ratingPattern,
+    baseConfidence: config.baseConfidence ?? base.baseConfidence,
+    cues: [
+      ...base.cues,
+      ...(config.cues ?? []).map(cue => ({ pattern: new RegExp(cue.pattern, 'i'), delta: cue.delta, hint: cue.hint ?? cue.pattern }))
+    ]
+  };
+}
+
+// Mints are keypair addresses; pools, vaults and other PDAs are off curve
+const isMint = (candidate: string) => {
+  try {
+    return PublicKey.isOnCurve(new PublicKey(candidate).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The first mint address in a message, skipping quote tokens and addresses
+ * that only appear inside pair links
+ */
+export function extractMintAddress(text: string): string | null {
+  const pairLinks = (text.match(PAIR_LINK_PATTERN) ?? []).join(' ');
+  const candidates = Array.from(new Set(text.match(ADDRESS_PATTERN) ?? []));
+
+  return candidates.find(candidate =>
+    !QUOTE_MINTS.has(candidate)
+    && !pairLinks.includes(candidate)
+    && isMint(candidate)
+  ) ?? null;
+}
+
+const clamp = (value: number) => Math.round(Math.min(Math.max(value, MIN_CONFIDENCE), MAX_CONFIDENCE) * 100) / 100;
+
+/**
+ * Read a call out of a message, or null when it does not contain one
+ */
+export function parseSignalMessage(text: string, template: ParserTemplate = PARSER_TEMPLATES.generic): ParsedCall | null {
+  if (!text.trim()) return null;
+  if (template.requirePattern && !template.requirePattern.test(text)) return null;
+
+  const tokenAddress = extractMintAddress(text);
+  if (!tokenAddress) return null;
+
+  const symbol = text.match(template.symbolPattern)?.[1];
+  const price = Number(text.match(template.pricePattern)?.[1]);
+  const hints: string[] = [];
+
+  let confidence = template.baseConfidence;
+  const rating = template.ratingPattern ? text.match(template.ratingPattern) : null;
+  if (rating) {
+    const value = Number(rating[1]);
+    confidence = rating[2].includes('%') ? value / 100 : value / 10;
+    hints.push(`rated ${rating[1]}${rating[2].replace(/\s/g, '')}`);
+  } else {
+    for (const cue of template.cues) {
+      if (cue.pattern.test(text)) {
+        confidence += cue.delta;
+        hints.push(cue.hint);
+      }
+    }
+  }
+
+  return {
+    tokenAddress,
+    tokenSymbol: symbol?.toUpperCase(),
+    action: template.sellPattern.test(text) ? 'SELL' : 'BUY',
+    price: price > 0 ? price : undefined,
+    confidence: clamp(confidence),
+    hints
+  };
+}
@@ -0,0 +1,178 @@
+import { SignalChannel } from '@prisma/client';
+import TelegramBot from 'node-telegram-bot-api';
+import { EncryptionService } from '@/lib/encryption';
+import { prisma } from '@/lib/prisma';
+import { ChannelMessage, ingestChannelMessage } from './ingestion';
+
+const SYNC_INTERVAL_MS = Number(process.env.TELEGRAM_SYNC_INTERVAL_MS || 60 * 1000);
+
+interface UserBot {
+  token: string;
+  bot: TelegramBot;
+  channels: SignalChannel[];
+  queue: Promise<void>; // Messages are ingested one at a time, in order
+}
+
+/**
+ * The channel a Telegram chat is configured as. Channels are matched by
+ * numeric chat id or by @username.
+ */
+export function matchTelegramChannel(channels: SignalChannel[], chat: TelegramBot.Chat): SignalChannel | undefined {
+  const username = chat.username?.toLowerCase();
+  return channels.find(channel => {
+    const externalId = channel.externalId.trim();
+    if (externalId === String(chat.id)) return true;
+    return !!username && externalId.replace(/^@/, '').toLowerCase() === username;
+  });
+}
+
+export function toChannelMessage(message: TelegramBot.Message): ChannelMessage {
+  return {
+    messageId: String(message.message_id),
+    text: message.text ?? message.caption ?? '',
+    author: message.author_signature ?? message.from?.username,
+    authorId: message.from ? String(message.from.id) : undefined,
+    postedAt: new Date(message.date * 1000)
+  };
+}
+
+/**
+ * Reads configured Telegram channels and groups through each user's own bot
+ * token. The bot has to be a member of a group, or an admin of a channel, to
+ * see its messages. Channel configuration is re-read on a schedule.
+ */
+export class TelegramIngestionWorker {
+  private prisma = prisma;
+  private bots = new Map<string, UserBot>();
+  private rejectedTokens = new Set<string>();
+  private scheduler?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  start(): void {
+    if (this.scheduler) return;
+
+    this.sync().catch(error => console.error('Telegram ingestion sync failed:', error));
+    this.scheduler = setInterval(() => {
+      this.sync().catch(error => console.error('Telegram ingestion sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    await Promise.all(Array.from(this.bots.keys()).map(userId => this.stopBot(userId)));
+  }
+
+  /**
+   * Start, restart or stop user bots to match the active channel configuration
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const channels = await this.prisma.signalChannel.findMany({
+      where: { source: 'TELEGRAM', isActive: true },
+      include: { user: { select: { userSettings: { select: { telegramBotToken: true } } } } }
+    });
+
+    const wanted = new Map<string, { token: string; channels: SignalChannel[] }>();
+    for (const { user, ...channel } of channels) {
+      const encrypted = user.userSettings?.telegramBotToken;
+      if (!encrypted) continue;
+
+      const entry = wanted.get(channel.userId);
+      if (entry) {
+        entry.channels.push(channel);
+        continue;
+      }
+
+      try {
+        const token = EncryptionService.decrypt(encrypted);
+        if (!this.rejectedTokens.has(token)) {
+          wanted.set(channel.userId, { token, channels: [channel] });
+        }
+      } catch (error) {
+        console.error(`Telegram token for user ${channel.userId} could not be decrypted:`, error);
+      }
+    }
+
+    for (const userId of this.bots.keys()) {
+      const next = wanted.get(userId);
+      if (!next || next.token !== this.bots.get(userId)!.token) {
+        await this.stopBot(userId);
+      }
+    }
+
+    for (const [userId, { token, channels: userChannels }] of wanted) {
+      const existing = this.bots.get(userId);
+      if (existing) {
+        existing.channels = userChannels;
+      } else {
+        this.startBot(userId, token, userChannels);
+      }
+    }
+  }
+
+  private startBot(userId: string, token: string, channels: SignalChannel[]): void {
+    const bot = new TelegramBot(token, {
+      polling: { params: { timeout: 30, allowed_updates: ['message', 'channel_post'] } }
+    });
+    const userBot: UserBot = { token, bot, channels, queue: Promise.resolve() };
+
+    const onMessage = (message: TelegramBot.Message) => {
+      const channel = matchTelegramChannel(userBot.channels, message.chat);
+      if (!channel) return;
+
+      userBot.queue = userBot.queue
+        .then(async () => {
+          const result = await ingestChannelMessage(channel, toChannelMessage(message));
+          if (result.status === 'PROCESSED') {
+            console.log(`📨 Telegram call from ${channel.name} ingested as signal ${result.signalId}`);
+          }
+        })
+        .catch(error => console.error(`Failed to ingest Telegram message ${message.message_id} from ${channel.name}:`, error));
+    };
+
+    bot.on('message', onMessage);
+    bot.on('channel_post', onMessage);
+    bot.on('polling_error', error => {
+      // A revoked or mistyped token will never recover; wait for the user to replace it
+      if (error.response?.statusCode === 401) {
+        console.error(`Telegram bot token for user ${userId} was rejected; ingestion paused`);
+        this.rejectedTokens.add(token);
+        this.stopBot(userId).catch(() => {});
+        return;
+      }
+      console.error(`Telegram polling error for user ${userId}:`, error.message);
+    });
+
+    this.bots.set(userId, userBot);
+    console.log(`📡 Telegram ingestion started for user ${userId} (${channels.length} channels)`);
+  }
+
+  private async stopBot(userId: string): Promise<void> {
+    const userBot = this.bots.get(userId);
+    if (!userBot) return;
+
+    this.bots.delete(userId);
+    try {
+      await userBot.bot.stopPolling({ cancel: true });
+    } catch (error) {
+      console.error(`Failed to stop Telegram polling for user ${userId}:`, error);
+    }
+  }
+}
+
+const globalForTelegram = globalThis as unknown as {
+  telegramIngestion: TelegramIngestionWorker | undefined
+};
+
+export const telegramIngestion = globalForTelegram.telegramIngestion ?? new TelegramIngestionWorker();
+
+globalForTelegram.telegramIngestion = telegramIngestion;
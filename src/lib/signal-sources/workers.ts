@@ -0,0 +1,19 @@
+import { discordIngestion } from './discord';
+import { telegramIngestion } from './telegram';
+
+/**
+ * Start the Telegram and Discord ingestion workers on server boot
+ */
+export function startSignalIngestion(): void {
+  telegramIngestion.start();
+  discordIngestion.start();
+}
+
+/**
+ * Re-read channel configuration now instead of at the next scheduled sync,
+ * after a user adds, changes or removes a channel
+ */
+export function syncSignalIngestion(): void {
+  telegramIngestion.sync().catch(error => console.error('Telegram ingestion sync failed:', error));
+  discordIngestion.sync().catch(error => console.error('Discord ingestion sync failed:', error));
+}
@@ -1,6 +1,10 @@
+import { Prisma } from '@prisma/client';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { prisma } from '@/lib/prisma';
 import { hasSubscriptionAccess } from './subscription';
+import { paperExecutionEngine } from './trading/paper-execution-engine';
+import { riskEngine } from './risk/engine';
+import { describeBlacklistEntry, tokenBlacklist } from './trading/blacklist';
 
 interface SignalData {
   tokenAddress: string;
@@ -13,6 +17,12 @@ interface SignalData {
   metadata?: Record<string, unknown>;
 }
 
+interface ProcessSignalOptions {
+  // Signal row already stored by the caller, e.g. by channel ingestion; it is
+  // updated with the outcome instead of a new row being created
+  signalId?: string;
+}
+
 interface ProcessedSignal {
   id: string;
   action: 'BUY' | 'SELL' | 'HOLD';
@@ -36,7 +46,7 @@ class SignalProcessor {
     this.connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
   }
 
-  async processSignal(userId: string, signalData: SignalData): Promise<ProcessedSignal | null> {
+  async processSignal(userId: string, signalData: SignalData, options: ProcessSignalOptions = {}): Promise<ProcessedSignal | null> {
     try {
       // Check subscription access
       const hasAccess = await hasSubscriptionAccess(userId, 'SIGNAL_PROCESSING');
@@ -56,7 +66,7 @@ class SignalProcessor {
       }
 
       // Validate signal quality
-      const isValidSignal = await this.validateSignal(signalData);
+      const isValidSignal = await this.validateSignal(userId, signalData, options.signalId);
       if (!isValidSignal) {
         return null;
       }
@@ -64,7 +74,7 @@ class SignalProcessor {
       // Apply risk management filters
       const riskAssessment = await this.assessRisk(signalData, tradingSettings);
       if (riskAssessment.shouldReject) {
-        await this.logRejectedSignal(userId, signalData, riskAssessment.reason || 'Unknown risk');
+        await this.logRejectedSignal(userId, signalData, riskAssessment.reason || 'Unknown risk', options.signalId);
         return null;
       }
 
@@ -100,11 +110,11 @@ class SignalProcessor {
       };
 
       // Save signal to database
-      await this.saveProcessedSignal(userId, processedSignal, signalData);
+      const signalId = await this.saveProcessedSignal(userId, processedSignal, signalData, options.signalId);
 
       // Execute trade if auto-trading is enabled
       if (tradingSettings.isActive && processedSignal.action !== 'HOLD') {
-        await this.executeTrade(userId, processedSignal);
+        await this.executeTrade(userId, processedSignal, signalData, signalId);
       }
 
       return processedSignal;
@@ -129,7 +139,7 @@ class SignalProcessor {
     });
   }
 
-  private async validateSignal(signal: SignalData): Promise<boolean> {
+  private async validateSignal(userId: string, signal: SignalData, signalId?: string): Promise<boolean> {
     // Check signal completeness
     if (!signal.tokenAddress || !signal.action || !signal.price || signal.confidence === undefined) {
       return false;
@@ -148,21 +158,28 @@ class SignalProcessor {
     // Validate token address format (basic check)
     try {
       new PublicKey(signal.tokenAddress);
-      return true;
     } catch {
       return false;
     }
+
+    // Blacklisted tokens can still be sold
+    if (signal.action === 'BUY') {
+      const blacklisted = await tokenBlacklist.check(signal.tokenAddress, { userId });
+      if (blacklisted) {
+        await this.logRejectedSignal(userId, signal, describeBlacklistEntry(blacklisted), signalId);
+        return false;
+      }
+    }
+
+    return true;
   }
 
   private async assessRisk(
     signal: SignalData, 
     settings: {
       userId: string;
-      maxRiskPerTrade?: number;
-      maxDailyTrades?: number;
+      tradingMode?: 'LIVE' | 'PAPER';
       defaultTradeAmount?: number;
-      stopLossPercent?: number;
-      takeProfitPercent?: number;
     }
   ): Promise<{
     shouldReject: boolean;
@@ -170,74 +187,25 @@ class SignalProcessor {
     reason?: string;
     reasoning: string[];
   }> {
-    const reasoning: string[] = [];
-    let riskScore = 0;
-
-    // Base risk from confidence
-    const confidenceRisk = 1 - signal.confidence;
-    riskScore += confidenceRisk * 0.3;
-    reasoning.push(`Confidence risk: ${(confidenceRisk * 100).toFixed(1)}%`);
-
-    // Check if we're already holding this token - simplified check
-    // This would need to be implemented based on actual schema structure
-    const existingPosition = null; // await this.prisma.position.findFirst(...)
-
-    if (existingPosition && signal.action === 'BUY') {
-      riskScore += 0.2;
-      reasoning.push('Already holding position in this token');
-    }
-
-    // Check recent trading volume
-    const recentTrades = await this.prisma.trade.count({
-      where: {
-        userId: settings.userId,
-        tokenAddress: signal.tokenAddress,
-        createdAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-        }
-      }
-    });
-
-    if (recentTrades > 5) {
-      riskScore += 0.3;
-      reasoning.push('High frequency trading detected for this token');
-    }
-
-    // Check maximum risk per trade
-    const maxRiskPerTrade = settings.maxRiskPerTrade || 0.05;
-    if (riskScore > maxRiskPerTrade) {
-      return {
-        shouldReject: true,
-        riskScore,
-        reason: `Risk score ${riskScore.toFixed(2)} exceeds maximum allowed ${maxRiskPerTrade}`,
-        reasoning
-      };
-    }
-
-    // Check if we've hit daily trade limit
-    const todayTrades = await this.prisma.trade.count({
-      where: {
-        userId: settings.userId,
-        createdAt: {
-          gte: new Date(new Date().setHours(0, 0, 0, 0))
-        }
+    const decision = await riskEngine.assessTrade({
+      userId: settings.userId,
+      tokenAddress: signal.tokenAddress,
+      side: signal.action,
+      amount: settings.defaultTradeAmount || 0.01,
+      price: signal.price,
+      tradingMode: settings.tradingMode,
+      signal: {
+        confidence: signal.confidence,
+        source: signal.source,
+        metadata: signal.metadata
       }
     });
 
-    const maxDailyTrades = settings.maxDailyTrades || 50;
-    if (todayTrades >= maxDailyTrades) {
-      return {
-        shouldReject: true,
-        riskScore,
-        reason: 'Daily trade limit reached',
-        reasoning
-      };
-    }
-
     return {
-      shouldReject: false,
-      riskScore: Math.min(riskScore, 1.0),
-      reasoning
+      shouldReject: !decision.approved,
+      riskScore: decision.riskScore,
+      reason: decision.reasons.join('; ') || undefined,
+      reasoning: [...decision.reasons, ...decision.warnings]
     };
   }
 
@@ -314,56 +282,87 @@ class SignalProcessor {
   private async saveProcessedSignal(
     userId: string,
     processedSignal: ProcessedSignal,
-    originalSignal: SignalData
-  ) {
-    await this.prisma.signal.create({
-      data: {
-        tokenAddress: processedSignal.token,
-        tokenSymbol: originalSignal.tokenSymbol,
-        tokenName: originalSignal.tokenName,
-        source: originalSignal.source,
-        confidence: processedSignal.confidence,
-        rawMessage: JSON.stringify(originalSignal),
-        filtersResult: JSON.parse(JSON.stringify({
-          ...originalSignal.metadata,
-          processedSignal,
-          riskScore: processedSignal.riskScore,
-          reasoning: processedSignal.reasoning
-        })),
-        isProcessed: true,
-        passedFilters: true
-      }
+    originalSignal: SignalData,
+    signalId?: string
+  ): Promise<string> {
+    return this.recordSignal(userId, signalId, {
+      tokenAddress: processedSignal.token,
+      tokenSymbol: originalSignal.tokenSymbol,
+      tokenName: originalSignal.tokenName,
+      source: originalSignal.source,
+      confidence: processedSignal.confidence,
+      rawMessage: JSON.stringify(originalSignal),
+      filtersResult: JSON.parse(JSON.stringify({
+        ...originalSignal.metadata,
+        processedSignal,
+        riskScore: processedSignal.riskScore,
+        reasoning: processedSignal.reasoning
+      })),
+      isProcessed: true,
+      passedFilters: true
     });
   }
 
-  private async executeTrade(userId: string, signal: ProcessedSignal) {
+  /**
+   * Create the signal row, or update the caller's row keeping its raw message.
+   * Returns the row id so trades taken on the signal can be attributed to it.
+   */
+  private async recordSignal(userId: string, signalId: string | undefined, data: Prisma.SignalCreateInput): Promise<string> {
+    const owned = { ...data, user: { connect: { id: userId } } };
+    if (signalId) {
+      await this.prisma.signal.update({ where: { id: signalId }, data: { ...owned, rawMessage: undefined } });
+      return signalId;
+    }
+    const signal = await this.prisma.signal.create({ data: owned });
+    return signal.id;
+  }
+
+  private async executeTrade(userId: string, signal: ProcessedSignal, originalSignal: SignalData, signalId?: string) {
     try {
-      // This would integrate with actual trading execution
-      // For now, we'll create a paper trade
-      await this.prisma.trade.create({
-        data: {
-          userId,
-          portfolioId: '', // This should be retrieved from user's active portfolio
-          tokenAddress: signal.token,
-          tokenSymbol: signal.token.substring(0, 10), // Placeholder
-          type: signal.action as 'BUY' | 'SELL',
-          amount: signal.amount,
-          estimatedPrice: signal.price,
-          status: 'EXECUTED',
-          tradingMode: 'PAPER',
-          metadata: JSON.parse(JSON.stringify({
-            signalId: signal.id,
-            confidence: signal.confidence,
-            riskScore: signal.riskScore,
-            mevProtection: signal.mevProtection,
-            stopLoss: signal.stopLoss,
-            takeProfit: signal.takeProfit
-          }))
+      // Auto-traded signals are paper traded through the simulated fill model
+      let quantity: number | undefined;
+      if (signal.action === 'SELL') {
+        const position = await this.prisma.position.findFirst({
+          where: {
+            tokenAddress: signal.token,
+            tradingMode: 'PAPER',
+            amount: { gt: 0 },
+            portfolio: { userId, isActive: true }
+          }
+        });
+
+        if (!position) {
+          console.log(`No paper position in ${signal.token} to sell for user ${userId}`);
+          return;
         }
+        quantity = position.amount;
+      }
+
+      const liquidity = originalSignal.metadata?.liquidity;
+      const { fill } = await paperExecutionEngine.executeAndRecord({
+        side: signal.action as 'BUY' | 'SELL',
+        tokenAddress: signal.token,
+        tokenSymbol: originalSignal.tokenSymbol || signal.token.substring(0, 10),
+        price: signal.price,
+        liquidity: typeof liquidity === 'number' ? liquidity : undefined,
+        quoteAmount: signal.action === 'BUY' ? signal.amount : undefined,
+        quantity
+      }, {
+        userId,
+        signalId,
+        stopLossPrice: signal.stopLoss,
+        takeProfitPrice: signal.takeProfit,
+        metadata: JSON.parse(JSON.stringify({
+          signalId: signal.id,
+          confidence: signal.confidence,
+          riskScore: signal.riskScore,
+          mevProtection: signal.mevProtection
+        }))
       });
 
-      // Update portfolio
-      await this.updatePortfolio(userId, signal);
+      if (fill.status === 'REJECTED') {
+        console.log(`Paper order for user ${userId} rejected: ${fill.reason}`);
+      }
 
     } catch (error) {
       console.error('Error executing trade:', error);
@@ -373,28 +372,20 @@ class SignalProcessor {
     }
   }
 
-  private async updatePortfolio(userId: string, signal: ProcessedSignal) {
-    // Portfolio update functionality would go here
-    // This requires the actual Prisma schema structure to be implemented correctly
-    console.log(`Portfolio update for user ${userId}, signal ${signal.id}`);
-  }
-
-  private async logRejectedSignal(userId: string, signal: SignalData, reason: string) {
-    await this.prisma.signal.create({
-      data: {
-        tokenAddress: signal.tokenAddress,
-        tokenSymbol: signal.tokenSymbol,
-        tokenName: signal.tokenName,
-        source: signal.source,
-        confidence: signal.confidence,
-        rawMessage: JSON.stringify(signal),
-        isProcessed: true,
-        passedFilters: false,
-        filtersResult: JSON.parse(JSON.stringify({
-          rejectionReason: reason,
-          originalSignal: signal
-        }))
-      }
+  private async logRejectedSignal(userId: string, signal: SignalData, reason: string, signalId?: string) {
+    await this.recordSignal(userId, signalId, {
+      tokenAddress: signal.tokenAddress,
+      tokenSymbol: signal.tokenSymbol,
+      tokenName: signal.tokenName,
+      source: signal.source,
+      confidence: signal.confidence,
+      rawMessage: JSON.stringify(signal),
+      isProcessed: true,
+      passedFilters: false,
+      filtersResult: JSON.parse(JSON.stringify({
+        rejectionReason: reason,
+        originalSignal: signal
+      }))
     });
   }
 
@@ -403,23 +394,20 @@ class SignalProcessor {
     // Could integrate with error tracking service here
   }
 
-  async getSignalHistory(_userId: string, limit = 50) {
-    // Note: Signal model doesn't have direct user relationship in current schema
-    // This would need to be implemented via trade relationships or signal source filtering
+  async getSignalHistory(userId: string, limit = 50) {
     return await this.prisma.signal.findMany({
+      where: { userId },
       orderBy: { createdAt: 'desc' },
       take: limit
     });
   }
 
-  async getSignalStats(_userId: string) {
-    // Note: Signal model doesn't have direct user relationship in current schema
-    // This would need to be implemented via trade relationships
+  async getSignalStats(userId: string) {
     const [total, successful, failed, pending] = await Promise.all([
-      this.prisma.signal.count({}),
-      this.prisma.signal.count({ where: { passedFilters: true } }),
-      this.prisma.signal.count({ where: { passedFilters: false } }),
-      this.prisma.signal.count({ where: { isProcessed: false } })
+      this.prisma.signal.count({ where: { userId } }),
+      this.prisma.signal.count({ where: { userId, passedFilters: true } }),
+      this.prisma.signal.count({ where: { userId, passedFilters: false } }),
+      this.prisma.signal.count({ where: { userId, isProcessed: false } })
     ]);
 
     return {
@@ -432,4 +420,4 @@ class SignalProcessor {
   }
 }
 
-export { SignalProcessor, type SignalData, type ProcessedSignal };
+export { SignalProcessor, type SignalData, type ProcessedSignal, type ProcessSignalOptions };
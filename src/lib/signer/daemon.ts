@@ -0,0 +1,150 @@
+/**
+ * Local signing daemon. Holds the wallet secrets so the app does not: run it
+ * beside the app with DATABASE_URL and ENCRYPTION_KEY, and point the app's
+ * SIGNER_URL at it. It listens on SIGNER_SOCKET when set, otherwise on
+ * 127.0.0.1:SIGNER_PORT, which any local process can reach and so requires
+ * SIGNER_AUTH_TOKEN. Built separately from the app, so imports here and
+ * in what it loads stay relative.
+ *
+ *   npm run signer
+ */
+import fs from 'fs';
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { SigningService, signingService } from './service';
+import { SignerError } from './types';
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+const signRequestSchema = z.object({
+  walletId: z.string().min(1),
+  transaction: z.string().min(1),
+});
+
+export interface SignerDaemonOptions {
+  authToken?: string; // Required as a bearer token when set; unset only behind a 0600 socket
+  service?: SigningService;
+}
+
+function authorized(request: http.IncomingMessage, authToken?: string): boolean {
+  if (!authToken) return true;
+
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const given = Buffer.from(request.headers.authorization ?? '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new SignerError('INVALID_TRANSACTION', 'Request body too large', 413));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+export function createSignerServer(options: SignerDaemonOptions = {}): http.Server {
+  const service = options.service ?? signingService;
+
+  return http.createServer(async (request, response) => {
+    if (request.method === 'GET' && request.url === '/health') {
+      send(response, 200, { ok: true });
+      return;
+    }
+    if (request.method !== 'POST' || request.url !== '/sign') {
+      send(response, 404, { error: 'Not found' });
+      return;
+    }
+    if (!authorized(request, options.authToken)) {
+      send(response, 401, { error: 'Authentication required' });
+      return;
+    }
+
+    let walletId: string | undefined;
+    try {
+      const input = signRequestSchema.parse(JSON.parse(await readBody(request)));
+      walletId = input.walletId;
+      send(response, 200, await service.signSerialized(input));
+    } catch (error) {
+      if (error instanceof SignerError) {
+        if (error.code === 'POLICY_VIOLATION') {
+          console.warn(`🛑 Refused to sign for wallet ${walletId}: ${error.message}`);
+        }
+        send(response, error.status, { error: error.message, code: error.code });
+      } else if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        send(response, 400, { error: 'Invalid sign request', code: 'INVALID_TRANSACTION' });
+      } else {
+        console.error('Signing failed:', error);
+        send(response, 500, { error: 'Signing failed', code: 'UNAVAILABLE' });
+      }
+    }
+  });
+}
+
+/**
+ * Start listening and shut down cleanly on SIGINT and SIGTERM. Refuses to
+ * listen on TCP without SIGNER_AUTH_TOKEN.
+ */
+export async function startSignerDaemon(): Promise<http.Server> {
+  const authToken = process.env.SIGNER_AUTH_TOKEN || undefined;
+  const socketPath = process.env.SIGNER_SOCKET;
+  if (!authToken && !socketPath) {
+    throw new Error('SIGNER_AUTH_TOKEN must be set when listening on a TCP port; set it or listen on SIGNER_SOCKET');
+  }
+
+  const server = createSignerServer({ authToken });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    if (socketPath) {
+      // A socket left by a previous run blocks listen
+      if (fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+      // Create it 0600 rather than chmod after, so there is no window where others can connect
+      const umask = process.umask(0o177);
+      server.listen(socketPath, () => {
+        process.umask(umask);
+        fs.chmodSync(socketPath, 0o600);
+        resolve();
+      });
+      server.once('error', () => process.umask(umask));
+    } else {
+      server.listen(Number(process.env.SIGNER_PORT || 8787), '127.0.0.1', resolve);
+    }
+  });
+
+  const address = server.address();
+  console.log(`🔏 Signing daemon listening on ${typeof address === 'string' ? `unix:${address}` : `http://127.0.0.1:${address?.port}`}`);
+
+  const shutdown = () => {
+    server.close(() => {
+      prisma.$disconnect().finally(() => process.exit(0));
+    });
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  return server;
+}
+
+if (require.main === module) {
+  startSignerDaemon().catch(error => {
+    console.error('Failed to start signing daemon:', error);
+    process.exit(1);
+  });
+}
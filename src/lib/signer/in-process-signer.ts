@@ -0,0 +1,24 @@
+import { PublicKey } from '@solana/web3.js';
+import { SigningService, signingService } from './service';
+import { SignableTransaction, Signer } from './types';
+
+/**
+ * Signs in the app process through the signing service; used when no
+ * signing daemon is configured, with the same policy checks as the daemon.
+ */
+export class InProcessSigner implements Signer {
+  readonly publicKey: PublicKey;
+
+  constructor(
+    readonly walletId: string,
+    publicKey: string,
+    private service: SigningService = signingService
+  ) {
+    this.publicKey = new PublicKey(publicKey);
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    await this.service.sign(this.walletId, transaction);
+    return transaction;
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import type { Wallet } from '@prisma/client';
+import { DEX_PROGRAMS } from '../helius/config';
+import { SignableTransaction, SignerPolicy, TransactionSummary } from './types';
+
+/**
+ * Programs a wallet may call when its policy lists none: the DEXes we route
+ * through plus the system, token and compute budget programs swaps need
+ */
+export const DEFAULT_ALLOWED_PROGRAMS: string[] = [
+  ...Object.values(DEX_PROGRAMS),
+  ComputeBudgetProgram.programId.toBase58(),
+  SystemProgram.programId.toBase58(),
+  TOKEN_PROGRAM_ID.toBase58(),
+  TOKEN_2022_PROGRAM_ID.toBase58(),
+  ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+];
+
+const SYSTEM_PROGRAM = SystemProgram.programId.toBase58();
+const COMPUTE_BUDGET_PROGRAM = ComputeBudgetProgram.programId.toBase58();
+
+// System program instruction indexes that move lamports out of the funder
+const SYSTEM_CREATE_ACCOUNT = 0;
+const SYSTEM_TRANSFER = 2;
+const SYSTEM_CREATE_ACCOUNT_WITH_SEED = 3;
+const SYSTEM_TRANSFER_WITH_SEED = 11;
+
+const COMPUTE_SET_UNIT_LIMIT = 2;
+const COMPUTE_SET_UNIT_PRICE = 3;
+
+const LAMPORTS_PER_SIGNATURE = 5000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200000;
+const MAX_COMPUTE_UNITS = 1400000;
+
+interface RawInstruction {
+  programId: string;
+  accounts: (string | null)[]; // Null for accounts loaded from a lookup table
+  data: Buffer;
+}
+
+function instructionsOf(transaction: SignableTransaction): { feePayer: string | null; signatures: number; instructions: RawInstruction[] } {
+  if (transaction instanceof VersionedTransaction) {
+    const { message } = transaction;
+    const keys = message.staticAccountKeys.map(key => key.toBase58());
+    return {
+      feePayer: keys[0] ?? null,
+      signatures: message.header.numRequiredSignatures,
+      instructions: message.compiledInstructions.map(instruction => ({
+        programId: keys[instruction.programIdIndex],
+        accounts: instruction.accountKeyIndexes.map(index => keys[index] ?? null),
+        data: Buffer.from(instruction.data),
+      })),
+    };
+  }
+
+  const message = transaction.compileMessage();
+  return {
+    feePayer: message.accountKeys[0]?.toBase58() ?? null,
+    signatures: message.header.numRequiredSignatures,
+    instructions: transaction.instructions.map(instruction => ({
+      programId: instruction.programId.toBase58(),
+      accounts: instruction.keys.map(key => key.pubkey.toBase58()),
+      data: instruction.data,
+    })),
+  };
+}
+
+/**
+ * Lamports a system instruction moves out of the wallet
+ */
+function systemSpend(instruction: RawInstruction, wallet: string): number {
+  if (instruction.data.length < 4) return 0;
+
+  switch (instruction.data.readUInt32LE(0)) {
+    case SYSTEM_CREATE_ACCOUNT:
+    case SYSTEM_TRANSFER:
+      return instruction.accounts[0] === wallet ? Number(instruction.data.readBigUInt64LE(4)) : 0;
+    case SYSTEM_CREATE_ACCOUNT_WITH_SEED: {
+      if (instruction.accounts[0] !== wallet) return 0;
+      // base pubkey, then the seed as a u64 length and its bytes
+      const seedLength = Number(instruction.data.readBigUInt64LE(36));
+      return Number(instruction.data.readBigUInt64LE(44 + seedLength));
+    }
+    case SYSTEM_TRANSFER_WITH_SEED:
+      // Funds come from an account derived from the base wallet
+      return instruction.accounts[1] === wallet ? Number(instruction.data.readBigUInt64LE(4)) : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Read the programs a transaction calls and the SOL it spends from the
+ * wallet: lamports its system instructions transfer or fund accounts with,
+ * plus the signature and priority fees when the wallet pays them. Only
+ * top-level instructions are read, so SOL a program moves through CPI (a
+ * DEX paying out rent, say) is not counted.
+ */
+export function summarizeTransaction(transaction: SignableTransaction, wallet: PublicKey): TransactionSummary {
+  const { feePayer, signatures, instructions } = instructionsOf(transaction);
+  const walletAddress = wallet.toBase58();
+
+  let spendLamports = 0;
+  let unitLimit: number | null = null;
+  let unitPrice = 0; // micro-lamports per compute unit
+
+  for (const instruction of instructions) {
+    if (instruction.programId === SYSTEM_PROGRAM) {
+      spendLamports += systemSpend(instruction, walletAddress);
+    } else if (instruction.programId === COMPUTE_BUDGET_PROGRAM && instruction.data.length > 0) {
+      if (instruction.data[0] === COMPUTE_SET_UNIT_LIMIT) unitLimit = instruction.data.readUInt32LE(1);
+      if (instruction.data[0] === COMPUTE_SET_UNIT_PRICE) unitPrice = Number(instruction.data.readBigUInt64LE(1));
+    }
+  }
+
+  if (feePayer === walletAddress) {
+    const computeInstructions = instructions.filter(instruction => instruction.programId !== COMPUTE_BUDGET_PROGRAM).length;
+    const units = unitLimit ?? Math.min(computeInstructions * DEFAULT_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS);
+    spendLamports += signatures * LAMPORTS_PER_SIGNATURE + Math.ceil((unitPrice * units) / 1000000);
+  }
+
+  return {
+    programs: [...new Set(instructions.map(instruction => instruction.programId))],
+    spendSol: spendLamports / LAMPORTS_PER_SOL,
+  };
+}
+
+export function signerPolicyOf(wallet: Pick<Wallet, 'maxSolPerTransaction' | 'dailySpendCapSol' | 'allowedPrograms'>): SignerPolicy {
+  return {
+    maxSolPerTransaction: wallet.maxSolPerTransaction,
+    dailySpendCapSol: wallet.dailySpendCapSol,
+    allowedPrograms: wallet.allowedPrograms,
+  };
+}
+
+/**
+ * Reasons a policy refuses a transaction; empty when it may be signed
+ */
+export function checkSignerPolicy(summary: TransactionSummary, policy: SignerPolicy, spentTodaySol: number): string[] {
+  const violations: string[] = [];
+
+  const allowed = policy.allowedPrograms.length > 0 ? policy.allowedPrograms : DEFAULT_ALLOWED_PROGRAMS;
+  for (const program of summary.programs) {
+    if (!allowed.includes(program)) violations.push(`Program ${program} is not allowed for this wallet`);
+  }
+
+  if (policy.maxSolPerTransaction !== null && summary.spendSol > policy.maxSolPerTransaction) {
+    violations.push(`Transaction spends ${summary.spendSol.toFixed(4)} SOL, above the ${policy.maxSolPerTransaction} SOL per-transaction limit`);
+  }
+
+  if (policy.dailySpendCapSol !== null && spentTodaySol + summary.spendSol > policy.dailySpendCapSol) {
+    violations.push(`Daily spend cap of ${policy.dailySpendCapSol} SOL would be exceeded (${spentTodaySol.toFixed(4)} SOL spent today)`);
+  }
+
+  return violations;
+}
@@ -0,0 +1,85 @@
+import http from 'http';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { SignRequest, SignResponse, SignableTransaction, Signer, SignerError, SignerErrorCode } from './types';
+
+const REQUEST_TIMEOUT_MS = Number(process.env.SIGNER_TIMEOUT_MS || 10000);
+
+/**
+ * Signs through the signing daemon, so the wallet's secret never enters the
+ * app. The endpoint is `unix:/path/to/socket` or a localhost http URL.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+
+  constructor(
+    readonly walletId: string,
+    publicKey: string,
+    private endpoint: string,
+    private authToken?: string
+  ) {
+    this.publicKey = new PublicKey(publicKey);
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    const serialized = transaction instanceof VersionedTransaction
+      ? transaction.serialize()
+      : transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+    const request: SignRequest = {
+      walletId: this.walletId,
+      transaction: Buffer.from(serialized).toString('base64')
+    };
+    const { signature } = await this.post<SignResponse>('/sign', request);
+
+    transaction.addSignature(this.publicKey, Buffer.from(signature, 'base64'));
+    return transaction;
+  }
+
+  private post<T>(path: string, body: unknown): Promise<T> {
+    const payload = JSON.stringify(body);
+    const target = this.endpoint.startsWith('unix:')
+      ? { socketPath: this.endpoint.slice('unix:'.length), path }
+      : (() => {
+          const url = new URL(path, this.endpoint);
+          return { hostname: url.hostname, port: url.port, path: url.pathname };
+        })();
+
+    return new Promise<T>((resolve, reject) => {
+      const request = http.request({
+        ...target,
+        method: 'POST',
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+          ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {})
+        }
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => {
+          let data: { error?: string; code?: SignerErrorCode } & Partial<T>;
+          try {
+            data = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch {
+            reject(new SignerError('UNAVAILABLE', `Signing daemon returned an invalid response (${response.statusCode})`, 502));
+            return;
+          }
+
+          const status = response.statusCode ?? 500;
+          if (status >= 400) {
+            reject(new SignerError(data.code ?? 'UNAVAILABLE', data.error ?? `Signing daemon returned ${status}`, status));
+          } else {
+            resolve(data as T);
+          }
+        });
+      });
+
+      request.on('timeout', () => request.destroy(new Error(`timed out after ${REQUEST_TIMEOUT_MS}ms`)));
+      request.on('error', error => {
+        reject(new SignerError('UNAVAILABLE', `Signing daemon unreachable: ${error.message}`, 503));
+      });
+      request.end(payload);
+    });
+  }
+}
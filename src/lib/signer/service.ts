@@ -0,0 +1,136 @@
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import type { Wallet } from '@prisma/client';
+import bs58 from 'bs58';
+import { EncryptionService } from '../encryption';
+import { prisma } from '../prisma';
+import { parseSecretKey } from '../wallets/keys';
+import { checkSignerPolicy, signerPolicyOf, summarizeTransaction } from './policy';
+import { SignRequest, SignResponse, SignableTransaction, SignerError, TransactionSummary } from './types';
+
+/**
+ * Holds the decrypted keys. Every request is checked against the wallet's
+ * policy and logged as a WalletSignature, so the daily cap counts what was
+ * signed whether or not it landed. Requests for one wallet are handled one at
+ * a time, so concurrent trades cannot both slip under the cap. Runs inside
+ * the signing daemon, or in the app when no daemon is configured.
+ */
+export class SigningService {
+  private prisma = prisma;
+  private pending = new Map<string, Promise<unknown>>(); // Wallet id -> request being signed
+
+  /**
+   * Sign a transaction in place with a wallet and return the signature
+   */
+  sign(walletId: string, transaction: SignableTransaction): Promise<Uint8Array> {
+    const previous = this.pending.get(walletId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.signNow(walletId, transaction));
+    this.pending.set(walletId, next);
+    next
+      .finally(() => {
+        if (this.pending.get(walletId) === next) this.pending.delete(walletId);
+      })
+      .catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Sign a serialized transaction as the daemon receives it
+   */
+  async signSerialized(request: SignRequest): Promise<SignResponse> {
+    let transaction: VersionedTransaction;
+    try {
+      // Also reads legacy transactions, wrapping their message
+      transaction = VersionedTransaction.deserialize(Buffer.from(request.transaction, 'base64'));
+    } catch {
+      throw new SignerError('INVALID_TRANSACTION', 'Transaction could not be deserialized');
+    }
+
+    const signature = await this.sign(request.walletId, transaction);
+    return { signature: Buffer.from(signature).toString('base64') };
+  }
+
+  private async signNow(walletId: string, transaction: SignableTransaction): Promise<Uint8Array> {
+    const wallet = await this.prisma.wallet.findUnique({ where: { id: walletId } });
+    if (!wallet) throw new SignerError('WALLET_NOT_FOUND', 'Wallet not found', 404);
+    if (wallet.role === 'VAULT') {
+      throw new SignerError('POLICY_VIOLATION', `Wallet ${wallet.label} is a vault and cannot sign`, 403);
+    }
+
+    const publicKey = new PublicKey(wallet.publicKey);
+    let summary: TransactionSummary;
+    try {
+      summary = summarizeTransaction(transaction, publicKey);
+    } catch (error) {
+      throw new SignerError('INVALID_TRANSACTION', `Transaction could not be read: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const violations = checkSignerPolicy(summary, signerPolicyOf(wallet), await this.spentToday(walletId));
+    if (violations.length > 0) {
+      const reason = violations.join('; ');
+      await this.record(walletId, summary, null, reason);
+      throw new SignerError('POLICY_VIOLATION', reason, 403);
+    }
+
+    const keypair = this.loadKeypair(wallet);
+    let signature: Uint8Array | null | undefined;
+    try {
+      if (transaction instanceof VersionedTransaction) {
+        transaction.sign([keypair]);
+        const signers = transaction.message.staticAccountKeys.slice(0, transaction.message.header.numRequiredSignatures);
+        signature = transaction.signatures[signers.findIndex(key => key.equals(publicKey))];
+      } else {
+        transaction.partialSign(keypair);
+        signature = transaction.signatures.find(entry => entry.publicKey.equals(publicKey))?.signature;
+      }
+    } catch (error) {
+      throw new SignerError('INVALID_TRANSACTION', `Transaction could not be signed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!signature) throw new SignerError('INVALID_TRANSACTION', `Transaction does not need a signature from ${wallet.publicKey}`);
+
+    await this.record(walletId, summary, bs58.encode(signature), null);
+    return signature;
+  }
+
+  /**
+   * SOL signed for since midnight UTC
+   */
+  private async spentToday(walletId: string): Promise<number> {
+    const midnight = new Date();
+    midnight.setUTCHours(0, 0, 0, 0);
+
+    const { _sum } = await this.prisma.walletSignature.aggregate({
+      where: { walletId, approved: true, createdAt: { gte: midnight } },
+      _sum: { spendSol: true }
+    });
+    return _sum.spendSol ?? 0;
+  }
+
+  private async record(walletId: string, summary: TransactionSummary, signature: string | null, reason: string | null): Promise<void> {
+    await this.prisma.walletSignature.create({
+      data: {
+        walletId,
+        signature,
+        spendSol: summary.spendSol,
+        programs: summary.programs,
+        approved: reason === null,
+        reason
+      }
+    });
+  }
+
+  private loadKeypair(wallet: Wallet): Keypair {
+    const keypair = parseSecretKey(EncryptionService.decrypt(wallet.encryptedSecret));
+    if (keypair.publicKey.toBase58() !== wallet.publicKey) {
+      throw new SignerError('UNAVAILABLE', `Stored secret of wallet ${wallet.label} does not match its public key`, 500);
+    }
+    return keypair;
+  }
+}
+
+const globalForSigning = globalThis as unknown as {
+  signingService: SigningService | undefined
+};
+
+export const signingService = globalForSigning.signingService ?? new SigningService();
+
+globalForSigning.signingService = signingService;
@@ -0,0 +1,15 @@
+import type { Wallet } from '@prisma/client';
+import { InProcessSigner } from './in-process-signer';
+import { RemoteSigner } from './remote-signer';
+import { Signer } from './types';
+
+/**
+ * The signer for a wallet: the signing daemon at SIGNER_URL when one is
+ * configured, otherwise the signing service in this process
+ */
+export function createSigner(wallet: Pick<Wallet, 'id' | 'publicKey'>): Signer {
+  const endpoint = process.env.SIGNER_URL;
+  return endpoint
+    ? new RemoteSigner(wallet.id, wallet.publicKey, endpoint, process.env.SIGNER_AUTH_TOKEN)
+    : new InProcessSigner(wallet.id, wallet.publicKey);
+}
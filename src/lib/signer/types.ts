@@ -0,0 +1,61 @@
+import type { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
+
+/**
+ * Signs transactions for one wallet without exposing its secret key.
+ * Implementations add the wallet's signature to the transaction passed in
+ * and return it; a transaction the wallet's policy refuses throws a
+ * SignerError.
+ */
+export interface Signer {
+  readonly walletId: string;
+  readonly publicKey: PublicKey;
+  signTransaction<T extends SignableTransaction>(transaction: T): Promise<T>;
+}
+
+/**
+ * Limits a wallet's signer enforces. Null limits are unlimited; an empty
+ * program list allows DEFAULT_ALLOWED_PROGRAMS.
+ */
+export interface SignerPolicy {
+  maxSolPerTransaction: number | null;
+  dailySpendCapSol: number | null;
+  allowedPrograms: string[];
+}
+
+/**
+ * What a transaction does with the signing wallet, read from its top-level
+ * instructions before it is signed
+ */
+export interface TransactionSummary {
+  programs: string[];
+  spendSol: number; // SOL moved out of the wallet, fees included
+}
+
+// Wire format between the app and the signing daemon
+export interface SignRequest {
+  walletId: string;
+  transaction: string; // Base64 serialized, legacy or versioned
+}
+
+export interface SignResponse {
+  signature: string; // Base64 signature of the wallet over the message
+}
+
+export type SignerErrorCode =
+  | 'WALLET_NOT_FOUND'
+  | 'INVALID_TRANSACTION'
+  | 'POLICY_VIOLATION'
+  | 'UNAVAILABLE';
+
+export class SignerError extends Error {
+  constructor(
+    public readonly code: SignerErrorCode,
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'SignerError';
+  }
+}
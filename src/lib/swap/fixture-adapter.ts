@@ -0,0 +1,74 @@
+import { Connection } from '@solana/web3.js';
+import { JupiterQuoteResponse, JupiterSwapAdapter, JupiterSwapResponse } from './jupiter-adapter';
+import { SwapSimulation } from './types';
+import jupiterSolUsdc from './fixtures/jupiter-v6-sol-usdc.json';
+
+/**
+ * Recorded Jupiter responses and the simulation result for one swap
+ */
+export interface RecordedSwapFixture {
+  name: string;
+  description?: string;
+  userPublicKey: string;
+  quote: JupiterQuoteResponse;
+  swap: JupiterSwapResponse;
+  simulation: SwapSimulation;
+}
+
+export const SWAP_FIXTURES: Record<string, RecordedSwapFixture> = {
+  'jupiter-v6-sol-usdc': jupiterSolUsdc as RecordedSwapFixture,
+};
+
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+/**
+ * A fetch that answers Jupiter /quote and /swap from a fixture and records
+ * every request it receives.
+ */
+export function createFixtureFetch(fixture: RecordedSwapFixture, requests: RecordedRequest[] = []): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = init?.method || 'GET';
+    requests.push({
+      url,
+      method,
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+    });
+
+    const path = new URL(url).pathname;
+    if (path.endsWith('/quote')) {
+      return Response.json(fixture.quote);
+    }
+    if (path.endsWith('/swap') && method === 'POST') {
+      return Response.json(fixture.swap);
+    }
+    return new Response(`No fixture for ${method} ${path}`, { status: 404 });
+  };
+}
+
+/**
+ * The Jupiter adapter replaying a recorded fixture, for offline use. Response
+ * parsing and transaction deserialization run exactly as they do live.
+ */
+export class FixtureSwapAdapter extends JupiterSwapAdapter {
+  readonly requests: RecordedRequest[];
+
+  constructor(private fixture: RecordedSwapFixture = SWAP_FIXTURES['jupiter-v6-sol-usdc']) {
+    const requests: RecordedRequest[] = [];
+    super({
+      // Never contacted; simulate() is answered from the fixture
+      connection: new Connection('http://127.0.0.1:8899'),
+      baseUrl: 'https://fixtures.invalid/v6',
+      fetch: createFixtureFetch(fixture, requests),
+    });
+    this.requests = requests;
+  }
+
+  async simulate(): Promise<SwapSimulation> {
+    return { ...this.fixture.simulation, logs: [...this.fixture.simulation.logs] };
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { FixtureSwapAdapter, SWAP_FIXTURES } from './fixture-adapter';
+import { SwapAdapterError } from './types';
+
+const fixture = SWAP_FIXTURES['jupiter-v6-sol-usdc'];
+
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+const ASSOCIATED_TOKEN = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const SYSTEM = '11111111111111111111111111111111';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+const request = {
+  inputMint: fixture.quote.inputMint,
+  outputMint: fixture.quote.outputMint,
+  amount: fixture.quote.inAmount,
+  slippageBps: fixture.quote.slippageBps,
+};
+
+describe('JupiterSwapAdapter', () => {
+  it('maps a v6 quote', async () => {
+    const adapter = new FixtureSwapAdapter(fixture);
+    const quote = await adapter.quote(request);
+
+    expect(quote).toMatchObject({
+      adapter: 'jupiter-v6',
+      inAmount: '500000000',
+      outAmount: '71843215',
+      otherAmountThreshold: '71484000',
+      slippageBps: 50,
+      contextSlot: 287654321,
+    });
+    expect(quote.priceImpact).toBeCloseTo(0.000187);
+    expect(quote.route.map(leg => [leg.label, leg.percent])).toEqual([['Raydium', 70], ['Whirlpool', 30]]);
+    expect(quote.raw).toEqual(fixture.quote);
+  });
+
+  it('requests the quote with the swap parameters', async () => {
+    const adapter = new FixtureSwapAdapter(fixture);
+    await adapter.quote(request);
+
+    expect(adapter.requests).toHaveLength(1);
+    const url = new URL(adapter.requests[0].url);
+    expect(url.pathname).toBe('/v6/quote');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.amount,
+      slippageBps: '50',
+    });
+  });
+
+  it('posts the raw quote to /swap and deserializes the transaction', async () => {
+    const adapter = new FixtureSwapAdapter(fixture);
+    const quote = await adapter.quote(request);
+    const built = await adapter.buildTransaction({
+      quote,
+      userPublicKey: fixture.userPublicKey,
+      computeUnitPriceMicroLamports: 1000,
+    });
+
+    expect(adapter.requests[1]).toMatchObject({
+      method: 'POST',
+      body: {
+        quoteResponse: fixture.quote,
+        userPublicKey: fixture.userPublicKey,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        computeUnitPriceMicroLamports: 1000,
+      },
+    });
+    expect(built).toMatchObject({
+      lastValidBlockHeight: 265432198,
+      prioritizationFeeLamports: 184,
+      computeUnitLimit: 184000,
+    });
+
+    const { message } = built.transaction;
+    const keys = message.staticAccountKeys.map(key => key.toBase58());
+    expect(keys[0]).toBe(fixture.userPublicKey);
+    expect(message.compiledInstructions.map(ix => keys[ix.programIdIndex])).toEqual([
+      COMPUTE_BUDGET,
+      COMPUTE_BUDGET,
+      ASSOCIATED_TOKEN, // wSOL account
+      SYSTEM,           // Wrap the input SOL
+      TOKEN,            // SyncNative
+      ASSOCIATED_TOKEN, // USDC account
+      JUPITER,          // Route
+      TOKEN,            // Close the wSOL account
+    ]);
+
+    const route = message.compiledInstructions[6];
+    expect(Buffer.from(route.data.slice(0, 8)).toString('hex')).toBe('e517cb977ae3ad2a');
+    expect(keys[route.accountKeyIndexes[1]]).toBe(fixture.userPublicKey);
+  });
+
+  it('refuses to build from another adapter\'s quote', async () => {
+    const adapter = new FixtureSwapAdapter(fixture);
+    const quote = await adapter.quote(request);
+
+    await expect(adapter.buildTransaction({ quote: { ...quote, adapter: 'other' }, userPublicKey: fixture.userPublicKey }))
+      .rejects.toBeInstanceOf(SwapAdapterError);
+  });
+
+  it('replays the recorded simulation', async () => {
+    const simulation = await new FixtureSwapAdapter(fixture).simulate();
+
+    expect(simulation.success).toBe(true);
+    expect(simulation.logs).toContain(`Program ${JUPITER} invoke [1]`);
+    expect(simulation.logs).not.toBe(fixture.simulation.logs);
+  });
+});
@@ -0,0 +1,158 @@
+import { Connection, VersionedTransaction } from '@solana/web3.js';
+import {
+  BuildSwapRequest,
+  BuiltSwap,
+  SwapAdapter,
+  SwapAdapterError,
+  SwapQuote,
+  SwapQuoteRequest,
+  SwapSimulation,
+} from './types';
+
+const ADAPTER_NAME = 'jupiter-v6';
+
+/**
+ * Jupiter v6 quote response, trimmed to the fields we read
+ */
+export interface JupiterQuoteResponse {
+  inputMint: string;
+  inAmount: string;
+  outputMint: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  swapMode: string;
+  slippageBps: number;
+  priceImpactPct: string;
+  routePlan: Array<{
+    swapInfo: {
+      ammKey: string;
+      label?: string;
+      inputMint: string;
+      outputMint: string;
+      inAmount: string;
+      outAmount: string;
+      feeAmount: string;
+      feeMint: string;
+    };
+    percent: number;
+  }>;
+  contextSlot?: number;
+}
+
+export interface JupiterSwapResponse {
+  swapTransaction: string; // base64 serialized VersionedTransaction
+  lastValidBlockHeight: number;
+  prioritizationFeeLamports?: number;
+  computeUnitLimit?: number;
+}
+
+export interface JupiterAdapterOptions {
+  connection: Connection;
+  baseUrl?: string;
+  // Injected so recorded responses can be replayed offline
+  fetch?: typeof fetch;
+}
+
+export class JupiterSwapAdapter implements SwapAdapter {
+  readonly name = ADAPTER_NAME;
+  private connection: Connection;
+  private baseUrl: string;
+  private fetchFn: typeof fetch;
+
+  constructor(options: JupiterAdapterOptions) {
+    this.connection = options.connection;
+    this.baseUrl = (options.baseUrl || process.env.JUPITER_API_URL || 'https://quote-api.jup.ag/v6').replace(/\/$/, '');
+    this.fetchFn = options.fetch || fetch;
+  }
+
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const params = new URLSearchParams({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.amount,
+      slippageBps: String(request.slippageBps),
+      onlyDirectRoutes: String(request.onlyDirectRoutes ?? false),
+    });
+
+    const quote = await this.request<JupiterQuoteResponse>(`/quote?${params}`);
+
+    return {
+      adapter: ADAPTER_NAME,
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      inAmount: quote.inAmount,
+      outAmount: quote.outAmount,
+      otherAmountThreshold: quote.otherAmountThreshold,
+      slippageBps: quote.slippageBps,
+      priceImpact: Number(quote.priceImpactPct) || 0,
+      route: quote.routePlan.map(leg => ({
+        ammKey: leg.swapInfo.ammKey,
+        label: leg.swapInfo.label || 'Unknown',
+        inputMint: leg.swapInfo.inputMint,
+        outputMint: leg.swapInfo.outputMint,
+        inAmount: leg.swapInfo.inAmount,
+        outAmount: leg.swapInfo.outAmount,
+        feeAmount: leg.swapInfo.feeAmount,
+        feeMint: leg.swapInfo.feeMint,
+        percent: leg.percent,
+      })),
+      contextSlot: quote.contextSlot,
+      raw: quote,
+    };
+  }
+
+  async buildTransaction(request: BuildSwapRequest): Promise<BuiltSwap> {
+    if (request.quote.adapter !== ADAPTER_NAME) {
+      throw new SwapAdapterError(ADAPTER_NAME, `Cannot build a swap from a ${request.quote.adapter} quote`);
+    }
+
+    const swap = await this.request<JupiterSwapResponse>('/swap', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: request.quote.raw,
+        userPublicKey: request.userPublicKey,
+        wrapAndUnwrapSol: request.wrapAndUnwrapSol ?? true,
+        dynamicComputeUnitLimit: true,
+        computeUnitPriceMicroLamports: request.computeUnitPriceMicroLamports,
+      }),
+    });
+
+    return {
+      transaction: VersionedTransaction.deserialize(Buffer.from(swap.swapTransaction, 'base64')),
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+      prioritizationFeeLamports: swap.prioritizationFeeLamports || 0,
+      computeUnitLimit: swap.computeUnitLimit,
+    };
+  }
+
+  /**
+   * Simulate without signatures; the blockhash is replaced so a quote that
+   * has aged a few slots still simulates.
+   */
+  async simulate(transaction: VersionedTransaction): Promise<SwapSimulation> {
+    const simulation = await this.connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+
+    return {
+      success: !simulation.value.err,
+      error: simulation.value.err ? JSON.stringify(simulation.value.err) : undefined,
+      logs: simulation.value.logs || [],
+      unitsConsumed: simulation.value.unitsConsumed,
+    };
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await this.fetchFn(`${this.baseUrl}${path}`, init);
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new SwapAdapterError(ADAPTER_NAME, `${path.split('?')[0]} failed with ${response.status}: ${body}`, response.status);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
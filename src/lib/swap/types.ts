@@ -0,0 +1,82 @@
+import type { VersionedTransaction } from '@solana/web3.js';
+
+/**
+ * Amounts are raw base units as integer strings, as returned by aggregators,
+ * so they survive JSON round trips without losing precision.
+ */
+export interface SwapQuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  slippageBps: number;
+  onlyDirectRoutes?: boolean;
+}
+
+export interface SwapRouteLeg {
+  ammKey: string;
+  label: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  feeAmount: string;
+  feeMint: string;
+  percent: number;
+}
+
+export interface SwapQuote {
+  adapter: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string; // Minimum out after slippage
+  slippageBps: number;
+  priceImpact: number; // Fraction, 0.01 = 1%
+  route: SwapRouteLeg[];
+  contextSlot?: number;
+  raw: unknown; // Adapter-specific quote, passed back when building
+}
+
+export interface BuildSwapRequest {
+  quote: SwapQuote;
+  userPublicKey: string;
+  computeUnitPriceMicroLamports?: number;
+  wrapAndUnwrapSol?: boolean;
+}
+
+export interface BuiltSwap {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+  prioritizationFeeLamports: number;
+  computeUnitLimit?: number;
+}
+
+export interface SwapSimulation {
+  success: boolean;
+  error?: string;
+  logs: string[];
+  unitsConsumed?: number;
+}
+
+/**
+ * A DEX or aggregator integration. Implementations must not sign; the caller
+ * signs the built transaction with its own wallet.
+ */
+export interface SwapAdapter {
+  readonly name: string;
+  quote(request: SwapQuoteRequest): Promise<SwapQuote>;
+  buildTransaction(request: BuildSwapRequest): Promise<BuiltSwap>;
+  simulate(transaction: VersionedTransaction): Promise<SwapSimulation>;
+}
+
+export class SwapAdapterError extends Error {
+  constructor(
+    public readonly adapter: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${adapter}] ${message}`);
+    this.name = 'SwapAdapterError';
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TOKEN_SAFETY_THRESHOLDS, TokenSafetyAnalyzer, detectRugPatterns, evaluateTokenSafety } from './analyzer';
+import { FixtureTokenDataSource, RecordedTokenFixture, TOKEN_SAFETY_FIXTURES } from './fixture-source';
+
+// Analysis itself never queries the database
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const safeToken = TOKEN_SAFETY_FIXTURES['revoked-authorities-burned-lp'];
+const riskyToken = TOKEN_SAFETY_FIXTURES['active-mint-authority-dev-heavy'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Analyze as of the moment the fixture was recorded, plus an offset
+const analyzerAt = (fixture: RecordedTokenFixture, offsetMs = 0) =>
+  new TokenSafetyAnalyzer(new FixtureTokenDataSource(), () => fixture.recordedAt * 1000 + offsetMs);
+
+describe('TokenSafetyAnalyzer', () => {
+  it('reports revoked authorities, burned LP and broad buying', async () => {
+    const report = await analyzerAt(safeToken).analyze(safeToken.mint);
+
+    expect(report).toMatchObject({
+      mint: safeToken.mint,
+      analyzedAt: new Date(safeToken.recordedAt * 1000).toISOString(),
+      supply: 1000000000,
+      decimals: 6,
+      mintAuthority: null,
+      freezeAuthority: null,
+      creator: safeToken.creator,
+      devWalletShare: 0.02,
+      holderCount: 2841,
+      recentUniqueBuyers: 16,
+      devWalletSold: 0,
+      creatorLiquidityRemoved: false,
+      warnings: [],
+    });
+    expect(report.liquidity).toMatchObject({ liquidityUsd: 185000, lpBurnedPercent: 100, lpLockedPercent: 100 });
+  });
+
+  it('leaves the pool authority out of the top holders', async () => {
+    const report = await analyzerAt(safeToken).analyze(safeToken.mint);
+
+    expect(report.topHolders).toHaveLength(10);
+    expect(report.topHolders.map(holder => holder.owner)).not.toContain('5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1');
+    expect(report.topHolders[0]).toEqual({ owner: '2LrByi1WCeTj8hWiTFom79STwURKxXoJ66JrrB8Qxijb', amount: 41000000, share: 0.041 });
+    expect(report.topHolderShare).toBeCloseTo(0.193);
+  });
+
+  it('counts only buyers within the last hour of its clock', async () => {
+    const halfHourLater = await analyzerAt(safeToken, HOUR_MS / 2).analyze(safeToken.mint);
+    const twoHoursLater = await analyzerAt(safeToken, 2 * HOUR_MS).analyze(safeToken.mint);
+
+    expect(halfHourLater.recentUniqueBuyers).toBe(13);
+    expect(twoHoursLater.recentUniqueBuyers).toBe(0);
+  });
+
+  it('counts repeat buyers once', async () => {
+    const report = await analyzerAt(riskyToken).analyze(riskyToken.mint);
+
+    expect(report.recentUniqueBuyers).toBe(4);
+  });
+
+  it('reports an active mint authority, a dev-heavy supply and unlocked LP', async () => {
+    const report = await analyzerAt(riskyToken).analyze(riskyToken.mint);
+
+    expect(report.mintAuthority).toBe(riskyToken.creator);
+    expect(report.devWalletShare).toBeCloseTo(0.42);
+    expect(report.topHolderShare).toBeCloseTo(0.57);
+    expect(report.liquidity).toMatchObject({ liquidityUsd: 8400, lpBurnedPercent: 0, lpLockedPercent: 0 });
+  });
+
+  it('rejects mints the source does not know', async () => {
+    const analyzer = analyzerAt(safeToken);
+
+    await expect(analyzer.analyze('So11111111111111111111111111111111111111112')).rejects.toThrow('is not an SPL token mint');
+  });
+});
+
+describe('evaluateTokenSafety', () => {
+  it('passes a token within every limit', async () => {
+    const assessment = evaluateTokenSafety(await analyzerAt(safeToken).analyze(safeToken.mint));
+
+    expect(assessment).toMatchObject({ safe: true, riskScore: 0, reasons: [], rugPatterns: [] });
+  });
+
+  it('fails each hard check the risky token breaks', async () => {
+    const assessment = evaluateTokenSafety(await analyzerAt(riskyToken).analyze(riskyToken.mint));
+
+    expect(assessment.safe).toBe(false);
+    expect(assessment.riskScore).toBe(1);
+    expect(assessment.reasons).toEqual([
+      'Mint authority has not been revoked',
+      'Dev wallet holds 42.0% of supply (limit 30.0%)',
+      'Only 4 unique buyers in the last hour (minimum 10)',
+      'Liquidity $8400 below minimum $20000',
+      'Only 0.0% of LP burned or locked',
+      'Top 10 holders own 57.0% of supply',
+    ]);
+  });
+
+  it('applies the user\'s thresholds', async () => {
+    const report = await analyzerAt(safeToken).analyze(safeToken.mint);
+    const assessment = evaluateTokenSafety(report, { ...DEFAULT_TOKEN_SAFETY_THRESHOLDS, minBuyerConfirmation: 20, minLiquidity: 200000 });
+
+    expect(assessment.safe).toBe(false);
+    expect(assessment.reasons).toEqual([
+      'Only 16 unique buyers in the last hour (minimum 20)',
+      'Liquidity $185000 below minimum $200000',
+    ]);
+  });
+
+  it('fails and flags a creator dumping supply', async () => {
+    const report = await analyzerAt(safeToken).analyze(safeToken.mint);
+    const assessment = evaluateTokenSafety({ ...report, devWalletSold: 0.1, creatorLiquidityRemoved: true });
+
+    expect(assessment.safe).toBe(false);
+    expect(assessment.rugPatterns).toEqual(detectRugPatterns({ ...report, devWalletSold: 0.1, creatorLiquidityRemoved: true }));
+    expect(assessment.rugPatterns).toEqual(['Dev wallet sold 10.0% of supply', 'Creator pulled pool liquidity']);
+  });
+});
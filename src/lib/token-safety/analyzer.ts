@@ -0,0 +1,347 @@
+import { prisma } from '@/lib/prisma';
+import type { DecodedTransaction } from '@/lib/helius/heliusClient';
+import { HeliusTokenDataSource } from './helius-source';
+import {
+  TokenDataSource,
+  TokenHolder,
+  TokenSafetyAssessment,
+  TokenSafetyReport,
+  TokenSafetyThresholds,
+} from './types';
+
+const CACHE_TTL_MS = Number(process.env.TOKEN_SAFETY_CACHE_TTL_MS || 5 * 60 * 1000);
+const TOP_HOLDER_COUNT = 10;
+const RECENT_BUYER_WINDOW_MS = 60 * 60 * 1000;
+const RUG_DEV_SELL_SHARE = 0.05;
+const LIQUIDITY_WITHDRAWAL_TYPES = new Set(['WITHDRAW_LIQUIDITY', 'REMOVE_LIQUIDITY']);
+
+const INCINERATOR = '1nc1nerator11111111111111111111111111111111';
+
+// Pool vault authorities and burn addresses; their balances are not circulating supply
+const NON_CIRCULATING_OWNERS = new Set([
+  INCINERATOR,
+  '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1', // Raydium AMM v4 authority
+  'GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL', // Raydium CPMM authority
+]);
+
+// Owners whose LP tokens count as locked
+const LP_LOCK_OWNERS = new Set([
+  INCINERATOR,
+  'LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE', // Raydium Burn & Earn
+  'strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m', // Streamflow
+]);
+
+// Matches the TradingSettings column defaults
+export const DEFAULT_TOKEN_SAFETY_THRESHOLDS: TokenSafetyThresholds = {
+  minLiquidity: 20000,
+  minBuyerConfirmation: 10,
+  maxDevWalletControl: 0.30,
+  maxTopHolderShare: 0.5,
+  minLpBurnedOrLocked: 90
+};
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+/**
+ * Signs the token is being rugged right now: the creator dumping supply or
+ * pulling pool liquidity. Unlike other failures these blacklist the token.
+ */
+export function detectRugPatterns(report: TokenSafetyReport): string[] {
+  const patterns: string[] = [];
+
+  if (report.devWalletSold !== null && report.devWalletSold >= RUG_DEV_SELL_SHARE) {
+    patterns.push(`Dev wallet sold ${percent(report.devWalletSold)} of supply`);
+  }
+  if (report.creatorLiquidityRemoved) {
+    patterns.push('Creator pulled pool liquidity');
+  }
+
+  return patterns;
+}
+
+/**
+ * Score a safety report against a user's limits. Active mint or freeze
+ * authority, too much supply in the dev wallet, too few recent buyers, thin
+ * liquidity and rug patterns fail the token outright; holder concentration,
+ * unburned LP and checks that could not run only add to the risk score.
+ */
+export function evaluateTokenSafety(
+  report: TokenSafetyReport,
+  thresholds: TokenSafetyThresholds = DEFAULT_TOKEN_SAFETY_THRESHOLDS
+): TokenSafetyAssessment {
+  const reasons: string[] = [];
+  let safe = true;
+  let riskScore = 0;
+
+  const fail = (reason: string, weight: number) => {
+    safe = false;
+    riskScore += weight;
+    reasons.push(reason);
+  };
+  const warn = (reason: string, weight: number) => {
+    riskScore += weight;
+    reasons.push(reason);
+  };
+
+  if (report.mintAuthority) {
+    fail('Mint authority has not been revoked', 0.4);
+  }
+  if (report.freezeAuthority) {
+    fail('Freeze authority has not been revoked', 0.4);
+  }
+
+  if (report.devWalletShare === null) {
+    warn('Dev wallet share unknown', 0.05);
+  } else if (report.devWalletShare > thresholds.maxDevWalletControl) {
+    fail(`Dev wallet holds ${percent(report.devWalletShare)} of supply (limit ${percent(thresholds.maxDevWalletControl)})`, 0.3);
+  }
+
+  if (report.recentUniqueBuyers === null) {
+    warn('Recent buyer activity unknown', 0.05);
+  } else if (report.recentUniqueBuyers < thresholds.minBuyerConfirmation) {
+    fail(`Only ${report.recentUniqueBuyers} unique buyers in the last hour (minimum ${thresholds.minBuyerConfirmation})`, 0.2);
+  }
+
+  if (!report.liquidity) {
+    warn('No liquidity pool found', 0.2);
+  } else {
+    if (report.liquidity.liquidityUsd < thresholds.minLiquidity) {
+      fail(`Liquidity $${report.liquidity.liquidityUsd.toFixed(0)} below minimum $${thresholds.minLiquidity}`, 0.3);
+    }
+
+    const lpSecured = report.liquidity.lpBurnedPercent + report.liquidity.lpLockedPercent;
+    if (lpSecured < thresholds.minLpBurnedOrLocked) {
+      warn(`Only ${lpSecured.toFixed(1)}% of LP burned or locked`, 0.2);
+    }
+  }
+
+  if (report.topHolderShare > thresholds.maxTopHolderShare) {
+    warn(`Top ${TOP_HOLDER_COUNT} holders own ${percent(report.topHolderShare)} of supply`, 0.2);
+  }
+
+  const rugPatterns = detectRugPatterns(report);
+  rugPatterns.forEach(pattern => fail(pattern, 1));
+
+  reasons.push(...report.warnings);
+
+  return { safe, riskScore: Math.min(riskScore, 1), reasons, rugPatterns, report };
+}
+
+/**
+ * On-chain token safety checks: mint and freeze authority, holder
+ * concentration, dev wallet share, LP burn and lock status, holder count and
+ * recent unique buyers. Reports are cached per mint.
+ */
+export class TokenSafetyAnalyzer {
+  private prisma = prisma;
+  private source?: TokenDataSource;
+  private cache = new Map<string, { expiresAt: number; report: Promise<TokenSafetyReport> }>();
+  private now: () => number;
+
+  /**
+   * `now` is the clock recent activity is measured against, in milliseconds
+   */
+  constructor(source?: TokenDataSource, now: () => number = Date.now) {
+    this.source = source;
+    this.now = now;
+  }
+
+  setDataSource(source: TokenDataSource): void {
+    this.source = source;
+    this.cache.clear();
+  }
+
+  /**
+   * Cached safety report for a mint. Concurrent callers share one analysis.
+   */
+  analyze(mint: string): Promise<TokenSafetyReport> {
+    const cached = this.cache.get(mint);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.report;
+    }
+
+    const report = this.buildReport(mint);
+    this.cache.set(mint, { expiresAt: this.now() + CACHE_TTL_MS, report });
+    report.catch(() => this.cache.delete(mint));
+    return report;
+  }
+
+  async assess(mint: string, thresholds?: TokenSafetyThresholds): Promise<TokenSafetyAssessment> {
+    return evaluateTokenSafety(await this.analyze(mint), thresholds);
+  }
+
+  /**
+   * Safety limits from the user's TradingSettings, with defaults for the rest
+   */
+  async getUserThresholds(userId: string): Promise<TokenSafetyThresholds> {
+    const settings = await this.prisma.tradingSettings.findUnique({ where: { userId } });
+    if (!settings) return DEFAULT_TOKEN_SAFETY_THRESHOLDS;
+
+    return {
+      ...DEFAULT_TOKEN_SAFETY_THRESHOLDS,
+      minLiquidity: settings.minLiquidity,
+      minBuyerConfirmation: settings.minBuyerConfirmation,
+      maxDevWalletControl: settings.maxDevWalletControl
+    };
+  }
+
+  invalidate(mint?: string): void {
+    if (mint) {
+      this.cache.delete(mint);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private getSource(): TokenDataSource {
+    if (!this.source) {
+      this.source = new HeliusTokenDataSource();
+    }
+    return this.source;
+  }
+
+  private async buildReport(mint: string): Promise<TokenSafetyReport> {
+    const source = this.getSource();
+    const warnings: string[] = [];
+
+    // Everything but the mint account is best effort; failures are reported, not thrown
+    const attempt = async <T>(check: string, run: () => Promise<T>, fallback: T): Promise<T> => {
+      try {
+        return await run();
+      } catch (error) {
+        console.warn(`Token safety check "${check}" failed for ${mint}:`, error);
+        warnings.push(`${check} check unavailable`);
+        return fallback;
+      }
+    };
+
+    const mintAccount = await source.getMintAccount(mint);
+    if (!mintAccount) {
+      throw new Error(`${mint} is not an SPL token mint`);
+    }
+
+    const rawSupply = Number(mintAccount.supply);
+    const scale = 10 ** mintAccount.decimals;
+
+    const [largest, pool, creator, holderCount, transactions] = await Promise.all([
+      attempt('Top holders', () => source.getLargestAccounts(mint), []),
+      attempt('Liquidity pool', () => source.getLiquidityPool(mint), null),
+      attempt('Creator', () => source.getCreator(mint), null),
+      attempt('Holder count', () => source.getHolderCount(mint), null),
+      attempt('Recent buyers', () => source.getRecentTransactions(mint), null as DecodedTransaction[] | null)
+    ]);
+
+    const excluded = new Set(NON_CIRCULATING_OWNERS);
+    if (pool) excluded.add(pool.poolId);
+
+    const owners = await attempt('Holder owners', () => source.getAccountOwners(largest.map(account => account.address)), {});
+    const balances = new Map<string, number>();
+    for (const account of largest) {
+      const owner = owners[account.address] ?? account.address;
+      if (excluded.has(owner)) continue;
+      balances.set(owner, (balances.get(owner) ?? 0) + Number(account.amount));
+    }
+
+    const topHolders: TokenHolder[] = Array.from(balances.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, TOP_HOLDER_COUNT)
+      .map(([owner, amount]) => ({
+        owner,
+        amount: amount / scale,
+        share: rawSupply > 0 ? amount / rawSupply : 0
+      }));
+
+    const devBalance = creator
+      ? await attempt('Dev wallet', () => source.getOwnerBalance(creator, mint), null)
+      : null;
+
+    const lpLockedPercent = pool?.lpMint
+      ? await attempt('LP lock', () => this.getLockedPercent(source, pool.lpMint!), 0)
+      : 0;
+
+    return {
+      mint,
+      analyzedAt: new Date(this.now()).toISOString(),
+      supply: rawSupply / scale,
+      decimals: mintAccount.decimals,
+      mintAuthority: mintAccount.mintAuthority,
+      freezeAuthority: mintAccount.freezeAuthority,
+      topHolders,
+      topHolderShare: topHolders.reduce((sum, holder) => sum + holder.share, 0),
+      creator,
+      devWalletShare: devBalance !== null && rawSupply > 0 ? Number(devBalance) / rawSupply : null,
+      holderCount,
+      recentUniqueBuyers: transactions ? this.countRecentBuyers(transactions, mint, excluded) : null,
+      devWalletSold: transactions && creator && rawSupply > 0
+        ? this.sumCreatorSales(transactions, mint, creator) / (rawSupply / scale)
+        : null,
+      creatorLiquidityRemoved: transactions && creator ? this.creatorRemovedLiquidity(transactions, mint, creator) : null,
+      liquidity: pool ? { ...pool, lpLockedPercent } : null,
+      warnings
+    };
+  }
+
+  /**
+   * Share of LP supply held by lockers or the incinerator, in percent
+   */
+  private async getLockedPercent(source: TokenDataSource, lpMint: string): Promise<number> {
+    const lpAccount = await source.getMintAccount(lpMint);
+    const lpSupply = Number(lpAccount?.supply ?? 0);
+    if (lpSupply <= 0) return 0;
+
+    const accounts = await source.getLargestAccounts(lpMint);
+    const owners = await source.getAccountOwners(accounts.map(account => account.address));
+    const locked = accounts
+      .filter(account => LP_LOCK_OWNERS.has(owners[account.address]))
+      .reduce((sum, account) => sum + Number(account.amount), 0);
+
+    return (locked / lpSupply) * 100;
+  }
+
+  /**
+   * Wallets that received the token from a swap within the last hour
+   */
+  private countRecentBuyers(transactions: DecodedTransaction[], mint: string, excluded: Set<string>): number {
+    const since = this.now() - RECENT_BUYER_WINDOW_MS;
+    const buyers = new Set<string>();
+
+    for (const transaction of transactions) {
+      if (transaction.type !== 'SWAP') continue;
+      if (transaction.timestamp && transaction.timestamp * 1000 < since) continue;
+
+      for (const transfer of transaction.tokenTransfers || []) {
+        if (transfer.mint === mint && transfer.toUserAccount && !excluded.has(transfer.toUserAccount)) {
+          buyers.add(transfer.toUserAccount);
+        }
+      }
+    }
+
+    return buyers.size;
+  }
+
+  /**
+   * Tokens the creator sent into swaps across the recent transactions, in UI units
+   */
+  private sumCreatorSales(transactions: DecodedTransaction[], mint: string, creator: string): number {
+    return transactions
+      .filter(transaction => transaction.type === 'SWAP')
+      .flatMap(transaction => transaction.tokenTransfers || [])
+      .filter(transfer => transfer.mint === mint && transfer.fromUserAccount === creator)
+      .reduce((sum, transfer) => sum + transfer.tokenAmount, 0);
+  }
+
+  private creatorRemovedLiquidity(transactions: DecodedTransaction[], mint: string, creator: string): boolean {
+    return transactions.some(transaction =>
+      LIQUIDITY_WITHDRAWAL_TYPES.has(transaction.type ?? '')
+      && (transaction.tokenTransfers || []).some(transfer => transfer.mint === mint && transfer.toUserAccount === creator)
+    );
+  }
+}
+
+const globalForTokenSafety = globalThis as unknown as {
+  tokenSafetyAnalyzer: TokenSafetyAnalyzer | undefined
+};
+
+export const tokenSafetyAnalyzer = globalForTokenSafety.tokenSafetyAnalyzer ?? new TokenSafetyAnalyzer();
+
+globalForTokenSafety.tokenSafetyAnalyzer = tokenSafetyAnalyzer;
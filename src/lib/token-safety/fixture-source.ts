@@ -0,0 +1,91 @@
+import type { DecodedTransaction } from '@/lib/helius/heliusClient';
+import { LiquidityPoolData, MintAccountData, TokenAccountBalance, TokenDataSource } from './types';
+import activeMintAuthorityDevHeavy from './fixtures/active-mint-authority-dev-heavy.json';
+import revokedAuthoritiesBurnedLp from './fixtures/revoked-authorities-burned-lp.json';
+
+/**
+ * Account data for one token and its LP mint, as the data source would
+ * return it. `recordedAt` is a unix timestamp in seconds.
+ */
+export interface RecordedTokenFixture {
+  name: string;
+  description?: string;
+  mint: string;
+  recordedAt: number;
+  mints: Record<string, MintAccountData>;
+  largestAccounts: Record<string, TokenAccountBalance[]>;
+  owners: Record<string, string>;
+  holderCount: number | null;
+  creator: string | null;
+  ownerBalances: Record<string, string>; // keyed by `${owner}:${mint}`
+  transactions: DecodedTransaction[];
+  pool: LiquidityPoolData | null;
+}
+
+export const TOKEN_SAFETY_FIXTURES: Record<string, RecordedTokenFixture> = {
+  'revoked-authorities-burned-lp': revokedAuthoritiesBurnedLp as RecordedTokenFixture,
+  'active-mint-authority-dev-heavy': activeMintAuthorityDevHeavy as RecordedTokenFixture,
+};
+
+/**
+ * Serves recorded account data for offline analysis. Transactions keep their
+ * recorded timestamps; analyze them with a clock set to the fixture's
+ * `recordedAt`.
+ */
+export class FixtureTokenDataSource implements TokenDataSource {
+  private fixtures = new Map<string, RecordedTokenFixture>();
+
+  constructor(fixtures: RecordedTokenFixture[] = Object.values(TOKEN_SAFETY_FIXTURES)) {
+    for (const fixture of fixtures) {
+      for (const mint of Object.keys(fixture.mints)) {
+        this.fixtures.set(mint, fixture);
+      }
+    }
+  }
+
+  async getMintAccount(mint: string): Promise<MintAccountData | null> {
+    return this.fixtures.get(mint)?.mints[mint] ?? null;
+  }
+
+  async getLargestAccounts(mint: string): Promise<TokenAccountBalance[]> {
+    return this.fixture(mint).largestAccounts[mint] ?? [];
+  }
+
+  async getAccountOwners(tokenAccounts: string[]): Promise<Record<string, string>> {
+    const owners: Record<string, string> = {};
+    for (const fixture of this.fixtures.values()) {
+      for (const address of tokenAccounts) {
+        if (fixture.owners[address]) owners[address] = fixture.owners[address];
+      }
+    }
+    return owners;
+  }
+
+  async getHolderCount(mint: string): Promise<number | null> {
+    return this.fixture(mint).holderCount;
+  }
+
+  async getCreator(mint: string): Promise<string | null> {
+    return this.fixture(mint).creator;
+  }
+
+  async getOwnerBalance(owner: string, mint: string): Promise<string> {
+    return this.fixture(mint).ownerBalances[`${owner}:${mint}`] ?? '0';
+  }
+
+  async getRecentTransactions(mint: string): Promise<DecodedTransaction[]> {
+    return this.fixture(mint).transactions;
+  }
+
+  async getLiquidityPool(mint: string): Promise<LiquidityPoolData | null> {
+    return this.fixture(mint).pool;
+  }
+
+  private fixture(mint: string): RecordedTokenFixture {
+    const fixture = this.fixtures.get(mint);
+    if (!fixture) {
+      throw new Error(`No token safety fixture for ${mint}`);
+    }
+    return fixture;
+  }
+}
@@ -0,0 +1,178 @@
+import { ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { DecodedTransaction, HeliusClient } from '@/lib/helius/heliusClient';
+import { LiquidityPoolData, MintAccountData, TokenAccountBalance, TokenDataSource } from './types';
+
+const HOLDER_PAGE_SIZE = 1000;
+const MAX_HOLDER_PAGES = 5;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 3;
+const RECENT_TRANSACTION_LIMIT = 100;
+
+export interface HeliusTokenDataSourceOptions {
+  client?: HeliusClient;
+  raydiumApiUrl?: string;
+  fetch?: typeof fetch;
+}
+
+interface RaydiumPoolsResponse {
+  success: boolean;
+  data?: {
+    data?: Array<{
+      id: string;
+      tvl?: number;
+      burnPercent?: number;
+      lpMint?: { address: string };
+    }>;
+  };
+}
+
+interface DasTokenAccountsResponse {
+  result?: {
+    token_accounts?: Array<{ owner: string; amount: number }>;
+  };
+  error?: { message: string };
+}
+
+/**
+ * Reads mint, holder and pool data through Helius RPC. Holder counts use the
+ * Helius DAS `getTokenAccounts` method and pool data comes from the Raydium
+ * API, so both degrade to null against a plain Solana RPC.
+ */
+export class HeliusTokenDataSource implements TokenDataSource {
+  private client: HeliusClient;
+  private raydiumApiUrl: string;
+  private fetchFn: typeof fetch;
+
+  constructor(options: HeliusTokenDataSourceOptions = {}) {
+    this.client = options.client || new HeliusClient();
+    this.raydiumApiUrl = (options.raydiumApiUrl || process.env.RAYDIUM_API_URL || 'https://api-v3.raydium.io').replace(/\/$/, '');
+    this.fetchFn = options.fetch || fetch;
+  }
+
+  async getMintAccount(mint: string): Promise<MintAccountData | null> {
+    const account = await this.client.getConnection().getParsedAccountInfo(new PublicKey(mint));
+    const data = account.value?.data as ParsedAccountData | Buffer | undefined;
+    if (!data || Buffer.isBuffer(data) || data.parsed?.type !== 'mint') {
+      return null;
+    }
+
+    const info = data.parsed.info as Record<string, unknown>;
+    return {
+      supply: String(info.supply ?? '0'),
+      decimals: Number(info.decimals ?? 0),
+      mintAuthority: (info.mintAuthority as string | null) ?? null,
+      freezeAuthority: (info.freezeAuthority as string | null) ?? null
+    };
+  }
+
+  async getLargestAccounts(mint: string): Promise<TokenAccountBalance[]> {
+    const response = await this.client.getConnection().getTokenLargestAccounts(new PublicKey(mint));
+    return response.value.map(account => ({
+      address: account.address.toBase58(),
+      amount: account.amount
+    }));
+  }
+
+  async getAccountOwners(tokenAccounts: string[]): Promise<Record<string, string>> {
+    if (tokenAccounts.length === 0) return {};
+
+    const response = await this.client.getConnection().getMultipleParsedAccounts(
+      tokenAccounts.map(address => new PublicKey(address))
+    );
+
+    const owners: Record<string, string> = {};
+    response.value.forEach((account, index) => {
+      const data = account?.data as ParsedAccountData | Buffer | undefined;
+      if (data && !Buffer.isBuffer(data) && data.parsed?.info?.owner) {
+        owners[tokenAccounts[index]] = String(data.parsed.info.owner);
+      }
+    });
+    return owners;
+  }
+
+  async getHolderCount(mint: string): Promise<number | null> {
+    const owners = new Set<string>();
+
+    for (let page = 1; page <= MAX_HOLDER_PAGES; page++) {
+      const response = await this.fetchFn(this.client.getConnection().rpcEndpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: `holders-${page}`,
+          method: 'getTokenAccounts',
+          params: { mint, page, limit: HOLDER_PAGE_SIZE }
+        })
+      });
+
+      if (!response.ok) return null;
+      const data = await response.json() as DasTokenAccountsResponse;
+      if (data.error || !data.result) return null;
+
+      const accounts = data.result.token_accounts || [];
+      for (const account of accounts) {
+        if (account.amount > 0) owners.add(account.owner);
+      }
+      if (accounts.length < HOLDER_PAGE_SIZE) break;
+    }
+
+    // A lower bound once MAX_HOLDER_PAGES is reached
+    return owners.size;
+  }
+
+  async getCreator(mint: string): Promise<string | null> {
+    const connection = this.client.getConnection();
+    const address = new PublicKey(mint);
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const signatures = await connection.getSignaturesForAddress(address, { before, limit: SIGNATURE_PAGE_SIZE });
+      if (signatures.length === 0) return null;
+
+      before = signatures[signatures.length - 1].signature;
+      if (signatures.length < SIGNATURE_PAGE_SIZE) {
+        const transaction = await connection.getParsedTransaction(before, { maxSupportedTransactionVersion: 0 });
+        return transaction?.transaction.message.accountKeys[0]?.pubkey.toBase58() ?? null;
+      }
+    }
+
+    return null;
+  }
+
+  async getOwnerBalance(owner: string, mint: string): Promise<string> {
+    const response = await this.client.getConnection().getParsedTokenAccountsByOwner(
+      new PublicKey(owner),
+      { mint: new PublicKey(mint) }
+    );
+
+    const total = response.value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed.info.tokenAmount.amount ?? '0'),
+      BigInt(0)
+    );
+    return total.toString();
+  }
+
+  getRecentTransactions(mint: string): Promise<DecodedTransaction[]> {
+    return this.client.getRecentTransactions(mint, RECENT_TRANSACTION_LIMIT);
+  }
+
+  async getLiquidityPool(mint: string): Promise<LiquidityPoolData | null> {
+    const url = `${this.raydiumApiUrl}/pools/info/mint?mint1=${mint}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=1&page=1`;
+    const response = await this.fetchFn(url);
+    if (!response.ok) {
+      throw new Error(`Raydium pool lookup failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as RaydiumPoolsResponse;
+    const pool = data.data?.data?.[0];
+    if (!data.success || !pool) return null;
+
+    return {
+      poolId: pool.id,
+      source: 'raydium',
+      liquidityUsd: pool.tvl ?? 0,
+      lpMint: pool.lpMint?.address ?? null,
+      lpBurnedPercent: pool.burnPercent ?? 0
+    };
+  }
+}
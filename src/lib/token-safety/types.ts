@@ -0,0 +1,87 @@
+import type { DecodedTransaction } from '@/lib/helius/heliusClient';
+
+/**
+ * Parsed SPL mint account. Amounts are raw base-unit strings.
+ */
+export interface MintAccountData {
+  supply: string;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+export interface TokenAccountBalance {
+  address: string; // token account
+  amount: string;  // raw base units
+}
+
+export interface LiquidityPoolData {
+  poolId: string;
+  source: string;         // e.g. 'raydium'
+  liquidityUsd: number;
+  lpMint: string | null;
+  lpBurnedPercent: number; // 0-100, as reported by the pool indexer
+}
+
+/**
+ * Raw on-chain data the analyzer needs for a mint. Implemented against
+ * Helius RPC for live use and against recorded account data for fixtures.
+ */
+export interface TokenDataSource {
+  getMintAccount(mint: string): Promise<MintAccountData | null>;
+  getLargestAccounts(mint: string): Promise<TokenAccountBalance[]>;
+  // Token account address -> owning wallet or program account
+  getAccountOwners(tokenAccounts: string[]): Promise<Record<string, string>>;
+  // Null when the RPC cannot count holders
+  getHolderCount(mint: string): Promise<number | null>;
+  // Fee payer of the mint's first transaction, null if history is too long to walk
+  getCreator(mint: string): Promise<string | null>;
+  // Raw amount of `mint` held across all of `owner`'s token accounts
+  getOwnerBalance(owner: string, mint: string): Promise<string>;
+  getRecentTransactions(mint: string): Promise<DecodedTransaction[]>;
+  getLiquidityPool(mint: string): Promise<LiquidityPoolData | null>;
+}
+
+export interface TokenHolder {
+  owner: string;
+  amount: number; // UI units
+  share: number;  // fraction of supply
+}
+
+export interface TokenSafetyReport {
+  mint: string;
+  analyzedAt: string;
+  supply: number; // UI units
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  topHolders: TokenHolder[];
+  topHolderShare: number; // Top 10 holders, excluding pools and burn addresses
+  creator: string | null;
+  devWalletShare: number | null;
+  holderCount: number | null;
+  recentUniqueBuyers: number | null;
+  devWalletSold: number | null;             // Share of supply the creator sold in recent swaps
+  creatorLiquidityRemoved: boolean | null;  // The creator withdrew pool liquidity recently
+  liquidity: (LiquidityPoolData & { lpLockedPercent: number }) | null;
+  warnings: string[]; // Checks that could not be completed
+}
+
+/**
+ * Limits a token must meet; the first three come from TradingSettings
+ */
+export interface TokenSafetyThresholds {
+  minLiquidity: number;
+  minBuyerConfirmation: number;
+  maxDevWalletControl: number;
+  maxTopHolderShare: number;
+  minLpBurnedOrLocked: number; // percent
+}
+
+export interface TokenSafetyAssessment {
+  safe: boolean;       // False when any hard check fails
+  riskScore: number;   // 0-1, higher is riskier
+  reasons: string[];
+  rugPatterns: string[]; // Signs the token is being rugged; these blacklist it
+  report: TokenSafetyReport;
+}
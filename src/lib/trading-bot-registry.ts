@@ -0,0 +1,370 @@
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import type { TradingSettings } from '@prisma/client';
+import { AutonomousTradingBot, BotStateSnapshot, TradingBotConfig } from './autonomous-trading-bot';
+import { prisma } from '@/lib/prisma';
+
+// Bots with no signals, trades or user requests for this long are shut down
+const BOT_IDLE_TIMEOUT_MS = Number(process.env.BOT_IDLE_TIMEOUT_MINUTES || 30) * 60 * 1000;
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+// How often running bots save their queue and stats to BotState
+const CHECKPOINT_INTERVAL_MS = 5 * 1000;
+
+interface RegisteredBot {
+  bot: AutonomousTradingBot;
+  startedAt: number;
+  lastActivityAt: number;
+}
+
+export type BotStatus = 'ACTIVE' | 'STOPPED';
+export type BotStopReason = 'USER' | 'IDLE' | 'ERROR' | 'KILL_SWITCH';
+
+/**
+ * Build a bot configuration from a user's stored trading settings
+ */
+export function buildBotConfig(userId: string, settings: TradingSettings): TradingBotConfig {
+  return {
+    userId,
+    isActive: true,
+    tradingMode: settings.tradingMode,
+    maxPositionSize: settings.maxPositionSize,
+    portfolioCap: settings.portfolioCap,
+    dailyDrawdownLimit: settings.dailyDrawdownLimit,
+    winRateThreshold: settings.winRateThreshold,
+    minLiquidity: settings.minLiquidity,
+    minBuyerConfirmation: settings.minBuyerConfirmation,
+    maxDevWalletControl: settings.maxDevWalletControl,
+    maxPriceDump: settings.maxPriceDump,
+    trailingStopLoss: settings.trailingStopLoss,
+    autoTradingEnabled: true,
+    signalSources: ['BIRDEYE', 'DEXSCREENER', 'COMPANY'],
+    minConfidenceThreshold: 0.6
+  };
+}
+
+/**
+ * One AutonomousTradingBot per user, keyed by user id
+ */
+export class TradingBotRegistry extends EventEmitter {
+  private bots = new Map<string, RegisteredBot>();
+  private sweepTimer?: NodeJS.Timeout;
+  private checkpointTimer?: NodeJS.Timeout;
+  private resumed = false;
+  private prisma = prisma;
+
+  /**
+   * Start the user's bot, creating it on first use
+   */
+  async start(userId: string, config: TradingBotConfig): Promise<AutonomousTradingBot> {
+    const existing = this.bots.get(userId);
+    if (existing?.bot.isActive()) {
+      this.touch(userId);
+      return existing.bot;
+    }
+
+    const bot = await this.launch(userId, { ...config, userId });
+    await this.persistStart(userId, bot, 'START');
+    return bot;
+  }
+
+  /**
+   * Stop and discard the user's bot. Returns false if none was running.
+   */
+  async stop(userId: string, reason: BotStopReason = 'USER'): Promise<boolean> {
+    const entry = this.bots.get(userId);
+    if (!entry) {
+      // Keep a bot that is not loaded in this process from resuming later
+      await this.prisma.botState.updateMany({
+        where: { userId, isRunning: true },
+        data: { isRunning: false, stoppedAt: new Date(), stopReason: reason }
+      });
+      return false;
+    }
+
+    this.bots.delete(userId);
+    const wasRunning = entry.bot.isActive();
+    const snapshot = entry.bot.getStateSnapshot();
+    await entry.bot.stop();
+    entry.bot.removeAllListeners();
+
+    if (this.bots.size === 0) {
+      this.clearTimers();
+    }
+
+    try {
+      await this.prisma.botState.update({
+        where: { userId },
+        data: {
+          isRunning: false,
+          stoppedAt: new Date(),
+          stopReason: reason,
+          ...this.snapshotData(snapshot)
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to persist stop for bot ${userId}:`, error);
+    }
+
+    await this.logTransition('INFO', `Trading bot stopped (${reason.toLowerCase()})`, { userId, reason });
+    return wasRunning;
+  }
+
+  /**
+   * Resume every bot that was running when the process last exited.
+   * Safe to call more than once; only the first call does any work.
+   */
+  async resumeRunningBots(): Promise<void> {
+    if (this.resumed) return;
+    this.resumed = true;
+
+    const states = await this.prisma.botState.findMany({ where: { isRunning: true } });
+    if (states.length > 0) {
+      console.log(`♻️ Resuming ${states.length} trading bots`);
+    }
+
+    for (const state of states) {
+      if (this.bots.has(state.userId)) continue;
+
+      try {
+        const config = { ...(state.config as unknown as TradingBotConfig), userId: state.userId };
+        const snapshot: BotStateSnapshot = {
+          lastSignalId: state.lastSignalId,
+          lastSignalAt: state.lastSignalAt?.getTime() ?? null,
+          pendingOrders: (state.pendingOrders as unknown as BotStateSnapshot['pendingOrders']) || [],
+          stats: (state.stats as unknown as BotStateSnapshot['stats']) || this.emptyStats()
+        };
+
+        const bot = await this.launch(state.userId, config, snapshot);
+        await this.persistStart(state.userId, bot, 'RESUME');
+      } catch (error) {
+        console.error(`Failed to resume trading bot for user ${state.userId}:`, error);
+        await this.prisma.botState.update({
+          where: { userId: state.userId },
+          data: { isRunning: false, stoppedAt: new Date(), stopReason: 'ERROR' }
+        });
+        await this.logTransition('ERROR', 'Trading bot failed to resume', {
+          userId: state.userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  get(userId: string): AutonomousTradingBot | undefined {
+    return this.bots.get(userId)?.bot;
+  }
+
+  getStatus(userId: string): BotStatus {
+    return this.bots.get(userId)?.bot.isActive() ? 'ACTIVE' : 'STOPPED';
+  }
+
+  getLastActivity(userId: string): number | null {
+    return this.bots.get(userId)?.lastActivityAt ?? null;
+  }
+
+  /**
+   * Record activity so the user's bot is not considered idle
+   */
+  touch(userId: string): void {
+    const entry = this.bots.get(userId);
+    if (entry) {
+      entry.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Reload the user's active strategies if their bot is running
+   */
+  async reloadStrategies(userId: string): Promise<void> {
+    await this.bots.get(userId)?.bot.loadActiveStrategies();
+  }
+
+  activeUserIds(): string[] {
+    return Array.from(this.bots.keys());
+  }
+
+  private async launch(
+    userId: string,
+    config: TradingBotConfig,
+    snapshot?: BotStateSnapshot
+  ): Promise<AutonomousTradingBot> {
+    const previous = this.bots.get(userId);
+    previous?.bot.removeAllListeners();
+
+    const bot = new AutonomousTradingBot(config);
+    if (snapshot) {
+      bot.restoreState(snapshot);
+    }
+
+    this.bots.set(userId, { bot, startedAt: Date.now(), lastActivityAt: Date.now() });
+    this.attachListeners(userId, bot);
+
+    try {
+      await bot.start({ resume: !!snapshot });
+    } catch (error) {
+      this.bots.delete(userId);
+      bot.removeAllListeners();
+      throw error;
+    }
+
+    this.ensureTimers();
+    return bot;
+  }
+
+  private async persistStart(userId: string, bot: AutonomousTradingBot, transition: 'START' | 'RESUME'): Promise<void> {
+    const config = bot.getConfig() as unknown as Prisma.InputJsonValue;
+    const snapshot = this.snapshotData(bot.getStateSnapshot());
+
+    await this.prisma.botState.upsert({
+      where: { userId },
+      update: { isRunning: true, config, startedAt: new Date(), stoppedAt: null, stopReason: null, ...snapshot },
+      create: { userId, isRunning: true, config, startedAt: new Date(), ...snapshot }
+    });
+
+    await this.logTransition(
+      'INFO',
+      transition === 'RESUME' ? 'Trading bot resumed after restart' : 'Trading bot started',
+      { userId, transition, tradingMode: bot.getConfig().tradingMode }
+    );
+  }
+
+  private async checkpoint(userId: string, bot: AutonomousTradingBot): Promise<void> {
+    await this.prisma.botState.updateMany({
+      where: { userId, isRunning: true },
+      data: this.snapshotData(bot.getStateSnapshot())
+    });
+  }
+
+  private snapshotData(snapshot: BotStateSnapshot) {
+    return {
+      lastSignalId: snapshot.lastSignalId,
+      lastSignalAt: snapshot.lastSignalAt ? new Date(snapshot.lastSignalAt) : null,
+      pendingOrders: snapshot.pendingOrders as unknown as Prisma.InputJsonValue,
+      stats: snapshot.stats as unknown as Prisma.InputJsonValue,
+      lastCheckpointAt: new Date()
+    };
+  }
+
+  private emptyStats(): BotStateSnapshot['stats'] {
+    return {
+      totalTrades: 0,
+      successfulTrades: 0,
+      failedTrades: 0,
+      totalPnL: 0,
+      dailyPnL: 0,
+      winRate: 0,
+      activePositions: 0,
+      portfolioValue: 0,
+      lastUpdated: Date.now()
+    };
+  }
+
+  private async logTransition(level: 'INFO' | 'ERROR', message: string, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await this.prisma.systemLog.create({
+        data: {
+          level,
+          module: 'BOT',
+          message,
+          metadata: metadata as Prisma.InputJsonValue
+        }
+      });
+    } catch (error) {
+      console.error('Failed to write bot transition log:', error);
+    }
+  }
+
+  private attachListeners(userId: string, bot: AutonomousTradingBot): void {
+    bot.on('signalReceived', (signal) => {
+      this.touch(userId);
+      this.emit('signalReceived', { userId, signal });
+    });
+
+    bot.on('tradeUpdate', (tradeUpdate) => {
+      this.touch(userId);
+      this.emit('tradeUpdate', { userId, tradeUpdate });
+    });
+
+    bot.on('portfolioUpdate', (portfolioUpdate) => {
+      this.emit('portfolioUpdate', { userId, portfolioUpdate });
+    });
+  }
+
+  private ensureTimers(): void {
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => {
+        this.stopIdleBots().catch(error => {
+          console.error('Idle bot sweep failed:', error);
+        });
+      }, IDLE_SWEEP_INTERVAL_MS);
+    }
+
+    if (!this.checkpointTimer) {
+      this.checkpointTimer = setInterval(() => {
+        for (const [userId, entry] of this.bots) {
+          this.checkpoint(userId, entry.bot).catch(error => {
+            console.error(`Failed to checkpoint bot ${userId}:`, error);
+          });
+        }
+      }, CHECKPOINT_INTERVAL_MS);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = undefined;
+    }
+  }
+
+  private async stopIdleBots(): Promise<void> {
+    const now = Date.now();
+
+    for (const [userId, entry] of this.bots) {
+      if (now - entry.lastActivityAt < BOT_IDLE_TIMEOUT_MS) continue;
+
+      // A bot holding positions still has exits to manage, so it is never idle
+      if (await this.hasOpenExposure(userId)) {
+        this.touch(userId);
+        continue;
+      }
+
+      console.log(`💤 Stopping idle trading bot for user ${userId}`);
+      await this.stop(userId, 'IDLE');
+
+      await this.prisma.tradingSettings.updateMany({
+        where: { userId },
+        data: { isActive: false }
+      });
+
+      this.emit('botIdleShutdown', { userId, idleSince: entry.lastActivityAt });
+    }
+  }
+
+  private async hasOpenExposure(userId: string): Promise<boolean> {
+    const position = await this.prisma.position.findFirst({
+      where: {
+        portfolio: { userId },
+        OR: [
+          { amount: { gt: 0 } },
+          { exitOrders: { some: { status: 'ACTIVE' } } }
+        ]
+      },
+      select: { id: true }
+    });
+    return position !== null;
+  }
+}
+
+// Kept on globalThis so every route bundle and dev reload shares the same bots
+const globalForBots = globalThis as unknown as {
+  tradingBotRegistry: TradingBotRegistry | undefined
+};
+
+export const tradingBotRegistry = globalForBots.tradingBotRegistry ?? new TradingBotRegistry();
+
+globalForBots.tradingBotRegistry = tradingBotRegistry;
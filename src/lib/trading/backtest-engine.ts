@@ -0,0 +1,454 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { jobQueue } from '@/lib/queue/job-queue';
+import { StrategyConfig, evaluateStrategy, parseStrategyConfig } from './strategy-config';
+import type { RealTimeSignal } from '../websocket-manager';
+
+/**
+ * A single historical signal replayed by the backtester
+ */
+export interface BacktestSignal {
+  id?: string;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  price: number;
+  confidence: number;
+  liquidity?: number;
+  metadata?: RealTimeSignal['metadata'];
+  timestamp: number; // ms since epoch
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * Replay input: signals in time order plus optional price paths per token.
+ * When no price path is supplied, later signals for the same token are used
+ * as price observations.
+ */
+export interface BacktestDataset {
+  signals: BacktestSignal[];
+  prices?: Record<string, PricePoint[]>;
+}
+
+/**
+ * What Backtest.config holds. The strategy is snapshotted when the run is
+ * requested, and an imported dataset is kept on the row, so a queued run
+ * survives a restart unchanged.
+ */
+interface StoredBacktestConfig {
+  strategy?: unknown; // Strategy.config at request time
+  settings?: Partial<BacktestSettings>;
+  dataset?: BacktestDataset;
+}
+
+export interface BacktestSettings {
+  initialCapital: number;
+  slippage: number; // fraction applied against us on every fill
+  feeRate: number; // fraction of notional charged per fill
+  maxHoldingMinutes: number;
+}
+
+/**
+ * Strategy parameters the simulator needs, resolved from Strategy.config
+ */
+export interface BacktestStrategyParams {
+  config: StrategyConfig;
+  maxTradeAmount: number;
+  stopLoss: number; // fraction, e.g. 0.05
+  takeProfit: number; // fraction, e.g. 0.10
+  maxHoldingMinutes: number | null;
+}
+
+export type BacktestExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'TIME_EXIT' | 'END_OF_DATA';
+
+export interface BacktestTradeResult {
+  signalId?: string;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  cost: number;
+  proceeds: number;
+  fees: number;
+  pnl: number;
+  pnlPercentage: number;
+  exitReason: BacktestExitReason;
+}
+
+export interface BacktestMetrics {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  totalPnl: number;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  finalEquity: number;
+}
+
+export interface BacktestRunOptions {
+  startDate: Date;
+  endDate: Date;
+  settings?: Partial<BacktestSettings>;
+  dataset?: BacktestDataset;
+}
+
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  initialCapital: 1000,
+  slippage: 0.01,
+  feeRate: 0.003,
+  maxHoldingMinutes: 24 * 60,
+};
+
+/**
+ * Resolve simulator parameters from a stored Strategy.config
+ */
+export function resolveBacktestStrategy(config: unknown): BacktestStrategyParams {
+  const strategy = parseStrategyConfig(config);
+
+  return {
+    config: strategy,
+    maxTradeAmount: strategy.entry.maxTradeAmount,
+    stopLoss: strategy.exit.stopLoss / 100,
+    takeProfit: strategy.exit.takeProfit / 100,
+    maxHoldingMinutes: strategy.exit.maxHoldingMinutes,
+  };
+}
+
+export class BacktestEngine {
+  private prisma = prisma;
+
+  /**
+   * Replay a dataset through a strategy. Pure: no database access.
+   */
+  simulate(
+    dataset: BacktestDataset,
+    strategy: BacktestStrategyParams,
+    settings: BacktestSettings = DEFAULT_BACKTEST_SETTINGS
+  ): { trades: BacktestTradeResult[]; metrics: BacktestMetrics } {
+    const signals = [...dataset.signals].sort((a, b) => a.timestamp - b.timestamp);
+    const priceSeries = this.buildPriceSeries(dataset, signals);
+    // A strategy's own holding limit wins over the run default
+    const maxHoldingMs = (strategy.maxHoldingMinutes ?? settings.maxHoldingMinutes) * 60 * 1000;
+
+    const trades: BacktestTradeResult[] = [];
+    // Capital locked in open positions until their exit time
+    const openUntil = new Map<string, { exitTime: number; cost: number; proceeds: number }>();
+    let cash = settings.initialCapital;
+
+    for (const signal of signals) {
+      // Release positions that closed before this signal arrived
+      for (const [token, open] of openUntil) {
+        if (open.exitTime <= signal.timestamp) {
+          cash += open.proceeds;
+          openUntil.delete(token);
+        }
+      }
+
+      if (openUntil.has(signal.tokenAddress)) continue;
+      if (signal.price <= 0) continue;
+
+      const evaluation = evaluateStrategy(strategy.config, {
+        id: signal.id,
+        tokenAddress: signal.tokenAddress,
+        symbol: signal.tokenSymbol,
+        action: 'BUY',
+        price: signal.price,
+        confidence: signal.confidence,
+        timestamp: signal.timestamp,
+        metadata: { liquidity: signal.liquidity, ...signal.metadata },
+      });
+      if (!evaluation.passed) continue;
+
+      const tradeAmount = strategy.config.entry.sizing === 'CONFIDENCE_SCALED'
+        ? strategy.maxTradeAmount * signal.confidence
+        : strategy.maxTradeAmount;
+      const budget = Math.min(tradeAmount, cash);
+      if (budget <= 0) continue;
+
+      const entryPrice = signal.price * (1 + settings.slippage);
+      const entryFee = budget * settings.feeRate;
+      const quantity = (budget - entryFee) / entryPrice;
+
+      const stopPrice = entryPrice * (1 - strategy.stopLoss);
+      const targetPrice = entryPrice * (1 + strategy.takeProfit);
+      const path = (priceSeries.get(signal.tokenAddress) || []).filter(p => p.timestamp > signal.timestamp);
+
+      let exitPoint: PricePoint = { timestamp: signal.timestamp, price: signal.price };
+      let exitReason: BacktestExitReason = 'END_OF_DATA';
+
+      for (const point of path) {
+        if (point.timestamp - signal.timestamp > maxHoldingMs) {
+          exitReason = 'TIME_EXIT';
+          break;
+        }
+        exitPoint = point;
+        if (point.price <= stopPrice) {
+          exitReason = 'STOP_LOSS';
+          break;
+        }
+        if (point.price >= targetPrice) {
+          exitReason = 'TAKE_PROFIT';
+          break;
+        }
+      }
+
+      const exitPrice = exitPoint.price * (1 - settings.slippage);
+      const grossProceeds = quantity * exitPrice;
+      const exitFee = grossProceeds * settings.feeRate;
+      const proceeds = grossProceeds - exitFee;
+      const pnl = proceeds - budget;
+
+      cash -= budget;
+      openUntil.set(signal.tokenAddress, { exitTime: exitPoint.timestamp, cost: budget, proceeds });
+
+      trades.push({
+        signalId: signal.id,
+        tokenAddress: signal.tokenAddress,
+        tokenSymbol: signal.tokenSymbol,
+        entryTime: signal.timestamp,
+        exitTime: exitPoint.timestamp,
+        entryPrice,
+        exitPrice,
+        quantity,
+        cost: budget,
+        proceeds,
+        fees: entryFee + exitFee,
+        pnl,
+        pnlPercentage: (pnl / budget) * 100,
+        exitReason,
+      });
+    }
+
+    return { trades, metrics: this.calculateMetrics(trades, settings.initialCapital) };
+  }
+
+  /**
+   * Aggregate metrics over closed trades, ordered by exit time
+   */
+  calculateMetrics(trades: BacktestTradeResult[], initialCapital: number): BacktestMetrics {
+    const closed = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+    const winningTrades = closed.filter(t => t.pnl > 0).length;
+    const losingTrades = closed.filter(t => t.pnl <= 0).length;
+    const totalPnl = closed.reduce((sum, t) => sum + t.pnl, 0);
+
+    let equity = initialCapital;
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const trade of closed) {
+      equity += trade.pnl;
+      peak = Math.max(peak, equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+      }
+    }
+
+    // Per-trade Sharpe (not annualised): mean return over its standard deviation
+    let sharpeRatio: number | null = null;
+    if (closed.length >= 2) {
+      const returns = closed.map(t => t.pnl / t.cost);
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+      const stdDev = Math.sqrt(variance);
+      sharpeRatio = stdDev > 0 ? mean / stdDev : null;
+    }
+
+    return {
+      totalTrades: closed.length,
+      winningTrades,
+      losingTrades,
+      winRate: closed.length > 0 ? winningTrades / closed.length : 0,
+      totalPnl,
+      maxDrawdown,
+      sharpeRatio,
+      finalEquity: initialCapital + totalPnl,
+    };
+  }
+
+  /**
+   * Build a replay dataset from the Signal rows a user can see in a date
+   * range: their own and global ones, never another user's channels or
+   * copies. Signal rows carry no price column, so the price is read from
+   * the original payload saved in rawMessage / filtersResult.
+   */
+  async loadDatasetFromSignals(userId: string, startDate: Date, endDate: Date): Promise<BacktestDataset> {
+    const rows = await this.prisma.signal.findMany({
+      where: {
+        createdAt: { gte: startDate, lte: endDate },
+        OR: [{ userId }, { userId: null }],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const signals: BacktestSignal[] = [];
+    for (const row of rows) {
+      const price = this.extractSignalPrice(row.rawMessage, row.filtersResult);
+      if (!price) continue;
+      const metadata = this.extractSignalMetadata(row.rawMessage);
+
+      signals.push({
+        id: row.id,
+        tokenAddress: row.tokenAddress,
+        tokenSymbol: row.tokenSymbol || undefined,
+        price,
+        confidence: row.confidence,
+        liquidity: row.liquidity ?? undefined,
+        metadata,
+        timestamp: row.createdAt.getTime(),
+      });
+    }
+
+    return { signals };
+  }
+
+  /**
+   * Execute a queued Backtest row and persist its results
+   */
+  async run(backtestId: string): Promise<void> {
+    const backtest = await this.prisma.backtest.findUnique({
+      where: { id: backtestId },
+      include: { strategy: true },
+    });
+
+    if (!backtest) {
+      throw new Error(`Backtest ${backtestId} not found`);
+    }
+
+    // A redelivered job for a run that already finished
+    if (backtest.status === 'COMPLETED' || backtest.status === 'FAILED') return;
+
+    await this.prisma.backtest.update({
+      where: { id: backtestId },
+      data: { status: 'RUNNING' },
+    });
+
+    try {
+      const storedConfig = (backtest.config || {}) as StoredBacktestConfig;
+      const settings: BacktestSettings = {
+        ...DEFAULT_BACKTEST_SETTINGS,
+        ...storedConfig.settings,
+        initialCapital: backtest.initialCapital,
+      };
+
+      const replay = storedConfig.dataset
+        || await this.loadDatasetFromSignals(backtest.strategy.userId, backtest.startDate, backtest.endDate);
+      // The snapshot, so edits made while the run was queued do not apply; older rows have none
+      const strategy = resolveBacktestStrategy(storedConfig.strategy ?? backtest.strategy.config);
+      const { trades, metrics } = this.simulate(replay, strategy, settings);
+
+      await this.prisma.backtest.update({
+        where: { id: backtestId },
+        data: {
+          totalTrades: metrics.totalTrades,
+          winningTrades: metrics.winningTrades,
+          losingTrades: metrics.losingTrades,
+          winRate: metrics.winRate,
+          totalPnl: metrics.totalPnl,
+          maxDrawdown: metrics.maxDrawdown,
+          sharpeRatio: metrics.sharpeRatio,
+          finalEquity: metrics.finalEquity,
+          trades: trades as unknown as Prisma.InputJsonValue,
+          status: 'COMPLETED',
+          isCompleted: true,
+          completedAt: new Date(),
+        },
+      });
+
+      console.log(`📈 Backtest ${backtestId} completed: ${metrics.totalTrades} trades, PnL ${metrics.totalPnl.toFixed(2)}`);
+    } catch (error) {
+      console.error(`Backtest ${backtestId} failed:`, error);
+      await this.prisma.backtest.update({
+        where: { id: backtestId },
+        data: {
+          status: 'FAILED',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Queue a backtest run on the backtests queue; the Backtest row is the
+   * job record
+   */
+  async enqueue(backtestId: string, userId: string): Promise<void> {
+    await jobQueue.enqueue('backtests', { backtestId }, { userId, jobId: `backtest:${backtestId}` });
+  }
+
+  /**
+   * Queue again the runs a restart interrupted or that were never picked
+   * up, e.g. because the in-memory queue was lost. Called on boot.
+   */
+  async resumeStale(): Promise<number> {
+    const stale = await this.prisma.backtest.findMany({
+      where: { status: { in: ['PENDING', 'RUNNING'] } },
+      select: { id: true, strategy: { select: { userId: true } } },
+    });
+
+    await this.prisma.backtest.updateMany({
+      where: { id: { in: stale.map(backtest => backtest.id) }, status: 'RUNNING' },
+      data: { status: 'PENDING' },
+    });
+
+    for (const backtest of stale) {
+      await this.enqueue(backtest.id, backtest.strategy.userId);
+    }
+    return stale.length;
+  }
+
+  private buildPriceSeries(dataset: BacktestDataset, signals: BacktestSignal[]): Map<string, PricePoint[]> {
+    const series = new Map<string, PricePoint[]>();
+
+    if (dataset.prices) {
+      for (const [token, points] of Object.entries(dataset.prices)) {
+        series.set(token, [...points].sort((a, b) => a.timestamp - b.timestamp));
+      }
+      return series;
+    }
+
+    for (const signal of signals) {
+      const points = series.get(signal.tokenAddress) || [];
+      points.push({ timestamp: signal.timestamp, price: signal.price });
+      series.set(signal.tokenAddress, points);
+    }
+    return series;
+  }
+
+  private extractSignalMetadata(rawMessage: string | null): RealTimeSignal['metadata'] | undefined {
+    if (!rawMessage) return undefined;
+    try {
+      const parsed = JSON.parse(rawMessage) as { metadata?: unknown };
+      return parsed.metadata && typeof parsed.metadata === 'object'
+        ? parsed.metadata as RealTimeSignal['metadata']
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private extractSignalPrice(rawMessage: string | null, filtersResult: Prisma.JsonValue): number | null {
+    if (rawMessage) {
+      try {
+        const parsed = JSON.parse(rawMessage) as { price?: unknown };
+        if (typeof parsed.price === 'number' && parsed.price > 0) {
+          return parsed.price;
+        }
+      } catch {
+        // rawMessage may be free text from a chat source
+      }
+    }
+
+    const filters = filtersResult as { processedSignal?: { price?: unknown }; price?: unknown } | null;
+    const price = filters?.processedSignal?.price ?? filters?.price;
+    return typeof price === 'number' && price > 0 ? price : null;
+  }
+}
+
+export const backtestEngine = new BacktestEngine();
@@ -0,0 +1,249 @@
+import { Blacklist, BlacklistSource, BlacklistType } from '@prisma/client';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { tokenSafetyAnalyzer } from '@/lib/token-safety/analyzer';
+import type { TokenSafetyReport } from '@/lib/token-safety/types';
+
+const CACHE_TTL_MS = 30 * 1000;
+
+export const MAX_BLACKLIST_IMPORT_ROWS = 5000;
+
+const isPublicKey = (value: string) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const unquote = (cell: string) => cell.trim().replace(/^"|"$/g, '');
+
+export const blacklistEntrySchema = z.object({
+  address: z.string().trim().refine(isPublicKey, 'Invalid Solana address'),
+  type: z.enum(['TOKEN', 'DEPLOYER']).optional(),
+  reason: z.string().trim().min(1).max(500),
+  isActive: z.boolean().optional(),
+});
+
+export type BlacklistEntryInput = z.infer<typeof blacklistEntrySchema>;
+
+// The address is an entry's identity; change it by adding a new entry
+export const blacklistUpdateSchema = blacklistEntrySchema.omit({ address: true }).partial();
+
+/**
+ * Who an entry belongs to. Entries without a user apply to everyone.
+ */
+export interface BlacklistScope {
+  userId: string | null;
+  addedBy?: string;
+  source?: BlacklistSource;
+}
+
+export interface BlacklistImportResult {
+  created: number;
+  updated: number;
+  errors: { line: number; error: string }[];
+}
+
+export function describeBlacklistEntry(entry: Blacklist): string {
+  return `${entry.type === 'DEPLOYER' ? 'Deployer' : 'Token'} is blacklisted: ${entry.reason}`;
+}
+
+/**
+ * Parse `address,type,reason` rows. The header row and type are optional;
+ * `defaultReason` fills rows without one. Rows that fail validation are
+ * reported by line number rather than failing the import.
+ */
+export function parseBlacklistCsv(csv: string, defaultReason = 'Imported'): {
+  entries: BlacklistEntryInput[];
+  errors: BlacklistImportResult['errors'];
+} {
+  const entries: BlacklistEntryInput[] = [];
+  const errors: BlacklistImportResult['errors'] = [];
+
+  csv.split(/\r?\n/).forEach((row, index) => {
+    const line = index + 1;
+    if (!row.trim() || row.trim().startsWith('#')) return;
+
+    // The reason is the rest of the row, so it may contain commas
+    const [address = '', type = '', ...reason] = row.split(',');
+    if (index === 0 && unquote(address).toLowerCase() === 'address') return;
+
+    const parsed = blacklistEntrySchema.safeParse({
+      address: unquote(address),
+      type: unquote(type).toUpperCase() || undefined,
+      reason: unquote(reason.join(',')) || defaultReason
+    });
+    if (parsed.success) {
+      entries.push(parsed.data);
+    } else {
+      errors.push({ line, error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    }
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Blacklisted token mints and deployer wallets, global or per user. Active
+ * entries are cached briefly so signal filtering stays cheap; writes through
+ * this service clear the cache.
+ */
+export class TokenBlacklist {
+  private prisma = prisma;
+  private cache?: { expiresAt: number; entries: Promise<Map<string, Blacklist[]>> };
+
+  /**
+   * The entry blocking a token for a user, if any. Without a known deployer
+   * the token's creator is looked up only when deployers are blacklisted.
+   */
+  async check(tokenAddress: string, options: { userId?: string; deployer?: string | null } = {}): Promise<Blacklist | null> {
+    const entries = await this.getActiveEntries();
+    const applies = (entry: Blacklist) => entry.userId === null || entry.userId === options.userId;
+
+    const token = entries.get(tokenAddress)?.find(entry => entry.type === 'TOKEN' && applies(entry));
+    if (token) return token;
+
+    let deployer = options.deployer;
+    if (deployer === undefined && this.hasDeployers(entries, options.userId)) {
+      deployer = await tokenSafetyAnalyzer.analyze(tokenAddress)
+        .then(report => report.creator)
+        .catch(() => null);
+    }
+    if (!deployer) return null;
+
+    return entries.get(deployer)?.find(entry => entry.type === 'DEPLOYER' && applies(entry)) ?? null;
+  }
+
+  /**
+   * A user's own entries, or the global list when userId is null
+   */
+  list(userId: string | null): Promise<Blacklist[]> {
+    return this.prisma.blacklist.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async get(id: string, userId: string | null): Promise<Blacklist | null> {
+    return this.prisma.blacklist.findFirst({ where: { id, userId } });
+  }
+
+  /**
+   * Add or reactivate an entry; an existing one takes the new type and reason
+   */
+  async add(input: BlacklistEntryInput, scope: BlacklistScope): Promise<{ entry: Blacklist; created: boolean }> {
+    const existing = await this.prisma.blacklist.findFirst({
+      where: { address: input.address, userId: scope.userId }
+    });
+
+    const data = {
+      type: input.type ?? 'TOKEN' as BlacklistType,
+      reason: input.reason,
+      isActive: input.isActive ?? true,
+      source: scope.source ?? 'MANUAL',
+      addedBy: scope.addedBy
+    };
+
+    const entry = existing
+      ? await this.prisma.blacklist.update({ where: { id: existing.id }, data })
+      : await this.prisma.blacklist.create({ data: { ...data, address: input.address, userId: scope.userId } });
+
+    this.invalidate();
+    return { entry, created: !existing };
+  }
+
+  async import(entries: BlacklistEntryInput[], scope: BlacklistScope): Promise<Omit<BlacklistImportResult, 'errors'>> {
+    const result = { created: 0, updated: 0 };
+    for (const entry of entries) {
+      const { created } = await this.add(entry, { ...scope, source: scope.source ?? 'IMPORT' });
+      if (created) result.created++;
+      else result.updated++;
+    }
+    return result;
+  }
+
+  async update(id: string, userId: string | null, data: z.infer<typeof blacklistUpdateSchema>): Promise<Blacklist | null> {
+    const existing = await this.get(id, userId);
+    if (!existing) return null;
+
+    const entry = await this.prisma.blacklist.update({ where: { id }, data });
+    this.invalidate();
+    return entry;
+  }
+
+  async remove(id: string, userId: string | null): Promise<boolean> {
+    const { count } = await this.prisma.blacklist.deleteMany({ where: { id, userId } });
+    this.invalidate();
+    return count > 0;
+  }
+
+  /**
+   * Blacklist a rugging token and its creator for everyone. Existing global
+   * entries are left alone so an admin's deactivation sticks. Best effort.
+   */
+  async blacklistRug(report: TokenSafetyReport, patterns: string[]): Promise<void> {
+    const reason = `Rug detected: ${patterns.join('; ')}`;
+    const candidates: BlacklistEntryInput[] = [{ address: report.mint, type: 'TOKEN', reason }];
+    if (report.creator) {
+      candidates.push({ address: report.creator, type: 'DEPLOYER', reason: `${reason} (${report.mint})` });
+    }
+
+    try {
+      const existing = await this.prisma.blacklist.findMany({
+        where: { userId: null, address: { in: candidates.map(candidate => candidate.address) } },
+        select: { address: true }
+      });
+      const known = new Set(existing.map(entry => entry.address));
+      const added = candidates.filter(candidate => !known.has(candidate.address));
+      if (added.length === 0) return;
+
+      for (const candidate of added) {
+        await this.add(candidate, { userId: null, source: 'RUG_DETECTION' });
+      }
+      console.log(`⛔ Blacklisted ${added.map(entry => entry.address).join(', ')}: ${reason}`);
+    } catch (error) {
+      console.error(`Failed to blacklist rugged token ${report.mint}:`, error);
+    }
+  }
+
+  invalidate(): void {
+    this.cache = undefined;
+  }
+
+  private getActiveEntries(): Promise<Map<string, Blacklist[]>> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.entries;
+    }
+
+    const entries = this.prisma.blacklist.findMany({ where: { isActive: true } }).then(rows => {
+      const byAddress = new Map<string, Blacklist[]>();
+      for (const row of rows) {
+        byAddress.set(row.address, [...(byAddress.get(row.address) ?? []), row]);
+      }
+      return byAddress;
+    });
+    this.cache = { expiresAt: Date.now() + CACHE_TTL_MS, entries };
+    entries.catch(() => this.invalidate());
+    return entries;
+  }
+
+  private hasDeployers(entries: Map<string, Blacklist[]>, userId?: string): boolean {
+    for (const rows of entries.values()) {
+      if (rows.some(entry => entry.type === 'DEPLOYER' && (entry.userId === null || entry.userId === userId))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+const globalForBlacklist = globalThis as unknown as {
+  tokenBlacklist: TokenBlacklist | undefined
+};
+
+export const tokenBlacklist = globalForBlacklist.tokenBlacklist ?? new TokenBlacklist();
+
+globalForBlacklist.tokenBlacklist = tokenBlacklist;
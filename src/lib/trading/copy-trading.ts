@@ -0,0 +1,571 @@
+import { LeaderWallet, Prisma, TradingMode } from '@prisma/client';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+import { HeliusClient } from '@/lib/helius/heliusClient';
+import {
+  ConnectionState,
+  HeliusRealtimeMonitor,
+  TokenSwapEvent,
+  heliusRealtimeMonitor,
+} from '@/lib/helius/realtimeMonitor';
+import { prisma } from '@/lib/prisma';
+import { riskEngine } from '@/lib/risk/engine';
+import { signalAttribution, signalSourceKey } from '@/lib/signal-sources/attribution';
+import { MarketBuyFill, marketBuy, marketSell } from './market-sell';
+import { fetchTokenPrices } from './token-prices';
+
+const SYNC_INTERVAL_MS = Number(process.env.COPY_TRADING_SYNC_INTERVAL_MS || 60 * 1000);
+const DUST = 1e-9;
+
+// Feed name of the signals recorded for mirrored swaps; the leader is the caller
+export const COPY_TRADE_FEED = 'COPY_TRADE';
+
+export const MAX_COPY_DELAY_MS = 5 * 60 * 1000;
+
+const isPublicKey = (value: string) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const addressSchema = z.string().trim().refine(isPublicKey, 'Invalid Solana address');
+
+export const copyTradeFiltersSchema = z.object({
+  minLeaderAmount: z.number().nonnegative().optional(), // SOL the leader spent, below which buys are ignored
+  maxLeaderAmount: z.number().positive().optional(),
+  maxPriceDrift: z.number().positive().max(10).optional(), // Fraction above the leader's entry price
+  mirrorSells: z.boolean().optional(),                    // Defaults to true
+  allowedTokens: z.array(addressSchema).max(100).optional(),
+  blockedTokens: z.array(addressSchema).max(500).optional(),
+});
+
+export type CopyTradeFilters = z.infer<typeof copyTradeFiltersSchema>;
+
+const copySizingFields = {
+  sizingMode: z.enum(['FIXED', 'PROPORTIONAL', 'CAPPED']),
+  fixedAmount: z.number().positive().nullable().optional(), // SOL
+  ratio: z.number().positive().max(100).nullable().optional(),
+  maxAmount: z.number().positive().nullable().optional(),   // SOL
+};
+
+/**
+ * The amounts a sizing mode needs. Checked apart from leaderWalletInputSchema
+ * so updates can be validated merged with the stored leader.
+ */
+export const copySizingSchema = z.object(copySizingFields).superRefine((sizing, ctx) => {
+  if (sizing.sizingMode === 'FIXED' && !sizing.fixedAmount) {
+    ctx.addIssue({ code: 'custom', path: ['fixedAmount'], message: 'FIXED sizing needs fixedAmount' });
+  }
+  if (sizing.sizingMode !== 'FIXED' && !sizing.ratio) {
+    ctx.addIssue({ code: 'custom', path: ['ratio'], message: `${sizing.sizingMode} sizing needs ratio` });
+  }
+  if (sizing.sizingMode === 'CAPPED' && !sizing.maxAmount) {
+    ctx.addIssue({ code: 'custom', path: ['maxAmount'], message: 'CAPPED sizing needs maxAmount' });
+  }
+});
+
+export const leaderWalletInputSchema = z.object({
+  address: addressSchema,
+  label: z.string().trim().min(1).max(100).nullable().optional(),
+  ...copySizingFields,
+  delayMs: z.number().int().min(0).max(MAX_COPY_DELAY_MS).optional(),
+  filters: copyTradeFiltersSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type LeaderWalletInput = z.infer<typeof leaderWalletInputSchema>;
+
+// The address is a leader's identity; follow another wallet by adding it
+export const leaderWalletUpdateSchema = leaderWalletInputSchema.omit({ address: true }).partial();
+
+/**
+ * A leader swap between SOL and a token, seen as a buy or sell of the token
+ */
+export interface LeaderSwap {
+  signature: string;
+  leader: string;
+  side: 'BUY' | 'SELL';
+  tokenAddress: string;
+  solAmount: number;
+  tokenAmount: number;
+  timestamp: number;
+}
+
+export type CopyTradeResult =
+  | { status: 'SKIPPED'; reason: string }                     // Filtered out before a signal was recorded
+  | { status: 'REJECTED'; signalId: string; reason: string }
+  | { status: 'EXECUTED'; signalId: string; fill: MarketBuyFill };
+
+export interface LeaderPosition {
+  tokenAddress: string;
+  tradingMode: TradingMode;
+  quantity: number;
+  costBasis: number;
+  markPrice: number | null;
+  unrealizedPnl: number | null;
+}
+
+/**
+ * Results of the trades mirrored from one leader. Sells realize PnL against
+ * the position's average cost, like every other ledger fill.
+ */
+export interface LeaderStats {
+  leaderWalletId: string;
+  address: string;
+  label: string | null;
+  isActive: boolean;
+  trades: number;
+  buys: number;
+  sells: number;
+  wins: number;             // Sells that realized a profit
+  winRate: number | null;
+  invested: number;         // Spent on mirrored buys, fees included
+  realizedPnl: number;
+  unrealizedPnl: number;    // Open mirrored quantity marked to market
+  totalPnl: number;
+  openPositions: LeaderPosition[];
+  lastCopiedAt: Date | null;
+}
+
+/**
+ * Read a Helius swap event as a buy or sell against SOL. Token-to-token and
+ * stablecoin swaps are not mirrored.
+ */
+export function toLeaderSwap(event: TokenSwapEvent): LeaderSwap | null {
+  if (!event.swapper || event.inputMint === event.outputMint) return null;
+
+  const base = { signature: event.signature, leader: event.swapper, timestamp: event.timestamp };
+  if (event.inputMint === TOKEN_ADDRESSES.SOL && event.inputAmount > 0 && event.outputAmount > 0) {
+    return { ...base, side: 'BUY', tokenAddress: event.outputMint, solAmount: event.inputAmount, tokenAmount: event.outputAmount };
+  }
+  if (event.outputMint === TOKEN_ADDRESSES.SOL && event.inputAmount > 0 && event.outputAmount > 0) {
+    return { ...base, side: 'SELL', tokenAddress: event.inputMint, solAmount: event.outputAmount, tokenAmount: event.inputAmount };
+  }
+  return null;
+}
+
+/**
+ * SOL to spend mirroring a leader buy of `leaderSol`
+ */
+export function copyBuySize(leader: Pick<LeaderWallet, 'sizingMode' | 'fixedAmount' | 'ratio' | 'maxAmount'>, leaderSol: number): number {
+  switch (leader.sizingMode) {
+    case 'FIXED':
+      return leader.fixedAmount ?? 0;
+    case 'PROPORTIONAL':
+      return leaderSol * (leader.ratio ?? 0);
+    case 'CAPPED':
+      return Math.min(leaderSol * (leader.ratio ?? 0), leader.maxAmount ?? 0);
+  }
+}
+
+/**
+ * Why a leader swap should not be mirrored, or null to mirror it
+ */
+export function checkCopyFilters(filters: CopyTradeFilters, swap: LeaderSwap): string | null {
+  // Token lists only gate entries, so a token blocked after buying can still be exited
+  if (swap.side === 'SELL') {
+    return filters.mirrorSells === false ? 'Sells are not mirrored for this leader' : null;
+  }
+
+  if (filters.blockedTokens?.includes(swap.tokenAddress)) return 'Token is blocked for this leader';
+  if (filters.allowedTokens && !filters.allowedTokens.includes(swap.tokenAddress)) return 'Token is not allowed for this leader';
+  if (filters.minLeaderAmount !== undefined && swap.solAmount < filters.minLeaderAmount) {
+    return `Leader buy of ${swap.solAmount} SOL is below ${filters.minLeaderAmount} SOL`;
+  }
+  if (filters.maxLeaderAmount !== undefined && swap.solAmount > filters.maxLeaderAmount) {
+    return `Leader buy of ${swap.solAmount} SOL is above ${filters.maxLeaderAmount} SOL`;
+  }
+  return null;
+}
+
+/**
+ * Mirrors the swaps of followed wallets. Leader swaps arrive as `tokenSwap`
+ * events from the Helius webhook, and from the realtime stream when it is
+ * connected; each follower's copy waits out their delay, is recorded as a
+ * COPY_TRADE signal with the leader as caller, passes the risk engine and is
+ * filled in the follower's trading mode. Sells only unwind what was bought
+ * after the same leader, in the share of their holding the leader sold.
+ */
+export class CopyTrader {
+  private prisma = prisma;
+  private helius?: HeliusClient;
+  private attached?: HeliusRealtimeMonitor;
+  private leaders = new Map<string, LeaderWallet[]>(); // Active follows by leader address
+  private pending = new Set<string>();
+  private queues = new Map<string, Promise<void>>();   // Copies of one leader run in order
+  private scheduler?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  private onSwap = (event: TokenSwapEvent) => {
+    const swap = toLeaderSwap(event);
+    if (!swap) return;
+
+    for (const leader of this.leaders.get(swap.leader) ?? []) {
+      this.schedule(leader, swap);
+    }
+  };
+
+  private onConnected = () => {
+    this.subscribeLeaders().catch(error => console.error('Failed to subscribe to leader wallets:', error));
+  };
+
+  start(monitor: HeliusRealtimeMonitor = heliusRealtimeMonitor): void {
+    if (this.scheduler) return;
+
+    this.attached = monitor;
+    monitor.on('tokenSwap', this.onSwap);
+    monitor.on('connected', this.onConnected);
+
+    this.sync().catch(error => console.error('Copy trading sync failed:', error));
+    this.scheduler = setInterval(() => {
+      this.sync().catch(error => console.error('Copy trading sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    this.attached?.off('tokenSwap', this.onSwap);
+    this.attached?.off('connected', this.onConnected);
+    this.attached = undefined;
+  }
+
+  /**
+   * Reload followed wallets now instead of at the next scheduled sync
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const follows = await this.prisma.leaderWallet.findMany({ where: { isActive: true } });
+
+    const leaders = new Map<string, LeaderWallet[]>();
+    for (const follow of follows) {
+      leaders.set(follow.address, [...(leaders.get(follow.address) ?? []), follow]);
+    }
+    this.leaders = leaders;
+
+    await this.subscribeLeaders();
+  }
+
+  /**
+   * Only subscribes on a live stream; in demo mode the monitor never connects
+   * and swaps come from the webhook alone
+   */
+  private async subscribeLeaders(): Promise<void> {
+    const monitor = this.attached;
+    if (!monitor || monitor.getConnectionState() !== ConnectionState.CONNECTED) return;
+
+    const subscribed = new Set(monitor.getActiveSubscriptions());
+    for (const address of this.leaders.keys()) {
+      if (subscribed.has(`account_${address}`)) continue;
+      try {
+        await monitor.subscribeToAccount(address);
+      } catch (error) {
+        console.error(`Failed to subscribe to leader wallet ${address}:`, error);
+      }
+    }
+  }
+
+  private schedule(leader: LeaderWallet, swap: LeaderSwap): void {
+    // The webhook and the stream can both deliver a swap
+    const key = `${leader.id}:${swap.signature}`;
+    if (this.pending.has(key)) return;
+    this.pending.add(key);
+
+    setTimeout(() => {
+      const queued: Promise<void> = (this.queues.get(leader.id) ?? Promise.resolve())
+        .then(() => this.mirror(leader.id, swap))
+        .then(result => {
+          if (result.status === 'EXECUTED') {
+            console.log(`👥 Mirrored ${swap.side} of ${swap.tokenAddress} from ${leader.label ?? leader.address} for user ${leader.userId}`);
+          } else if (result.status === 'REJECTED') {
+            console.log(`🚫 Copy of ${swap.signature} for user ${leader.userId} rejected: ${result.reason}`);
+          }
+        })
+        .catch(error => console.error(`Failed to mirror ${swap.signature} for user ${leader.userId}:`, error))
+        .finally(() => {
+          this.pending.delete(key);
+          if (this.queues.get(leader.id) === queued) this.queues.delete(leader.id);
+        });
+      this.queues.set(leader.id, queued);
+    }, leader.delayMs);
+  }
+
+  /**
+   * Mirror one leader swap for the follow `leaderWalletId`. The follow is
+   * re-read, so a leader paused or edited during the delay is respected.
+   */
+  async mirror(leaderWalletId: string, swap: LeaderSwap): Promise<CopyTradeResult> {
+    const leader = await this.prisma.leaderWallet.findUnique({ where: { id: leaderWalletId } });
+    if (!leader?.isActive || leader.address !== swap.leader) {
+      return { status: 'SKIPPED', reason: 'Wallet is no longer followed' };
+    }
+
+    const filters = (leader.filters ?? {}) as CopyTradeFilters;
+    const filtered = checkCopyFilters(filters, swap);
+    if (filtered) return { status: 'SKIPPED', reason: filtered };
+
+    const mirrored = await this.prisma.signal.findFirst({
+      where: { userId: leader.userId, feed: COPY_TRADE_FEED, sourceId: swap.signature },
+      select: { id: true }
+    });
+    if (mirrored) return { status: 'SKIPPED', reason: 'Swap already mirrored' };
+
+    // The kill switch turns trading off; copies stop with everything else
+    const settings = await this.prisma.tradingSettings.findUnique({ where: { userId: leader.userId } });
+    if (!settings?.isActive) return { status: 'SKIPPED', reason: 'Trading is disabled' };
+    const tradingMode = settings.tradingMode;
+
+    let heldQuantity = 0;
+    if (swap.side === 'SELL') {
+      heldQuantity = await this.openQuantity(leader, swap.tokenAddress, tradingMode);
+      if (heldQuantity <= DUST) return { status: 'SKIPPED', reason: 'Nothing bought after this leader to sell' };
+    }
+
+    const details = { leaderWalletId: leader.id, leaderWallet: leader.address, swap };
+    const signal = await this.prisma.signal.create({
+      data: {
+        source: 'SOLANA_INDEXER',
+        feed: COPY_TRADE_FEED,
+        sourceId: swap.signature,
+        userId: leader.userId,
+        caller: leader.label ?? leader.address,
+        callerId: leader.address,
+        postedAt: new Date(swap.timestamp),
+        tokenAddress: swap.tokenAddress,
+        confidence: 1,
+        rawMessage: JSON.stringify(swap),
+        filtersResult: details as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    const reject = async (reason: string): Promise<CopyTradeResult> => {
+      await this.prisma.signal.update({
+        where: { id: signal.id },
+        data: {
+          isProcessed: true,
+          passedFilters: false,
+          filtersResult: { ...details, rejectionReason: reason } as unknown as Prisma.InputJsonValue
+        }
+      });
+      return { status: 'REJECTED', signalId: signal.id, reason };
+    };
+
+    // Exits still follow the leader out of a disabled source, so positions are not stranded
+    if (swap.side === 'BUY' && await signalAttribution.isDisabled(leader.userId, signalSourceKey(signal))) {
+      return reject('Signal source is disabled');
+    }
+
+    const prices = await fetchTokenPrices([TOKEN_ADDRESSES.SOL, swap.tokenAddress]);
+    const solPrice = prices[TOKEN_ADDRESSES.SOL];
+    if (!solPrice) return reject('No SOL price available');
+
+    // The leader's own fill stands in for tokens the price feed does not quote yet
+    const leaderPrice = (swap.solAmount / swap.tokenAmount) * solPrice;
+    const price = prices[swap.tokenAddress] ?? leaderPrice;
+    if (swap.side === 'BUY' && filters.maxPriceDrift !== undefined && price > leaderPrice * (1 + filters.maxPriceDrift)) {
+      return reject(`Price is ${((price / leaderPrice - 1) * 100).toFixed(1)}% above the leader's entry`);
+    }
+
+    const quantity = swap.side === 'SELL' ? heldQuantity * await this.leaderSoldShare(swap) : 0;
+    const amount = swap.side === 'BUY' ? copyBuySize(leader, swap.solAmount) * solPrice : quantity * price;
+    if (!(amount > 0)) return reject('Copy size is zero');
+
+    const decision = await riskEngine.assessTrade({
+      userId: leader.userId,
+      tokenAddress: swap.tokenAddress,
+      side: swap.side,
+      amount,
+      price,
+      tradingMode,
+      signal: {
+        confidence: 1,
+        source: COPY_TRADE_FEED,
+        metadata: { leaderWallet: leader.address, signature: swap.signature }
+      }
+    });
+    if (!decision.approved) {
+      return reject(decision.reasons.join('; '));
+    }
+
+    const order = {
+      userId: leader.userId,
+      tradingMode,
+      tokenAddress: swap.tokenAddress,
+      price,
+      signalId: signal.id,
+      leaderWalletId: leader.id,
+      metadata: {
+        copyTrade: {
+          leaderWallet: leader.address,
+          leaderSignature: swap.signature,
+          leaderPrice,
+          sizingMode: leader.sizingMode
+        },
+        riskScore: decision.riskScore
+      }
+    };
+
+    let fill: MarketBuyFill;
+    try {
+      fill = swap.side === 'BUY'
+        ? await marketBuy({ ...order, solAmount: decision.adjustedPositionSize / solPrice, solPrice })
+        : await marketSell({ ...order, quantity });
+    } catch (error) {
+      return reject(error instanceof Error ? error.message : 'Execution failed');
+    }
+
+    await this.prisma.signal.update({
+      where: { id: signal.id },
+      data: {
+        isProcessed: true,
+        passedFilters: true,
+        filtersResult: {
+          ...details,
+          riskScore: decision.riskScore,
+          reasoning: decision.warnings,
+          tradeId: fill.tradeId
+        } as unknown as Prisma.InputJsonValue
+      }
+    });
+    await this.prisma.leaderWallet.update({
+      where: { id: leader.id },
+      data: { lastCopiedAt: new Date() }
+    });
+
+    return { status: 'EXECUTED', signalId: signal.id, fill };
+  }
+
+  /**
+   * Tokens bought after this leader and not yet sold after them, capped at the
+   * position, which exits and other strategies may have reduced
+   */
+  private async openQuantity(leader: LeaderWallet, tokenAddress: string, tradingMode: TradingMode): Promise<number> {
+    const [mirrored, position] = await Promise.all([
+      this.prisma.trade.groupBy({
+        by: ['type'],
+        where: { leaderWalletId: leader.id, tokenAddress, tradingMode, status: 'EXECUTED' },
+        _sum: { amount: true }
+      }),
+      this.prisma.position.findFirst({
+        where: { tokenAddress, tradingMode, amount: { gt: 0 }, portfolio: { userId: leader.userId, isActive: true } },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    const bought = mirrored.find(group => group.type === 'BUY')?._sum.amount ?? 0;
+    const sold = mirrored.find(group => group.type === 'SELL')?._sum.amount ?? 0;
+    return Math.max(0, Math.min(bought - sold, position?.amount ?? 0));
+  }
+
+  /**
+   * Share of their holding the leader sold, from their balance after the
+   * swap. Everything is sold when the balance cannot be read.
+   */
+  private async leaderSoldShare(swap: LeaderSwap): Promise<number> {
+    try {
+      this.helius ??= new HeliusClient();
+      const balances = await this.helius.getTokenBalances(swap.leader);
+      const remaining = balances
+        .filter(balance => balance.mint === swap.tokenAddress)
+        .reduce((sum, balance) => sum + balance.uiAmount, 0);
+      return Math.min(1, swap.tokenAmount / (swap.tokenAmount + remaining));
+    } catch (error) {
+      console.error(`Failed to read leader ${swap.leader} balance of ${swap.tokenAddress}:`, error);
+      return 1;
+    }
+  }
+
+  /**
+   * Per-leader results of the user's mirrored trades
+   */
+  async getLeaderStats(userId: string): Promise<LeaderStats[]> {
+    const leaders = await this.prisma.leaderWallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        trades: {
+          where: { status: 'EXECUTED' },
+          orderBy: { createdAt: 'asc' },
+          select: { type: true, tokenAddress: true, tradingMode: true, amount: true, price: true, fees: true, pnl: true }
+        }
+      }
+    });
+
+    // Open mirrored quantity per token, carrying its share of the buys' cost
+    const lotsByLeader = leaders.map(leader => {
+      const lots = new Map<string, { tokenAddress: string; tradingMode: TradingMode; quantity: number; costBasis: number }>();
+      for (const trade of leader.trades) {
+        const key = `${trade.tokenAddress}:${trade.tradingMode}`;
+        const lot = lots.get(key) ?? { tokenAddress: trade.tokenAddress, tradingMode: trade.tradingMode, quantity: 0, costBasis: 0 };
+        if (trade.type === 'BUY') {
+          lot.quantity += trade.amount;
+          lot.costBasis += trade.amount * (trade.price ?? 0);
+        } else if (lot.quantity > 0) {
+          const sold = Math.min(trade.amount, lot.quantity);
+          lot.costBasis *= 1 - sold / lot.quantity;
+          lot.quantity -= sold;
+        }
+        lots.set(key, lot);
+      }
+      return Array.from(lots.values()).filter(lot => lot.quantity > DUST);
+    });
+
+    const prices = await fetchTokenPrices(lotsByLeader.flat().map(lot => lot.tokenAddress));
+
+    return leaders.map((leader, index) => {
+      const buys = leader.trades.filter(trade => trade.type === 'BUY');
+      const sells = leader.trades.filter(trade => trade.type === 'SELL');
+      const wins = sells.filter(trade => trade.pnl > 0).length;
+
+      const openPositions: LeaderPosition[] = lotsByLeader[index].map(lot => {
+        const markPrice = prices[lot.tokenAddress] ?? null;
+        return {
+          ...lot,
+          markPrice,
+          unrealizedPnl: markPrice !== null ? lot.quantity * markPrice - lot.costBasis : null
+        };
+      });
+
+      const realizedPnl = leader.trades.reduce((sum, trade) => sum + trade.pnl, 0);
+      const unrealizedPnl = openPositions.reduce((sum, position) => sum + (position.unrealizedPnl ?? 0), 0);
+
+      return {
+        leaderWalletId: leader.id,
+        address: leader.address,
+        label: leader.label,
+        isActive: leader.isActive,
+        trades: leader.trades.length,
+        buys: buys.length,
+        sells: sells.length,
+        wins,
+        winRate: sells.length > 0 ? wins / sells.length : null,
+        invested: buys.reduce((sum, trade) => sum + trade.amount * (trade.price ?? 0) + trade.fees, 0),
+        realizedPnl,
+        unrealizedPnl,
+        totalPnl: realizedPnl + unrealizedPnl,
+        openPositions,
+        lastCopiedAt: leader.lastCopiedAt
+      };
+    });
+  }
+}
+
+const globalForCopyTrading = globalThis as unknown as {
+  copyTrading: CopyTrader | undefined
+};
+
+export const copyTrading = globalForCopyTrading.copyTrading ?? new CopyTrader();
+
+globalForCopyTrading.copyTrading = copyTrading;
@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+import { EquitySnapshot, EquitySnapshotReason } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { marketRegimeDetector } from './market-regime';
+import { fetchTokenPrices } from './token-prices';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS_PER_YEAR = 365; // crypto trades every day
+const DEFAULT_METRICS_WINDOW_DAYS = 30;
+const SNAPSHOT_INTERVAL_MS = Number(process.env.EQUITY_SNAPSHOT_INTERVAL_MS || 15 * 60 * 1000);
+const DUST = 1e-9;
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface EquityMetrics {
+  currentEquity: number;
+  peakEquity: number;
+  drawdown: number;           // Current fraction below the running peak
+  maxDrawdown: number;        // Worst peak-to-trough fraction in the series
+  dailyPnl: number;           // Equity change since the last point before 00:00 UTC
+  dailyPnlPercentage: number;
+  sharpeRatio: number;        // Annualized, from daily closes
+  sortinoRatio: number;
+  volatility: number;         // Annualized standard deviation of daily returns
+  samples: number;
+}
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Risk metrics from an equity series ordered oldest first. Sharpe and Sortino
+ * use the last equity of each UTC day, so intraday snapshot frequency does not
+ * skew the ratios. A zero risk-free rate is assumed.
+ */
+export function computeEquityMetrics(points: EquityPoint[], now: Date = new Date()): EquityMetrics {
+  if (points.length === 0) {
+    return {
+      currentEquity: 0,
+      peakEquity: 0,
+      drawdown: 0,
+      maxDrawdown: 0,
+      dailyPnl: 0,
+      dailyPnlPercentage: 0,
+      sharpeRatio: 0,
+      sortinoRatio: 0,
+      volatility: 0,
+      samples: 0
+    };
+  }
+
+  let peakEquity = points[0].equity;
+  let maxDrawdown = 0;
+  for (const point of points) {
+    peakEquity = Math.max(peakEquity, point.equity);
+    if (peakEquity > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peakEquity - point.equity) / peakEquity);
+    }
+  }
+
+  const currentEquity = points[points.length - 1].equity;
+  const drawdown = peakEquity > 0 ? (peakEquity - currentEquity) / peakEquity : 0;
+
+  const dayStart = startOfUtcDay(now).getTime();
+  const beforeToday = points.filter(point => point.timestamp.getTime() < dayStart);
+  const openingEquity = beforeToday.length > 0 ? beforeToday[beforeToday.length - 1].equity : points[0].equity;
+  const dailyPnl = currentEquity - openingEquity;
+
+  const dailyCloses = new Map<number, number>();
+  for (const point of points) {
+    dailyCloses.set(startOfUtcDay(point.timestamp).getTime(), point.equity);
+  }
+  const closes = Array.from(dailyCloses.values());
+
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) {
+      returns.push(closes[i] / closes[i - 1] - 1);
+    }
+  }
+
+  let sharpeRatio = 0;
+  let sortinoRatio = 0;
+  let volatility = 0;
+
+  if (returns.length >= 2) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+    const annualization = Math.sqrt(TRADING_DAYS_PER_YEAR);
+    const stdDev = Math.sqrt(variance);
+
+    volatility = stdDev * annualization;
+    sharpeRatio = stdDev > 0 ? (mean / stdDev) * annualization : 0;
+    sortinoRatio = downside > 0 ? (mean / downside) * annualization : 0;
+  }
+
+  return {
+    currentEquity,
+    peakEquity,
+    drawdown,
+    maxDrawdown,
+    dailyPnl,
+    dailyPnlPercentage: openingEquity > 0 ? (dailyPnl / openingEquity) * 100 : 0,
+    sharpeRatio,
+    sortinoRatio,
+    volatility,
+    samples: points.length
+  };
+}
+
+/**
+ * Writes the portfolio equity time series. Equity is marked to market:
+ * realized equity (`Portfolio.currentEquity`) plus unrealized PnL on open
+ * positions, split into cash and position value. Snapshots are taken after
+ * every fill and on a schedule, and each one refreshes the portfolio's
+ * RiskMetrics row for the day. A `snapshot` event carries each new snapshot
+ * with the portfolio's metrics.
+ */
+export class EquitySnapshotService extends EventEmitter {
+  private prisma = prisma;
+  private scheduler?: NodeJS.Timeout;
+
+  async snapshot(portfolioId: string, reason: EquitySnapshotReason): Promise<EquitySnapshot> {
+    const portfolio = await this.prisma.portfolio.findUniqueOrThrow({
+      where: { id: portfolioId },
+      include: { positions: { where: { amount: { gt: DUST } } } }
+    });
+
+    let positionValue = 0;
+    let unrealizedPnl = 0;
+    for (const position of portfolio.positions) {
+      const price = position.currentPrice ?? position.averagePrice;
+      positionValue += position.amount * price;
+      unrealizedPnl += (price - position.averagePrice) * position.amount;
+    }
+
+    const equity = portfolio.currentEquity + unrealizedPnl;
+
+    const previous = await this.prisma.equitySnapshot.findFirst({
+      where: { portfolioId },
+      orderBy: { createdAt: 'desc' },
+      select: { peakEquity: true }
+    });
+    const peakEquity = Math.max(previous?.peakEquity ?? portfolio.startingEquity, equity);
+
+    const snapshot = await this.prisma.equitySnapshot.create({
+      data: {
+        portfolioId,
+        equity,
+        cash: equity - positionValue,
+        positionValue,
+        realizedPnl: portfolio.totalPnl,
+        unrealizedPnl,
+        peakEquity,
+        drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0,
+        reason
+      }
+    });
+
+    const metrics = await this.recordRiskMetrics(portfolioId);
+    this.emit('snapshot', snapshot, metrics);
+    return snapshot;
+  }
+
+  /**
+   * Equity series for charts, oldest first
+   */
+  getSeries(portfolioId: string, since?: Date): Promise<EquitySnapshot[]> {
+    return this.prisma.equitySnapshot.findMany({
+      where: { portfolioId, ...(since && { createdAt: { gte: since } }) },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async getMetrics(portfolioId: string, windowDays = DEFAULT_METRICS_WINDOW_DAYS): Promise<EquityMetrics> {
+    const now = new Date();
+    const rows = await this.prisma.equitySnapshot.findMany({
+      where: { portfolioId, createdAt: { gte: new Date(now.getTime() - windowDays * DAY_MS) } },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true, equity: true }
+    });
+
+    return computeEquityMetrics(rows.map(row => ({ timestamp: row.createdAt, equity: row.equity })), now);
+  }
+
+  /**
+   * Upsert today's RiskMetrics row for the portfolio from its equity series
+   */
+  async recordRiskMetrics(portfolioId: string): Promise<EquityMetrics> {
+    const metrics = await this.getMetrics(portfolioId);
+    const date = startOfUtcDay(new Date());
+
+    const [totalTrades, failedTrades] = await Promise.all([
+      this.prisma.trade.count({ where: { portfolioId, createdAt: { gte: date } } }),
+      this.prisma.trade.count({ where: { portfolioId, createdAt: { gte: date }, status: 'FAILED' } })
+    ]);
+
+    const riskLevel = metrics.drawdown >= 0.15 ? 'HIGH' : metrics.drawdown >= 0.08 ? 'MEDIUM' : 'LOW';
+    const regime = await marketRegimeDetector.getCurrentRegime();
+    const values = {
+      totalTrades,
+      failedTrades,
+      successRate: totalTrades > 0 ? (totalTrades - failedTrades) / totalTrades : 0,
+      dailyPnl: metrics.dailyPnl,
+      drawdown: metrics.drawdown,
+      maxDrawdown: metrics.maxDrawdown,
+      sharpeRatio: metrics.sharpeRatio,
+      sortinoRatio: metrics.sortinoRatio,
+      portfolioValue: metrics.currentEquity,
+      // An unknown regime leaves the greenlight to the portfolio's own risk
+      isGreenlight: riskLevel !== 'HIGH' && (regime ?? 'GREENLIGHT') === 'GREENLIGHT',
+      riskLevel
+    };
+
+    await this.prisma.riskMetrics.upsert({
+      where: { portfolioId_date: { portfolioId, date } },
+      update: values,
+      create: { portfolioId, date, ...values }
+    });
+
+    return metrics;
+  }
+
+  /**
+   * Mark open positions to market and snapshot every active portfolio that
+   * has traded
+   */
+  async snapshotAll(): Promise<void> {
+    const portfolios = await this.prisma.portfolio.findMany({
+      where: { isActive: true, totalTrades: { gt: 0 } },
+      include: { positions: { where: { amount: { gt: DUST } } } }
+    });
+
+    const prices = await fetchTokenPrices(
+      portfolios.flatMap(portfolio => portfolio.positions.map(position => position.tokenAddress))
+    );
+
+    for (const portfolio of portfolios) {
+      try {
+        for (const position of portfolio.positions) {
+          const price = prices[position.tokenAddress];
+          if (!price) continue;
+
+          await this.prisma.position.update({
+            where: { id: position.id },
+            data: {
+              currentPrice: price,
+              unrealizedPnl: (price - position.averagePrice) * position.amount
+            }
+          });
+        }
+
+        await this.snapshot(portfolio.id, 'SCHEDULED');
+      } catch (error) {
+        console.error(`Failed to snapshot portfolio ${portfolio.id}:`, error);
+      }
+    }
+  }
+
+  startScheduler(): void {
+    if (this.scheduler) return;
+
+    this.scheduler = setInterval(() => {
+      this.snapshotAll().catch(error => console.error('Scheduled equity snapshot failed:', error));
+    }, SNAPSHOT_INTERVAL_MS);
+  }
+
+  stopScheduler(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+  }
+}
+
+const globalForEquitySnapshots = globalThis as unknown as {
+  equitySnapshots: EquitySnapshotService | undefined
+};
+
+export const equitySnapshots = globalForEquitySnapshots.equitySnapshots ?? new EquitySnapshotService();
+
+globalForEquitySnapshots.equitySnapshots = equitySnapshots;
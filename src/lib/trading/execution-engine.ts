@@ -1,29 +1,7 @@
 import { Connection } from '@solana/web3.js';
 import { PrismaClient } from '@prisma/client';
 import { SignalData } from '../signalProcessor';
-
-interface MultiLevelTakeProfit {
-  tp1: {
-    price: number;
-    percentage: number; // % of position to close
-  };
-  tp2: {
-    price: number;
-    percentage: number;
-  };
-  tp3: {
-    price: number;
-    percentage: number;
-    trailing?: boolean; // Enable trailing for final TP
-  };
-}
-
-interface AdvancedStopLoss {
-  price: number;
-  trailing: boolean;
-  trailDistance: number; // % distance to maintain
-  breakEven: boolean; // Move to break-even when TP1 hit
-}
+import { riskProfileExitPlan } from './exit-plan';
 
 interface MEVProtection {
   enabled: boolean;
@@ -94,8 +72,7 @@ export class AdvancedExecutionEngine {
       }
 
       // Multi-level take profit and stop loss setup
-      const takeProfits = this.setupMultiLevelTakeProfit(params);
-      const stopLoss = this.setupAdvancedStopLoss(params);
+      const exitPlan = riskProfileExitPlan(params.signal.price, params.settings.riskProfile);
       
       // MEV Protection implementation
   const mevProtection = await this.implementMEVProtection(params);
@@ -107,8 +84,8 @@ export class AdvancedExecutionEngine {
         return tradeResult;
       }
 
-      // Set up advanced order management
-      await this.setupAdvancedOrderManagement(params.userId, tradeResult.txHash!, takeProfits, stopLoss);
+      // The exit plan is returned in metadata and placed as exit orders
+      // when the fill is recorded against a position
       
       // Dynamic position sizing based on volatility
       const adjustedAmount = await this.calculateDynamicPositionSize(params);
@@ -128,8 +105,7 @@ export class AdvancedExecutionEngine {
         blockNumber: tradeResult.blockNumber,
         metadata: {
           orderId: this.generateOrderId(),
-          takeProfits,
-          stopLoss,
+          exitPlan,
           mevProtection,
           riskProfile: params.settings.riskProfile || 'MODERATE'
         }
@@ -167,56 +143,6 @@ export class AdvancedExecutionEngine {
     return { valid: true };
   }
 
-  private setupMultiLevelTakeProfit(params: TradeExecution): MultiLevelTakeProfit {
-    const basePrice = params.signal.price;
-    const riskProfile = params.settings.riskProfile || 'MODERATE';
-    
-    // Adjust TP levels based on risk profile
-    const multipliers: Record<string, {tp1: number, tp2: number, tp3: number}> = {
-      CONSERVATIVE: { tp1: 1.02, tp2: 1.05, tp3: 1.08 },
-      MODERATE: { tp1: 1.03, tp2: 1.07, tp3: 1.12 },
-      AGGRESSIVE: { tp1: 1.05, tp2: 1.12, tp3: 1.20 }
-    };
-    
-    const selectedMultipliers = multipliers[riskProfile] || multipliers.MODERATE;
-
-    return {
-      tp1: {
-        price: basePrice * selectedMultipliers.tp1,
-        percentage: 40 // Close 40% at TP1
-      },
-      tp2: {
-        price: basePrice * selectedMultipliers.tp2,
-        percentage: 35 // Close 35% at TP2
-      },
-      tp3: {
-        price: basePrice * selectedMultipliers.tp3,
-        percentage: 25, // Close remaining 25% at TP3
-        trailing: true // Enable trailing for final exit
-      }
-    };
-  }
-
-  private setupAdvancedStopLoss(params: TradeExecution): AdvancedStopLoss {
-    const basePrice = params.signal.price;
-    const riskProfile = params.settings.riskProfile || 'MODERATE';
-    
-    const stopLossMap: Record<string, number> = {
-      CONSERVATIVE: 0.95, // 5% stop loss
-      MODERATE: 0.92,     // 8% stop loss
-      AGGRESSIVE: 0.88    // 12% stop loss
-    };
-    
-    const stopLossPercentage = stopLossMap[riskProfile] || 0.92;
-
-    return {
-      price: basePrice * stopLossPercentage,
-      trailing: true,
-      trailDistance: 0.05, // 5% trailing distance
-      breakEven: true // Move to break-even when TP1 is hit
-    };
-  }
-
   private async implementMEVProtection(params: TradeExecution): Promise<MEVProtection> {
     return {
       enabled: true,
@@ -296,26 +222,6 @@ export class AdvancedExecutionEngine {
     return Math.max(0, Math.min(baseImpact, 0.05)); // Max 5% impact
   }
 
-  private async setupAdvancedOrderManagement(
-    userId: string, 
-    txHash: string, 
-    takeProfits: MultiLevelTakeProfit, 
-    stopLoss: AdvancedStopLoss
-  ): Promise<void> {
-    // Store advanced order data for monitoring
-    const orderData = {
-      userId,
-      parentTxHash: txHash,
-      takeProfits,
-      stopLoss,
-      status: 'ACTIVE',
-      createdAt: new Date()
-    };
-    
-    // In production, store this in database for order monitoring service
-    console.log('Advanced order management setup:', orderData);
-  }
-
   private async calculateDynamicPositionSize(params: TradeExecution): Promise<number> {
     // Get volatility data
     const volatility = await this.getTokenVolatility(params.signal.tokenAddress);
@@ -470,4 +376,4 @@ export class AdvancedExecutionEngine {
   }
 }
 
-export type { TradeExecution, MultiLevelTakeProfit, AdvancedStopLoss, ExecutionResult };
\ No newline at end of file
+export type { TradeExecution, ExecutionResult };
\ No newline at end of file
@@ -0,0 +1,309 @@
+import { ExitOrder, Position, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { jobQueue } from '@/lib/queue/job-queue';
+import { DEFAULT_TRAIL_DISTANCE, ExitPlan, buildExitOrders } from './exit-plan';
+import { MarketSellFill, marketSell } from './market-sell';
+import { fetchTokenPrices } from './token-prices';
+
+const MONITOR_INTERVAL_MS = 5000;
+const DUST = 1e-9;
+
+type PositionWithOrders = Position & {
+  portfolio: { userId: string };
+  exitOrders: ExitOrder[];
+};
+
+export type { ExitPlan };
+
+export type ExitFill = MarketSellFill;
+
+/**
+ * Places and enforces persistent exit orders. Take-profit levels sell their
+ * share of the entry, the last level may trail, and the stop follows price
+ * when trailing and moves to break-even once TP1 fills. Every fill is
+ * recorded through the ledger and linked to its Trade row. BUY fills that
+ * carry an exit plan get their orders from the ledger in the same
+ * transaction.
+ */
+export class ExitOrderManager {
+  private prisma = prisma;
+  private monitor?: NodeJS.Timeout;
+
+  /**
+   * Attach an exit plan to a position for a newly filled entry of `quantity`
+   */
+  async placeExitOrders(positionId: string, entryTradeId: string, quantity: number, plan: ExitPlan): Promise<ExitOrder[]> {
+    await this.prisma.exitOrder.createMany({ data: buildExitOrders(positionId, entryTradeId, quantity, plan) });
+
+    return this.prisma.exitOrder.findMany({
+      where: { positionId, entryTradeId, status: 'ACTIVE' },
+      orderBy: [{ type: 'asc' }, { level: 'asc' }]
+    });
+  }
+
+  async cancelExitOrders(positionId: string): Promise<number> {
+    const result = await this.prisma.exitOrder.updateMany({
+      where: { positionId, status: 'ACTIVE' },
+      data: { status: 'CANCELLED' }
+    });
+    return result.count;
+  }
+
+  /**
+   * Evaluate every open position of a user with active exit orders at the
+   * current market price.
+   */
+  async evaluateUser(userId: string): Promise<void> {
+    const positions = await this.loadPositions({ portfolio: { userId } });
+    if (positions.length === 0) return;
+
+    const prices = await fetchTokenPrices(positions.map(position => position.tokenAddress));
+
+    for (const position of positions) {
+      const price = prices[position.tokenAddress];
+      if (!price) continue;
+
+      try {
+        await this.evaluatePosition(position, price);
+      } catch (error) {
+        console.error(`Exit order evaluation failed for position ${position.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Evaluate all positions in a token at a given price, e.g. from a price stream
+   */
+  async evaluatePrice(tokenAddress: string, price: number): Promise<void> {
+    const positions = await this.loadPositions({ tokenAddress });
+
+    for (const position of positions) {
+      try {
+        await this.evaluatePosition(position, price);
+      } catch (error) {
+        console.error(`Exit order evaluation failed for position ${position.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Queue exit monitoring for every user with active exit orders. Job ids
+   * match the trading bot's, so users with a running bot get one check per tick.
+   */
+  startMonitoring(): void {
+    if (this.monitor) return;
+
+    this.monitor = setInterval(async () => {
+      try {
+        const portfolios = await this.prisma.portfolio.findMany({
+          where: { positions: { some: { amount: { gt: 0 }, exitOrders: { some: { status: 'ACTIVE' } } } } },
+          select: { userId: true },
+          distinct: ['userId']
+        });
+
+        const bucket = Math.floor(Date.now() / MONITOR_INTERVAL_MS);
+        await Promise.all(portfolios.map(({ userId }) =>
+          jobQueue.enqueue('exit-monitoring', {}, { userId, jobId: `exit:${userId}:${bucket}` })
+        ));
+      } catch (error) {
+        console.error('Failed to queue exit order monitoring:', error);
+      }
+    }, MONITOR_INTERVAL_MS);
+  }
+
+  stopMonitoring(): void {
+    if (this.monitor) {
+      clearInterval(this.monitor);
+      this.monitor = undefined;
+    }
+  }
+
+  private loadPositions(where: Prisma.PositionWhereInput): Promise<PositionWithOrders[]> {
+    return this.prisma.position.findMany({
+      where: {
+        ...where,
+        amount: { gt: 0 },
+        exitOrders: { some: { status: 'ACTIVE' } }
+      },
+      include: {
+        portfolio: { select: { userId: true } },
+        exitOrders: {
+          where: { status: 'ACTIVE' },
+          orderBy: { level: 'asc' }
+        }
+      }
+    });
+  }
+
+  private async evaluatePosition(position: PositionWithOrders, price: number): Promise<void> {
+    // Each entry carries its own exit orders
+    const entries = new Map<string, ExitOrder[]>();
+    for (const order of position.exitOrders) {
+      const key = order.entryTradeId ?? order.id;
+      entries.set(key, [...(entries.get(key) || []), order]);
+    }
+
+    let remaining = position.amount;
+    for (const orders of entries.values()) {
+      if (remaining <= DUST) break;
+      remaining = await this.evaluateEntry(position, orders, remaining, price);
+    }
+
+    if (remaining <= DUST) {
+      await this.cancelExitOrders(position.id);
+    }
+  }
+
+  /**
+   * Evaluate one entry's exit orders and return what is left of the position
+   */
+  private async evaluateEntry(position: PositionWithOrders, orders: ExitOrder[], remaining: number, price: number): Promise<number> {
+    let stop = orders.find(order => order.type === 'STOP_LOSS');
+    const takeProfits = orders.filter(order => order.type === 'TAKE_PROFIT');
+
+    // Trailing stop follows the high-water mark and never moves down
+    if (stop?.trailing) {
+      const highWaterMark = Math.max(stop.highWaterMark ?? position.averagePrice, price);
+      const triggerPrice = Math.max(stop.triggerPrice, highWaterMark * (1 - (stop.trailDistance ?? DEFAULT_TRAIL_DISTANCE)));
+
+      if (highWaterMark !== stop.highWaterMark || triggerPrice !== stop.triggerPrice) {
+        stop = await this.prisma.exitOrder.update({
+          where: { id: stop.id },
+          data: { highWaterMark, triggerPrice }
+        });
+      }
+    }
+
+    if (stop && price <= stop.triggerPrice) {
+      console.log(`🛑 Exit stop hit for ${position.tokenSymbol || position.tokenAddress} at ${price}`);
+      const fill = await this.fillOrder(position, stop, Math.min(stop.amount ?? remaining, remaining), price);
+      if (!fill) return remaining;
+
+      // The entry is closed; its take-profits have nothing left to sell
+      await this.prisma.exitOrder.updateMany({
+        where: { id: { in: takeProfits.map(order => order.id) }, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      return remaining - fill.quantity;
+    }
+
+    for (const order of takeProfits) {
+      if (remaining <= DUST) break;
+
+      if (!this.takeProfitTriggered(order, price)) {
+        // A trailing take-profit arms at its trigger and then tracks the high
+        if (order.trailing && (order.highWaterMark !== null || price >= order.triggerPrice)) {
+          const highWaterMark = Math.max(order.highWaterMark ?? price, price);
+          if (highWaterMark !== order.highWaterMark) {
+            await this.prisma.exitOrder.update({ where: { id: order.id }, data: { highWaterMark } });
+          }
+        }
+        continue;
+      }
+
+      console.log(`🎯 TP${order.level} hit for ${position.tokenSymbol || position.tokenAddress} at ${price}`);
+      const fill = await this.fillOrder(position, order, Math.min(order.amount ?? remaining, remaining), price);
+      if (!fill) continue;
+
+      remaining -= fill.quantity;
+
+      // The stop only protects what is left of this entry
+      if (stop) {
+        stop = await this.prisma.exitOrder.update({
+          where: { id: stop.id },
+          data: {
+            amount: stop.amount !== null ? Math.max(stop.amount - fill.quantity, 0) : null,
+            triggerPrice: order.level === 1 && stop.breakEven
+              ? Math.max(stop.triggerPrice, position.averagePrice)
+              : undefined
+          }
+        });
+      }
+    }
+
+    // Every level of this entry has filled
+    if (stop && stop.amount !== null && stop.amount <= DUST) {
+      await this.prisma.exitOrder.update({ where: { id: stop.id }, data: { status: 'CANCELLED' } });
+    }
+
+    return remaining;
+  }
+
+  private takeProfitTriggered(order: ExitOrder, price: number): boolean {
+    if (!order.trailing) {
+      return price >= order.triggerPrice;
+    }
+
+    // Trailing levels fire on a pullback from the high once armed
+    return order.highWaterMark !== null &&
+      price <= order.highWaterMark * (1 - (order.trailDistance ?? DEFAULT_TRAIL_DISTANCE));
+  }
+
+  /**
+   * Claim the order, sell and link the resulting Trade. The claim keeps two
+   * overlapping evaluations from firing the same order twice.
+   */
+  private async fillOrder(position: PositionWithOrders, order: ExitOrder, quantity: number, price: number): Promise<ExitFill | null> {
+    if (quantity <= DUST) {
+      await this.prisma.exitOrder.update({ where: { id: order.id }, data: { status: 'CANCELLED' } });
+      return null;
+    }
+
+    const claimed = await this.prisma.exitOrder.updateMany({
+      where: { id: order.id, status: 'ACTIVE' },
+      data: { status: 'FILLED', filledAt: new Date() }
+    });
+    if (claimed.count === 0) return null;
+
+    let fill: ExitFill | null = null;
+    try {
+      fill = await this.sell(position, order, quantity, price);
+    } catch (error) {
+      console.error(`Exit order ${order.id} failed to fill:`, error);
+    }
+
+    if (!fill) {
+      await this.prisma.exitOrder.update({
+        where: { id: order.id },
+        data: { status: 'ACTIVE', filledAt: null }
+      });
+      return null;
+    }
+
+    await this.prisma.exitOrder.update({
+      where: { id: order.id },
+      data: {
+        tradeId: fill.tradeId,
+        filledPrice: fill.price,
+        filledAmount: fill.quantity
+      }
+    });
+
+    return fill;
+  }
+
+  private sell(position: PositionWithOrders, order: ExitOrder, quantity: number, price: number): Promise<ExitFill> {
+    return marketSell({
+      userId: position.portfolio.userId,
+      tradingMode: position.tradingMode,
+      tokenAddress: position.tokenAddress,
+      tokenSymbol: position.tokenSymbol ?? undefined,
+      quantity,
+      price,
+      metadata: {
+        exitOrderId: order.id,
+        exitType: order.type,
+        exitLevel: order.level,
+        triggerPrice: order.triggerPrice
+      }
+    });
+  }
+}
+
+const globalForExitOrders = globalThis as unknown as {
+  exitOrderManager: ExitOrderManager | undefined
+};
+
+export const exitOrderManager = globalForExitOrders.exitOrderManager ?? new ExitOrderManager();
+
+globalForExitOrders.exitOrderManager = exitOrderManager;
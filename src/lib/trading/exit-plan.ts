@@ -0,0 +1,105 @@
+import type { Prisma } from '@prisma/client';
+import { getRiskProfile } from '../risk/profiles';
+
+export const DEFAULT_TRAIL_DISTANCE = 0.05;
+
+// Share of the entry each take-profit level of a risk profile ladder closes
+const LADDER_PERCENTAGES = [40, 35, 25];
+
+export interface ExitLevel {
+  price: number;
+  percentage: number; // % of the entry to close
+  trailing?: boolean; // Arms at price, then fires on a pullback from the high
+  trailDistance?: number;
+}
+
+export interface ExitStop {
+  price: number;
+  trailing: boolean;
+  trailDistance?: number; // Fraction below the high-water mark
+  breakEven: boolean;     // Move to entry when the first level fills
+}
+
+/**
+ * Exit orders placed for a new entry: take-profit levels that each sell a
+ * share of it, and a stop on whatever is left
+ */
+export interface ExitPlan {
+  takeProfits: ExitLevel[];
+  stopLoss?: ExitStop;
+}
+
+/**
+ * Take-profit ladder and trailing stop of a risk profile around an entry
+ * price. The last level trails, and the stop moves to break-even at TP1.
+ */
+export function riskProfileExitPlan(price: number, riskProfile?: string | null): ExitPlan {
+  const { takeProfitLevels, stopLoss } = getRiskProfile(riskProfile).parameters;
+
+  return {
+    takeProfits: takeProfitLevels.map((level, index) => ({
+      price: price * (1 + level),
+      percentage: LADDER_PERCENTAGES[index],
+      trailing: index === takeProfitLevels.length - 1,
+      trailDistance: DEFAULT_TRAIL_DISTANCE
+    })),
+    stopLoss: {
+      price: price * (1 - stopLoss),
+      trailing: true,
+      trailDistance: DEFAULT_TRAIL_DISTANCE,
+      breakEven: true
+    }
+  };
+}
+
+/**
+ * A single take-profit and fixed stop on the whole entry; either may be
+ * left out. Returns undefined when neither price is set.
+ */
+export function fixedExitPlan(stopLossPrice?: number | null, takeProfitPrice?: number | null): ExitPlan | undefined {
+  if (!stopLossPrice && !takeProfitPrice) return undefined;
+
+  return {
+    takeProfits: takeProfitPrice ? [{ price: takeProfitPrice, percentage: 100 }] : [],
+    stopLoss: stopLossPrice ? { price: stopLossPrice, trailing: false, breakEven: false } : undefined
+  };
+}
+
+/**
+ * Exit order rows for an entry of `quantity` tokens
+ */
+export function buildExitOrders(
+  positionId: string,
+  entryTradeId: string,
+  quantity: number,
+  plan: ExitPlan
+): Prisma.ExitOrderCreateManyInput[] {
+  const orders: Prisma.ExitOrderCreateManyInput[] = plan.takeProfits.map((tp, index) => ({
+    positionId,
+    entryTradeId,
+    type: 'TAKE_PROFIT',
+    level: index + 1,
+    triggerPrice: tp.price,
+    percentage: tp.percentage,
+    amount: quantity * tp.percentage / 100,
+    trailing: Boolean(tp.trailing),
+    trailDistance: tp.trailing ? tp.trailDistance || DEFAULT_TRAIL_DISTANCE : null
+  }));
+
+  if (plan.stopLoss) {
+    const { stopLoss } = plan;
+    orders.push({
+      positionId,
+      entryTradeId,
+      type: 'STOP_LOSS',
+      triggerPrice: stopLoss.price,
+      percentage: 100,
+      amount: quantity,
+      trailing: stopLoss.trailing,
+      trailDistance: stopLoss.trailing ? stopLoss.trailDistance || DEFAULT_TRAIL_DISTANCE : null,
+      breakEven: stopLoss.breakEven
+    });
+  }
+
+  return orders;
+}
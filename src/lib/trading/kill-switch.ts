@@ -0,0 +1,278 @@
+import { EquitySnapshot, Prisma, TradingMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { jobQueue } from '@/lib/queue/job-queue';
+import type { NotificationJob } from '@/lib/queue/processors';
+import { tradingBotRegistry } from '@/lib/trading-bot-registry';
+import { EquityMetrics, equitySnapshots } from './equity-snapshots';
+import { marketSell } from './market-sell';
+import { fetchTokenPrices } from './token-prices';
+
+const DEFAULT_MAX_SLIPPAGE = Number(process.env.KILL_SWITCH_MAX_SLIPPAGE || 0.05);
+const DUST = 1e-9;
+
+export type KillSwitchTrigger = 'MANUAL' | 'DAILY_DRAWDOWN';
+
+export interface KillSwitchOptions {
+  trigger?: KillSwitchTrigger;
+  reason?: string;
+  maxSlippage?: number; // Fraction of the mark price
+}
+
+export interface ClosedPositionReport {
+  positionId: string;
+  tokenAddress: string;
+  tokenSymbol: string | null;
+  tradingMode: TradingMode;
+  status: 'CLOSED' | 'PARTIAL' | 'FAILED';
+  quantity: number;          // Held before the sell
+  soldQuantity: number;
+  remainingQuantity: number;
+  markPrice: number;
+  fillPrice: number | null;
+  realizedPnl: number;
+  tradeId: string | null;
+  error?: string;
+}
+
+export interface KillSwitchReport {
+  userId: string;
+  trigger: KillSwitchTrigger;
+  reason: string;
+  maxSlippage: number;
+  triggeredAt: string;
+  completedAt: string;
+  botStopped: boolean;
+  cancelledTrades: number;
+  cancelledExitOrders: number;
+  positions: ClosedPositionReport[];
+  realizedPnl: number;
+}
+
+/**
+ * Emergency stop for one user: disables trading, stops the bot, cancels
+ * pending trades and exit orders, then market-sells every open position.
+ * Trips automatically when a portfolio's daily loss breaches the user's
+ * `dailyDrawdownLimit` while trading is active.
+ */
+export class KillSwitch {
+  private prisma = prisma;
+  private running = new Map<string, Promise<KillSwitchReport>>();
+  private monitoring = false;
+
+  /**
+   * Concurrent calls for the same user share one run
+   */
+  trigger(userId: string, options: KillSwitchOptions = {}): Promise<KillSwitchReport> {
+    const existing = this.running.get(userId);
+    if (existing) return existing;
+
+    const run = this.run(userId, options).finally(() => this.running.delete(userId));
+    this.running.set(userId, run);
+    return run;
+  }
+
+  /**
+   * Past kill switch reports for a user, newest first
+   */
+  async getReports(userId: string, limit = 10): Promise<KillSwitchReport[]> {
+    const logs = await this.prisma.systemLog.findMany({
+      where: { module: 'KILL_SWITCH', metadata: { path: ['userId'], equals: userId } },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    return logs.map(log => log.metadata as unknown as KillSwitchReport);
+  }
+
+  startMonitoring(): void {
+    if (this.monitoring) return;
+    this.monitoring = true;
+
+    equitySnapshots.on('snapshot', (snapshot: EquitySnapshot, metrics: EquityMetrics) => {
+      this.checkDailyDrawdown(snapshot.portfolioId, metrics)
+        .catch(error => console.error(`Daily drawdown check failed for portfolio ${snapshot.portfolioId}:`, error));
+    });
+  }
+
+  private async checkDailyDrawdown(portfolioId: string, metrics: EquityMetrics): Promise<void> {
+    const openingEquity = metrics.currentEquity - metrics.dailyPnl;
+    if (metrics.dailyPnl >= 0 || openingEquity <= 0) return;
+
+    const portfolio = await this.prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { userId: true, user: { select: { tradingSettings: true } } }
+    });
+    const settings = portfolio?.user.tradingSettings;
+    if (!portfolio || !settings?.isActive) return;
+
+    const loss = -metrics.dailyPnl / openingEquity;
+    if (loss < settings.dailyDrawdownLimit) return;
+
+    await this.trigger(portfolio.userId, {
+      trigger: 'DAILY_DRAWDOWN',
+      reason: `Daily drawdown ${(loss * 100).toFixed(1)}% breached limit ${(settings.dailyDrawdownLimit * 100).toFixed(1)}%`
+    });
+  }
+
+  private async run(userId: string, options: KillSwitchOptions): Promise<KillSwitchReport> {
+    const triggeredAt = new Date();
+    const trigger = options.trigger ?? 'MANUAL';
+    const reason = options.reason ?? 'Kill switch activated';
+    const maxSlippage = options.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+
+    console.log(`🛑 Kill switch triggered for user ${userId}: ${reason}`);
+
+    // Disable trading first so queued trade jobs and incoming signals are refused
+    await this.prisma.tradingSettings.updateMany({
+      where: { userId },
+      data: { isActive: false }
+    });
+
+    let botStopped = false;
+    try {
+      botStopped = await tradingBotRegistry.stop(userId, 'KILL_SWITCH');
+    } catch (error) {
+      console.error(`Kill switch failed to stop bot for user ${userId}:`, error);
+    }
+
+    const cancelledTrades = await this.prisma.trade.updateMany({
+      // Submitted trades cannot be recalled and are left to settle on chain
+      where: { userId, status: 'PENDING', txHash: null },
+      data: {
+        status: 'CANCELLED',
+        metadata: { killSwitch: true, reason }
+      }
+    });
+
+    // Exit orders are cancelled before selling so the monitor cannot sell the same tokens
+    const cancelledExitOrders = await this.prisma.exitOrder.updateMany({
+      where: { status: 'ACTIVE', position: { portfolio: { userId } } },
+      data: { status: 'CANCELLED' }
+    });
+
+    const positions = await this.flatten(userId, { trigger, reason, maxSlippage });
+
+    const report: KillSwitchReport = {
+      userId,
+      trigger,
+      reason,
+      maxSlippage,
+      triggeredAt: triggeredAt.toISOString(),
+      completedAt: new Date().toISOString(),
+      botStopped,
+      cancelledTrades: cancelledTrades.count,
+      cancelledExitOrders: cancelledExitOrders.count,
+      positions,
+      realizedPnl: positions.reduce((sum, position) => sum + position.realizedPnl, 0)
+    };
+
+    await this.publish(report);
+    return report;
+  }
+
+  /**
+   * Market-sell every open position. One failed sell does not stop the rest.
+   */
+  private async flatten(
+    userId: string,
+    { trigger, reason, maxSlippage }: Required<KillSwitchOptions>
+  ): Promise<ClosedPositionReport[]> {
+    const positions = await this.prisma.position.findMany({
+      where: { amount: { gt: DUST }, portfolio: { userId } }
+    });
+    if (positions.length === 0) return [];
+
+    const prices = await fetchTokenPrices(positions.map(position => position.tokenAddress));
+    const reports: ClosedPositionReport[] = [];
+
+    for (const position of positions) {
+      const markPrice = prices[position.tokenAddress] || position.currentPrice || position.averagePrice;
+      const base = {
+        positionId: position.id,
+        tokenAddress: position.tokenAddress,
+        tokenSymbol: position.tokenSymbol,
+        tradingMode: position.tradingMode,
+        quantity: position.amount,
+        markPrice
+      };
+
+      try {
+        const fill = await marketSell({
+          userId,
+          tradingMode: position.tradingMode,
+          tokenAddress: position.tokenAddress,
+          tokenSymbol: position.tokenSymbol ?? undefined,
+          quantity: position.amount,
+          price: markPrice,
+          maxSlippage,
+          metadata: { killSwitch: true, trigger, reason }
+        });
+
+        const remainingQuantity = Math.max(position.amount - fill.quantity, 0);
+        reports.push({
+          ...base,
+          status: remainingQuantity > DUST ? 'PARTIAL' : 'CLOSED',
+          soldQuantity: fill.quantity,
+          remainingQuantity,
+          fillPrice: fill.price,
+          realizedPnl: fill.realizedPnl,
+          tradeId: fill.tradeId
+        });
+      } catch (error) {
+        console.error(`Kill switch failed to close position ${position.id}:`, error);
+        reports.push({
+          ...base,
+          status: 'FAILED',
+          soldQuantity: 0,
+          remainingQuantity: position.amount,
+          fillPrice: null,
+          realizedPnl: 0,
+          tradeId: null,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Persist the report and notify the user. Best effort.
+   */
+  private async publish(report: KillSwitchReport): Promise<void> {
+    const closed = report.positions.filter(position => position.status === 'CLOSED').length;
+    const message = `${report.reason}. Closed ${closed} of ${report.positions.length} positions, realized PnL ${report.realizedPnl.toFixed(2)}`;
+
+    try {
+      await this.prisma.systemLog.create({
+        data: {
+          level: 'WARN',
+          module: 'KILL_SWITCH',
+          message,
+          metadata: report as unknown as Prisma.InputJsonValue
+        }
+      });
+    } catch (error) {
+      console.error('Failed to write kill switch report:', error);
+    }
+
+    const notification: NotificationJob = {
+      level: 'ERROR',
+      title: 'Kill switch activated',
+      message,
+      metadata: { trigger: report.trigger, positions: report.positions.length, realizedPnl: report.realizedPnl }
+    };
+    try {
+      await jobQueue.enqueue('notifications', notification, { userId: report.userId });
+    } catch (error) {
+      console.error('Failed to queue kill switch notification:', error);
+    }
+  }
+}
+
+const globalForKillSwitch = globalThis as unknown as {
+  killSwitch: KillSwitch | undefined
+};
+
+export const killSwitch = globalForKillSwitch.killSwitch ?? new KillSwitch();
+
+globalForKillSwitch.killSwitch = killSwitch;
@@ -0,0 +1,284 @@
+import { MarketData, MarketRegime } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+import {
+  HeliusRealtimeMonitor,
+  TokenSwapEvent,
+  TransactionEvent,
+  heliusRealtimeMonitor,
+} from '@/lib/helius/realtimeMonitor';
+
+const DETECTION_INTERVAL_MS = Number(process.env.MARKET_REGIME_INTERVAL_MS || 5 * 60 * 1000);
+const WIN_RATE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const BASELINE_READINGS = 12;
+const MAX_KNOWN_MINTS = 50000;
+const QUOTE_MINTS = new Set<string>([TOKEN_ADDRESSES.SOL, TOKEN_ADDRESSES.USDC, TOKEN_ADDRESSES.USDT]);
+
+/**
+ * Market activity over one detection window. Stream-derived values are null
+ * when the Helius stream delivered nothing in the window.
+ */
+export interface MarketStats {
+  solanaVolume: number | null;     // SOL traded in observed swaps
+  solanaTokenCount: number | null; // Tokens swapped for the first time since boot
+  avgWinRate: number | null;       // Share of recent closed trades that made money
+  winRateSamples: number;
+  mevCompetition: number | null;   // 0-1, failed transaction share on the stream and in our own trades
+  streamEvents: number;
+  streamStale: boolean;            // The stream was live earlier but went silent
+}
+
+export interface MarketBaseline {
+  solanaVolume: number | null;     // Median over recent readings
+  solanaTokenCount: number | null;
+}
+
+export interface MarketRegimeThresholds {
+  minWinRate: number;
+  minWinRateSamples: number;
+  maxMevCompetition: number;
+  minActivityRatio: number; // Volume and new tokens, against the baseline
+}
+
+export interface MarketRegimeReading {
+  regime: MarketRegime;
+  reasons: string[];
+  stats: MarketStats;
+}
+
+export const DEFAULT_MARKET_REGIME_THRESHOLDS: MarketRegimeThresholds = {
+  minWinRate: 0.30,
+  minWinRateSamples: 5,
+  maxMevCompetition: 0.35,
+  minActivityRatio: 0.4
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * MAINTENANCE when forced or the stream went stale; RISK_OFF when recent
+ * trades mostly lose, MEV competition is high or activity collapsed against
+ * the baseline; GREENLIGHT otherwise.
+ */
+export function classifyMarketRegime(
+  stats: MarketStats,
+  baseline: MarketBaseline,
+  thresholds: MarketRegimeThresholds = DEFAULT_MARKET_REGIME_THRESHOLDS
+): { regime: MarketRegime; reasons: string[] } {
+  if (process.env.MARKET_REGIME_MAINTENANCE === 'true') {
+    return { regime: 'MAINTENANCE', reasons: ['Maintenance mode enabled'] };
+  }
+  if (stats.streamStale) {
+    return { regime: 'MAINTENANCE', reasons: ['Helius stream stopped delivering events'] };
+  }
+
+  const reasons: string[] = [];
+
+  if (stats.avgWinRate !== null && stats.winRateSamples >= thresholds.minWinRateSamples && stats.avgWinRate < thresholds.minWinRate) {
+    reasons.push(`Win rate ${(stats.avgWinRate * 100).toFixed(0)}% below ${(thresholds.minWinRate * 100).toFixed(0)}%`);
+  }
+
+  if (stats.mevCompetition !== null && stats.mevCompetition > thresholds.maxMevCompetition) {
+    reasons.push(`MEV competition ${(stats.mevCompetition * 100).toFixed(0)}% above ${(thresholds.maxMevCompetition * 100).toFixed(0)}%`);
+  }
+
+  const volumeCollapsed = stats.solanaVolume !== null && baseline.solanaVolume
+    && stats.solanaVolume < baseline.solanaVolume * thresholds.minActivityRatio;
+  const launchesCollapsed = stats.solanaTokenCount !== null && baseline.solanaTokenCount
+    && stats.solanaTokenCount < baseline.solanaTokenCount * thresholds.minActivityRatio;
+  if (volumeCollapsed && launchesCollapsed) {
+    reasons.push('Volume and new token activity collapsed against the recent baseline');
+  }
+
+  return { regime: reasons.length > 0 ? 'RISK_OFF' : 'GREENLIGHT', reasons };
+}
+
+/**
+ * Classifies the market on a schedule from the Helius realtime stream and our
+ * own trade history, and persists each reading to MarketData. Today's
+ * RiskMetrics rows follow the regime's greenlight.
+ */
+export class MarketRegimeDetector {
+  private prisma = prisma;
+  private scheduler?: NodeJS.Timeout;
+  private attached?: HeliusRealtimeMonitor;
+  private swaps: { timestamp: number; solAmount: number; newMints: number }[] = [];
+  private transactions: { timestamp: number; success: boolean }[] = [];
+  private knownMints = new Set<string>();
+  private lastEventAt: number | null = null;
+  private windowStart = Date.now();
+  private current: MarketData | null = null;
+
+  private onSwap = (event: TokenSwapEvent) => {
+    let solAmount = 0;
+    if (event.inputMint === TOKEN_ADDRESSES.SOL) solAmount = event.inputAmount;
+    else if (event.outputMint === TOKEN_ADDRESSES.SOL) solAmount = event.outputAmount;
+
+    let newMints = 0;
+    for (const mint of [event.inputMint, event.outputMint]) {
+      if (!mint || QUOTE_MINTS.has(mint) || this.knownMints.has(mint)) continue;
+      if (this.knownMints.size >= MAX_KNOWN_MINTS) this.knownMints.clear();
+      this.knownMints.add(mint);
+      newMints++;
+    }
+
+    this.swaps.push({ timestamp: Date.now(), solAmount, newMints });
+    this.lastEventAt = Date.now();
+  };
+
+  private onTransaction = (event: TransactionEvent) => {
+    this.transactions.push({ timestamp: Date.now(), success: event.success });
+    this.lastEventAt = Date.now();
+  };
+
+  attach(monitor: HeliusRealtimeMonitor = heliusRealtimeMonitor): void {
+    if (this.attached) return;
+    this.attached = monitor;
+    monitor.on('tokenSwap', this.onSwap);
+    monitor.on('transaction', this.onTransaction);
+  }
+
+  detach(): void {
+    this.attached?.off('tokenSwap', this.onSwap);
+    this.attached?.off('transaction', this.onTransaction);
+    this.attached = undefined;
+  }
+
+  /**
+   * Stats for the window since the last detection. Consumes the buffered
+   * stream events.
+   */
+  async collect(now: Date = new Date()): Promise<MarketStats> {
+    const swaps = this.swaps;
+    const transactions = this.transactions;
+    const windowStart = this.windowStart;
+    this.swaps = [];
+    this.transactions = [];
+    this.windowStart = now.getTime();
+
+    const streamEvents = swaps.length + transactions.length;
+    const streamStale = streamEvents === 0 && this.lastEventAt !== null && this.lastEventAt <= windowStart;
+
+    const since = new Date(now.getTime() - WIN_RATE_LOOKBACK_MS);
+    const [closedTrades, ownAttempts, ownFailures] = await Promise.all([
+      this.prisma.trade.findMany({
+        where: { type: 'SELL', status: 'EXECUTED', createdAt: { gte: since } },
+        select: { pnl: true }
+      }),
+      this.prisma.trade.count({
+        where: { tradingMode: 'LIVE', status: { in: ['EXECUTED', 'FAILED'] }, createdAt: { gte: new Date(windowStart) } }
+      }),
+      this.prisma.trade.count({
+        where: { tradingMode: 'LIVE', status: 'FAILED', createdAt: { gte: new Date(windowStart) } }
+      })
+    ]);
+
+    const competition: number[] = [];
+    if (transactions.length > 0) {
+      competition.push(transactions.filter(transaction => !transaction.success).length / transactions.length);
+    }
+    if (ownAttempts > 0) {
+      competition.push(ownFailures / ownAttempts);
+    }
+
+    return {
+      solanaVolume: swaps.length > 0 ? swaps.reduce((sum, swap) => sum + swap.solAmount, 0) : null,
+      solanaTokenCount: swaps.length > 0 ? swaps.reduce((sum, swap) => sum + swap.newMints, 0) : null,
+      avgWinRate: closedTrades.length > 0 ? closedTrades.filter(trade => trade.pnl > 0).length / closedTrades.length : null,
+      winRateSamples: closedTrades.length,
+      mevCompetition: competition.length > 0 ? competition.reduce((sum, value) => sum + value, 0) / competition.length : null,
+      streamEvents,
+      streamStale
+    };
+  }
+
+  async detect(): Promise<MarketRegimeReading> {
+    const stats = await this.collect();
+
+    const history = await this.prisma.marketData.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: BASELINE_READINGS
+    });
+    const baseline: MarketBaseline = {
+      solanaVolume: median(history.flatMap(row => (row.solanaVolume !== null ? [row.solanaVolume] : []))),
+      solanaTokenCount: median(history.flatMap(row => (row.solanaTokenCount !== null ? [row.solanaTokenCount] : [])))
+    };
+
+    const { regime, reasons } = classifyMarketRegime(stats, baseline);
+    const previous = this.current ?? history[0] ?? null;
+
+    this.current = await this.prisma.marketData.create({
+      data: {
+        solanaVolume: stats.solanaVolume,
+        solanaTokenCount: stats.solanaTokenCount,
+        avgWinRate: stats.avgWinRate,
+        mevCompetition: stats.mevCompetition,
+        currentRegime: regime
+      }
+    });
+
+    if (previous?.currentRegime !== regime) {
+      console.log(`🌡️ Market regime ${previous?.currentRegime ?? 'UNKNOWN'} -> ${regime}${reasons.length ? `: ${reasons.join('; ')}` : ''}`);
+      await this.syncGreenlight(regime);
+    }
+
+    return { regime, reasons, stats };
+  }
+
+  /**
+   * Latest regime, or null when there is no recent reading
+   */
+  async getCurrentRegime(): Promise<MarketRegime | null> {
+    this.current ??= await this.prisma.marketData.findFirst({ orderBy: { createdAt: 'desc' } });
+    if (!this.current) return null;
+
+    const age = Date.now() - this.current.createdAt.getTime();
+    return age <= DETECTION_INTERVAL_MS * 3 ? this.current.currentRegime : null;
+  }
+
+  startScheduler(): void {
+    if (this.scheduler) return;
+    this.attach();
+
+    this.scheduler = setInterval(() => {
+      this.detect().catch(error => console.error('Market regime detection failed:', error));
+    }, DETECTION_INTERVAL_MS);
+  }
+
+  stopScheduler(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+    this.detach();
+  }
+
+  private async syncGreenlight(regime: MarketRegime): Promise<void> {
+    const now = new Date();
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    await this.prisma.riskMetrics.updateMany({
+      where: { date },
+      data: { isGreenlight: false }
+    });
+    if (regime === 'GREENLIGHT') {
+      await this.prisma.riskMetrics.updateMany({
+        where: { date, riskLevel: { not: 'HIGH' } },
+        data: { isGreenlight: true }
+      });
+    }
+  }
+}
+
+const globalForMarketRegime = globalThis as unknown as {
+  marketRegimeDetector: MarketRegimeDetector | undefined
+};
+
+export const marketRegimeDetector = globalForMarketRegime.marketRegimeDetector ?? new MarketRegimeDetector();
+
+globalForMarketRegime.marketRegimeDetector = marketRegimeDetector;
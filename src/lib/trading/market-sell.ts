@@ -0,0 +1,223 @@
+import { TradingMode } from '@prisma/client';
+import { walletManager } from '@/lib/wallets/manager';
+import type { ExitPlan } from './exit-plan';
+import { positionLedger } from './position-ledger';
+import { paperExecutionEngine } from './paper-execution-engine';
+
+const DEFAULT_LIVE_MAX_SLIPPAGE = 0.03;
+
+export interface MarketSellRequest {
+  userId: string;
+  tradingMode: TradingMode;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  quantity: number;
+  price: number;         // Reference price the sell was decided at
+  maxSlippage?: number;  // Fraction; paper fills beyond it are partial
+  signalId?: string;
+  strategyId?: string;
+  leaderWalletId?: string;
+  walletId?: string;     // Live sells default to the wallet that last bought the token
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Live buys spend solAmount through the swap executor; paper buys spend its
+ * value at solPrice, since paper portfolios are kept in the price currency
+ */
+export interface MarketBuyRequest {
+  userId: string;
+  tradingMode: TradingMode;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  solAmount: number;
+  solPrice: number;
+  price: number;         // Reference token price the buy was decided at
+  maxSlippage?: number;  // Fraction; paper fills beyond it are partial
+  signalId?: string;
+  strategyId?: string;
+  leaderWalletId?: string;
+  walletId?: string;     // Live buys default to the user's default trading wallet
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  maxHoldUntil?: Date;
+  exitPlan?: ExitPlan;   // Exit orders for the entry; defaults to the stop-loss and take-profit prices
+  metadata?: Record<string, unknown>;
+}
+
+export interface MarketSellFill {
+  tradeId: string;
+  quantity: number;
+  price: number;
+  realizedPnl: number;
+}
+
+export type MarketBuyFill = MarketSellFill;
+
+/**
+ * Sell tokens at market in the position's trading mode and record the fill
+ * through the ledger. Throws when nothing was sold.
+ */
+export async function marketSell(request: MarketSellRequest): Promise<MarketSellFill> {
+  const { userId, tokenAddress, tokenSymbol, quantity, price, maxSlippage, signalId, strategyId, leaderWalletId, walletId, metadata } = request;
+
+  if (request.tradingMode === 'PAPER') {
+    const { fill, recorded } = await paperExecutionEngine.executeAndRecord({
+      side: 'SELL',
+      tokenAddress,
+      tokenSymbol,
+      price,
+      quantity,
+      maxPriceImpact: maxSlippage
+    }, { userId, signalId, strategyId, leaderWalletId, metadata });
+
+    if (!recorded) {
+      throw new Error(`Paper sell rejected: ${fill.reason}`);
+    }
+    return { tradeId: recorded.tradeId, quantity: recorded.quantity, price: fill.averagePrice, realizedPnl: recorded.realizedPnl };
+  }
+
+  const wallet = walletId
+    ? await walletManager.resolve(userId, { walletId })
+    : await walletManager.resolveHolding(userId, tokenAddress);
+  const result = await walletManager.createExecutor(wallet).executeTrade({
+    tokenAddress,
+    action: 'SELL',
+    amount: quantity,
+    maxSlippage: (maxSlippage ?? DEFAULT_LIVE_MAX_SLIPPAGE) * 100,
+    priority: 'HIGH'
+  });
+
+  if (!result.success) {
+    // A submitted swap that failed or expired is kept with its signature and fee
+    if (result.txHash) {
+      await positionLedger.recordFailure({
+        userId,
+        side: 'SELL',
+        tokenAddress,
+        tokenSymbol,
+        quantity,
+        estimatedPrice: price,
+        fees: result.fees || 0,
+        txHash: result.txHash,
+        blockNumber: result.slot,
+        error: result.error || 'Swap failed',
+        signalId,
+        strategyId,
+        leaderWalletId,
+        walletId: wallet.id,
+        metadata
+      });
+    }
+    throw new Error(`Live sell failed: ${result.error}`);
+  }
+
+  const fillPrice = result.executionPrice || price;
+  const recorded = await positionLedger.recordFill({
+    userId,
+    tradingMode: 'LIVE',
+    side: 'SELL',
+    tokenAddress,
+    tokenSymbol,
+    quantity: result.actualAmount || quantity, // Tokens the swap actually sold
+    price: fillPrice,
+    estimatedPrice: price,
+    fees: result.fees || 0,
+    slippage: result.slippage || 0,
+    txHash: result.txHash,
+    blockNumber: result.slot,
+    signalId,
+    strategyId,
+    leaderWalletId,
+    walletId: wallet.id,
+    metadata
+  });
+
+  return { tradeId: recorded.tradeId, quantity: recorded.quantity, price: fillPrice, realizedPnl: recorded.realizedPnl };
+}
+
+/**
+ * Buy tokens at market in the given trading mode and record the fill through
+ * the ledger. Throws when nothing was bought.
+ */
+export async function marketBuy(request: MarketBuyRequest): Promise<MarketBuyFill> {
+  const { userId, tokenAddress, tokenSymbol, solAmount, solPrice, price, maxSlippage, signalId, strategyId, leaderWalletId, walletId, metadata } = request;
+  const exits = {
+    stopLossPrice: request.stopLossPrice,
+    takeProfitPrice: request.takeProfitPrice,
+    maxHoldUntil: request.maxHoldUntil,
+    exitPlan: request.exitPlan
+  };
+
+  if (request.tradingMode === 'PAPER') {
+    const { fill, recorded } = await paperExecutionEngine.executeAndRecord({
+      side: 'BUY',
+      tokenAddress,
+      tokenSymbol,
+      price,
+      quoteAmount: solAmount * solPrice,
+      maxPriceImpact: maxSlippage
+    }, { userId, signalId, strategyId, leaderWalletId, ...exits, metadata });
+
+    if (!recorded) {
+      throw new Error(`Paper buy rejected: ${fill.reason}`);
+    }
+    return { tradeId: recorded.tradeId, quantity: recorded.quantity, price: fill.averagePrice, realizedPnl: recorded.realizedPnl };
+  }
+
+  const wallet = await walletManager.resolve(userId, { walletId });
+  const result = await walletManager.createExecutor(wallet).executeTrade({
+    tokenAddress,
+    action: 'BUY',
+    amount: solAmount,
+    maxSlippage: (maxSlippage ?? DEFAULT_LIVE_MAX_SLIPPAGE) * 100,
+    priority: 'HIGH'
+  });
+
+  if (!result.success) {
+    if (result.txHash) {
+      await positionLedger.recordFailure({
+        userId,
+        side: 'BUY',
+        tokenAddress,
+        tokenSymbol,
+        quantity: (solAmount * solPrice) / price,
+        estimatedPrice: price,
+        fees: result.fees || 0,
+        txHash: result.txHash,
+        blockNumber: result.slot,
+        error: result.error || 'Swap failed',
+        signalId,
+        strategyId,
+        leaderWalletId,
+        walletId: wallet.id,
+        metadata
+      });
+    }
+    throw new Error(`Live buy failed: ${result.error}`);
+  }
+
+  const fillPrice = result.executionPrice || price;
+  const recorded = await positionLedger.recordFill({
+    userId,
+    tradingMode: 'LIVE',
+    side: 'BUY',
+    tokenAddress,
+    tokenSymbol,
+    quantity: result.actualAmount || (solAmount * solPrice) / fillPrice,
+    price: fillPrice,
+    estimatedPrice: price,
+    fees: result.fees || 0,
+    slippage: result.slippage || 0,
+    txHash: result.txHash,
+    blockNumber: result.slot,
+    signalId,
+    strategyId,
+    leaderWalletId,
+    walletId: wallet.id,
+    ...exits,
+    metadata
+  });
+
+  return { tradeId: recorded.tradeId, quantity: recorded.quantity, price: fillPrice, realizedPnl: recorded.realizedPnl };
+}
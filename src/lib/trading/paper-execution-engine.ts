@@ -0,0 +1,261 @@
+import type { ExitPlan } from './exit-plan';
+import { positionLedger, RecordedFill } from './position-ledger';
+import { fetchTokenPrices } from './token-prices';
+
+export interface PaperFillSettings {
+  latencyMs: number;          // Time between decision and landing on-chain
+  latencyJitterMs: number;    // Uniform random extra latency
+  ammFeeRate: number;         // Pool swap fee, e.g. 0.0025 for 0.25%
+  priorityFee: number;        // Quote-currency priority fee per transaction
+  networkFee: number;         // Quote-currency base fee per transaction
+  maxPriceImpact: number;     // Fraction; the order is partially filled beyond this
+  defaultLiquidity: number;   // Pool liquidity assumed when a signal carries none
+}
+
+export const DEFAULT_PAPER_FILL_SETTINGS: PaperFillSettings = {
+  latencyMs: Number(process.env.PAPER_LATENCY_MS || 400),
+  latencyJitterMs: Number(process.env.PAPER_LATENCY_JITTER_MS || 200),
+  ammFeeRate: 0.0025,
+  priorityFee: Number(process.env.PAPER_PRIORITY_FEE || 0.0001),
+  networkFee: 0.000005,
+  maxPriceImpact: 0.02,
+  defaultLiquidity: 50000
+};
+
+/**
+ * BUY orders spend quoteAmount; SELL orders sell quantity tokens. Liquidity is
+ * the pool's total value in the quote currency, split evenly between reserves.
+ */
+export interface PaperOrder {
+  side: 'BUY' | 'SELL';
+  tokenAddress: string;
+  tokenSymbol?: string;
+  tokenName?: string;
+  price: number;
+  liquidity?: number;
+  quoteAmount?: number;
+  quantity?: number;
+  maxPriceImpact?: number;
+}
+
+export interface PaperFill {
+  status: 'FILLED' | 'PARTIAL' | 'REJECTED';
+  reason?: string;
+  side: 'BUY' | 'SELL';
+  midPrice: number;
+  averagePrice: number;
+  quantity: number;
+  quoteAmount: number;
+  fillRatio: number;
+  priceImpact: number;
+  fees: {
+    amm: number;
+    priority: number;
+    network: number;
+    total: number;
+  };
+  latencyMs: number;
+}
+
+export interface PaperFillContext {
+  userId: string;
+  signalId?: string;
+  strategyId?: string;
+  leaderWalletId?: string;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  maxHoldUntil?: Date;
+  exitPlan?: ExitPlan;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Returns the token's price once the simulated latency has elapsed, or null to
+ * keep the order's reference price.
+ */
+export type PaperPriceFeed = (tokenAddress: string) => Promise<number | null>;
+
+/**
+ * Re-prices paper orders from the Jupiter price API
+ */
+export const jupiterPriceFeed: PaperPriceFeed = async (tokenAddress) => {
+  const prices = await fetchTokenPrices([tokenAddress]);
+  return prices[tokenAddress] ?? null;
+};
+
+/**
+ * Simulates swaps against a constant-product (x * y = k) pool. Orders are
+ * delayed by the configured latency, re-priced, capped at the maximum price
+ * impact and charged pool and transaction fees before being recorded through
+ * the same ledger as live fills.
+ */
+export class PaperExecutionEngine {
+  private settings: PaperFillSettings;
+
+  constructor(settings: Partial<PaperFillSettings> = {}, private priceFeed?: PaperPriceFeed) {
+    this.settings = { ...DEFAULT_PAPER_FILL_SETTINGS, ...settings };
+  }
+
+  /**
+   * Pure fill calculation at a given mid price, without latency or persistence.
+   */
+  simulateFill(order: PaperOrder, midPrice: number = order.price, latencyMs = 0): PaperFill {
+    const maxImpact = order.maxPriceImpact ?? this.settings.maxPriceImpact;
+    const liquidity = order.liquidity && order.liquidity > 0 ? order.liquidity : this.settings.defaultLiquidity;
+    const transactionFees = this.settings.priorityFee + this.settings.networkFee;
+
+    const rejected = (reason: string): PaperFill => ({
+      status: 'REJECTED',
+      reason,
+      side: order.side,
+      midPrice,
+      averagePrice: 0,
+      quantity: 0,
+      quoteAmount: 0,
+      fillRatio: 0,
+      priceImpact: 0,
+      fees: { amm: 0, priority: 0, network: 0, total: 0 },
+      latencyMs
+    });
+
+    if (!(midPrice > 0)) {
+      return rejected('No price available');
+    }
+
+    // Pool reserves: x in quote currency, y in tokens
+    const quoteReserve = liquidity / 2;
+    const tokenReserve = quoteReserve / midPrice;
+
+    let quantity: number;
+    let quoteAmount: number;
+    let averagePrice: number;
+    let ammFee: number;
+    let fillRatio: number;
+
+    if (order.side === 'BUY') {
+      const requested = order.quoteAmount ?? 0;
+      if (requested <= transactionFees) {
+        return rejected('Order too small to cover transaction fees');
+      }
+
+      // Execution price relative to mid is 1 + dx / x, so impact caps dx at x * maxImpact
+      const requestedIn = (requested - transactionFees) * (1 - this.settings.ammFeeRate);
+      const quoteIn = Math.min(requestedIn, quoteReserve * maxImpact);
+
+      quantity = (tokenReserve * quoteIn) / (quoteReserve + quoteIn);
+      averagePrice = quoteIn / quantity;
+      ammFee = quoteIn * this.settings.ammFeeRate / (1 - this.settings.ammFeeRate);
+      quoteAmount = quoteIn + ammFee + transactionFees;
+      fillRatio = quoteIn / requestedIn;
+    } else {
+      const requested = order.quantity ?? 0;
+      if (requested <= 0) {
+        return rejected('Nothing to sell');
+      }
+
+      // Execution price relative to mid is y / (y + q), so impact caps q at s * y / (1 - s)
+      quantity = Math.min(requested, (maxImpact * tokenReserve) / (1 - maxImpact));
+
+      const grossOut = (quoteReserve * quantity) / (tokenReserve + quantity);
+      averagePrice = grossOut / quantity;
+      ammFee = grossOut * this.settings.ammFeeRate;
+      quoteAmount = grossOut - ammFee - transactionFees;
+      fillRatio = quantity / requested;
+
+      if (quoteAmount <= 0) {
+        return rejected('Proceeds do not cover transaction fees');
+      }
+    }
+
+    return {
+      status: fillRatio < 0.999999 ? 'PARTIAL' : 'FILLED',
+      side: order.side,
+      midPrice,
+      averagePrice,
+      quantity,
+      quoteAmount,
+      fillRatio,
+      priceImpact: Math.abs(averagePrice - midPrice) / midPrice,
+      fees: {
+        amm: ammFee,
+        priority: this.settings.priorityFee,
+        network: this.settings.networkFee,
+        total: ammFee + transactionFees
+      },
+      latencyMs
+    };
+  }
+
+  /**
+   * Wait out the simulated latency, re-price the token and compute the fill.
+   */
+  async execute(order: PaperOrder): Promise<PaperFill> {
+    const latencyMs = Math.round(this.settings.latencyMs + Math.random() * this.settings.latencyJitterMs);
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    let midPrice = order.price;
+    if (this.priceFeed) {
+      try {
+        midPrice = (await this.priceFeed(order.tokenAddress)) ?? order.price;
+      } catch (error) {
+        console.error(`Paper price feed failed for ${order.tokenAddress}:`, error);
+      }
+    }
+
+    return this.simulateFill(order, midPrice, latencyMs);
+  }
+
+  /**
+   * Execute a paper order and record the filled portion to Trade, Position and
+   * Portfolio. Rejected orders are returned without a ledger entry.
+   */
+  async executeAndRecord(
+    order: PaperOrder,
+    context: PaperFillContext
+  ): Promise<{ fill: PaperFill; recorded: RecordedFill | null }> {
+    const fill = await this.execute(order);
+    if (fill.status === 'REJECTED') {
+      return { fill, recorded: null };
+    }
+
+    const recorded = await positionLedger.recordFill({
+      userId: context.userId,
+      tradingMode: 'PAPER',
+      side: order.side,
+      tokenAddress: order.tokenAddress,
+      tokenSymbol: order.tokenSymbol,
+      tokenName: order.tokenName,
+      quantity: fill.quantity,
+      price: fill.averagePrice,
+      estimatedPrice: order.price,
+      fees: fill.fees.total,
+      slippage: fill.priceImpact * 100,
+      priorityFee: fill.fees.priority,
+      txHash: `paper-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      signalId: context.signalId,
+      strategyId: context.strategyId,
+      leaderWalletId: context.leaderWalletId,
+      stopLossPrice: context.stopLossPrice,
+      takeProfitPrice: context.takeProfitPrice,
+      maxHoldUntil: context.maxHoldUntil,
+      exitPlan: context.exitPlan,
+      metadata: {
+        ...context.metadata,
+        paperFill: {
+          status: fill.status,
+          midPrice: fill.midPrice,
+          fillRatio: fill.fillRatio,
+          quoteAmount: fill.quoteAmount,
+          latencyMs: fill.latencyMs,
+          fees: fill.fees
+        }
+      }
+    });
+
+    return { fill, recorded };
+  }
+}
+
+export const paperExecutionEngine = new PaperExecutionEngine({}, jupiterPriceFeed);
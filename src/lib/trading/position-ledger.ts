@@ -0,0 +1,365 @@
+import { Prisma, TradingMode } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { signalAttribution } from '@/lib/signal-sources/attribution';
+import { equitySnapshots } from './equity-snapshots';
+import { ExitPlan, buildExitOrders, fixedExitPlan } from './exit-plan';
+
+const MAX_SERIALIZATION_RETRIES = 3;
+const DUST = 1e-9;
+
+/**
+ * An executed fill, live or simulated. Quantities are in tokens and prices in
+ * the quote currency; fees are quote-currency totals for the whole fill.
+ */
+export interface ExecutedFill {
+  userId: string;
+  tradingMode: TradingMode;
+  side: 'BUY' | 'SELL';
+  tokenAddress: string;
+  tokenSymbol?: string;
+  tokenName?: string;
+  quantity: number;
+  price: number;
+  estimatedPrice?: number;
+  fees: number;
+  slippage?: number; // percent
+  priorityFee?: number;
+  txHash?: string;
+  blockNumber?: number; // Slot a live fill landed in
+  executedAt?: Date;    // When a live fill landed; defaults to now
+  pendingTradeId?: string; // PENDING Trade row the fill settles; updated in place instead of creating one
+  signalId?: string;
+  strategyId?: string;
+  leaderWalletId?: string; // Copied wallet the fill mirrors
+  walletId?: string;       // Wallet a live fill was signed with
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  maxHoldUntil?: Date;
+  exitPlan?: ExitPlan; // Exit orders for a BUY; defaults to the stop-loss and take-profit prices
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A live swap that was submitted but failed on chain or expired. Nothing was
+ * bought or sold, but a transaction that landed still paid its fee.
+ */
+export interface FailedExecution {
+  userId: string;
+  side: 'BUY' | 'SELL';
+  tokenAddress: string;
+  tokenSymbol?: string;
+  quantity: number; // Requested amount
+  estimatedPrice?: number;
+  fees: number;     // Network fee paid, in the quote currency
+  txHash: string;
+  blockNumber?: number;
+  error: string;
+  signalId?: string;
+  strategyId?: string;
+  leaderWalletId?: string;
+  walletId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RecordedFill {
+  tradeId: string;
+  portfolioId: string;
+  positionId: string | null;
+  quantity: number;
+  realizedPnl: number;
+  costBasis: number;
+  positionClosed: boolean;
+}
+
+/**
+ * Position accounting for every BUY and SELL, paper or live.
+ *
+ * Cost basis is weighted-average: buys blend into `averagePrice`, sells
+ * realize (price - averagePrice) * quantity less fees and leave the average
+ * unchanged. Buy fees are realized immediately. The Trade row, Position and
+ * Portfolio rollups are written in one serializable transaction so
+ * concurrent fills on the same position cannot interleave. A BUY with exit
+ * levels gets its exit orders in the same transaction, and a SELL that
+ * closes the position cancels whatever exit orders are left. A fill that
+ * settles a pending trade throws if that trade was settled meanwhile.
+ */
+export class PositionLedger {
+  private prisma = prisma;
+
+  async recordFill(fill: ExecutedFill): Promise<RecordedFill> {
+    if (!(fill.quantity > 0) || !(fill.price > 0)) {
+      throw new Error(`Invalid fill: quantity ${fill.quantity} @ ${fill.price}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const recorded = await this.prisma.$transaction(
+          tx => this.applyFill(tx, fill),
+          { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+        );
+
+        // The fill is committed; a failed snapshot is picked up by the next scheduled one
+        try {
+          await equitySnapshots.snapshot(recorded.portfolioId, 'TRADE');
+        } catch (error) {
+          console.error(`Failed to snapshot equity after trade ${recorded.tradeId}:`, error);
+        }
+
+        return recorded;
+      } catch (error) {
+        // P2034: write conflict or deadlock, safe to retry the whole fill
+        const retryable = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+        if (!retryable || attempt >= MAX_SERIALIZATION_RETRIES) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a FAILED live trade; positions and portfolio rollups are untouched
+   */
+  async recordFailure(failure: FailedExecution): Promise<string> {
+    const portfolio = await this.activePortfolio(this.prisma, failure.userId, 'LIVE');
+    const trade = await this.prisma.trade.create({
+      data: {
+        userId: failure.userId,
+        portfolioId: portfolio.id,
+        signalId: failure.signalId,
+        strategyId: failure.strategyId,
+        leaderWalletId: failure.leaderWalletId,
+        walletId: failure.walletId,
+        type: failure.side,
+        status: 'FAILED',
+        tokenAddress: failure.tokenAddress,
+        tokenSymbol: failure.tokenSymbol,
+        amount: failure.quantity,
+        estimatedPrice: failure.estimatedPrice,
+        fees: failure.fees,
+        txHash: failure.txHash,
+        blockNumber: failure.blockNumber,
+        errorMessage: failure.error,
+        tradingMode: 'LIVE',
+        metadata: failure.metadata as Prisma.InputJsonValue | undefined
+      }
+    });
+    return trade.id;
+  }
+
+  private async applyFill(tx: Prisma.TransactionClient, fill: ExecutedFill): Promise<RecordedFill> {
+    if (fill.pendingTradeId) {
+      const pending = await tx.trade.count({
+        where: { id: fill.pendingTradeId, userId: fill.userId, status: 'PENDING' }
+      });
+      if (!pending) {
+        throw new Error(`Trade ${fill.pendingTradeId} is no longer pending`);
+      }
+    }
+
+    const portfolio = await this.activePortfolio(tx, fill.userId, fill.tradingMode);
+
+    const positionKey = {
+      portfolioId_tokenAddress_tradingMode: {
+        portfolioId: portfolio.id,
+        tokenAddress: fill.tokenAddress,
+        tradingMode: fill.tradingMode
+      }
+    };
+    const existing = await tx.position.findUnique({ where: positionKey });
+
+    const executedAt = fill.executedAt ?? new Date();
+    let quantity = fill.quantity;
+    let realizedPnl: number;
+    let costBasis: number;
+    let pnlPercentage = 0;
+    let positionId: string | null = existing?.id ?? null;
+    let positionClosed = false;
+
+    if (fill.side === 'BUY') {
+      realizedPnl = -fill.fees;
+      costBasis = fill.price * quantity;
+
+      const heldAmount = existing && existing.amount > DUST ? existing.amount : 0;
+      const newAmount = heldAmount + quantity;
+      const averagePrice = heldAmount > 0
+        ? ((existing!.averagePrice * heldAmount) + costBasis) / newAmount
+        : fill.price;
+
+      const position = await tx.position.upsert({
+        where: positionKey,
+        update: {
+          amount: newAmount,
+          averagePrice,
+          currentPrice: fill.price,
+          unrealizedPnl: (fill.price - averagePrice) * newAmount,
+          realizedPnl: { increment: realizedPnl },
+          tokenSymbol: fill.tokenSymbol,
+          tokenName: fill.tokenName,
+          stopLossPrice: fill.stopLossPrice,
+          takeProfitPrice: fill.takeProfitPrice,
+          maxHoldUntil: fill.maxHoldUntil
+        },
+        create: {
+          portfolioId: portfolio.id,
+          tokenAddress: fill.tokenAddress,
+          tokenSymbol: fill.tokenSymbol,
+          tokenName: fill.tokenName,
+          amount: quantity,
+          averagePrice: fill.price,
+          currentPrice: fill.price,
+          realizedPnl,
+          stopLossPrice: fill.stopLossPrice,
+          takeProfitPrice: fill.takeProfitPrice,
+          maxHoldUntil: fill.maxHoldUntil,
+          tradingMode: fill.tradingMode
+        }
+      });
+      positionId = position.id;
+    } else {
+      if (!existing || existing.amount <= DUST) {
+        throw new Error(`No open ${fill.tradingMode} position in ${fill.tokenAddress} to sell`);
+      }
+
+      // Partial closes realize PnL on the sold quantity only
+      quantity = Math.min(quantity, existing.amount);
+      costBasis = existing.averagePrice * quantity;
+      realizedPnl = (fill.price - existing.averagePrice) * quantity - fill.fees;
+      pnlPercentage = costBasis > 0 ? (realizedPnl / costBasis) * 100 : 0;
+
+      const remaining = existing.amount - quantity;
+      positionClosed = remaining <= DUST;
+
+      await tx.position.update({
+        where: { id: existing.id },
+        data: {
+          amount: positionClosed ? 0 : remaining,
+          currentPrice: fill.price,
+          unrealizedPnl: positionClosed ? 0 : (fill.price - existing.averagePrice) * remaining,
+          realizedPnl: { increment: realizedPnl }
+        }
+      });
+
+      if (positionClosed) {
+        await tx.exitOrder.updateMany({
+          where: { positionId: existing.id, status: 'ACTIVE' },
+          data: { status: 'CANCELLED' }
+        });
+      }
+    }
+
+    const tradeData: Prisma.TradeUncheckedCreateInput = {
+      userId: fill.userId,
+      portfolioId: portfolio.id,
+      signalId: fill.signalId,
+      strategyId: fill.strategyId,
+      leaderWalletId: fill.leaderWalletId,
+      walletId: fill.walletId,
+      type: fill.side,
+      status: 'EXECUTED',
+      tokenAddress: fill.tokenAddress,
+      tokenSymbol: fill.tokenSymbol,
+      tokenName: fill.tokenName,
+      amount: quantity,
+      price: fill.price,
+      estimatedPrice: fill.estimatedPrice,
+      slippage: fill.slippage,
+      fees: fill.fees,
+      priorityFee: fill.priorityFee,
+      txHash: fill.txHash,
+      blockNumber: fill.blockNumber,
+      executedAt,
+      pnl: realizedPnl,
+      pnlPercentage,
+      tradingMode: fill.tradingMode,
+      metadata: {
+        ...fill.metadata,
+        costBasis,
+        costBasisMethod: 'AVERAGE'
+      } as Prisma.InputJsonValue
+    };
+    const trade = fill.pendingTradeId
+      ? await tx.trade.update({ where: { id: fill.pendingTradeId }, data: tradeData })
+      : await tx.trade.create({ data: tradeData });
+
+    const exitPlan = fill.side === 'BUY'
+      ? fill.exitPlan ?? fixedExitPlan(fill.stopLossPrice, fill.takeProfitPrice)
+      : undefined;
+    if (exitPlan && positionId) {
+      await tx.exitOrder.createMany({ data: buildExitOrders(positionId, trade.id, quantity, exitPlan) });
+    }
+
+    if (fill.side === 'BUY' && fill.signalId) {
+      await signalAttribution.recordEntry(tx, {
+        tradeId: trade.id,
+        signalId: fill.signalId,
+        userId: fill.userId,
+        tradingMode: fill.tradingMode,
+        tokenAddress: fill.tokenAddress,
+        quantity,
+        price: fill.price,
+        fees: fill.fees,
+        executedAt
+      });
+    } else if (fill.side === 'SELL') {
+      await signalAttribution.recordExit(tx, {
+        userId: fill.userId,
+        tradingMode: fill.tradingMode,
+        tokenAddress: fill.tokenAddress,
+        heldQuantity: existing!.amount,
+        soldQuantity: quantity,
+        realizedPnl,
+        executedAt
+      });
+    }
+
+    await this.rollupPortfolio(tx, portfolio.id, fill.side === 'SELL', realizedPnl);
+
+    return {
+      tradeId: trade.id,
+      portfolioId: portfolio.id,
+      positionId,
+      quantity,
+      realizedPnl,
+      costBasis,
+      positionClosed
+    };
+  }
+
+  private async activePortfolio(tx: Prisma.TransactionClient, userId: string, tradingMode: TradingMode) {
+    const portfolio = await tx.portfolio.findFirst({
+      where: { userId, tradingMode, isActive: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    return portfolio ?? tx.portfolio.create({ data: { userId, tradingMode } });
+  }
+
+  /**
+   * Only closing trades count towards win rate; every fill counts as a trade
+   */
+  private async rollupPortfolio(
+    tx: Prisma.TransactionClient,
+    portfolioId: string,
+    isClose: boolean,
+    realizedPnl: number
+  ): Promise<void> {
+    const updated = await tx.portfolio.update({
+      where: { id: portfolioId },
+      data: {
+        currentEquity: { increment: realizedPnl },
+        totalPnl: { increment: realizedPnl },
+        dailyPnl: { increment: realizedPnl },
+        totalTrades: { increment: 1 },
+        winningTrades: { increment: isClose && realizedPnl > 0 ? 1 : 0 },
+        losingTrades: { increment: isClose && realizedPnl <= 0 ? 1 : 0 }
+      }
+    });
+
+    const closedTrades = updated.winningTrades + updated.losingTrades;
+    await tx.portfolio.update({
+      where: { id: portfolioId },
+      data: { winRate: closedTrades > 0 ? updated.winningTrades / closedTrades : 0 }
+    });
+  }
+}
+
+export const positionLedger = new PositionLedger();
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import type { Strategy } from '@prisma/client';
+import { RuleEvaluation, RuleNode, RuleSubject, evaluateRule, ruleNodeSchema } from './strategy-rules';
+
+export const STRATEGY_CONFIG_VERSION = 1;
+
+export const strategyTypeSchema = z.enum(['MOMENTUM', 'SCALPING', 'MEAN_REVERSION']);
+export const strategyRiskLevelSchema = z.enum(['LOW', 'MEDIUM', 'HIGH']);
+export const entrySizingSchema = z.enum(['FIXED', 'CONFIDENCE_SCALED']);
+
+export type StrategyType = z.infer<typeof strategyTypeSchema>;
+export type StrategyRiskLevel = z.infer<typeof strategyRiskLevelSchema>;
+
+/**
+ * Simple threshold filters offered by the strategies form. They are
+ * compiled into a rule tree; only the rule tree is stored.
+ */
+const strategyFiltersSchema = z.object({
+  minConfidence: z.number().min(0).max(1),
+  minLiquidity: z.number().min(0),
+  maxRugRisk: z.number().min(0).max(1),
+  minPriceChange24h: z.number().nullable(),
+  maxPriceChange24h: z.number().nullable(),
+});
+
+const strategyEntrySchema = z.object({
+  sizing: entrySizingSchema,
+  maxTradeAmount: z.number().positive(),
+});
+
+/**
+ * stopLoss / takeProfit are percentages, matching the strategies page form
+ */
+const strategyExitSchema = z.object({
+  stopLoss: z.number().positive().max(100),
+  takeProfit: z.number().positive().max(1000),
+  maxHoldingMinutes: z.number().positive().nullable(),
+});
+
+/**
+ * Versioned shape of Strategy.config
+ */
+export const strategyConfigSchema = z.object({
+  version: z.literal(STRATEGY_CONFIG_VERSION),
+  type: strategyTypeSchema,
+  riskLevel: strategyRiskLevelSchema,
+  rules: ruleNodeSchema,
+  entry: strategyEntrySchema,
+  exit: strategyExitSchema,
+});
+
+export type StrategyConfig = z.infer<typeof strategyConfigSchema>;
+export type StrategyFilters = z.infer<typeof strategyFiltersSchema>;
+
+/**
+ * Request body accepted when creating or updating a strategy. `rules`
+ * replaces the form filters entirely when supplied. `walletId` picks the
+ * wallet live trades sign with; null falls back to the default wallet.
+ */
+export const strategyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  type: strategyTypeSchema,
+  riskLevel: strategyRiskLevelSchema,
+  maxTradeAmount: z.number().positive(),
+  stopLoss: z.number().positive().max(100),
+  takeProfit: z.number().positive().max(1000),
+  sizing: entrySizingSchema.optional(),
+  maxHoldingMinutes: z.number().positive().nullable().optional(),
+  filters: strategyFiltersSchema.partial().optional(),
+  rules: ruleNodeSchema.optional(),
+  walletId: z.string().min(1).nullable().optional(),
+});
+
+export type StrategyInput = z.infer<typeof strategyInputSchema>;
+
+const RISK_LEVEL_MIN_CONFIDENCE: Record<StrategyRiskLevel, number> = {
+  LOW: 0.75,
+  MEDIUM: 0.6,
+  HIGH: 0.45,
+};
+
+// Signal filters each strategy type starts from
+const STRATEGY_TYPE_FILTERS: Record<StrategyType, Omit<StrategyFilters, 'minConfidence'>> = {
+  MOMENTUM: {
+    minLiquidity: 20000,
+    maxRugRisk: 0.5,
+    minPriceChange24h: 10,
+    maxPriceChange24h: null,
+  },
+  SCALPING: {
+    minLiquidity: 50000,
+    maxRugRisk: 0.3,
+    minPriceChange24h: null,
+    maxPriceChange24h: null,
+  },
+  MEAN_REVERSION: {
+    minLiquidity: 30000,
+    maxRugRisk: 0.4,
+    minPriceChange24h: null,
+    maxPriceChange24h: -15,
+  },
+};
+
+export function defaultStrategyFilters(type: StrategyType, riskLevel: StrategyRiskLevel): StrategyFilters {
+  return {
+    minConfidence: RISK_LEVEL_MIN_CONFIDENCE[riskLevel],
+    ...STRATEGY_TYPE_FILTERS[type],
+  };
+}
+
+/**
+ * Compile form filters into the equivalent rule tree. Liquidity and rug risk
+ * pass when a source does not report them; price-change bounds require data.
+ */
+export function filtersToRules(filters: StrategyFilters): RuleNode {
+  const rules: RuleNode[] = [
+    { field: 'confidence', op: 'gte', value: filters.minConfidence },
+    { field: 'metadata.liquidity', op: 'gte', value: filters.minLiquidity, ifMissing: 'pass' },
+    { field: 'metadata.rugRisk', op: 'lte', value: filters.maxRugRisk, ifMissing: 'pass' },
+  ];
+
+  if (filters.minPriceChange24h !== null) {
+    rules.push({ field: 'metadata.priceChange24h', op: 'gte', value: filters.minPriceChange24h });
+  }
+  if (filters.maxPriceChange24h !== null) {
+    rules.push({ field: 'metadata.priceChange24h', op: 'lte', value: filters.maxPriceChange24h });
+  }
+
+  return { all: rules };
+}
+
+/**
+ * Build a current-version config from validated form input
+ */
+export function buildStrategyConfig(input: Omit<StrategyInput, 'name' | 'description' | 'walletId'>): StrategyConfig {
+  const rules = input.rules ?? filtersToRules({
+    ...defaultStrategyFilters(input.type, input.riskLevel),
+    ...input.filters,
+  });
+
+  return strategyConfigSchema.parse({
+    version: STRATEGY_CONFIG_VERSION,
+    type: input.type,
+    riskLevel: input.riskLevel,
+    rules,
+    entry: {
+      sizing: input.sizing ?? 'CONFIDENCE_SCALED',
+      maxTradeAmount: input.maxTradeAmount,
+    },
+    exit: {
+      stopLoss: input.stopLoss,
+      takeProfit: input.takeProfit,
+      maxHoldingMinutes: input.maxHoldingMinutes ?? null,
+    },
+  });
+}
+
+/**
+ * Parse a stored Strategy.config. Throws a ZodError if the config is invalid.
+ */
+export function parseStrategyConfig(raw: unknown): StrategyConfig {
+  return strategyConfigSchema.parse(raw);
+}
+
+/**
+ * Evaluate a live signal against a strategy's rule tree
+ */
+export function evaluateStrategy(config: StrategyConfig, signal: RuleSubject): RuleEvaluation {
+  return evaluateRule(config.rules, signal);
+}
+
+/**
+ * Shape returned by the strategies API and consumed by the strategies page
+ */
+export function serializeStrategy(strategy: Strategy) {
+  return {
+    id: strategy.id,
+    name: strategy.name,
+    description: strategy.description,
+    status: strategy.status,
+    totalTrades: strategy.totalTrades,
+    winRate: strategy.winRate,
+    totalPnl: strategy.totalPnl,
+    isActive: strategy.isActive,
+    walletId: strategy.walletId,
+    createdAt: strategy.createdAt.toISOString(),
+    config: strategy.config,
+  };
+}
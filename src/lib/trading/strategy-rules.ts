@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import type { RealTimeSignal } from '../websocket-manager';
+
+/**
+ * Fields a rule may read. Lookups go through this table only, so a stored
+ * rule can never reach anything else on the signal or the runtime.
+ */
+const RULE_FIELD_READERS = {
+  confidence: (s: RuleSubject) => s.confidence,
+  price: (s: RuleSubject) => s.price,
+  volume: (s: RuleSubject) => s.volume,
+  action: (s: RuleSubject) => s.action,
+  source: (s: RuleSubject) => s.source,
+  symbol: (s: RuleSubject) => s.symbol,
+  tokenAddress: (s: RuleSubject) => s.tokenAddress,
+  'metadata.marketCap': (s: RuleSubject) => s.metadata?.marketCap,
+  'metadata.liquidity': (s: RuleSubject) => s.metadata?.liquidity,
+  'metadata.holderCount': (s: RuleSubject) => s.metadata?.holderCount,
+  'metadata.priceChange24h': (s: RuleSubject) => s.metadata?.priceChange24h,
+  'metadata.rugRisk': (s: RuleSubject) => s.metadata?.rugRisk,
+  'metadata.devWalletPercent': (s: RuleSubject) => s.metadata?.devWalletPercent,
+} as const;
+
+export const MAX_RULE_DEPTH = 8;
+export const MAX_RULE_NODES = 64;
+
+export const ruleFieldSchema = z.enum(Object.keys(RULE_FIELD_READERS) as [RuleField, ...RuleField[]]);
+export const ruleOperatorSchema = z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'in', 'notIn', 'between']);
+
+export type RuleField = keyof typeof RULE_FIELD_READERS;
+export type RuleOperator = z.infer<typeof ruleOperatorSchema>;
+type RuleScalar = number | string | boolean;
+
+/**
+ * Anything a rule can be evaluated against. Live signals satisfy it fully;
+ * backtests supply whatever their dataset recorded.
+ */
+export type RuleSubject = Partial<Omit<RealTimeSignal, 'metadata'>> & {
+  metadata?: RealTimeSignal['metadata'];
+};
+
+export interface RuleCondition {
+  field: RuleField;
+  op: RuleOperator;
+  value: RuleScalar | RuleScalar[];
+  // Outcome when the signal does not carry the field (default: fail)
+  ifMissing?: 'pass' | 'fail';
+  label?: string;
+}
+
+export type RuleNode =
+  | RuleCondition
+  | { all: RuleNode[]; label?: string }
+  | { any: RuleNode[]; label?: string }
+  | { not: RuleNode; label?: string };
+
+export interface RuleEvaluation {
+  rule: string;
+  passed: boolean;
+  actual?: unknown;
+  children?: RuleEvaluation[];
+}
+
+const ruleScalarSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+const ruleConditionSchema = z.object({
+  field: ruleFieldSchema,
+  op: ruleOperatorSchema,
+  value: z.union([ruleScalarSchema, z.array(ruleScalarSchema).max(100)]),
+  ifMissing: z.enum(['pass', 'fail']).optional(),
+  label: z.string().max(100).optional(),
+}).strict().superRefine((condition, ctx) => {
+  const { op, value } = condition;
+  if (op === 'in' || op === 'notIn') {
+    if (!Array.isArray(value)) {
+      ctx.addIssue({ code: 'custom', message: `${op} requires an array value`, path: ['value'] });
+    }
+  } else if (op === 'between') {
+    if (!Array.isArray(value) || value.length !== 2 || value.some(v => typeof v !== 'number')) {
+      ctx.addIssue({ code: 'custom', message: 'between requires [min, max] numbers', path: ['value'] });
+    }
+  } else if (op !== 'eq' && op !== 'neq' && typeof value !== 'number') {
+    ctx.addIssue({ code: 'custom', message: `${op} requires a numeric value`, path: ['value'] });
+  } else if (Array.isArray(value)) {
+    ctx.addIssue({ code: 'custom', message: `${op} requires a single value`, path: ['value'] });
+  }
+});
+
+const ruleNodeShape: z.ZodType<RuleNode> = z.lazy(() => z.union([
+  ruleConditionSchema,
+  z.object({ all: z.array(ruleNodeShape).min(1), label: z.string().max(100).optional() }).strict(),
+  z.object({ any: z.array(ruleNodeShape).min(1), label: z.string().max(100).optional() }).strict(),
+  z.object({ not: ruleNodeShape, label: z.string().max(100).optional() }).strict(),
+]));
+
+/**
+ * Validated rule tree, bounded in depth and size so evaluation stays cheap
+ */
+export const ruleNodeSchema = ruleNodeShape.superRefine((node, ctx) => {
+  const { depth, nodes } = measureRule(node);
+  if (depth > MAX_RULE_DEPTH) {
+    ctx.addIssue({ code: 'custom', message: `Rule tree is nested deeper than ${MAX_RULE_DEPTH} levels` });
+  }
+  if (nodes > MAX_RULE_NODES) {
+    ctx.addIssue({ code: 'custom', message: `Rule tree has more than ${MAX_RULE_NODES} rules` });
+  }
+});
+
+function measureRule(node: RuleNode): { depth: number; nodes: number } {
+  const children = 'all' in node ? node.all : 'any' in node ? node.any : 'not' in node ? [node.not] : [];
+  let depth = 0;
+  let nodes = 1;
+  for (const child of children) {
+    const measured = measureRule(child);
+    depth = Math.max(depth, measured.depth);
+    nodes += measured.nodes;
+  }
+  return { depth: depth + 1, nodes };
+}
+
+/**
+ * Evaluate a rule tree against a signal. Every branch is evaluated, even
+ * after the outcome is known, so the explanation covers all rules.
+ */
+export function evaluateRule(node: RuleNode, subject: RuleSubject): RuleEvaluation {
+  if ('all' in node) {
+    const children = node.all.map(child => evaluateRule(child, subject));
+    return { rule: node.label || 'ALL', passed: children.every(c => c.passed), children };
+  }
+
+  if ('any' in node) {
+    const children = node.any.map(child => evaluateRule(child, subject));
+    return { rule: node.label || 'ANY', passed: children.some(c => c.passed), children };
+  }
+
+  if ('not' in node) {
+    const child = evaluateRule(node.not, subject);
+    return { rule: node.label || 'NOT', passed: !child.passed, children: [child] };
+  }
+
+  const actual = RULE_FIELD_READERS[node.field](subject);
+  const rule = node.label || `${node.field} ${node.op} ${JSON.stringify(node.value)}`;
+
+  if (actual === undefined || actual === null) {
+    return { rule, passed: node.ifMissing === 'pass', actual: null };
+  }
+
+  return { rule, passed: compare(actual, node.op, node.value), actual };
+}
+
+function compare(actual: RuleScalar, op: RuleOperator, expected: RuleScalar | RuleScalar[]): boolean {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'between':
+      return typeof actual === 'number' && Array.isArray(expected)
+        && actual >= (expected[0] as number) && actual <= (expected[1] as number);
+  }
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+
+  switch (op) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+  }
+}
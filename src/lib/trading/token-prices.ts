@@ -0,0 +1,22 @@
+/**
+ * Current USD prices from the Jupiter price API, keyed by mint
+ */
+export async function fetchTokenPrices(tokenAddresses: string[]): Promise<Record<string, number>> {
+  const ids = Array.from(new Set(tokenAddresses));
+  if (ids.length === 0) return {};
+
+  try {
+    const response = await fetch(`https://price.jup.ag/v4/price?ids=${ids.join(',')}`);
+    const data = await response.json() as { data?: Record<string, { price?: number }> };
+
+    const prices: Record<string, number> = {};
+    for (const id of ids) {
+      const price = data.data?.[id]?.price;
+      if (price) prices[id] = price;
+    }
+    return prices;
+  } catch (error) {
+    console.error('Failed to fetch token prices:', error);
+    return {};
+  }
+}
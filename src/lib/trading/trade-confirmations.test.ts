@@ -0,0 +1,88 @@
+import { LAMPORTS_PER_SOL, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { describe, expect, it, vi } from 'vitest';
+import { verifyTradeTransaction } from './trade-confirmations';
+
+// Verification reads only the transaction
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const WALLET = 'GmaDrppBC7P5ARKV8g3djiwP89vz1jLK23V2GBjuAEGB';
+const OTHER = '5JqHbWWhvtv2pakH6QbtcN81j7tStM2KKABiyJsRJAEb';
+const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const balance = (owner: string, amount: number, mint = MINT) => ({
+  accountIndex: 1,
+  mint,
+  owner,
+  uiTokenAmount: { amount: String(amount * 100000), decimals: 5, uiAmount: amount, uiAmountString: String(amount) }
+});
+
+// The signer pays a 5000 lamport fee on top of the SOL it trades
+const transaction = (
+  signer: string,
+  pre: ReturnType<typeof balance>[],
+  post: ReturnType<typeof balance>[],
+  sol = -0.5
+) => ({
+  transaction: {
+    message: {
+      accountKeys: [
+        { pubkey: new PublicKey(signer), signer: true, writable: true },
+        { pubkey: new PublicKey(MINT), signer: false, writable: false }
+      ]
+    }
+  },
+  meta: {
+    fee: 5000,
+    preBalances: [10 * LAMPORTS_PER_SOL, 1461600],
+    postBalances: [10 * LAMPORTS_PER_SOL + sol * LAMPORTS_PER_SOL - 5000, 1461600],
+    preTokenBalances: pre,
+    postTokenBalances: post
+  }
+}) as unknown as ParsedTransactionWithMeta;
+
+const expected = { walletAddresses: [WALLET], tokenAddress: MINT, side: 'BUY' as const, amount: 1000 };
+
+describe('verifyTradeTransaction', () => {
+  it('accepts a buy signed by the user\'s wallet and books what moved', () => {
+    expect(verifyTradeTransaction(transaction(WALLET, [], [balance(WALLET, 950)]), expected))
+      .toEqual({ valid: true, wallet: WALLET, quantity: 950, solAmount: 0.5 });
+  });
+
+  it('accepts a sell out of an existing balance', () => {
+    const sell = transaction(WALLET, [balance(WALLET, 1500)], [balance(WALLET, 500)], 0.2);
+
+    expect(verifyTradeTransaction(sell, { ...expected, side: 'SELL' }))
+      .toEqual({ valid: true, wallet: WALLET, quantity: 1000, solAmount: 0.2 });
+  });
+
+  it('rejects a transaction none of the user\'s wallets signed', () => {
+    const check = verifyTradeTransaction(transaction(OTHER, [], [balance(OTHER, 1000)]), expected);
+
+    expect(check).toEqual({ valid: false, reason: 'Transaction was not signed by any of your wallets' });
+  });
+
+  it('rejects a transaction moving the token the other way', () => {
+    const check = verifyTradeTransaction(transaction(WALLET, [balance(WALLET, 1000)], []), expected);
+
+    expect(check.valid).toBe(false);
+  });
+
+  it('rejects an amount far from the order', () => {
+    const check = verifyTradeTransaction(transaction(WALLET, [], [balance(WALLET, 10)]), expected);
+
+    expect(check).toEqual({ valid: false, reason: 'Transaction moved 10 tokens, not about 1000' });
+  });
+
+  it('rejects a swap that paid for the token with something other than SOL', () => {
+    const check = verifyTradeTransaction(transaction(WALLET, [], [balance(WALLET, 1000)], 0), expected);
+
+    expect(check).toEqual({ valid: false, reason: 'Transaction did not trade the token against SOL' });
+  });
+
+  it('rejects a transaction that did not touch the token', () => {
+    const other = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const check = verifyTradeTransaction(transaction(WALLET, [], [balance(WALLET, 1000, other)]), expected);
+
+    expect(check).toEqual({ valid: false, reason: `Transaction did not change your ${MINT} balance` });
+  });
+});
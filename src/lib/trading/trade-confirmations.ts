@@ -0,0 +1,274 @@
+import { Prisma, Trade } from '@prisma/client';
+import { Connection, LAMPORTS_PER_SOL, ParsedTransactionWithMeta, TokenBalance } from '@solana/web3.js';
+import { ConfirmationResult, ConfirmationTracker } from '@/lib/helius/confirmationTracker';
+import { TOKEN_ADDRESSES } from '@/lib/helius/config';
+import { HeliusClient } from '@/lib/helius/heliusClient';
+import { prisma } from '@/lib/prisma';
+import { positionLedger } from './position-ledger';
+import { fetchTokenPrices } from './token-prices';
+
+const SYNC_INTERVAL_MS = Number(process.env.TRADE_CONFIRMATION_SYNC_INTERVAL_MS || 30 * 1000);
+const SYNC_BATCH = 100;
+
+// How far the token amount that moved may be from the requested amount; slippage moves it
+const AMOUNT_TOLERANCE = 0.25;
+
+export interface ExpectedTradeTransaction {
+  walletAddresses: string[]; // The user's wallets
+  tokenAddress: string;
+  side: 'BUY' | 'SELL';
+  amount: number; // Tokens
+}
+
+export type TradeTransactionCheck =
+  | { valid: true; wallet: string; quantity: number; solAmount: number }
+  | { valid: false; reason: string };
+
+// An owner's balance of a mint across its token accounts, in tokens
+const tokenBalance = (balances: TokenBalance[] | null | undefined, mint: string, owner: string) =>
+  (balances ?? [])
+    .filter(balance => balance.mint === mint && balance.owner === owner)
+    .reduce((sum, balance) => sum + Number(balance.uiTokenAmount.uiAmountString ?? 0), 0);
+
+// An account's SOL balance change, leaving out the network fee it paid
+const solChange = (transaction: ParsedTransactionWithMeta, index: number) => {
+  const meta = transaction.meta;
+  if (!meta) return 0;
+  const fee = index === 0 ? meta.fee : 0; // The fee payer is the first account
+  return (meta.postBalances[index] - meta.preBalances[index] + fee) / LAMPORTS_PER_SOL;
+};
+
+/**
+ * Check that a landed transaction is the trade a user reported: one of their
+ * wallets signed it (the fee payer always does), that wallet's balance of the
+ * token moved in the trade's direction by roughly its amount, and its SOL
+ * moved the other way. A valid check carries the tokens and SOL that
+ * actually moved.
+ */
+export function verifyTradeTransaction(
+  transaction: ParsedTransactionWithMeta,
+  expected: ExpectedTradeTransaction
+): TradeTransactionCheck {
+  const accounts = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+  const wallets = accounts.filter((account, index) =>
+    transaction.transaction.message.accountKeys[index].signer && expected.walletAddresses.includes(account));
+  if (wallets.length === 0) {
+    return { valid: false, reason: 'Transaction was not signed by any of your wallets' };
+  }
+
+  for (const wallet of wallets) {
+    const change = tokenBalance(transaction.meta?.postTokenBalances, expected.tokenAddress, wallet)
+      - tokenBalance(transaction.meta?.preTokenBalances, expected.tokenAddress, wallet);
+    if (change === 0) continue;
+
+    if ((expected.side === 'BUY') !== (change > 0)) {
+      return { valid: false, reason: `Transaction ${change > 0 ? 'bought' : 'sold'} the token, not ${expected.side === 'BUY' ? 'bought' : 'sold'} it` };
+    }
+
+    const quantity = Math.abs(change);
+    if (Math.abs(quantity - expected.amount) > expected.amount * AMOUNT_TOLERANCE) {
+      return { valid: false, reason: `Transaction moved ${quantity} tokens, not about ${expected.amount}` };
+    }
+
+    // Buys pay SOL and sells receive it; a swap against another token cannot be priced
+    const sol = solChange(transaction, accounts.indexOf(wallet));
+    if ((expected.side === 'BUY') !== (sol < 0)) {
+      return { valid: false, reason: 'Transaction did not trade the token against SOL' };
+    }
+    return { valid: true, wallet, quantity, solAmount: Math.abs(sol) };
+  }
+
+  return { valid: false, reason: `Transaction did not change your ${expected.tokenAddress} balance` };
+}
+
+/**
+ * Settles live trades that were recorded PENDING with a submitted signature
+ * once the chain decides. A landed transaction is checked against the user's
+ * wallets and the trade before it is booked through the position ledger at
+ * the price the wallet paid in SOL, which marks the pending row EXECUTED with
+ * the slot, network fee and block time; price and fee are converted to the
+ * quote currency at the current SOL price. One that fails, is dropped or does not match is marked FAILED
+ * with the reason in errorMessage. Pending trades are picked up again on
+ * every sync, so a restart does not strand them.
+ */
+export class TradeConfirmations {
+  private prisma = prisma;
+  private ledger = positionLedger;
+  private connection?: Connection;
+  private tracker?: ConfirmationTracker;
+  private watching = new Set<string>(); // Trade ids being followed
+  private scheduler?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  start(): void {
+    if (this.scheduler) return;
+
+    this.sync().catch(error => console.error('Trade confirmation sync failed:', error));
+    this.scheduler = setInterval(() => {
+      this.sync().catch(error => console.error('Trade confirmation sync failed:', error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = undefined;
+    }
+  }
+
+  /**
+   * Follow every pending live trade with a signature not already followed
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        tradingMode: 'LIVE',
+        status: 'PENDING',
+        txHash: { not: null },
+        id: { notIn: [...this.watching] }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: SYNC_BATCH
+    });
+
+    for (const trade of trades) {
+      this.watch(trade);
+    }
+  }
+
+  /**
+   * Follow a pending trade's signature in the background and settle it
+   */
+  watch(trade: Pick<Trade, 'id' | 'txHash' | 'createdAt' | 'metadata'>): void {
+    if (!trade.txHash || this.watching.has(trade.id)) return;
+    this.watching.add(trade.id);
+
+    const metadata = (trade.metadata ?? {}) as { lastValidBlockHeight?: number };
+    this.tracker ??= new ConfirmationTracker(this.getConnection());
+    this.tracker.track(trade.txHash, {
+      lastValidBlockHeight: metadata.lastValidBlockHeight,
+      submittedAt: trade.createdAt
+    })
+      .then(result => this.settle(trade.id, result))
+      .catch(error => console.error(`Failed to settle trade ${trade.id}:`, error))
+      .finally(() => this.watching.delete(trade.id));
+  }
+
+  /**
+   * Record a final chain state on a trade that is still pending; trades
+   * settled or cancelled meanwhile are left alone. Throws, leaving the trade
+   * pending for the next sync, when the landed transaction cannot be read or
+   * priced yet.
+   */
+  async settle(tradeId: string, result: ConfirmationResult): Promise<boolean> {
+    const trade = await this.prisma.trade.findFirst({ where: { id: tradeId, status: 'PENDING' } });
+    if (!trade) return false;
+
+    if (result.status !== 'CONFIRMED') {
+      return this.fail(trade.id, result, result.error);
+    }
+
+    const transaction = await this.getConnection().getParsedTransaction(result.signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      throw new Error(`Transaction ${result.signature} is not available yet`);
+    }
+
+    const wallets = await this.prisma.wallet.findMany({
+      where: { userId: trade.userId },
+      select: { id: true, publicKey: true }
+    });
+    const check = verifyTradeTransaction(transaction, {
+      walletAddresses: wallets.map(wallet => wallet.publicKey),
+      tokenAddress: trade.tokenAddress,
+      side: trade.type,
+      amount: trade.amount
+    });
+    if (!check.valid) {
+      return this.fail(trade.id, result, check.reason);
+    }
+
+    const solPrice = await this.getSolPrice();
+    if (!solPrice) {
+      throw new Error('No SOL price available');
+    }
+
+    try {
+      await this.ledger.recordFill({
+        pendingTradeId: trade.id,
+        userId: trade.userId,
+        tradingMode: 'LIVE',
+        side: trade.type,
+        tokenAddress: trade.tokenAddress,
+        tokenSymbol: trade.tokenSymbol ?? undefined,
+        tokenName: trade.tokenName ?? undefined,
+        quantity: check.quantity,
+        price: (check.solAmount / check.quantity) * solPrice,
+        estimatedPrice: trade.estimatedPrice ?? undefined,
+        fees: (result.fee ?? 0) * solPrice,
+        txHash: result.signature,
+        blockNumber: result.slot ?? undefined,
+        executedAt: result.blockTime ? new Date(result.blockTime * 1000) : undefined,
+        signalId: trade.signalId ?? undefined,
+        walletId: wallets.find(wallet => wallet.publicKey === check.wallet)?.id,
+        metadata: { ...(trade.metadata as Record<string, unknown> | null), requestedAmount: trade.amount }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.fail(trade.id, result, `Landed on chain but could not be booked: ${message}`);
+    }
+
+    console.log(`✅ Trade ${trade.id} executed on chain: ${result.signature}`);
+    return true;
+  }
+
+  private async fail(tradeId: string, result: ConfirmationResult, reason: string | null): Promise<boolean> {
+    const data: Prisma.TradeUpdateManyMutationInput = {
+      status: 'FAILED',
+      txHash: result.signature,
+      blockNumber: result.slot,
+      errorMessage: reason,
+      executedAt: null
+    };
+    if (result.fee !== null) {
+      const solPrice = await this.getSolPrice();
+      if (solPrice) data.fees = result.fee * solPrice;
+    }
+
+    const { count } = await this.prisma.trade.updateMany({
+      where: { id: tradeId, status: 'PENDING' },
+      data
+    });
+
+    if (count > 0) {
+      console.log(`❌ Trade ${tradeId} failed: ${result.signature}${reason ? ` (${reason})` : ''}`);
+    }
+    return count > 0;
+  }
+
+  private async getSolPrice(): Promise<number | undefined> {
+    return (await fetchTokenPrices([TOKEN_ADDRESSES.SOL]))[TOKEN_ADDRESSES.SOL];
+  }
+
+  private getConnection(): Connection {
+    this.connection ??= new HeliusClient().getConnection();
+    return this.connection;
+  }
+}
+
+const globalForTradeConfirmations = globalThis as unknown as {
+  tradeConfirmations: TradeConfirmations | undefined
+};
+
+export const tradeConfirmations = globalForTradeConfirmations.tradeConfirmations ?? new TradeConfirmations();
+
+globalForTradeConfirmations.tradeConfirmations = tradeConfirmations;
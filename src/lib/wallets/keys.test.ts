@@ -0,0 +1,44 @@
+import { Keypair } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { encodeSecretKey, parseSecretKey } from './keys';
+
+// The all-zero seed; its 64-byte secret key starts with 32 zero bytes
+const SEED = new Uint8Array(32);
+const PUBLIC_KEY = '4zvwRjXUKGfvwnParsHAS3HuSVzV5cA4McphgmoCtajS';
+const BASE58_SECRET = `${'1'.repeat(32)}${PUBLIC_KEY}`;
+
+describe('parseSecretKey', () => {
+  it('reads a base58 secret key as Phantom exports it, keeping leading zero bytes', () => {
+    expect(parseSecretKey(BASE58_SECRET).publicKey.toBase58()).toBe(PUBLIC_KEY);
+  });
+
+  it('reads a Solana CLI JSON byte array', () => {
+    const json = JSON.stringify(Array.from(Keypair.fromSeed(SEED).secretKey));
+
+    expect(parseSecretKey(`  ${json}\n`).publicKey.toBase58()).toBe(PUBLIC_KEY);
+  });
+
+  it('takes a 32-byte base58 value as the seed', () => {
+    expect(parseSecretKey('1'.repeat(32)).publicKey.toBase58()).toBe(PUBLIC_KEY);
+  });
+
+  it('round-trips through encodeSecretKey', () => {
+    const keypair = Keypair.generate();
+
+    expect(parseSecretKey(encodeSecretKey(keypair)).secretKey).toEqual(keypair.secretKey);
+    expect(encodeSecretKey(Keypair.fromSeed(SEED))).toBe(BASE58_SECRET);
+  });
+
+  it('rejects malformed keys', () => {
+    expect(() => parseSecretKey('0OIl')).toThrow('Secret key must be a JSON byte array or a base58 string');
+    expect(() => parseSecretKey('[1, 2, 256]')).toThrow('Secret key JSON must be an array of bytes');
+    expect(() => parseSecretKey(PUBLIC_KEY.slice(0, 20))).toThrow(/Secret key must be 64 bytes/);
+  });
+
+  it('rejects a secret key whose public half does not match', () => {
+    const secret = Keypair.fromSeed(SEED).secretKey;
+    secret[63] ^= 1;
+
+    expect(() => parseSecretKey(JSON.stringify(Array.from(secret)))).toThrow('Secret key does not match its public key');
+  });
+});
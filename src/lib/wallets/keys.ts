@@ -0,0 +1,46 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+/**
+ * Read a secret key exported by a wallet: the JSON byte array written by the
+ * Solana CLI, or the base58 string Phantom and Solflare export. A 32-byte
+ * base58 value is taken as the seed.
+ */
+export function parseSecretKey(input: string): Keypair {
+  const value = input.trim();
+
+  let bytes: Uint8Array;
+  if (value.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new Error('Secret key is not a valid JSON array');
+    }
+    if (!Array.isArray(parsed) || !parsed.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+      throw new Error('Secret key JSON must be an array of bytes');
+    }
+    bytes = Uint8Array.from(parsed);
+  } else {
+    try {
+      bytes = bs58.decode(value);
+    } catch {
+      throw new Error('Secret key must be a JSON byte array or a base58 string');
+    }
+  }
+
+  if (bytes.length === 32) return Keypair.fromSeed(bytes);
+  if (bytes.length !== 64) {
+    throw new Error(`Secret key must be 64 bytes, got ${bytes.length}`);
+  }
+
+  try {
+    return Keypair.fromSecretKey(bytes);
+  } catch {
+    throw new Error('Secret key does not match its public key');
+  }
+}
+
+export function encodeSecretKey(keypair: Keypair): string {
+  return bs58.encode(keypair.secretKey);
+}
@@ -0,0 +1,318 @@
+import { Prisma, Wallet, WalletRole } from '@prisma/client';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { EncryptionService } from '@/lib/encryption';
+import { prisma } from '@/lib/prisma';
+import { RealTimeTradeExecutor } from '@/lib/real-time-trade-executor';
+import { signerPolicyOf } from '@/lib/signer/policy';
+import { createSigner } from '@/lib/signer/signer';
+import { encodeSecretKey, parseSecretKey } from './keys';
+
+// Vault wallets hold funds and are never handed to the executor
+const SIGNING_ROLES: WalletRole[] = ['TRADING', 'BURNER'];
+
+const walletRoleSchema = z.enum(['TRADING', 'VAULT', 'BURNER']);
+const labelSchema = z.string().trim().min(1).max(100);
+
+export const walletGenerateSchema = z.object({
+  label: labelSchema,
+  role: walletRoleSchema.optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const walletImportSchema = walletGenerateSchema.extend({
+  secretKey: z.string().trim().min(1).max(1000), // JSON byte array or base58
+});
+
+const programIdSchema = z.string().trim().refine(value => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid program ID');
+
+// Signing policy; null removes a limit and an empty list restores the default programs
+export const walletUpdateSchema = z.object({
+  label: labelSchema.optional(),
+  role: walletRoleSchema.optional(),
+  isDefault: z.boolean().optional(),
+  maxSolPerTransaction: z.number().positive().nullable().optional(),
+  dailySpendCapSol: z.number().positive().nullable().optional(),
+  allowedPrograms: z.array(programIdSchema).max(50).optional(),
+});
+
+export type WalletGenerateInput = z.infer<typeof walletGenerateSchema>;
+export type WalletImportInput = z.infer<typeof walletImportSchema>;
+
+export interface WalletSummary extends ReturnType<typeof serializeWallet> {
+  balance: number | null; // SOL; null when the RPC could not be reached
+  strategies: { id: string; name: string }[];
+}
+
+/**
+ * A wallet as the API returns it; the secret never leaves the server
+ */
+export function serializeWallet(wallet: Wallet) {
+  return {
+    id: wallet.id,
+    label: wallet.label,
+    publicKey: wallet.publicKey,
+    role: wallet.role,
+    isDefault: wallet.isDefault,
+    policy: signerPolicyOf(wallet),
+    createdAt: wallet.createdAt.toISOString(),
+  };
+}
+
+/**
+ * A request the wallet rules refuse; status is the HTTP status routes answer with
+ */
+export class WalletError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+/**
+ * A user's signing wallets. Secrets are stored encrypted and only decrypted
+ * by the signing service, which runs in the signing daemon when one is
+ * configured. Live trades sign with the strategy's wallet when it has one,
+ * otherwise with the user's default trading wallet; with neither there is
+ * nothing to sign with and the trade fails.
+ */
+export class WalletManager {
+  private prisma = prisma;
+  private connection?: Connection;
+  private migrated = new Set<string>(); // Users whose legacy settings key was checked
+
+  async list(userId: string): Promise<Wallet[]> {
+    await this.migrateLegacyKey(userId);
+    return this.prisma.wallet.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * Wallets with their SOL balances and the strategies assigned to them
+   */
+  async summarize(userId: string): Promise<WalletSummary[]> {
+    const wallets = await this.list(userId);
+    const strategies = await this.prisma.strategy.findMany({
+      where: { userId, walletId: { not: null } },
+      select: { id: true, name: true, walletId: true }
+    });
+    const balances = await Promise.all(wallets.map(wallet => this.getBalance(wallet.publicKey)));
+
+    return wallets.map((wallet, index) => ({
+      ...serializeWallet(wallet),
+      balance: balances[index],
+      strategies: strategies
+        .filter(strategy => strategy.walletId === wallet.id)
+        .map(strategy => ({ id: strategy.id, name: strategy.name }))
+    }));
+  }
+
+  get(id: string, userId: string): Promise<Wallet | null> {
+    return this.prisma.wallet.findFirst({ where: { id, userId } });
+  }
+
+  generate(userId: string, input: WalletGenerateInput): Promise<Wallet> {
+    return this.create(userId, Keypair.generate(), input);
+  }
+
+  import(userId: string, input: WalletImportInput): Promise<Wallet> {
+    let keypair: Keypair;
+    try {
+      keypair = parseSecretKey(input.secretKey);
+    } catch (error) {
+      throw new WalletError(error instanceof Error ? error.message : 'Invalid secret key');
+    }
+    return this.create(userId, keypair, input);
+  }
+
+  async update(id: string, userId: string, data: z.infer<typeof walletUpdateSchema>): Promise<Wallet | null> {
+    const existing = await this.get(id, userId);
+    if (!existing) return null;
+
+    const role = data.role ?? existing.role;
+    if (role === 'VAULT') {
+      if (data.isDefault) throw new WalletError('A vault wallet cannot be the default trading wallet');
+      const assigned = await this.prisma.strategy.count({ where: { walletId: id } });
+      if (assigned > 0) throw new WalletError('Unassign this wallet from its strategies before making it a vault', 409);
+    }
+
+    const isDefault = role === 'TRADING' ? data.isDefault ?? existing.isDefault : false;
+    return this.prisma.$transaction(async tx => {
+      if (isDefault && !existing.isDefault) {
+        await tx.wallet.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.wallet.update({
+        where: { id },
+        data: {
+          label: data.label,
+          role,
+          isDefault,
+          maxSolPerTransaction: data.maxSolPerTransaction,
+          dailySpendCapSol: data.dailySpendCapSol,
+          allowedPrograms: data.allowedPrograms
+        }
+      });
+    });
+  }
+
+  /**
+   * Removing the default wallet leaves none selected; live trading stops
+   * until the user picks another rather than moving to a wallet they did not choose
+   */
+  async remove(id: string, userId: string): Promise<boolean> {
+    const { count } = await this.prisma.wallet.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Check a wallet can be assigned to one of the user's strategies
+   */
+  async assertAssignable(walletId: string, userId: string): Promise<void> {
+    const wallet = await this.get(walletId, userId);
+    if (!wallet) throw new WalletError('Wallet not found', 404);
+    if (!SIGNING_ROLES.includes(wallet.role)) {
+      throw new WalletError(`A ${wallet.role.toLowerCase()} wallet cannot be assigned to a strategy`);
+    }
+  }
+
+  /**
+   * The wallet a live trade signs with: the one asked for, else the
+   * strategy's, else the user's default trading wallet
+   */
+  async resolve(userId: string, options: { walletId?: string | null; strategyId?: string | null } = {}): Promise<Wallet> {
+    await this.migrateLegacyKey(userId);
+
+    let walletId = options.walletId;
+    if (!walletId && options.strategyId) {
+      const strategy = await this.prisma.strategy.findFirst({
+        where: { id: options.strategyId, userId },
+        select: { walletId: true }
+      });
+      walletId = strategy?.walletId;
+    }
+
+    const wallet = walletId
+      ? await this.get(walletId, userId)
+      : await this.prisma.wallet.findFirst({ where: { userId, role: 'TRADING', isDefault: true } });
+
+    if (!wallet) {
+      throw new WalletError(walletId ? 'Wallet not found' : 'No default trading wallet selected', 409);
+    }
+    if (!SIGNING_ROLES.includes(wallet.role)) {
+      throw new WalletError(`Wallet ${wallet.label} is a vault and cannot trade`, 409);
+    }
+    return wallet;
+  }
+
+  /**
+   * The wallet that bought a token last, so exits sell from where the tokens are
+   */
+  async resolveHolding(userId: string, tokenAddress: string): Promise<Wallet> {
+    const lastBuy = await this.prisma.trade.findFirst({
+      where: { userId, tokenAddress, tradingMode: 'LIVE', type: 'BUY', status: 'EXECUTED', walletId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { walletId: true }
+    });
+    return this.resolve(userId, { walletId: lastBuy?.walletId });
+  }
+
+  /**
+   * A new executor signing with the wallet; callers that listen for its
+   * trade events keep their own
+   */
+  createExecutor(wallet: Wallet): RealTimeTradeExecutor {
+    return new RealTimeTradeExecutor(createSigner(wallet));
+  }
+
+  async getBalance(publicKey: string): Promise<number | null> {
+    this.connection ??= new Connection(process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com', 'confirmed');
+    try {
+      return (await this.connection.getBalance(new PublicKey(publicKey))) / LAMPORTS_PER_SOL;
+    } catch (error) {
+      console.error(`Failed to fetch balance of wallet ${publicKey}:`, error);
+      return null;
+    }
+  }
+
+  private async create(userId: string, keypair: Keypair, input: WalletGenerateInput): Promise<Wallet> {
+    const role = input.role ?? 'TRADING';
+    if (role !== 'TRADING' && input.isDefault) {
+      throw new WalletError(`A ${role.toLowerCase()} wallet cannot be the default trading wallet`);
+    }
+
+    try {
+      return await this.prisma.$transaction(async tx => {
+        // The first trading wallet becomes the default
+        const current = role === 'TRADING'
+          ? await tx.wallet.findFirst({ where: { userId, isDefault: true }, select: { id: true } })
+          : null;
+        const isDefault = role === 'TRADING' && (input.isDefault ?? !current);
+        if (isDefault && current) {
+          await tx.wallet.update({ where: { id: current.id }, data: { isDefault: false } });
+        }
+
+        return tx.wallet.create({
+          data: {
+            userId,
+            label: input.label,
+            publicKey: keypair.publicKey.toBase58(),
+            encryptedSecret: EncryptionService.encrypt(encodeSecretKey(keypair)),
+            role,
+            isDefault
+          }
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new WalletError('This wallet has already been added', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move the single key UserSettings used to hold into a default trading wallet
+   */
+  private async migrateLegacyKey(userId: string): Promise<void> {
+    if (this.migrated.has(userId)) return;
+
+    const settings = await this.prisma.userSettings.findUnique({
+      where: { userId },
+      select: { tradingWalletPrivateKey: true }
+    });
+    if (settings?.tradingWalletPrivateKey) {
+      try {
+        const secret = EncryptionService.decrypt(settings.tradingWalletPrivateKey);
+        // The settings form took the 32-byte seed as hex
+        const keypair = /^[a-fA-F0-9]{64}$/.test(secret)
+          ? Keypair.fromSeed(Uint8Array.from(Buffer.from(secret, 'hex')))
+          : parseSecretKey(secret);
+        await this.create(userId, keypair, { label: 'Trading wallet', role: 'TRADING' }).catch(error => {
+          if (!(error instanceof WalletError && error.status === 409)) throw error;
+        });
+        await this.prisma.userSettings.update({ where: { userId }, data: { tradingWalletPrivateKey: null } });
+        console.log(`🔑 Moved the settings trading key of user ${userId} into a wallet`);
+      } catch (error) {
+        console.error(`Failed to migrate the settings trading key of user ${userId}:`, error);
+      }
+    }
+    this.migrated.add(userId);
+  }
+}
+
+const globalForWallets = globalThis as unknown as {
+  walletManager: WalletManager | undefined
+};
+
+export const walletManager = globalForWallets.walletManager ?? new WalletManager();
+
+globalForWallets.walletManager = walletManager;
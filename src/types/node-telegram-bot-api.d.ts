@@ -0,0 +1,53 @@
+// The subset of node-telegram-bot-api used for signal ingestion; the package ships no types
+declare module 'node-telegram-bot-api' {
+  namespace TelegramBot {
+    interface Chat {
+      id: number;
+      type: 'private' | 'group' | 'supergroup' | 'channel';
+      title?: string;
+      username?: string;
+    }
+
+    interface User {
+      id: number;
+      is_bot: boolean;
+      first_name: string;
+      username?: string;
+    }
+
+    interface Message {
+      message_id: number;
+      chat: Chat;
+      date: number; // Unix seconds
+      from?: User;
+      author_signature?: string;
+      text?: string;
+      caption?: string;
+    }
+
+    interface ConstructorOptions {
+      polling?: boolean | {
+        autoStart?: boolean;
+        interval?: number;
+        params?: { timeout?: number; allowed_updates?: string[] };
+      };
+    }
+
+    interface PollingError extends Error {
+      code?: string;
+      response?: { statusCode?: number };
+    }
+  }
+
+  class TelegramBot {
+    constructor(token: string, options?: TelegramBot.ConstructorOptions);
+    on(event: 'message' | 'channel_post', listener: (message: TelegramBot.Message) => void): this;
+    on(event: 'polling_error', listener: (error: TelegramBot.PollingError) => void): this;
+    startPolling(options?: { restart?: boolean }): Promise<void>;
+    stopPolling(options?: { cancel?: boolean; reason?: string }): Promise<void>;
+    isPolling(): boolean;
+    getMe(): Promise<TelegramBot.User>;
+  }
+
+  export = TelegramBot;
+}